@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPipelineEventHub, getPipelineJobQueue, type PipelineEvent } from '@/lib/pipeline';
+
+export const dynamic = 'force-dynamic';
+
+// Comment lines keep proxies from closing an idle stream during long Gemini calls
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+/**
+ * Server-Sent Events stream for a pipeline job. Sends a `snapshot` of the job
+ * first, then `step`, `video_progress` and `status` events as they happen, and
+ * closes once the job has completed or failed.
+ */
+export async function GET(request: NextRequest, { params }: { params: { jobId: string } }) {
+  const { jobId } = params;
+  const queue = getPipelineJobQueue();
+  const job = await queue.getJob(jobId);
+
+  if (!job) {
+    return NextResponse.json(
+      { success: false, error: `Pipeline job not found: ${jobId}` },
+      { status: 404 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      // Events that arrive before the snapshot is sent are replayed after it
+      let buffered: PipelineEvent[] | null = [];
+
+      const send = (event: PipelineEvent) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`));
+      };
+
+      const heartbeat = setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(': heartbeat\n\n'));
+      }, HEARTBEAT_INTERVAL_MS);
+
+      const forward = (event: PipelineEvent) => {
+        send(event);
+        if (event.type === 'status' && (event.status === 'completed' || event.status === 'failed')) {
+          close();
+        }
+      };
+
+      const unsubscribe = getPipelineEventHub().subscribe(jobId, event => {
+        if (buffered) {
+          buffered.push(event);
+        } else {
+          forward(event);
+        }
+      });
+
+      cleanup = () => {
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+
+      const close = () => {
+        if (closed) return;
+        cleanup();
+        controller.close();
+      };
+
+      request.signal.addEventListener('abort', cleanup);
+
+      // Take the snapshot after subscribing so no step falls between the two
+      const snapshot = await queue.getJob(jobId) || job;
+      send({ type: 'snapshot', job: snapshot });
+      if (snapshot.status === 'completed' || snapshot.status === 'failed') {
+        close();
+        return;
+      }
+
+      const pending = buffered;
+      buffered = null;
+      pending.forEach(forward);
+    },
+    cancel() {
+      cleanup();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    }
+  });
+}
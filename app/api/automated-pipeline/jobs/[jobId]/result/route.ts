@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPipelineJobQueue } from '@/lib/pipeline';
+
+export async function GET(_request: NextRequest, { params }: { params: { jobId: string } }) {
+  try {
+    const job = await getPipelineJobQueue().getJob(params.jobId);
+
+    if (!job) {
+      return NextResponse.json(
+        { success: false, error: `Pipeline job not found: ${params.jobId}` },
+        { status: 404 }
+      );
+    }
+
+    if (job.status === 'pending' || job.status === 'running') {
+      return NextResponse.json(
+        {
+          success: false,
+          jobId: job.id,
+          status: job.status,
+          error: 'Pipeline is still running',
+          steps: job.steps
+        },
+        { status: 202 }
+      );
+    }
+
+    if (job.status === 'failed' || !job.result) {
+      return NextResponse.json({
+        success: false,
+        jobId: job.id,
+        status: job.status,
+        error: job.error || 'Pipeline finished without a result',
+        steps: job.steps,
+        stage: 'pipeline_error'
+      });
+    }
+
+    // Same shape the pipeline used to return synchronously
+    return NextResponse.json({
+      success: true,
+      jobId: job.id,
+      status: job.status,
+      steps: job.steps,
+      data: job.result.data,
+      message: job.result.message
+    });
+
+  } catch (error) {
+    console.error(`[AutomatedPipeline] Failed to load result for job ${params.jobId}:`, error);
+
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Unknown error occurred' },
+      { status: 500 }
+    );
+  }
+}
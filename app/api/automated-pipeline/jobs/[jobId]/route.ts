@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPipelineJobQueue } from '@/lib/pipeline';
+
+export async function GET(_request: NextRequest, { params }: { params: { jobId: string } }) {
+  try {
+    const job = await getPipelineJobQueue().getJob(params.jobId);
+
+    if (!job) {
+      return NextResponse.json(
+        { success: false, error: `Pipeline job not found: ${params.jobId}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      jobId: job.id,
+      status: job.status,
+      steps: job.steps,
+      checkpointedSteps: Object.keys(job.checkpoints || {}),
+      error: job.error,
+      createdAt: job.createdAt,
+      updatedAt: job.updatedAt,
+      completedAt: job.completedAt,
+      resultUrl: `/api/automated-pipeline/jobs/${job.id}/result`
+    });
+
+  } catch (error) {
+    console.error(`[AutomatedPipeline] Failed to load job ${params.jobId}:`, error);
+
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Unknown error occurred' },
+      { status: 500 }
+    );
+  }
+}
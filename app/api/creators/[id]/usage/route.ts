@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobStore } from '@/lib/job-store';
+
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const usage = await getJobStore().getCreatorUsage(params.id);
+
+    if (!usage) {
+      return NextResponse.json(
+        { success: false, error: `Creator not found: ${params.id}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: usage,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error(`[CreatorsAPI] Failed to load usage for creator ${params.id}:`, error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SubtitleExporter, SubtitleFormat } from '@/lib/transcription/subtitle-exporter';
+import { TranscriptionResult } from '@/lib/transcription/types';
+
+const SUBTITLE_FORMATS: SubtitleFormat[] = ['srt', 'vtt'];
+
+export async function POST(request: NextRequest) {
+  try {
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request body' },
+        { status: 400 }
+      );
+    }
+    const { transcriptionResult, format = 'srt', segmentStyles = true, maxCharsPerCue, maxCueDuration } = body;
+
+    if (!SUBTITLE_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { success: false, error: `Format must be one of: ${SUBTITLE_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const result = transcriptionResult as TranscriptionResult | undefined;
+    if (!result?.timeline?.entries?.length) {
+      return NextResponse.json(
+        { success: false, error: 'Missing transcriptionResult with a timeline. Transcribe with the timestamps option first.' },
+        { status: 400 }
+      );
+    }
+
+    const download = SubtitleExporter.createDownloadableContent(result, format, {
+      segmentStyles,
+      maxCharsPerCue,
+      maxCueDuration
+    });
+
+    console.log(`[SubtitleAPI] Exported ${download.filename}`);
+
+    return new NextResponse(download.content, {
+      status: 200,
+      headers: {
+        'Content-Type': `${download.mimeType}; charset=utf-8`,
+        'Content-Disposition': `attachment; filename="${download.filename}"`
+      }
+    });
+
+  } catch (error) {
+    console.error('[SubtitleAPI] Request failed:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    service: 'Subtitle Export',
+    status: 'ready',
+    formats: SUBTITLE_FORMATS,
+    usage: 'POST { transcriptionResult, format: "srt" | "vtt", segmentStyles?: boolean } with a result transcribed using options.timestamps'
+  });
+}
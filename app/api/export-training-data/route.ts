@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { TrainingDataExporter, ExportOptions } from '@/lib/transcription/training-data-exporter';
+import { TrainingDataExporter } from '@/lib/transcription/training-data-exporter';
 import { TranscriptionResult, ScriptTemplate } from '@/lib/transcription/types';
+import { exportTrainingDataset, WorkflowError } from '@/lib/workflows';
 
 export async function POST(request: NextRequest) {
   const startTime = Date.now();
@@ -17,76 +18,38 @@ export async function POST(request: NextRequest) {
       templates, 
       syntheticScripts = [],
       options = {},
-      action = 'generate'
+      action = 'generate',
+      parentRunId
     } = body;
-    
-    // Only validate transcriptionResults and templates for 'generate' action
-    if (action === 'generate') {
-      if (!transcriptionResults || !Array.isArray(transcriptionResults)) {
-        return NextResponse.json(
-          { 
-            success: false, 
-            error: 'Missing or invalid transcriptionResults array' 
-          },
-          { status: 400 }
-        );
-      }
-
-      if (!templates || !Array.isArray(templates)) {
-        return NextResponse.json(
-          { 
-            success: false, 
-            error: 'Missing or invalid templates array' 
-          },
-          { status: 400 }
-        );
-      }
-    }
-
-    if (action === 'generate') {
-      console.log(`[ExportAPI] Processing ${transcriptionResults.length} transcriptions, ${templates.length} templates, and ${syntheticScripts.length} synthetic scripts`);
-    } else {
-      console.log(`[ExportAPI] Processing download request for action: ${action}`);
-    }
 
     if (action === 'generate') {
-      // Generate training dataset
-      const exportOptions: ExportOptions = {
-        includeMetadata: options.includeMetadata ?? true,
-        includeOriginalTranscriptions: options.includeOriginalTranscriptions ?? true,
-        includeSyntheticScripts: options.includeSyntheticScripts ?? true,
-        syntheticTopics: options.syntheticTopics,
-        maxExamplesPerVideo: options.maxExamplesPerVideo ?? 10,
-        minViewCount: options.minViewCount ?? 0,
-        format: options.format ?? 'jsonl'
-      };
-
-      console.log('[ExportAPI] Generating training dataset with options:', exportOptions);
-      
-      const dataset = await TrainingDataExporter.generateTrainingDataset(
-        transcriptionResults as TranscriptionResult[],
-        templates as ScriptTemplate[],
+      // Generate and validate the training dataset
+      const { runId, dataset, validation, datasetsByLanguage } = await exportTrainingDataset({
+        transcriptionResults: transcriptionResults as TranscriptionResult[],
+        templates: templates as ScriptTemplate[],
         syntheticScripts,
-        exportOptions
-      );
-
-      // Validate dataset
-      const validation = TrainingDataExporter.validateDataset(dataset);
+        options,
+        parentRunId
+      });
       
       const totalTime = Date.now() - startTime;
       console.log(`[ExportAPI] Dataset generation completed in ${totalTime}ms`);
 
       return NextResponse.json({
         success: true,
+        runId,
         data: {
           dataset,
           validation,
+          datasetsByLanguage,
           processingTime: totalTime
         },
         timestamp: new Date().toISOString()
       });
 
     } else if (action === 'download') {
+      console.log(`[ExportAPI] Processing download request for action: ${action}`);
+
       // Generate and prepare download
       const { dataset, format = 'jsonl', includeMetadata = false } = body;
       
@@ -136,6 +99,17 @@ export async function POST(request: NextRequest) {
 
   } catch (error) {
     const totalTime = Date.now() - startTime;
+
+    if (error instanceof WorkflowError) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: error.message 
+        },
+        { status: error.statusCode }
+      );
+    }
+
     console.error('[ExportAPI] Request failed:', error);
     
     return NextResponse.json(
@@ -170,7 +144,7 @@ export async function GET(request: NextRequest) {
             action: 'generate',
             transcriptionResults: 'Array of TranscriptionResult objects',
             templates: 'Array of ScriptTemplate objects',
-            syntheticScripts: 'Array of {topic: string, script: MarketingSegments} objects (optional)',
+            syntheticScripts: 'Array of {topic: string, script: MarketingSegments, prompt?: PromptRef} objects (optional)',
             options: {
               includeMetadata: 'boolean (default: true)',
               includeOriginalTranscriptions: 'boolean (default: true)',
@@ -178,7 +152,10 @@ export async function GET(request: NextRequest) {
               syntheticTopics: 'string[] (optional)',
               maxExamplesPerVideo: 'number (default: 10)',
               minViewCount: 'number (default: 0)',
-              format: '"jsonl" | "json" (default: "jsonl")'
+              minQualityScore: 'number; leave out results with a lower quality score (default: 60)',
+              format: '"jsonl" | "json" (default: "jsonl")',
+              languages: 'string[] of language codes to keep, e.g. ["en", "es"] (optional)',
+              groupByLanguage: 'boolean; also return one dataset per language as datasetsByLanguage (default: false)'
             }
           }
         },
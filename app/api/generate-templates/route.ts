@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { TranscriptionService } from '@/lib/transcription/transcription-service';
 import { MarketingSegments, ScriptTemplate } from '@/lib/transcription/types';
+import { generateSyntheticScript, generateTemplate, WorkflowError } from '@/lib/workflows';
 
 export async function POST(request: NextRequest) {
   const startTime = Date.now();
@@ -12,7 +13,7 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     console.log('[TemplateAPI] Request body:', JSON.stringify(body, null, 2));
     
-    const { action, marketingSegments, topic, template } = body;
+    const { action, marketingSegments, segmentFramework, topic, template, parentRunId, sourceVideoId } = body;
     
     if (!action) {
       return NextResponse.json(
@@ -24,56 +25,26 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Check for required environment variables
-    if (!process.env.GEMINI_API_KEY) {
-      console.error('[TemplateAPI] Missing GEMINI_API_KEY environment variable');
-      return NextResponse.json(
-        { 
-          success: false, 
-          error: 'Server configuration error: Missing Gemini API key' 
-        },
-        { status: 500 }
-      );
-    }
-
-    // Initialize transcription service
-    const transcriptionService = new TranscriptionService();
-    
     if (action === 'generate-template') {
       // Generate templates from marketing segments
-      if (!marketingSegments) {
-        return NextResponse.json(
-          { 
-            success: false, 
-            error: 'Missing marketingSegments for template generation' 
-          },
-          { status: 400 }
-        );
-      }
-
-      console.log('[TemplateAPI] Generating templates from marketing segments');
-      
-      // Create a mock transcription result to use the existing method
-      const mockResult = {
-        videoId: 'template-gen',
-        videoUrl: '',
-        platform: 'template' as const,
-        transcription: '',
+      const templateResult = await generateTemplate({
         marketingSegments: marketingSegments as MarketingSegments,
-        processingTime: 0,
-        success: true
-      };
-
-      const templateResult = await transcriptionService.generateTemplatesFromResult(mockResult);
+        segmentFramework,
+        sourceVideoId,
+        parentRunId
+      });
       
       const totalTime = Date.now() - startTime;
       console.log(`[TemplateAPI] Template generation completed in ${totalTime}ms`);
 
       return NextResponse.json({
         success: templateResult.success,
+        runId: templateResult.runId,
         data: {
           template: templateResult.template,
           processingTime: templateResult.processingTime,
+          usage: templateResult.usage,
+          prompt: templateResult.prompt,
           error: templateResult.error
         },
         timestamp: new Date().toISOString(),
@@ -82,32 +53,24 @@ export async function POST(request: NextRequest) {
 
     } else if (action === 'generate-script') {
       // Generate synthetic script from template and topic
-      if (!topic || !template) {
-        return NextResponse.json(
-          { 
-            success: false, 
-            error: 'Missing topic or template for script generation' 
-          },
-          { status: 400 }
-        );
-      }
-
-      console.log(`[TemplateAPI] Generating synthetic script for topic: ${topic}`);
-      
-      const scriptResult = await transcriptionService.generateSyntheticScript(
-        topic, 
-        template as ScriptTemplate
-      );
+      const scriptResult = await generateSyntheticScript({
+        topic,
+        template: template as ScriptTemplate,
+        parentRunId
+      });
       
       const totalTime = Date.now() - startTime;
       console.log(`[TemplateAPI] Script generation completed in ${totalTime}ms`);
 
       return NextResponse.json({
         success: scriptResult.success,
+        runId: scriptResult.runId,
         data: {
           script: scriptResult.script,
-          topic: topic,
+          topic: scriptResult.topic,
           processingTime: scriptResult.processingTime,
+          usage: scriptResult.usage,
+          prompt: scriptResult.prompt,
           error: scriptResult.error
         },
         timestamp: new Date().toISOString(),
@@ -126,6 +89,17 @@ export async function POST(request: NextRequest) {
 
   } catch (error) {
     const totalTime = Date.now() - startTime;
+
+    if (error instanceof WorkflowError) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: error.message 
+        },
+        { status: error.statusCode }
+      );
+    }
+
     console.error('[TemplateAPI] Request failed:', error);
     
     return NextResponse.json(
@@ -165,7 +139,8 @@ export async function GET(request: NextRequest) {
               Bridge: 'Your bridge text here',
               'Golden Nugget': 'Your golden nugget text here',
               WTA: 'Your WTA text here'
-            }
+            },
+            segmentFramework: 'Optional framework id from /api/segment-frameworks; the segments are keyed by its category names'
           }
         },
         generateScript: {
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { diffPromptVersions, getPrompt, PromptRegistryError } from '@/lib/transcription/prompts';
+
+/**
+ * A prompt with the text of every version, or with `from` and `to` the
+ * line-by-line difference between two of its versions
+ */
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+
+    if (from === null && to === null) {
+      return NextResponse.json({
+        success: true,
+        data: { prompt: getPrompt(params.id) },
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const fromVersion = Number(from);
+    const toVersion = Number(to);
+    if (!from || !to || !Number.isInteger(fromVersion) || !Number.isInteger(toVersion)) {
+      return NextResponse.json(
+        { success: false, error: 'from and to must both be version numbers' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { diff: diffPromptVersions(params.id, fromVersion, toVersion) },
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error(`[PromptsAPI] Failed to load prompt ${params.id}:`, error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        timestamp: new Date().toISOString()
+      },
+      { status: error instanceof PromptRegistryError ? error.statusCode : 500 }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { listPrompts } from '@/lib/transcription/prompts';
+
+/**
+ * List the registered Gemini prompts with their versions
+ */
+export async function GET() {
+  try {
+    return NextResponse.json({
+      success: true,
+      data: { prompts: listPrompts() },
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('[PromptsAPI] Failed to list prompts:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    );
+  }
+}
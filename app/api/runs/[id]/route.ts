@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobStore } from '@/lib/job-store';
+
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const details = await getJobStore().getRunDetails(params.id);
+
+    if (!details) {
+      return NextResponse.json(
+        { success: false, error: `Run not found: ${params.id}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: details,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error(`[RunsAPI] Failed to load run ${params.id}:`, error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobStore, type RunStatus, type RunType } from '@/lib/job-store';
+
+const RUN_TYPES: RunType[] = [
+  'creator_extraction',
+  'transcription',
+  'template_generation',
+  'script_generation',
+  'dataset_export',
+  'pipeline'
+];
+const RUN_STATUSES: RunStatus[] = ['pending', 'running', 'completed', 'failed'];
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const type = searchParams.get('type');
+    const status = searchParams.get('status');
+    const parentRunId = searchParams.get('parentRunId') || undefined;
+    const limit = parseInt(searchParams.get('limit') || '50', 10);
+
+    if (type && !RUN_TYPES.includes(type as RunType)) {
+      return NextResponse.json(
+        { success: false, error: `Unknown run type: ${type}. Use one of: ${RUN_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (status && !RUN_STATUSES.includes(status as RunStatus)) {
+      return NextResponse.json(
+        { success: false, error: `Unknown run status: ${status}. Use one of: ${RUN_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const runs = await getJobStore().listRuns({
+      type: (type as RunType) || undefined,
+      status: (status as RunStatus) || undefined,
+      parentRunId,
+      limit: Number.isFinite(limit) && limit > 0 ? Math.min(limit, 500) : 50
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { runs },
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('[RunsAPI] Failed to list runs:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  listSegmentFrameworks,
+  saveSegmentFramework,
+  SegmentFrameworkError
+} from '@/lib/transcription/segment-frameworks';
+
+// Saved frameworks come from the job store, so the list can't be prerendered at build time
+export const dynamic = 'force-dynamic';
+
+/**
+ * List the built-in segment frameworks followed by saved ones
+ */
+export async function GET() {
+  try {
+    const frameworks = await listSegmentFrameworks();
+
+    return NextResponse.json({
+      success: true,
+      data: { frameworks },
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('[SegmentFrameworksAPI] Failed to list frameworks:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Save a user-defined framework, replacing an earlier one with the same id
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request body', timestamp: new Date().toISOString() },
+        { status: 400 }
+      );
+    }
+
+    const framework = await saveSegmentFramework(body);
+
+    return NextResponse.json({
+      success: true,
+      data: { framework },
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('[SegmentFrameworksAPI] Failed to save framework:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        details: error instanceof SegmentFrameworkError ? error.issues : undefined,
+        timestamp: new Date().toISOString()
+      },
+      { status: error instanceof SegmentFrameworkError ? error.statusCode : 500 }
+    );
+  }
+}
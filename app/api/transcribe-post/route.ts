@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { TranscriptionService } from '@/lib/transcription/transcription-service';
+import { TranscriptionOptions, VideoMetadata } from '@/lib/transcription/types';
+import { getPostProviderForUrl, getSupportedPlatforms } from '@/lib/creator-feed';
+import { withJobStore } from '@/lib/job-store';
+
+interface TranscribePostRequest {
+  url: string;
+  options?: TranscriptionOptions;
+}
+
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+
+  try {
+    console.log('[TranscribePostAPI] Received single post request');
+
+    let body: TranscribePostRequest;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request body' },
+        { status: 400 }
+      );
+    }
+
+    const permalink = body.url?.trim();
+    console.log('[TranscribePostAPI] Post URL:', permalink);
+
+    if (!permalink) {
+      return NextResponse.json(
+        { success: false, error: 'Post URL is required' },
+        { status: 400 }
+      );
+    }
+
+    // Find the platform provider that recognizes this permalink
+    const provider = getPostProviderForUrl(permalink);
+    if (!provider || !provider.resolvePost) {
+      const supported = getSupportedPlatforms().join(', ');
+      return NextResponse.json(
+        { success: false, error: `Post URL must be a public ${supported} post link` },
+        { status: 400 }
+      );
+    }
+
+    // Check for required environment variables
+    const envError = provider.validateEnvironment();
+    if (envError) {
+      console.error('[TranscribePostAPI] Environment validation failed:', envError);
+      return NextResponse.json(
+        { success: false, error: envError },
+        { status: 500 }
+      );
+    }
+
+    if (!process.env.GEMINI_API_KEY) {
+      console.error('[TranscribePostAPI] Missing GEMINI_API_KEY environment variable');
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Server configuration error: Missing Gemini API key'
+        },
+        { status: 500 }
+      );
+    }
+
+    // Step 1: Resolve the post to a playable video URL and engagement stats
+    let video;
+    try {
+      video = await provider.resolvePost(permalink);
+    } catch (resolveError) {
+      const message = resolveError instanceof Error ? resolveError.message : 'Unknown error';
+      console.error(`[TranscribePostAPI] Failed to resolve ${provider.displayName} post:`, resolveError);
+      return NextResponse.json(
+        {
+          success: false,
+          error: message.startsWith('Could not')
+            ? `${provider.displayName} post not found or not a video: ${message}`
+            : `Failed to resolve ${provider.displayName} post: ${message}`
+        },
+        { status: message.startsWith('Could not') ? 404 : 502 }
+      );
+    }
+
+    console.log(`[TranscribePostAPI] Resolved ${provider.platform} post ${video.id}`);
+
+    // Step 2: Download and transcribe through the standard single-video path
+    const metadata: VideoMetadata = {
+      id: video.id,
+      url: video.video_url!,
+      platform: provider.platform as VideoMetadata['platform'],
+      description: `${provider.platform} post - ${permalink}`
+    };
+
+    const options: TranscriptionOptions = {
+      extractMarketingSegments: body.options?.fastMode !== true,
+      ...body.options
+    };
+
+    const transcriptionService = new TranscriptionService();
+    const transcriptionResult = await transcriptionService.transcribeSingleVideo(metadata, options);
+
+    transcriptionResult.metadata = {
+      viewCount: video.viewCount,
+      likeCount: video.likeCount,
+      quality: video.quality,
+      fileSize: video.fileSize
+    };
+
+    const run = await withJobStore('save post transcription run', async store => {
+      const postRun = await store.createRun({
+        type: 'transcription',
+        input: { source: 'post', postUrl: permalink, options }
+      });
+      await store.saveVideos(postRun.id, [video]);
+      await store.saveTranscriptionResults(postRun.id, [transcriptionResult]);
+      return store.updateRun(postRun.id, {
+        status: transcriptionResult.success ? 'completed' : 'failed',
+        error: transcriptionResult.error,
+        output: { processingTime: transcriptionResult.processingTime }
+      });
+    });
+
+    const totalTime = Date.now() - startTime;
+    console.log(`[TranscribePostAPI] Request completed in ${totalTime}ms`);
+
+    return NextResponse.json({
+      success: transcriptionResult.success,
+      runId: run?.id,
+      data: {
+        transcriptionResult,
+        video,
+        postUrl: permalink
+      },
+      error: transcriptionResult.error,
+      timestamp: new Date().toISOString(),
+      processingTime: totalTime
+    });
+
+  } catch (error) {
+    const totalTime = Date.now() - startTime;
+    console.error(`[TranscribePostAPI] Request failed after ${totalTime}ms:`, error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        processingTime: totalTime
+      },
+      { status: 500 }
+    );
+  }
+}
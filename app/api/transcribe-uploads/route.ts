@@ -0,0 +1,174 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { TranscriptionService } from '@/lib/transcription/transcription-service';
+import { TranscriptionOptions } from '@/lib/transcription/types';
+import { saveTranscriptionResults } from '@/lib/transcription/result-storage';
+import { completeTranscriptionRun, withJobStore } from '@/lib/job-store';
+
+const MAX_FILES_PER_REQUEST = 10;
+
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+  let runId: string | undefined;
+
+  try {
+    console.log('[TranscribeUploadsAPI] Received upload transcription request');
+
+    // Parse multipart form data
+    let formData: FormData;
+    try {
+      formData = await request.formData();
+    } catch {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid request',
+          details: ['Request body must be multipart/form-data with one or more "files" fields']
+        },
+        { status: 400 }
+      );
+    }
+
+    const files = formData.getAll('files').filter((entry): entry is File => entry instanceof File);
+    console.log('[TranscribeUploadsAPI] Uploaded files:', files.map(file => ({
+      name: file.name,
+      type: file.type,
+      size: file.size
+    })));
+
+    // Options arrive as a JSON string alongside the files
+    let requestedOptions: TranscriptionOptions = {};
+    const rawOptions = formData.get('options');
+    if (typeof rawOptions === 'string' && rawOptions.trim()) {
+      try {
+        requestedOptions = JSON.parse(rawOptions);
+      } catch {
+        return NextResponse.json(
+          { success: false, error: 'Invalid request', details: ['Options must be valid JSON'] },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Validate request
+    const errors: string[] = [];
+    if (files.length === 0) {
+      errors.push('At least one file is required');
+    }
+    if (files.length > MAX_FILES_PER_REQUEST) {
+      errors.push(`Maximum ${MAX_FILES_PER_REQUEST} files per request`);
+    }
+    if (errors.length > 0) {
+      console.error('[TranscribeUploadsAPI] Request validation failed:', errors);
+      return NextResponse.json(
+        { success: false, error: 'Invalid request', details: errors },
+        { status: 400 }
+      );
+    }
+
+    // Check for required environment variables
+    if (!process.env.GEMINI_API_KEY) {
+      console.error('[TranscribeUploadsAPI] Missing GEMINI_API_KEY environment variable');
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Server configuration error: Missing Gemini API key'
+        },
+        { status: 500 }
+      );
+    }
+
+    // Uploads default to marketing analysis, same as the creator workflow
+    const isFastMode = requestedOptions.fastMode === true;
+    const options: TranscriptionOptions = isFastMode
+      ? { ...requestedOptions, extractMarketingSegments: false, includeVisualDescriptions: false }
+      : { extractMarketingSegments: true, ...requestedOptions };
+    console.log(`[TranscribeUploadsAPI] Processing mode: ${isFastMode ? 'FAST' : 'STANDARD'}`);
+
+    const run = await withJobStore('create upload transcription run', store => store.createRun({
+      type: 'transcription',
+      input: {
+        source: 'upload',
+        files: files.map(file => ({ name: file.name, type: file.type, size: file.size })),
+        options
+      }
+    }));
+    runId = run?.id;
+
+    const transcriptionService = new TranscriptionService();
+    const result = await transcriptionService.processUploadedVideos(files, options);
+
+    // Save results to Google Drive alongside scraped video results
+    let driveResults = null;
+    if (result.success && result.results.some(r => r.success)) {
+      try {
+        console.log('[TranscribeUploadsAPI] Saving results to Google Drive');
+        driveResults = await saveTranscriptionResults(result, options);
+        console.log('[TranscribeUploadsAPI] Successfully saved to Google Drive:', driveResults);
+      } catch (driveError) {
+        console.error('[TranscribeUploadsAPI] Failed to save to Google Drive:', driveError);
+        // Don't fail the entire request if Google Drive upload fails
+      }
+    }
+
+    if (runId) {
+      await completeTranscriptionRun(runId, result, { googleDrive: driveResults });
+    }
+
+    const totalTime = Date.now() - startTime;
+    console.log(`[TranscribeUploadsAPI] Request completed in ${totalTime}ms`);
+
+    // Same response shape as /api/transcribe-videos so clients can merge results
+    return NextResponse.json({
+      success: result.success,
+      runId,
+      data: {
+        transcriptionResults: result.results,
+        summary: {
+          totalVideos: result.totalProcessed,
+          successful: result.totalProcessed - result.totalFailed,
+          failed: result.totalFailed,
+          processingTime: result.processingTime,
+          mode: isFastMode ? 'fast' : 'standard',
+          usage: result.usage
+        },
+        googleDrive: driveResults,
+        errors: result.errors.length > 0 ? result.errors : undefined
+      },
+      timestamp: new Date().toISOString(),
+      processingTime: totalTime
+    });
+
+  } catch (error) {
+    const totalTime = Date.now() - startTime;
+    console.error(`[TranscribeUploadsAPI] Request failed after ${totalTime}ms:`, error);
+
+    if (runId) {
+      const failedRunId = runId;
+      await withJobStore('record failed upload transcription run', store =>
+        store.updateRun(failedRunId, { status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' })
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        processingTime: totalTime
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    service: 'upload-transcription',
+    maxFilesPerRequest: MAX_FILES_PER_REQUEST,
+    endpoints: {
+      transcribe: '/api/transcribe-uploads (POST, multipart/form-data: files[], options JSON)'
+    },
+    timestamp: new Date().toISOString()
+  });
+}
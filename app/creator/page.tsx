@@ -12,7 +12,7 @@ export default function CreatorPage() {
             <div className="text-center mb-8">
               <h1 className="text-4xl font-bold mb-4">Social Media Content Processor</h1>
               <p className="text-muted-foreground text-lg">
-                Extract and process content from TikTok and Instagram profiles
+                Extract and process content from TikTok, Instagram and YouTube Shorts profiles
               </p>
               
               {/* Automated Pipeline CTA */}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect, useCallback } from "react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
@@ -12,6 +12,8 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { formatCost } from "@/lib/transcription/usage";
+import type { UsageSummary } from "@/lib/transcription/types";
 import { 
   Loader2, 
   Play, 
@@ -28,7 +30,8 @@ import {
   MessageSquare,
   FileDown,
   Database,
-  XCircle
+  XCircle,
+  RotateCcw
 } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -38,7 +41,7 @@ import { useToast } from '@/hooks/use-toast';
 
 interface AutomatedPipelineRequest {
   username: string;
-  platform: 'tiktok' | 'instagram';
+  platform: 'tiktok' | 'instagram' | 'youtube';
   videoCount?: number;
   options?: {
     fastMode?: boolean;
@@ -85,6 +88,12 @@ interface PipelineResult {
       downloadUrl?: string;
       metadata?: any;
     };
+    usage?: {
+      transcription: UsageSummary;
+      templates: UsageSummary;
+      synthetic: UsageSummary;
+      total: UsageSummary;
+    };
   };
   message?: string;
   error?: string;
@@ -98,10 +107,22 @@ interface PipelineStep {
   timestamp: string;
 }
 
+interface VideoProgress {
+  videoId: string;
+  stage: 'downloading' | 'downloaded' | 'download_failed' | 'transcribing' | 'transcribed' | 'transcription_failed';
+  index: number;
+  total: number;
+  error?: string;
+}
+
 interface AutomatedPipelineProps {
   onComplete?: (result: any) => void;
 }
 
+// Remember the running job so a page reload picks up where it left off
+const PIPELINE_JOB_STORAGE_KEY = 'automated-pipeline-job-id';
+const POLL_INTERVAL_MS = 3000;
+
 export function AutomatedPipeline({ onComplete }: AutomatedPipelineProps) {
   const [username, setUsername] = useState("");
   const [platform, setPlatform] = useState("tiktok");
@@ -116,6 +137,10 @@ export function AutomatedPipeline({ onComplete }: AutomatedPipelineProps) {
   const [steps, setSteps] = useState<PipelineStep[]>([]);
   const [result, setResult] = useState<any>(null);
   const [error, setError] = useState<string | null>(null);
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [videoProgress, setVideoProgress] = useState<Record<string, VideoProgress>>({});
+  const pollTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const eventSourceRef = useRef<EventSource | null>(null);
   
   const { toast } = useToast();
 
@@ -161,6 +186,35 @@ export function AutomatedPipeline({ onComplete }: AutomatedPipelineProps) {
     }
   };
 
+  const renderVideoProgress = () => {
+    const videos = Object.values(videoProgress);
+    if (videos.length === 0) return null;
+
+    const downloaded = videos.filter(v => v.stage !== 'downloading' && v.stage !== 'download_failed').length;
+    const transcribed = videos.filter(v => v.stage === 'transcribed').length;
+    const failed = videos.filter(v => v.stage === 'download_failed' || v.stage === 'transcription_failed').length;
+    const current = videos.find(v => v.stage === 'transcribing' || v.stage === 'downloading');
+    const total = Math.max(...videos.map(v => v.total), videos.length);
+
+    return (
+      <div className="mt-3 space-y-2">
+        <Progress value={Math.round(((transcribed + failed) / total) * 100)} className="w-full" />
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <Badge variant="outline">Downloaded: {downloaded}/{total}</Badge>
+          <Badge variant="outline" className="text-green-600">Transcribed: {transcribed}</Badge>
+          {failed > 0 && (
+            <Badge variant="outline" className="text-red-600">Failed: {failed}</Badge>
+          )}
+          {current && (
+            <span className="text-gray-600">
+              {current.stage === 'downloading' ? 'Downloading' : 'Transcribing'} {current.videoId}...
+            </span>
+          )}
+        </div>
+      </div>
+    );
+  };
+
   const renderStepDetails = (step: PipelineStep) => {
     if (!step.details) return null;
 
@@ -251,18 +305,11 @@ export function AutomatedPipeline({ onComplete }: AutomatedPipelineProps) {
                         </div>
                         {result.marketingSegments && (
                           <div className="grid grid-cols-2 gap-2 text-xs">
-                            <div>
-                              <strong>Hook:</strong> {result.marketingSegments.Hook?.substring(0, 50)}...
-                            </div>
-                            <div>
-                              <strong>Bridge:</strong> {result.marketingSegments.Bridge?.substring(0, 50)}...
-                            </div>
-                            <div>
-                              <strong>Nugget:</strong> {result.marketingSegments.GoldenNugget?.substring(0, 50)}...
-                            </div>
-                            <div>
-                              <strong>CTA:</strong> {result.marketingSegments.WTA?.substring(0, 50)}...
-                            </div>
+                            {Object.entries(result.marketingSegments as Record<string, string>).map(([category, text]) => (
+                              <div key={category}>
+                                <strong>{category}:</strong> {text?.substring(0, 50)}...
+                              </div>
+                            ))}
                           </div>
                         )}
                       </div>
@@ -298,13 +345,13 @@ export function AutomatedPipeline({ onComplete }: AutomatedPipelineProps) {
             <div className="mt-3 space-y-2">
               <h4 className="font-medium text-sm">Generated Templates:</h4>
               <div className="space-y-2 max-h-40 overflow-y-auto">
-                {step.details.templates.map((template: any) => (
-                  <div key={template.index} className="bg-white p-2 rounded border text-xs">
+                {step.details.templates.map(({ index, framework, ...parts }: any) => (
+                  <div key={index} className="bg-white p-2 rounded border text-xs">
+                    {framework && <Badge variant="outline" className="text-xs mb-1">{framework}</Badge>}
                     <div className="grid grid-cols-2 gap-2">
-                      <div><strong>Hook:</strong> {template.hook}</div>
-                      <div><strong>Bridge:</strong> {template.bridge}</div>
-                      <div><strong>Nugget:</strong> {template.nugget}</div>
-                      <div><strong>CTA:</strong> {template.wta}</div>
+                      {Object.entries(parts as Record<string, string>).map(([key, text]) => (
+                        <div key={key}><strong className="capitalize">{key}:</strong> {text}</div>
+                      ))}
                     </div>
                   </div>
                 ))}
@@ -337,9 +384,9 @@ export function AutomatedPipeline({ onComplete }: AutomatedPipelineProps) {
                       )}
                       <span className="font-medium">{detail.topic}</span>
                     </div>
-                    {detail.hook && (
+                    {detail.opening && (
                       <div className="mt-1 text-gray-700">
-                        <strong>Hook:</strong> {detail.hook}
+                        <strong>Opening:</strong> {detail.opening}
                       </div>
                     )}
                     {detail.error && (
@@ -394,6 +441,133 @@ export function AutomatedPipeline({ onComplete }: AutomatedPipelineProps) {
     return null;
   };
 
+  const finishJob = useCallback(() => {
+    localStorage.removeItem(PIPELINE_JOB_STORAGE_KEY);
+    setIsProcessing(false);
+  }, []);
+
+  const loadResult = useCallback(async (id: string) => {
+    try {
+      const resultResponse = await fetch(`/api/automated-pipeline/jobs/${id}/result`);
+      const data = await resultResponse.json();
+      setSteps(data.steps || []);
+
+      if (data.success) {
+        setResult(data.data);
+        toast({
+          title: "Pipeline completed!",
+          description: data.message,
+        });
+        onComplete?.(data);
+      } else {
+        setError(data.error);
+        toast({
+          title: "Pipeline failed",
+          description: data.error,
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      console.error('Pipeline result error:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load pipeline result');
+    } finally {
+      finishJob();
+    }
+  }, [finishJob, onComplete, toast]);
+
+  const pollJob = useCallback(async (id: string) => {
+    try {
+      const statusResponse = await fetch(`/api/automated-pipeline/jobs/${id}`);
+      const status = await statusResponse.json();
+
+      if (!status.success) {
+        // Unknown job (e.g. the database was reset) - stop tracking it
+        setError(status.error);
+        finishJob();
+        return;
+      }
+
+      setSteps(status.steps || []);
+
+      if (status.status === 'pending' || status.status === 'running') {
+        pollTimerRef.current = setTimeout(() => pollJob(id), POLL_INTERVAL_MS);
+        return;
+      }
+
+      await loadResult(id);
+    } catch (error) {
+      // Network hiccup - the job keeps running on the server, so keep polling
+      console.error('Pipeline status error:', error);
+      pollTimerRef.current = setTimeout(() => pollJob(id), POLL_INTERVAL_MS);
+    }
+  }, [finishJob, loadResult]);
+
+  // Follow a job over Server-Sent Events, falling back to polling if the stream drops
+  const subscribeToJob = useCallback((id: string) => {
+    eventSourceRef.current?.close();
+    const source = new EventSource(`/api/automated-pipeline/jobs/${id}/events`);
+    eventSourceRef.current = source;
+
+    const stopAndLoadResult = () => {
+      source.close();
+      eventSourceRef.current = null;
+      loadResult(id);
+    };
+
+    source.addEventListener('snapshot', (event) => {
+      const { job } = JSON.parse((event as MessageEvent).data);
+      setSteps(job.steps || []);
+      if (job.status === 'completed' || job.status === 'failed') {
+        stopAndLoadResult();
+      }
+    });
+
+    source.addEventListener('step', (event) => {
+      const change = JSON.parse((event as MessageEvent).data);
+      setSteps(prev => {
+        const next = [...prev];
+        next[change.index] = change.step;
+        return next;
+      });
+    });
+
+    source.addEventListener('video_progress', (event) => {
+      const { progress } = JSON.parse((event as MessageEvent).data);
+      setVideoProgress(prev => ({ ...prev, [progress.videoId]: progress }));
+    });
+
+    source.addEventListener('status', (event) => {
+      const { status } = JSON.parse((event as MessageEvent).data);
+      if (status === 'completed' || status === 'failed') {
+        stopAndLoadResult();
+      }
+    });
+
+    source.onerror = () => {
+      source.close();
+      eventSourceRef.current = null;
+      pollJob(id);
+    };
+  }, [loadResult, pollJob]);
+
+  // Resume tracking a job started before the page was reloaded
+  useEffect(() => {
+    const storedJobId = localStorage.getItem(PIPELINE_JOB_STORAGE_KEY);
+    if (storedJobId) {
+      setJobId(storedJobId);
+      setIsProcessing(true);
+      subscribeToJob(storedJobId);
+    }
+
+    return () => {
+      eventSourceRef.current?.close();
+      if (pollTimerRef.current) {
+        clearTimeout(pollTimerRef.current);
+      }
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
   const startPipeline = async () => {
     if (!username.trim()) {
       toast({
@@ -408,6 +582,8 @@ export function AutomatedPipeline({ onComplete }: AutomatedPipelineProps) {
     setSteps([]);
     setResult(null);
     setError(null);
+    setJobId(null);
+    setVideoProgress({});
 
     try {
       const response = await fetch('/api/automated-pipeline', {
@@ -432,21 +608,21 @@ export function AutomatedPipeline({ onComplete }: AutomatedPipelineProps) {
       const data = await response.json();
 
       if (data.success) {
-        setSteps(data.steps || []);
-        setResult(data.data);
+        localStorage.setItem(PIPELINE_JOB_STORAGE_KEY, data.jobId);
+        setJobId(data.jobId);
         toast({
-          title: "Pipeline completed!",
+          title: "Pipeline queued",
           description: data.message,
         });
-        onComplete?.(data);
+        subscribeToJob(data.jobId);
       } else {
-        setSteps(data.steps || []);
         setError(data.error);
         toast({
           title: "Pipeline failed",
           description: data.error,
           variant: "destructive",
         });
+        setIsProcessing(false);
       }
     } catch (error) {
       console.error('Pipeline error:', error);
@@ -456,7 +632,51 @@ export function AutomatedPipeline({ onComplete }: AutomatedPipelineProps) {
         description: "An unexpected error occurred",
         variant: "destructive",
       });
-    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const resumePipeline = async () => {
+    if (!jobId) return;
+
+    setIsProcessing(true);
+    setSteps([]);
+    setResult(null);
+    setError(null);
+    setVideoProgress({});
+
+    try {
+      const response = await fetch('/api/automated-pipeline', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ action: 'resume', jobId }),
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        localStorage.setItem(PIPELINE_JOB_STORAGE_KEY, data.jobId);
+        toast({
+          title: "Pipeline resumed",
+          description: data.checkpointedSteps?.length
+            ? `Reusing checkpoints: ${data.checkpointedSteps.join(', ')}`
+            : data.message,
+        });
+        subscribeToJob(data.jobId);
+      } else {
+        setError(data.error);
+        toast({
+          title: "Resume failed",
+          description: data.error,
+          variant: "destructive",
+        });
+        setIsProcessing(false);
+      }
+    } catch (error) {
+      console.error('Pipeline resume error:', error);
+      setError(error instanceof Error ? error.message : 'Unknown error occurred');
       setIsProcessing(false);
     }
   };
@@ -486,7 +706,7 @@ export function AutomatedPipeline({ onComplete }: AutomatedPipelineProps) {
               <Label htmlFor="username">Username</Label>
               <Input
                 id="username"
-                placeholder="Enter TikTok or Instagram username"
+                placeholder="Enter TikTok, Instagram or YouTube username"
                 value={username}
                 onChange={(e) => setUsername(e.target.value)}
                 disabled={isProcessing}
@@ -495,13 +715,14 @@ export function AutomatedPipeline({ onComplete }: AutomatedPipelineProps) {
             
             <div className="space-y-2">
               <Label htmlFor="platform">Platform</Label>
-              <Select value={platform} onValueChange={(value: 'tiktok' | 'instagram') => setPlatform(value)} disabled={isProcessing}>
+              <Select value={platform} onValueChange={(value: 'tiktok' | 'instagram' | 'youtube') => setPlatform(value)} disabled={isProcessing}>
                 <SelectTrigger>
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="tiktok">TikTok</SelectItem>
                   <SelectItem value="instagram">Instagram</SelectItem>
+                  <SelectItem value="youtube">YouTube Shorts</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -622,11 +843,18 @@ export function AutomatedPipeline({ onComplete }: AutomatedPipelineProps) {
           <CardHeader>
             <CardTitle className="flex items-center justify-between">
               <span>Pipeline Progress</span>
-              {isProcessing && (
-                <Badge variant="outline" className="animate-pulse">
-                  Processing...
-                </Badge>
-              )}
+              <div className="flex items-center gap-2">
+                {jobId && (
+                  <Badge variant="secondary" className="font-mono text-xs">
+                    Job {jobId.slice(0, 8)}
+                  </Badge>
+                )}
+                {isProcessing && (
+                  <Badge variant="outline" className="animate-pulse">
+                    Processing...
+                  </Badge>
+                )}
+              </div>
             </CardTitle>
             {steps.length > 0 && (
               <div className="space-y-2">
@@ -650,6 +878,7 @@ export function AutomatedPipeline({ onComplete }: AutomatedPipelineProps) {
                           {new Date(step.timestamp).toLocaleTimeString()}
                         </span>
                       </div>
+                      {step.step === 'video_processing' && step.status === 'running' && renderVideoProgress()}
                       {renderStepDetails(step)}
                     </div>
                   </div>
@@ -669,8 +898,19 @@ export function AutomatedPipeline({ onComplete }: AutomatedPipelineProps) {
               Pipeline Failed
             </CardTitle>
           </CardHeader>
-          <CardContent>
+          <CardContent className="space-y-4">
             <p className="text-red-700">{error}</p>
+            {jobId && !isProcessing && (
+              <div className="space-y-2">
+                <Button onClick={resumePipeline} variant="outline">
+                  <RotateCcw className="mr-2 h-4 w-4" />
+                  Resume Pipeline
+                </Button>
+                <p className="text-sm text-red-600">
+                  Completed steps and analyzed videos are reused; only failed videos and unfinished steps run again.
+                </p>
+              </div>
+            )}
           </CardContent>
         </Card>
       )}
@@ -711,6 +951,27 @@ export function AutomatedPipeline({ onComplete }: AutomatedPipelineProps) {
               </div>
             </div>
 
+            {result.usage && (
+              <div className="mt-4 text-sm text-muted-foreground">
+                Gemini usage: {result.usage.total.totalTokens.toLocaleString()} tokens across {result.usage.total.calls} calls
+                {result.usage.total.cachedCalls > 0 && ` (${result.usage.total.cachedCalls} served from cache)`},
+                estimated cost {formatCost(result.usage.total.costUsd)}
+                {' '}(transcription {formatCost(result.usage.transcription.costUsd)}, templates {formatCost(result.usage.templates.costUsd)}, synthetic scripts {formatCost(result.usage.synthetic.costUsd)})
+              </div>
+            )}
+
+            {result.pipeline?.incompleteSteps?.length > 0 && jobId && !isProcessing && (
+              <div className="mt-4 space-y-2">
+                <p className="text-sm text-amber-700">
+                  Incomplete steps: {result.pipeline.incompleteSteps.join(', ')}. Resuming retries only these and regenerates the export.
+                </p>
+                <Button onClick={resumePipeline} variant="outline">
+                  <RotateCcw className="mr-2 h-4 w-4" />
+                  Resume Pipeline
+                </Button>
+              </div>
+            )}
+
             {result.trainingData?.downloadUrl && (
               <div className="mt-6 pt-4 border-t">
                 <Button
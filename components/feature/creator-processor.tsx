@@ -12,8 +12,9 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Loader2, AlertCircle, CheckCircle2, FileText, Download, Zap } from "lucide-react";
+import { Loader2, AlertCircle, CheckCircle2, FileText, Download, Zap, Upload, Link } from "lucide-react";
 import FineTuningSection from './fine-tuning-section';
+import { formatCost } from "@/lib/transcription/usage";
 
 // Rate limiting: Track API calls
 const rateLimiter = {
@@ -46,6 +47,7 @@ interface ApiResponse {
   rateLimited?: boolean;
   platform?: string;
   username?: string;
+  runId?: string;
   pagination?: {
     hasMore: boolean;
     maxId?: string;
@@ -73,52 +75,214 @@ interface ApiResponse {
 
 interface WordAssignment {
   word: string;
-  category: 'Hook' | 'Bridge' | 'Golden Nugget' | 'WTA';
+  category: string; // A category of the result's segment framework
   position: number;
+  start?: number;
+  end?: number;
 }
 
-interface MarketingSegments {
-  Hook: string;
-  Bridge: string;
-  "Golden Nugget": string;
-  WTA: string;
-}
+// Segment text keyed by category name, in framework order
+type MarketingSegments = Record<string, string>;
+
+// Template text keyed by category template key; `framework` is set unless it is the default
+type ScriptTemplate = Record<string, string> & { framework?: string };
 
-interface ScriptTemplate {
-  hook: string;
-  bridge: string;
-  nugget: string;
-  wta: string;
+interface SegmentFrameworkOption {
+  id: string;
+  name: string;
+  description?: string;
+  categories: Array<{ name: string; templateKey: string }>;
 }
 
+const DEFAULT_SEGMENT_FRAMEWORK_ID = 'hook-bridge-nugget-wta';
+
 interface GeneratedTemplates {
   allTemplates?: ScriptTemplate[];
   syntheticScripts?: Array<{
     topic: string;
     script: MarketingSegments;
+    prompt?: { id: string; version: number };
     processingTime: number;
   }>;
-  // For backward compatibility
-  hook?: string;
-  bridge?: string;
-  nugget?: string;
-  wta?: string;
+  // The first template's parts are spread in for display
+  framework?: string;
+  [key: string]: unknown;
+}
+
+interface TranscriptionResult {
+  videoId: string;
+  videoUrl: string;
+  platform: string;
+  transcription: string;
+  marketingSegments?: MarketingSegments;
+  segmentFramework?: string;
+  wordAssignments?: WordAssignment[];
+  alignment?: { quality: 'exact' | 'repaired' | 'low'; issues: string[] };
+  quality?: {
+    score: number;
+    issues: Array<{ check: string; message: string; penalty: number }>;
+    reanalysis?: { model: string; originalScore: number; reanalyzedScore?: number; kept: 'original' | 'reanalysis'; error?: string };
+  };
+  model?: string;
+  modelFallbacks?: Array<{ model: string; reason: string; error: string }>;
+  timeline?: {
+    granularity: 'segment' | 'word';
+    entries: Array<{ start: number; end: number; text: string; category?: WordAssignment['category'] }>;
+    segmentRanges?: Partial<Record<string, { start: number; end: number }>>;
+  };
+  diarization?: {
+    utterances: Array<{ speaker: string; text: string; start?: number; end?: number }>;
+    speakers: Array<{ speaker: string; wordCount: number; share: number }>;
+    primarySpeaker: string;
+  };
+  language?: { code: string; name: string };
+  translation?: { language: string; transcription: string; marketingSegments?: MarketingSegments };
+  processingTime: number;
+  success: boolean;
+  error?: string;
+  usage?: {
+    totalTokens: number;
+    costUsd: number;
+    cached?: boolean;
+  };
+}
+
+// m:ss for segment boundaries
+function formatSeconds(seconds: number) {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+}
+
+interface SegmentStyle {
+  emoji?: string;
+  card: string;
+  title: string;
+  badge: string;
+}
+
+// The default framework keeps its colors; other categories take palette colors in order
+const DEFAULT_SEGMENT_STYLES: Record<string, SegmentStyle> = {
+  Hook: { emoji: '🎣', card: 'bg-yellow-50 border-yellow-200', title: 'text-yellow-800', badge: 'bg-yellow-100 text-yellow-800 border-yellow-200' },
+  Bridge: { emoji: '🌉', card: 'bg-blue-50 border-blue-200', title: 'text-blue-800', badge: 'bg-blue-100 text-blue-800 border-blue-200' },
+  'Golden Nugget': { emoji: '💎', card: 'bg-amber-50 border-amber-200', title: 'text-amber-800', badge: 'bg-amber-100 text-amber-800 border-amber-200' },
+  WTA: { emoji: '🎯', card: 'bg-green-50 border-green-200', title: 'text-green-800', badge: 'bg-green-100 text-green-800 border-green-200' }
+};
+
+const SEGMENT_STYLE_PALETTE: SegmentStyle[] = [
+  { card: 'bg-yellow-50 border-yellow-200', title: 'text-yellow-800', badge: 'bg-yellow-100 text-yellow-800 border-yellow-200' },
+  { card: 'bg-blue-50 border-blue-200', title: 'text-blue-800', badge: 'bg-blue-100 text-blue-800 border-blue-200' },
+  { card: 'bg-amber-50 border-amber-200', title: 'text-amber-800', badge: 'bg-amber-100 text-amber-800 border-amber-200' },
+  { card: 'bg-green-50 border-green-200', title: 'text-green-800', badge: 'bg-green-100 text-green-800 border-green-200' },
+  { card: 'bg-pink-50 border-pink-200', title: 'text-pink-800', badge: 'bg-pink-100 text-pink-800 border-pink-200' },
+  { card: 'bg-purple-50 border-purple-200', title: 'text-purple-800', badge: 'bg-purple-100 text-purple-800 border-purple-200' }
+];
+
+function getSegmentStyle(category: string, index: number): SegmentStyle {
+  return DEFAULT_SEGMENT_STYLES[category] || SEGMENT_STYLE_PALETTE[index % SEGMENT_STYLE_PALETTE.length];
+}
+
+// One card per segment, labelled with its category
+function SegmentCards({ segments, labelSuffix = '', mono = false }: {
+  segments: Array<[string, string]>;
+  labelSuffix?: string;
+  mono?: boolean;
+}) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+      {segments.map(([category, text], index) => {
+        const style = getSegmentStyle(category, index);
+        return (
+          <div key={category} className={`p-2 border rounded ${style.card}`}>
+            <p className={`font-medium text-sm ${style.title}`}>
+              {style.emoji ? `${style.emoji} ` : ''}{category}{labelSuffix}
+            </p>
+            <p className={`text-sm mt-1${mono ? ' font-mono' : ''}`}>{text}</p>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+// Template parts labelled with their category names when the framework is known
+function getTemplateSegments(template: Record<string, unknown>, frameworks: SegmentFrameworkOption[]): Array<[string, string]> {
+  const frameworkId = typeof template.framework === 'string' ? template.framework : DEFAULT_SEGMENT_FRAMEWORK_ID;
+  const framework = frameworks.find(candidate => candidate.id === frameworkId);
+  if (framework) {
+    return framework.categories.map(category => [category.name, String(template[category.templateKey] || '')]);
+  }
+  return Object.entries(template)
+    .filter((entry): entry is [string, string] => typeof entry[1] === 'string' && entry[0] !== 'framework' && entry[0] !== 'sourceVideoId');
+}
+
+function getCategoryColor(category: string, categories: string[]) {
+  const index = categories.indexOf(category);
+  return index === -1 ? 'bg-gray-100 text-gray-800 border-gray-200' : getSegmentStyle(category, index).badge;
+}
+
+function WordLevelVisualization({ wordAssignments }: { wordAssignments: WordAssignment[] }) {
+  if (!wordAssignments || wordAssignments.length === 0) {
+    return null;
+  }
+
+  const sortedWords = wordAssignments.sort((a, b) => a.position - b.position);
+  const categories = Array.from(new Set(sortedWords.map(w => w.category)));
+  
+  return (
+    <div className="space-y-3">
+      <p className="font-medium text-sm">📝 Word-Level Category Assignment:</p>
+      <div className="p-3 bg-gray-50 rounded text-sm leading-relaxed">
+        {sortedWords.map((assignment, index) => (
+          <span
+            key={index}
+            className={`inline-block px-1 py-0.5 m-0.5 rounded border text-xs ${getCategoryColor(assignment.category, categories)}`}
+            title={`${assignment.category} - Position ${assignment.position}`}
+          >
+            {assignment.word}
+          </span>
+        ))}
+      </div>
+      
+      {/* Category Statistics */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-xs">
+        {categories.map(category => {
+          const count = sortedWords.filter(w => w.category === category).length;
+          const percentage = ((count / sortedWords.length) * 100).toFixed(1);
+          return (
+            <div key={category} className={`p-2 rounded border ${getCategoryColor(category, categories)}`}>
+              <p className="font-medium">{category}</p>
+              <p>{count} words ({percentage}%)</p>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+// Summed from the results so merged post and upload transcriptions are included
+function sumTranscriptionUsage(results: TranscriptionResult[]) {
+  return results.reduce(
+    (total, result) => ({
+      totalTokens: total.totalTokens + (result.usage && !result.usage.cached ? result.usage.totalTokens : 0),
+      costUsd: total.costUsd + (result.usage?.costUsd || 0)
+    }),
+    { totalTokens: 0, costUsd: 0 }
+  );
+}
+
+interface TrainingExportOptions {
+  includeOriginal: boolean;
+  includeSynthetic: boolean;
+  maxExamplesPerVideo: number;
+  format: 'jsonl' | 'json';
+  primarySpeakerOnly: boolean;
 }
 
 interface TranscriptionResponse {
   success: boolean;
   data?: {
-    transcriptionResults: Array<{
-      videoId: string;
-      videoUrl: string;
-      platform: string;
-      transcription: string;
-      marketingSegments?: MarketingSegments;
-      wordAssignments?: WordAssignment[];
-      processingTime: number;
-      success: boolean;
-      error?: string;
-    }>;
+    transcriptionResults: TranscriptionResult[];
     summary: {
       totalVideos: number;
       successful: number;
@@ -146,8 +310,16 @@ export default function CreatorProcessor() {
   const [transcriptionResponse, setTranscriptionResponse] = useState<TranscriptionResponse | null>(null);
   const [transcriptionStatus, setTranscriptionStatus] = useState("");
   const [fastMode, setFastMode] = useState(false); // Default to marketing analysis mode for fine-tuning
+  const [timestamps, setTimestamps] = useState(false); // Time each phrase for caption export
+  const [diarize, setDiarize] = useState(false); // Label who speaks in interviews and duets
+  const [translateTo, setTranslateTo] = useState("none"); // Language code to translate transcripts into
+  const [segmentFramework, setSegmentFramework] = useState(DEFAULT_SEGMENT_FRAMEWORK_ID); // How marketing segments are split
+  const [segmentFrameworks, setSegmentFrameworks] = useState<SegmentFrameworkOption[]>([]);
   const abortControllerRef = useRef<AbortController | null>(null);
   const transcriptionAbortRef = useRef<AbortController | null>(null);
+  const [postUrl, setPostUrl] = useState("");
+  const [uploadFiles, setUploadFiles] = useState<File[]>([]);
+  const uploadInputRef = useRef<HTMLInputElement | null>(null);
   
   // Template generation state
   const [templateGenerationStatus, setTemplateGenerationStatus] = useState("");
@@ -158,11 +330,12 @@ export default function CreatorProcessor() {
   // Training data export state
   const [exportStatus, setExportStatus] = useState("");
   const [trainingDataset, setTrainingDataset] = useState<any>(null);
-  const [exportOptions, setExportOptions] = useState({
+  const [exportOptions, setExportOptions] = useState<TrainingExportOptions>({
     includeOriginal: true,
     includeSynthetic: true,
     maxExamplesPerVideo: 10,
-    format: 'jsonl' as 'jsonl' | 'json'
+    format: 'jsonl',
+    primarySpeakerOnly: false
   });
 
   // Track if component has mounted on client (for hydration safety)
@@ -324,6 +497,18 @@ export default function CreatorProcessor() {
     }
   }, [isBrowser]);
 
+  // Built-in and saved segment frameworks for the framework picker and template labels
+  useEffect(() => {
+    fetch("/api/segment-frameworks")
+      .then(response => response.json())
+      .then(result => {
+        if (result.success) {
+          setSegmentFrameworks(result.data.frameworks);
+        }
+      })
+      .catch(error => console.warn('[SegmentFrameworks] Failed to load frameworks:', error));
+  }, []);
+
   const handleSubmit = async (event: React.FormEvent) => {
     event.preventDefault();
     
@@ -445,18 +630,23 @@ export default function CreatorProcessor() {
     try {
       // Convert extracted videos to transcription format
       const transcriptionRequest = {
+        parentRunId: apiResponse.runId, // Link the transcription run to its extraction run
         videos: apiResponse.extractedVideos
           .filter(video => video.video_url) // Only include videos with valid URLs
           .map(video => ({
             id: video.id,
             url: video.video_url!,
-            platform: video.platform as 'tiktok' | 'instagram',
+            platform: video.platform as 'tiktok' | 'instagram' | 'youtube',
             description: `${video.platform} video - ${video.quality}`
           })),
         options: {
           extractMarketingSegments: !fastMode, // Only enable marketing analysis if not in fast mode
           fastMode: fastMode, // Enable fast mode based on toggle
           includeVisualDescriptions: false,
+          timestamps: timestamps ? 'segment' as const : undefined,
+          diarize,
+          translateTo: translateTo === 'none' ? undefined : translateTo,
+          segmentFramework,
           model: 'gemini-2.0-flash' as const
         }
       };
@@ -528,6 +718,178 @@ export default function CreatorProcessor() {
     }
   };
 
+  // Keep individually transcribed videos alongside any creator video results already on screen
+  const mergeTranscriptionResults = (
+    newResults: TranscriptionResult[],
+    processingTime: number,
+    googleDrive?: NonNullable<TranscriptionResponse['data']>['googleDrive']
+  ) => {
+    const previousResults = transcriptionResponse?.success ? transcriptionResponse.data?.transcriptionResults || [] : [];
+    const mergedResults = [
+      ...previousResults.filter(previous => !newResults.some(result => result.videoId === previous.videoId)),
+      ...newResults
+    ];
+    const successful = mergedResults.filter(r => r.success).length;
+
+    const merged: TranscriptionResponse = {
+      success: successful > 0,
+      data: {
+        transcriptionResults: mergedResults,
+        summary: {
+          totalVideos: mergedResults.length,
+          successful,
+          failed: mergedResults.length - successful,
+          processingTime: (transcriptionResponse?.data?.summary.processingTime || 0) + processingTime
+        },
+        googleDrive: googleDrive || transcriptionResponse?.data?.googleDrive
+      }
+    };
+
+    setTranscriptionResponse(merged);
+    saveToStorage(STORAGE_KEYS.TRANSCRIPTION_RESPONSE, merged);
+  };
+
+  const handleTranscribePost = async () => {
+    if (!postUrl.trim()) {
+      setTranscriptionStatus("Enter a TikTok, Instagram or YouTube Shorts post URL");
+      return;
+    }
+
+    // Cancel any existing transcription request
+    if (transcriptionAbortRef.current) {
+      transcriptionAbortRef.current.abort();
+    }
+
+    transcriptionAbortRef.current = new AbortController();
+
+    setIsTranscribing(true);
+    setTranscriptionStatus(`Resolving and ${fastMode ? "transcribing" : "analyzing"} post...`);
+
+    try {
+      const response = await fetch("/api/transcribe-post", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          url: postUrl.trim(),
+          options: {
+            extractMarketingSegments: !fastMode,
+            fastMode: fastMode,
+            includeVisualDescriptions: false,
+            timestamps: timestamps ? 'segment' : undefined,
+            diarize,
+            translateTo: translateTo === 'none' ? undefined : translateTo,
+            segmentFramework,
+            model: 'gemini-2.0-flash'
+          }
+        }),
+        signal: transcriptionAbortRef.current.signal,
+      });
+
+      const result = await response.json();
+
+      if (!response.ok || !result.data?.transcriptionResult) {
+        throw new Error(result.error || `HTTP error! status: ${response.status}`);
+      }
+
+      const transcriptionResult: TranscriptionResult = result.data.transcriptionResult;
+      mergeTranscriptionResults([transcriptionResult], transcriptionResult.processingTime);
+
+      if (transcriptionResult.success) {
+        const views = result.data.video?.viewCount;
+        setTranscriptionStatus(
+          `Post ${transcriptionResult.videoId} complete${views ? ` (${views.toLocaleString()} views)` : ''} in ${Math.round(transcriptionResult.processingTime / 1000)}s`
+        );
+        setPostUrl("");
+      } else {
+        setTranscriptionStatus(`Post transcription failed: ${transcriptionResult.error || 'Unknown error'}`);
+      }
+
+    } catch (error: any) {
+      if (error.name === 'AbortError') {
+        setTranscriptionStatus("Post transcription cancelled");
+      } else {
+        console.error("Post transcription error:", error);
+        setTranscriptionStatus(`Post transcription failed: ${error.message}`);
+      }
+    } finally {
+      setIsTranscribing(false);
+      transcriptionAbortRef.current = null;
+    }
+  };
+
+  const handleTranscribeUploads = async () => {
+    if (uploadFiles.length === 0) {
+      setTranscriptionStatus("No video files selected");
+      return;
+    }
+
+    // Cancel any existing transcription request
+    if (transcriptionAbortRef.current) {
+      transcriptionAbortRef.current.abort();
+    }
+
+    transcriptionAbortRef.current = new AbortController();
+
+    setIsTranscribing(true);
+    const modeText = fastMode ? "Transcribing" : "Analyzing";
+    setTranscriptionStatus(`${modeText} ${uploadFiles.length} uploaded video${uploadFiles.length === 1 ? '' : 's'}...`);
+
+    try {
+      const formData = new FormData();
+      uploadFiles.forEach(file => formData.append("files", file));
+      formData.append("options", JSON.stringify({
+        extractMarketingSegments: !fastMode,
+        fastMode: fastMode,
+        includeVisualDescriptions: false,
+        timestamps: timestamps ? 'segment' : undefined,
+        diarize,
+        translateTo: translateTo === 'none' ? undefined : translateTo,
+        segmentFramework,
+        model: 'gemini-2.0-flash'
+      }));
+
+      const response = await fetch("/api/transcribe-uploads", {
+        method: "POST",
+        body: formData,
+        signal: transcriptionAbortRef.current.signal,
+      });
+
+      const result: TranscriptionResponse = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || `HTTP error! status: ${response.status}`);
+      }
+
+      const uploadSuccessCount = result.data?.summary.successful || 0;
+      setTranscriptionStatus(
+        `Uploaded videos complete! ${uploadSuccessCount}/${uploadFiles.length} files processed in ${Math.round((result.data?.summary.processingTime || 0) / 1000)}s`
+      );
+      mergeTranscriptionResults(
+        result.data?.transcriptionResults || [],
+        result.data?.summary.processingTime || 0,
+        result.data?.googleDrive
+      );
+
+      setUploadFiles([]);
+      if (uploadInputRef.current) {
+        uploadInputRef.current.value = "";
+      }
+
+    } catch (error: any) {
+      if (error.name === 'AbortError') {
+        setTranscriptionStatus("Upload transcription cancelled");
+      } else {
+        console.error("Upload transcription error:", error);
+        setTranscriptionStatus(`Upload transcription failed: ${error.message}`);
+      }
+    } finally {
+      setIsTranscribing(false);
+      transcriptionAbortRef.current = null;
+    }
+  };
+
   const handleGenerateTemplates = async () => {
     if (!transcriptionResponse?.data?.transcriptionResults) {
       setTemplateGenerationStatus("No transcription results available");
@@ -563,7 +925,8 @@ export default function CreatorProcessor() {
           },
           body: JSON.stringify({
             action: "generate-template",
-            marketingSegments: result.marketingSegments
+            marketingSegments: result.marketingSegments,
+            segmentFramework: result.segmentFramework
           }),
         });
 
@@ -702,6 +1065,7 @@ export default function CreatorProcessor() {
           syntheticScripts.push({
             topic,
             script: result.data.script,
+            prompt: result.data.prompt,
             processingTime: result.data.processingTime
           });
           totalProcessingTime += result.data.processingTime;
@@ -791,7 +1155,8 @@ export default function CreatorProcessor() {
             includeOriginalTranscriptions: exportOptions.includeOriginal,
             includeSyntheticScripts: exportOptions.includeSynthetic,
             maxExamplesPerVideo: exportOptions.maxExamplesPerVideo,
-            format: exportOptions.format
+            format: exportOptions.format,
+            primarySpeakerOnly: !!exportOptions.primarySpeakerOnly
           }
         }),
       });
@@ -897,58 +1262,42 @@ export default function CreatorProcessor() {
     }
   };
 
-  const getCategoryColor = (category: string) => {
-    switch (category) {
-      case 'Hook':
-        return 'bg-yellow-100 text-yellow-800 border-yellow-200';
-      case 'Bridge':
-        return 'bg-blue-100 text-blue-800 border-blue-200';
-      case 'Golden Nugget':
-        return 'bg-amber-100 text-amber-800 border-amber-200';
-      case 'WTA':
-        return 'bg-green-100 text-green-800 border-green-200';
-      default:
-        return 'bg-gray-100 text-gray-800 border-gray-200';
-    }
-  };
+  const handleDownloadSubtitles = async (result: TranscriptionResult, format: 'srt' | 'vtt') => {
+    try {
+      const response = await fetch("/api/export-subtitles", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          transcriptionResult: result,
+          format,
+          segmentStyles: !!result.marketingSegments
+        }),
+      });
 
-  const WordLevelVisualization = ({ wordAssignments }: { wordAssignments: WordAssignment[] }) => {
-    if (!wordAssignments || wordAssignments.length === 0) {
-      return null;
-    }
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
 
-    const sortedWords = wordAssignments.sort((a, b) => a.position - b.position);
-    
-    return (
-      <div className="space-y-3">
-        <p className="font-medium text-sm">📝 Word-Level Category Assignment:</p>
-        <div className="p-3 bg-gray-50 rounded text-sm leading-relaxed">
-          {sortedWords.map((assignment, index) => (
-            <span
-              key={index}
-              className={`inline-block px-1 py-0.5 m-0.5 rounded border text-xs ${getCategoryColor(assignment.category)}`}
-              title={`${assignment.category} - Position ${assignment.position}`}
-            >
-              {assignment.word}
-            </span>
-          ))}
-        </div>
-        
-        {/* Category Statistics */}
-        <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-xs">
-          {['Hook', 'Bridge', 'Golden Nugget', 'WTA'].map(category => {
-            const count = sortedWords.filter(w => w.category === category).length;
-            const percentage = ((count / sortedWords.length) * 100).toFixed(1);
-            return (
-              <div key={category} className={`p-2 rounded border ${getCategoryColor(category)}`}>
-                <p className="font-medium">{category}</p>
-                <p>{count} words ({percentage}%)</p>
-              </div>
-            );
-          })}
-        </div>
-      </div>
-    );
+      const blob = new Blob([await response.text()], {
+        type: format === 'vtt' ? 'text/vtt' : 'application/x-subrip'
+      });
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.style.display = 'none';
+      a.href = url;
+      a.download = `${result.platform}_${result.videoId}.${format}`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+
+    } catch (error: any) {
+      console.error("Subtitle download error:", error);
+      setTranscriptionStatus(`Subtitle download failed: ${error.message}`);
+    }
   };
 
   const renderSavedDataSection = () => {
@@ -1031,6 +1380,7 @@ export default function CreatorProcessor() {
               <SelectContent>
                 <SelectItem value="tiktok">TikTok</SelectItem>
                 <SelectItem value="instagram">Instagram</SelectItem>
+                <SelectItem value="youtube">YouTube Shorts</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -1097,6 +1447,78 @@ export default function CreatorProcessor() {
         </div>
       </form>
 
+      {/* Individual Videos: single post URL or direct upload */}
+      <div className="p-4 bg-slate-50 rounded-lg border border-slate-200 space-y-3">
+        <div className="space-y-1">
+          <Label htmlFor="post-url" className="text-sm font-medium">Single Post URL</Label>
+          <p className="text-xs text-muted-foreground">
+            Transcribe one public TikTok, Instagram or YouTube Shorts post instead of a creator&apos;s top videos
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Input
+            id="post-url"
+            type="url"
+            placeholder="https://www.tiktok.com/@creator/video/..."
+            value={postUrl}
+            onChange={(e) => setPostUrl(e.target.value)}
+            disabled={isTranscribing}
+            className="flex-1"
+          />
+          <Button
+            type="button"
+            onClick={handleTranscribePost}
+            disabled={isTranscribing || !postUrl.trim()}
+          >
+            {isTranscribing ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Link className="mr-2 h-4 w-4" />
+            )}
+            Transcribe Post
+          </Button>
+        </div>
+
+        <div className="space-y-1 pt-2">
+          <Label htmlFor="video-upload" className="text-sm font-medium">Upload Video Files</Label>
+          <p className="text-xs text-muted-foreground">
+            Transcribe local MP4s (max 200MB each, up to 10 files) using the current {fastMode ? "fast" : "marketing analysis"} mode
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Input
+            id="video-upload"
+            ref={uploadInputRef}
+            type="file"
+            accept="video/*"
+            multiple
+            onChange={(e) => setUploadFiles(Array.from(e.target.files || []).slice(0, 10))}
+            disabled={isTranscribing}
+            className="flex-1"
+          />
+          <Button
+            type="button"
+            onClick={handleTranscribeUploads}
+            disabled={isTranscribing || uploadFiles.length === 0}
+          >
+            {isTranscribing ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Upload className="mr-2 h-4 w-4" />
+            )}
+            {uploadFiles.length > 0 ? `Transcribe ${uploadFiles.length} File${uploadFiles.length === 1 ? '' : 's'}` : "Transcribe Files"}
+          </Button>
+        </div>
+        {!apiResponse && transcriptionStatus && (
+          <div className="p-2 bg-purple-50 border border-purple-200 rounded text-sm">
+            <div className="flex items-center gap-2">
+              {isTranscribing && <Loader2 className="h-3 w-3 animate-spin" />}
+              <span>{transcriptionStatus}</span>
+            </div>
+          </div>
+        )}
+      </div>
+
       {/* Status Display */}
       {statusMessage && (
         <div className={`flex items-center gap-2 p-4 rounded-lg border ${
@@ -1119,6 +1541,9 @@ export default function CreatorProcessor() {
               <p><strong>Platform:</strong> {apiResponse.platform}</p>
               <p><strong>Username:</strong> @{apiResponse.username}</p>
               <p><strong>Status:</strong> {apiResponse.success ? "Success" : "Failed"}</p>
+              {apiResponse.runId && (
+                <p><strong>Run ID:</strong> <code className="text-xs">{apiResponse.runId}</code></p>
+              )}
               {apiResponse.pagination && (
                 <>
                   <p><strong>Requested:</strong> {apiResponse.pagination.totalRequested || videoCount} videos</p>
@@ -1289,6 +1714,92 @@ export default function CreatorProcessor() {
                       disabled={isTranscribing}
                     />
                   </div>
+                  <div className="flex items-center justify-between mt-3 pt-3 border-t border-slate-200">
+                    <div className="space-y-1">
+                      <Label htmlFor="timestamps" className="text-sm font-medium">
+                        Timestamps
+                      </Label>
+                      <p className="text-xs text-muted-foreground">
+                        Time each phrase for SRT/WebVTT caption export
+                      </p>
+                    </div>
+                    <Switch
+                      id="timestamps"
+                      checked={timestamps}
+                      onCheckedChange={setTimestamps}
+                      disabled={isTranscribing}
+                    />
+                  </div>
+                  <div className="flex items-center justify-between mt-3 pt-3 border-t border-slate-200">
+                    <div className="space-y-1">
+                      <Label htmlFor="diarize" className="text-sm font-medium">
+                        Speaker Labels
+                      </Label>
+                      <p className="text-xs text-muted-foreground">
+                        Split interviews and duets into speaker turns
+                      </p>
+                    </div>
+                    <Switch
+                      id="diarize"
+                      checked={diarize}
+                      onCheckedChange={setDiarize}
+                      disabled={isTranscribing}
+                    />
+                  </div>
+                  <div className="flex items-center justify-between mt-3 pt-3 border-t border-slate-200">
+                    <div className="space-y-1">
+                      <Label htmlFor="translateTo" className="text-sm font-medium">
+                        Translate To
+                      </Label>
+                      <p className="text-xs text-muted-foreground">
+                        Keep a translation next to the original transcript
+                      </p>
+                    </div>
+                    <Select
+                      value={translateTo}
+                      onValueChange={setTranslateTo}
+                      disabled={isTranscribing}
+                    >
+                      <SelectTrigger id="translateTo" className="w-36">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">No translation</SelectItem>
+                        <SelectItem value="en">English</SelectItem>
+                        <SelectItem value="es">Spanish</SelectItem>
+                        <SelectItem value="pt">Portuguese</SelectItem>
+                        <SelectItem value="fr">French</SelectItem>
+                        <SelectItem value="de">German</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex items-center justify-between mt-3 pt-3 border-t border-slate-200">
+                    <div className="space-y-1">
+                      <Label htmlFor="segmentFramework" className="text-sm font-medium">
+                        Segment Framework
+                      </Label>
+                      <p className="text-xs text-muted-foreground">
+                        How marketing analysis splits each script
+                      </p>
+                    </div>
+                    <Select
+                      value={segmentFramework}
+                      onValueChange={setSegmentFramework}
+                      disabled={isTranscribing || fastMode}
+                    >
+                      <SelectTrigger id="segmentFramework" className="w-36">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {segmentFrameworks.length === 0 && (
+                          <SelectItem value={DEFAULT_SEGMENT_FRAMEWORK_ID}>Hook / Bridge / Golden Nugget / WTA</SelectItem>
+                        )}
+                        {segmentFrameworks.map(framework => (
+                          <SelectItem key={framework.id} value={framework.id}>{framework.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                 </div>
 
                 <div className="flex gap-2">
@@ -1364,536 +1875,660 @@ export default function CreatorProcessor() {
             </div>
           )}
 
-          {/* Transcription Results */}
-          {transcriptionResponse && (
-            <div className={`p-4 rounded-lg border ${fastMode ? 'bg-yellow-50 border-yellow-200' : 'bg-purple-50 border-purple-200'}`}>
-              <h3 className={`font-semibold mb-2 ${fastMode ? 'text-yellow-800' : 'text-purple-800'}`}>
-                {fastMode ? "Fast Transcription Results" : "Marketing Analysis Results"}
-                {transcriptionResponse.data?.summary && (
-                  <span className="ml-2 text-sm font-normal">
-                    ({transcriptionResponse.data.summary.successful}/{transcriptionResponse.data.summary.totalVideos} successful)
-                  </span>
-                )}
-              </h3>
-              
-              {transcriptionResponse.success && transcriptionResponse.data ? (
-                <div className="space-y-4">
-                  {/* Summary */}
-                  <div className="p-3 bg-white rounded border">
-                    <h4 className="font-medium mb-2">Processing Summary</h4>
-                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
-                      <div>
-                        <p className="text-muted-foreground">Total Videos</p>
-                        <p className="font-semibold">{transcriptionResponse.data.summary.totalVideos}</p>
-                      </div>
-                      <div>
-                        <p className="text-muted-foreground">Successful</p>
-                        <p className="font-semibold text-green-600">{transcriptionResponse.data.summary.successful}</p>
-                      </div>
-                      <div>
-                        <p className="text-muted-foreground">Failed</p>
-                        <p className="font-semibold text-red-600">{transcriptionResponse.data.summary.failed}</p>
-                      </div>
+        </div>
+      )}
+
+      {/* Transcription Results (creator videos and uploaded files) */}
+      {transcriptionResponse && (
+        <TranscriptionResultsPanel
+          transcriptionResponse={transcriptionResponse}
+          fastMode={fastMode}
+          segmentFrameworks={segmentFrameworks}
+          templateGenerationStatus={templateGenerationStatus}
+          generatedTemplates={generatedTemplates}
+          syntheticTopic={syntheticTopic}
+          setSyntheticTopic={setSyntheticTopic}
+          syntheticScript={syntheticScript}
+          exportStatus={exportStatus}
+          trainingDataset={trainingDataset}
+          exportOptions={exportOptions}
+          setExportOptions={setExportOptions}
+          handleGenerateTemplates={handleGenerateTemplates}
+          handleGenerateSyntheticScript={handleGenerateSyntheticScript}
+          handleGenerateAllSyntheticScripts={handleGenerateAllSyntheticScripts}
+          handleExportTrainingData={handleExportTrainingData}
+          handleDownloadTrainingData={handleDownloadTrainingData}
+          handleDownloadSubtitles={handleDownloadSubtitles}
+        />
+      )}
+
+      {/* Rate Limiting Info */}
+      <div className="text-xs text-muted-foreground text-center">
+        Rate limit: {rateLimiter.maxCalls} requests per minute to prevent API abuse
+      </div>
+    </div>
+  );
+} 
+
+interface TranscriptionResultsPanelProps {
+  transcriptionResponse: TranscriptionResponse;
+  fastMode: boolean;
+  segmentFrameworks: SegmentFrameworkOption[];
+  templateGenerationStatus: string;
+  generatedTemplates: GeneratedTemplates | null;
+  syntheticTopic: string;
+  setSyntheticTopic: (topic: string) => void;
+  syntheticScript: MarketingSegments | null;
+  exportStatus: string;
+  trainingDataset: any;
+  exportOptions: TrainingExportOptions;
+  setExportOptions: React.Dispatch<React.SetStateAction<TrainingExportOptions>>;
+  handleGenerateTemplates: () => void;
+  handleGenerateSyntheticScript: () => void;
+  handleGenerateAllSyntheticScripts: () => void;
+  handleExportTrainingData: () => void;
+  handleDownloadTrainingData: (format: 'jsonl' | 'json', includeMetadata?: boolean) => void;
+  handleDownloadSubtitles: (result: TranscriptionResult, format: 'srt' | 'vtt') => void;
+}
+
+/**
+ * Results of creator video and uploaded file transcriptions, with the template
+ * generation and training data export that build on them
+ */
+function TranscriptionResultsPanel({
+  transcriptionResponse,
+  fastMode,
+  segmentFrameworks,
+  templateGenerationStatus,
+  generatedTemplates,
+  syntheticTopic,
+  setSyntheticTopic,
+  syntheticScript,
+  exportStatus,
+  trainingDataset,
+  exportOptions,
+  setExportOptions,
+  handleGenerateTemplates,
+  handleGenerateSyntheticScript,
+  handleGenerateAllSyntheticScripts,
+  handleExportTrainingData,
+  handleDownloadTrainingData,
+  handleDownloadSubtitles
+}: TranscriptionResultsPanelProps) {
+  return (
+    <div className={`p-4 rounded-lg border ${fastMode ? 'bg-yellow-50 border-yellow-200' : 'bg-purple-50 border-purple-200'}`}>
+      <h3 className={`font-semibold mb-2 ${fastMode ? 'text-yellow-800' : 'text-purple-800'}`}>
+        {fastMode ? "Fast Transcription Results" : "Marketing Analysis Results"}
+        {transcriptionResponse.data?.summary && (
+          <span className="ml-2 text-sm font-normal">
+            ({transcriptionResponse.data.summary.successful}/{transcriptionResponse.data.summary.totalVideos} successful)
+          </span>
+        )}
+      </h3>
+          
+      {transcriptionResponse.success && transcriptionResponse.data ? (
+        <div className="space-y-4">
+          {/* Summary */}
+          <div className="p-3 bg-white rounded border">
+            <h4 className="font-medium mb-2">Processing Summary</h4>
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-4 text-sm">
+              <div>
+                <p className="text-muted-foreground">Total Videos</p>
+                <p className="font-semibold">{transcriptionResponse.data.summary.totalVideos}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Successful</p>
+                <p className="font-semibold text-green-600">{transcriptionResponse.data.summary.successful}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Failed</p>
+                <p className="font-semibold text-red-600">{transcriptionResponse.data.summary.failed}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Processing Time</p>
+                <p className="font-semibold">{Math.round(transcriptionResponse.data.summary.processingTime / 1000)}s</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Gemini Tokens</p>
+                <p className="font-semibold">{sumTranscriptionUsage(transcriptionResponse.data.transcriptionResults).totalTokens.toLocaleString()}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Estimated Cost</p>
+                <p className="font-semibold">{formatCost(sumTranscriptionUsage(transcriptionResponse.data.transcriptionResults).costUsd)}</p>
+              </div>
+            </div>
+          </div>
+
+          {/* Individual Results */}
+          {transcriptionResponse.data.transcriptionResults && transcriptionResponse.data.transcriptionResults.length > 0 && (
+            <div className="space-y-3 max-h-96 overflow-y-auto">
+              <h4 className="font-medium">
+                {fastMode ? "Individual Transcriptions" : "Individual Marketing Analysis"}
+              </h4>
+              {transcriptionResponse.data.transcriptionResults.map((result, index) => (
+                <div key={result.videoId} className="p-3 bg-white rounded border">
+                  <div className="space-y-2">
+                    {/* Header */}
+                    <div className="flex justify-between items-start">
                       <div>
-                        <p className="text-muted-foreground">Processing Time</p>
-                        <p className="font-semibold">{Math.round(transcriptionResponse.data.summary.processingTime / 1000)}s</p>
+                        <p className="font-medium">Video {index + 1}: {result.videoId}</p>
+                        <p className="text-sm text-muted-foreground">
+                          Platform: {result.platform} • Processing: {result.processingTime}ms
+                          {result.language && ` • Language: ${result.language.name}`}
+                          {result.quality && ` • Quality: ${result.quality.score}/100`}
+                          {result.model && ` • Model: ${result.model}`}
+                        </p>
+                        {result.modelFallbacks && result.modelFallbacks.length > 0 && (
+                          <p className="text-xs text-muted-foreground">
+                            Fell back from {result.modelFallbacks.map(fallback => `${fallback.model} (${fallback.reason.replace('_', ' ')})`).join(', ')}
+                          </p>
+                        )}
+                        {result.quality?.reanalysis && (
+                          <p className="text-xs text-muted-foreground">
+                            Re-analyzed with {result.quality.reanalysis.model} after scoring {result.quality.reanalysis.originalScore}
+                            {result.quality.reanalysis.error
+                              ? ` (failed: ${result.quality.reanalysis.error})`
+                              : `; kept the ${result.quality.reanalysis.kept === 'reanalysis' ? 'new' : 'original'} result`}
+                          </p>
+                        )}
                       </div>
+                      <span className={`px-2 py-1 text-xs rounded ${
+                        result.success 
+                          ? 'bg-green-100 text-green-700' 
+                          : 'bg-red-100 text-red-700'
+                      }`}>
+                        {result.success ? 'Success' : 'Failed'}
+                      </span>
                     </div>
-                  </div>
 
-                  {/* Individual Results */}
-                  {transcriptionResponse.data.transcriptionResults && transcriptionResponse.data.transcriptionResults.length > 0 && (
-                    <div className="space-y-3 max-h-96 overflow-y-auto">
-                      <h4 className="font-medium">
-                        {fastMode ? "Individual Transcriptions" : "Individual Marketing Analysis"}
-                      </h4>
-                      {transcriptionResponse.data.transcriptionResults.map((result, index) => (
-                        <div key={result.videoId} className="p-3 bg-white rounded border">
-                          <div className="space-y-2">
-                            {/* Header */}
-                            <div className="flex justify-between items-start">
-                              <div>
-                                <p className="font-medium">Video {index + 1}: {result.videoId}</p>
-                                <p className="text-sm text-muted-foreground">
-                                  Platform: {result.platform} • Processing: {result.processingTime}ms
-                                </p>
-                              </div>
-                              <span className={`px-2 py-1 text-xs rounded ${
-                                result.success 
-                                  ? 'bg-green-100 text-green-700' 
-                                  : 'bg-red-100 text-red-700'
-                              }`}>
-                                {result.success ? 'Success' : 'Failed'}
-                              </span>
-                            </div>
-
-                            {/* Content based on mode */}
-                            {result.success && (
-                              <div className="space-y-3">
-                                {/* Marketing Segments - Only show in marketing analysis mode */}
-                                {!fastMode && result.marketingSegments && (
-                                  <>
-                                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                                      {/* Hook */}
-                                      <div className="p-2 bg-yellow-50 border border-yellow-200 rounded">
-                                        <p className="font-medium text-sm text-yellow-800">🎣 Hook</p>
-                                        <p className="text-sm mt-1">{result.marketingSegments.Hook}</p>
-                                      </div>
-                                      
-                                      {/* Bridge */}
-                                      <div className="p-2 bg-blue-50 border border-blue-200 rounded">
-                                        <p className="font-medium text-sm text-blue-800">🌉 Bridge</p>
-                                        <p className="text-sm mt-1">{result.marketingSegments.Bridge}</p>
-                                      </div>
-                                      
-                                      {/* Golden Nugget */}
-                                      <div className="p-2 bg-amber-50 border border-amber-200 rounded">
-                                        <p className="font-medium text-sm text-amber-800">💎 Golden Nugget</p>
-                                        <p className="text-sm mt-1">{result.marketingSegments["Golden Nugget"]}</p>
-                                      </div>
-                                      
-                                      {/* WTA */}
-                                      <div className="p-2 bg-green-50 border border-green-200 rounded">
-                                        <p className="font-medium text-sm text-green-800">🎯 WTA (Why To Act)</p>
-                                        <p className="text-sm mt-1">{result.marketingSegments.WTA}</p>
-                                      </div>
-                                    </div>
-
-                                    {/* Word-Level Visualization */}
-                                    {result.wordAssignments && result.wordAssignments.length > 0 && (
-                                      <div className="mt-4 p-3 bg-slate-50 border border-slate-200 rounded">
-                                        <WordLevelVisualization wordAssignments={result.wordAssignments} />
-                                      </div>
-                                    )}
-                                  </>
-                                )}
-
-                                {/* Full Transcription - Always show */}
-                                <div>
-                                  <p className="font-medium text-sm">📝 {fastMode ? "Transcription" : "Full Transcription"}:</p>
-                                  <div className="p-2 bg-gray-50 rounded text-sm max-h-32 overflow-y-auto">
-                                    {result.transcription}
-                                  </div>
-                                </div>
+                    {/* Quality Issues */}
+                    {result.quality && result.quality.issues.length > 0 && (
+                      <ul className="text-xs text-amber-700 list-disc list-inside">
+                        {result.quality.issues.map((issue, i) => (
+                          <li key={i}>{issue.message} (-{issue.penalty})</li>
+                        ))}
+                      </ul>
+                    )}
 
-                                {/* Copy Buttons */}
-                                <div className="flex gap-2 flex-wrap">
-                                  <button
-                                    onClick={() => navigator.clipboard.writeText(result.transcription)}
-                                    className="px-2 py-1 bg-gray-600 text-white text-xs rounded hover:bg-gray-700 transition-colors"
-                                  >
-                                    Copy Transcription
-                                  </button>
-                                  {!fastMode && result.marketingSegments && (
-                                    <button
-                                      onClick={() => navigator.clipboard.writeText(JSON.stringify(result.marketingSegments, null, 2))}
-                                      className="px-2 py-1 bg-purple-600 text-white text-xs rounded hover:bg-purple-700 transition-colors"
-                                    >
-                                      Copy Marketing Segments
-                                    </button>
-                                  )}
-                                  {!fastMode && result.wordAssignments && (
-                                    <button
-                                      onClick={() => navigator.clipboard.writeText(JSON.stringify(result.wordAssignments, null, 2))}
-                                      className="px-2 py-1 bg-indigo-600 text-white text-xs rounded hover:bg-indigo-700 transition-colors"
-                                    >
-                                      Copy Word Assignments
-                                    </button>
-                                  )}
-                                </div>
+                    {/* Content based on mode */}
+                    {result.success && (
+                      <div className="space-y-3">
+                        {/* Marketing Segments - Only show in marketing analysis mode */}
+                        {!fastMode && result.marketingSegments && (
+                          <>
+                            <SegmentCards segments={Object.entries(result.marketingSegments)} />
+
+                            {/* Segment Timing */}
+                            {result.timeline?.segmentRanges && (
+                              <div className="flex gap-3 flex-wrap text-xs text-muted-foreground">
+                                {Object.keys(result.marketingSegments).map(category => {
+                                  const range = result.timeline!.segmentRanges![category];
+                                  return range && (
+                                    <span key={category}>
+                                      {category}: {formatSeconds(range.start)}–{formatSeconds(range.end)}
+                                    </span>
+                                  );
+                                })}
                               </div>
                             )}
 
-                            {/* Error Message */}
-                            {!result.success && result.error && (
-                              <div className="p-2 bg-red-50 border border-red-200 rounded text-sm">
-                                <p className="text-red-600"><strong>Error:</strong> {result.error}</p>
+                            {/* Word-Level Visualization */}
+                            {result.wordAssignments && result.wordAssignments.length > 0 && (
+                              <div className="mt-4 p-3 bg-slate-50 border border-slate-200 rounded">
+                                <WordLevelVisualization wordAssignments={result.wordAssignments} />
                               </div>
                             )}
+
+                            {/* Alignment Warning */}
+                            {result.alignment?.quality === 'low' && (
+                              <p className="text-xs text-red-600">
+                                ⚠️ Segments don&apos;t line up with the transcript: {result.alignment.issues.join('; ')}
+                              </p>
+                            )}
+                          </>
+                        )}
+
+                        {/* Speaker Turns */}
+                        {result.diarization && result.diarization.speakers.length > 1 && (
+                          <div>
+                            <p className="font-medium text-sm">
+                              🎙️ Speakers ({result.diarization.speakers.map(s => `${s.speaker} ${Math.round(s.share * 100)}%`).join(', ')}):
+                            </p>
+                            <div className="p-2 bg-gray-50 rounded text-sm max-h-32 overflow-y-auto space-y-1">
+                              {result.diarization.utterances.map((utterance, utteranceIndex) => (
+                                <p key={utteranceIndex}>
+                                  <span className={`font-medium ${utterance.speaker === result.diarization!.primarySpeaker ? 'text-purple-700' : 'text-gray-500'}`}>
+                                    {utterance.speaker}:
+                                  </span>{' '}
+                                  {utterance.text}
+                                </p>
+                              ))}
+                            </div>
+                          </div>
+                        )}
+
+                        {/* Full Transcription - Always show */}
+                        <div>
+                          <p className="font-medium text-sm">📝 {fastMode ? "Transcription" : "Full Transcription"}:</p>
+                          <div className="p-2 bg-gray-50 rounded text-sm max-h-32 overflow-y-auto">
+                            {result.transcription}
                           </div>
                         </div>
-                      ))}
-                    </div>
-                  )}
 
-                  {/* Google Drive Marketing Analysis Archive */}
-                  {transcriptionResponse.data.googleDrive && (
-                    <div className="p-3 bg-white rounded border">
-                      <h4 className="font-medium mb-2">Google Drive Marketing Analysis Archive</h4>
-                      <div className="space-y-1 text-sm">
-                        <p><strong>Folder:</strong> {transcriptionResponse.data.googleDrive.folderName}</p>
-                        <p><strong>Files:</strong> {transcriptionResponse.data.googleDrive.files.length} uploaded</p>
-                        <div className="mt-2 flex gap-2">
-                          <a 
-                            href={transcriptionResponse.data.googleDrive.folderUrl}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            className="inline-flex items-center px-3 py-1 bg-purple-600 text-white text-xs rounded-md hover:bg-purple-700 transition-colors"
+                        {/* Translation */}
+                        {result.translation && (
+                          <div>
+                            <p className="font-medium text-sm">🌐 Translation ({result.translation.language}):</p>
+                            <div className="p-2 bg-gray-50 rounded text-sm max-h-32 overflow-y-auto">
+                              {result.translation.transcription}
+                            </div>
+                          </div>
+                        )}
+
+                        {/* Copy Buttons */}
+                        <div className="flex gap-2 flex-wrap">
+                          <button
+                            onClick={() => navigator.clipboard.writeText(result.transcription)}
+                            className="px-2 py-1 bg-gray-600 text-white text-xs rounded hover:bg-gray-700 transition-colors"
                           >
-                            <Download className="mr-1 h-3 w-3" />
-                            View Marketing Analysis in Drive
-                          </a>
+                            Copy Transcription
+                          </button>
+                          {!fastMode && result.marketingSegments && (
+                            <button
+                              onClick={() => navigator.clipboard.writeText(JSON.stringify(result.marketingSegments, null, 2))}
+                              className="px-2 py-1 bg-purple-600 text-white text-xs rounded hover:bg-purple-700 transition-colors"
+                            >
+                              Copy Marketing Segments
+                            </button>
+                          )}
+                          {!fastMode && result.wordAssignments && (
+                            <button
+                              onClick={() => navigator.clipboard.writeText(JSON.stringify(result.wordAssignments, null, 2))}
+                              className="px-2 py-1 bg-indigo-600 text-white text-xs rounded hover:bg-indigo-700 transition-colors"
+                            >
+                              Copy Word Assignments
+                            </button>
+                          )}
+                          {result.timeline && (
+                            <>
+                              <button
+                                onClick={() => handleDownloadSubtitles(result, 'srt')}
+                                className="px-2 py-1 bg-teal-600 text-white text-xs rounded hover:bg-teal-700 transition-colors"
+                              >
+                                Download SRT
+                              </button>
+                              <button
+                                onClick={() => handleDownloadSubtitles(result, 'vtt')}
+                                className="px-2 py-1 bg-teal-600 text-white text-xs rounded hover:bg-teal-700 transition-colors"
+                              >
+                                Download WebVTT
+                              </button>
+                            </>
+                          )}
                         </div>
                       </div>
-                    </div>
-                  )}
+                    )}
 
-                  {/* Template Generation Section - Only show in marketing analysis mode */}
-                  {!fastMode && transcriptionResponse.data.transcriptionResults && 
-                   transcriptionResponse.data.transcriptionResults.some(r => r.success && r.marketingSegments) && (
-                    <div className="p-3 bg-gradient-to-r from-indigo-50 to-purple-50 rounded border border-indigo-200">
-                      <h4 className="font-medium mb-3 text-indigo-800">🎯 Template Generation & Synthetic Scripts</h4>
-                      
-                      {/* Generate Templates Button */}
+                    {/* Error Message */}
+                    {!result.success && result.error && (
+                      <div className="p-2 bg-red-50 border border-red-200 rounded text-sm">
+                        <p className="text-red-600"><strong>Error:</strong> {result.error}</p>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Google Drive Marketing Analysis Archive */}
+          {transcriptionResponse.data.googleDrive && (
+            <div className="p-3 bg-white rounded border">
+              <h4 className="font-medium mb-2">Google Drive Marketing Analysis Archive</h4>
+              <div className="space-y-1 text-sm">
+                <p><strong>Folder:</strong> {transcriptionResponse.data.googleDrive.folderName}</p>
+                <p><strong>Files:</strong> {transcriptionResponse.data.googleDrive.files.length} uploaded</p>
+                <div className="mt-2 flex gap-2">
+                  <a 
+                    href={transcriptionResponse.data.googleDrive.folderUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center px-3 py-1 bg-purple-600 text-white text-xs rounded-md hover:bg-purple-700 transition-colors"
+                  >
+                    <Download className="mr-1 h-3 w-3" />
+                    View Marketing Analysis in Drive
+                  </a>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Template Generation Section - Only show in marketing analysis mode */}
+          {!fastMode && transcriptionResponse.data.transcriptionResults && 
+           transcriptionResponse.data.transcriptionResults.some(r => r.success && r.marketingSegments) && (
+            <div className="p-3 bg-gradient-to-r from-indigo-50 to-purple-50 rounded border border-indigo-200">
+              <h4 className="font-medium mb-3 text-indigo-800">🎯 Template Generation & Synthetic Scripts</h4>
+                  
+              {/* Generate Templates Button */}
+              <div className="space-y-3">
+                <div className="flex gap-2 items-center">
+                  <button
+                    onClick={handleGenerateTemplates}
+                    className="px-3 py-2 bg-indigo-600 text-white text-sm rounded hover:bg-indigo-700 transition-colors"
+                    disabled={!!(templateGenerationStatus && templateGenerationStatus.includes("Generating"))}
+                  >
+                    {templateGenerationStatus && templateGenerationStatus.includes("Generating") ? "Generating..." : "Generate Templates from All Scripts"}
+                  </button>
+                  <p className="text-sm text-muted-foreground">
+                    Convert ALL successful marketing segments into reusable templates
+                  </p>
+                </div>
+
+                {/* Template Generation Status */}
+                {templateGenerationStatus && (
+                  <div className="p-2 bg-white rounded border text-sm">
+                    <p className={templateGenerationStatus.includes("failed") ? "text-red-600" : "text-indigo-600"}>
+                      {templateGenerationStatus}
+                    </p>
+                  </div>
+                )}
+
+                {/* Generated Templates Display */}
+                {generatedTemplates && (
+                  <div className="space-y-3">
+                    <h5 className="font-medium text-indigo-800">
+                      📋 Generated Templates 
+                      {generatedTemplates.allTemplates && (
+                        <span className="text-sm font-normal text-indigo-600">
+                          ({generatedTemplates.allTemplates.length} templates from successful scripts)
+                        </span>
+                      )}
+                    </h5>
+                    <SegmentCards
+                      segments={getTemplateSegments(generatedTemplates, segmentFrameworks)}
+                      labelSuffix=" Template"
+                      mono
+                    />
+
+                    {/* Synthetic Script Generation */}
+                    <div className="mt-4 p-3 bg-white rounded border">
+                      <h5 className="font-medium text-indigo-800 mb-2">✨ Generate Synthetic Scripts</h5>
                       <div className="space-y-3">
+                        {/* Automatic Generation */}
                         <div className="flex gap-2 items-center">
                           <button
-                            onClick={handleGenerateTemplates}
-                            className="px-3 py-2 bg-indigo-600 text-white text-sm rounded hover:bg-indigo-700 transition-colors"
+                            onClick={handleGenerateAllSyntheticScripts}
                             disabled={!!(templateGenerationStatus && templateGenerationStatus.includes("Generating"))}
+                            className="px-3 py-2 bg-purple-600 text-white text-sm rounded hover:bg-purple-700 transition-colors disabled:opacity-50"
                           >
-                            {templateGenerationStatus && templateGenerationStatus.includes("Generating") ? "Generating..." : "Generate Templates from All Scripts"}
+                            Auto-Generate 5 Synthetic Scripts
                           </button>
                           <p className="text-sm text-muted-foreground">
-                            Convert ALL successful marketing segments into reusable templates
+                            Automatically create scripts for: productivity, social media, health, fitness, business
                           </p>
                         </div>
+                            
+                        {/* Manual Generation */}
+                        <div className="border-t pt-2">
+                          <p className="text-xs text-muted-foreground mb-2">Or generate a custom topic:</p>
+                          <div className="flex gap-2">
+                            <input
+                              type="text"
+                              value={syntheticTopic}
+                              onChange={(e) => setSyntheticTopic(e.target.value)}
+                              placeholder="Enter a custom topic..."
+                              className="flex-1 px-3 py-2 border border-gray-300 rounded text-sm"
+                            />
+                            <button
+                              onClick={handleGenerateSyntheticScript}
+                                                                      disabled={!syntheticTopic.trim() || (!!(templateGenerationStatus && templateGenerationStatus.includes("Generating")))}
+                              className="px-3 py-2 bg-gray-600 text-white text-sm rounded hover:bg-gray-700 transition-colors disabled:opacity-50"
+                            >
+                              Generate Custom
+                            </button>
+                          </div>
+                        </div>
+                      </div>
+                    </div>
+
+                    {/* Generated Synthetic Script */}
+                    {syntheticScript && (
+                      <div className="space-y-3">
+                        <h5 className="font-medium text-purple-800">🎬 Generated Synthetic Script</h5>
+                        <SegmentCards segments={Object.entries(syntheticScript)} />
+
+                        {/* Copy Buttons for Templates and Synthetic Script */}
+                        <div className="flex gap-2 flex-wrap">
+                          <button
+                            onClick={() => navigator.clipboard.writeText(JSON.stringify(generatedTemplates, null, 2))}
+                            className="px-2 py-1 bg-indigo-600 text-white text-xs rounded hover:bg-indigo-700 transition-colors"
+                          >
+                            Copy Templates
+                          </button>
+                          <button
+                            onClick={() => navigator.clipboard.writeText(JSON.stringify(syntheticScript, null, 2))}
+                            className="px-2 py-1 bg-purple-600 text-white text-xs rounded hover:bg-purple-700 transition-colors"
+                          >
+                            Copy Synthetic Script
+                          </button>
+                          <button
+                            onClick={() => {
+                              const fullScript = Object.values(syntheticScript).join(' ');
+                              navigator.clipboard.writeText(fullScript);
+                            }}
+                            className="px-2 py-1 bg-gray-600 text-white text-xs rounded hover:bg-gray-700 transition-colors"
+                          >
+                            Copy Full Script
+                          </button>
+                        </div>
+                      </div>
+                    )}
+
+                    {/* Template Copy Button */}
+                    {!syntheticScript && (
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => navigator.clipboard.writeText(JSON.stringify(generatedTemplates, null, 2))}
+                          className="px-2 py-1 bg-indigo-600 text-white text-xs rounded hover:bg-indigo-700 transition-colors"
+                        >
+                          Copy Templates
+                        </button>
+                      </div>
+                    )}
+
+                    {/* Training Data Export Section */}
+                    <div className="mt-6 p-4 bg-gradient-to-r from-emerald-50 to-teal-50 rounded border border-emerald-200">
+                      <h5 className="font-medium text-emerald-800 mb-3">🚀 Export Training Data for Fine-Tuning</h5>
+                          
+                      {/* Export Options */}
+                      <div className="space-y-3">
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+                          <label className="flex items-center space-x-2">
+                            <input
+                              type="checkbox"
+                              checked={exportOptions.includeOriginal}
+                              onChange={(e) => setExportOptions(prev => ({ ...prev, includeOriginal: e.target.checked }))}
+                              className="rounded"
+                            />
+                            <span>Original Scripts</span>
+                          </label>
+                          <label className="flex items-center space-x-2">
+                            <input
+                              type="checkbox"
+                              checked={exportOptions.includeSynthetic}
+                              onChange={(e) => setExportOptions(prev => ({ ...prev, includeSynthetic: e.target.checked }))}
+                              className="rounded"
+                            />
+                            <span>Synthetic Scripts</span>
+                          </label>
+                          <label className="flex items-center space-x-2">
+                            <input
+                              type="checkbox"
+                              checked={!!exportOptions.primarySpeakerOnly}
+                              onChange={(e) => setExportOptions(prev => ({ ...prev, primarySpeakerOnly: e.target.checked }))}
+                              className="rounded"
+                            />
+                            <span>Primary Speaker Only</span>
+                          </label>
+                          <div className="flex items-center space-x-2">
+                            <label className="text-xs">Max per video:</label>
+                            <input
+                              type="number"
+                              min="1"
+                              max="20"
+                              value={exportOptions.maxExamplesPerVideo}
+                              onChange={(e) => setExportOptions(prev => ({ ...prev, maxExamplesPerVideo: parseInt(e.target.value) || 10 }))}
+                              className="w-16 px-1 py-1 border rounded text-xs"
+                            />
+                          </div>
+                          <select
+                            value={exportOptions.format}
+                            onChange={(e) => setExportOptions(prev => ({ ...prev, format: e.target.value as 'jsonl' | 'json' }))}
+                            className="px-2 py-1 border rounded text-xs"
+                          >
+                            <option value="jsonl">JSONL (Gemini)</option>
+                            <option value="json">JSON (Debug)</option>
+                          </select>
+                        </div>
+
+                        {/* Generate Dataset Button */}
+                        <div className="flex gap-2 items-center">
+                          <button
+                            onClick={handleExportTrainingData}
+                            disabled={!generatedTemplates || (!!(exportStatus && exportStatus.includes("Generating")))}
+                            className="px-3 py-2 bg-emerald-600 text-white text-sm rounded hover:bg-emerald-700 transition-colors disabled:opacity-50"
+                          >
+                            {exportStatus && exportStatus.includes("Generating") ? "Generating..." : "Generate Training Dataset"}
+                          </button>
+                          <div className="text-sm text-muted-foreground">
+                            <p>Create JSONL file for Gemini fine-tuning</p>
+                            {exportOptions.includeSynthetic && (!generatedTemplates?.syntheticScripts || generatedTemplates.syntheticScripts.length === 0) && (
+                              <p className="text-amber-600 mt-1">
+                                ⚠️ Synthetic scripts enabled but not generated. Click &quot;Auto-Generate 5 Synthetic Scripts&quot; above first.
+                              </p>
+                            )}
+                          </div>
+                        </div>
 
-                        {/* Template Generation Status */}
-                        {templateGenerationStatus && (
+                        {/* Export Status */}
+                        {exportStatus && (
                           <div className="p-2 bg-white rounded border text-sm">
-                            <p className={templateGenerationStatus.includes("failed") ? "text-red-600" : "text-indigo-600"}>
-                              {templateGenerationStatus}
+                            <p className={exportStatus.includes("failed") ? "text-red-600" : "text-emerald-600"}>
+                              {exportStatus}
                             </p>
                           </div>
                         )}
 
-                        {/* Generated Templates Display */}
-                        {generatedTemplates && (
+                        {/* Training Dataset Summary */}
+                        {trainingDataset && (
                           <div className="space-y-3">
-                            <h5 className="font-medium text-indigo-800">
-                              📋 Generated Templates 
-                              {generatedTemplates.allTemplates && (
-                                <span className="text-sm font-normal text-indigo-600">
-                                  ({generatedTemplates.allTemplates.length} templates from successful scripts)
-                                </span>
-                              )}
-                            </h5>
-                            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                              <div className="p-2 bg-yellow-50 border border-yellow-200 rounded">
-                                <p className="font-medium text-sm text-yellow-800">🎣 Hook Template</p>
-                                <p className="text-sm mt-1 font-mono">{generatedTemplates.hook}</p>
+                            <h6 className="font-medium text-emerald-800">📊 Dataset Summary</h6>
+                            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+                              <div className="p-2 bg-white rounded border">
+                                <p className="text-muted-foreground">Total Examples</p>
+                                <p className="font-semibold text-emerald-600">{trainingDataset.dataset.summary.totalExamples}</p>
                               </div>
-                              <div className="p-2 bg-blue-50 border border-blue-200 rounded">
-                                <p className="font-medium text-sm text-blue-800">🌉 Bridge Template</p>
-                                <p className="text-sm mt-1 font-mono">{generatedTemplates.bridge}</p>
+                              <div className="p-2 bg-white rounded border">
+                                <p className="text-muted-foreground">Original</p>
+                                <p className="font-semibold text-blue-600">{trainingDataset.dataset.summary.originalExamples}</p>
                               </div>
-                              <div className="p-2 bg-amber-50 border border-amber-200 rounded">
-                                <p className="font-medium text-sm text-amber-800">💎 Golden Nugget Template</p>
-                                <p className="text-sm mt-1 font-mono">{generatedTemplates.nugget}</p>
+                              <div className="p-2 bg-white rounded border">
+                                <p className="text-muted-foreground">Synthetic</p>
+                                <p className="font-semibold text-purple-600">{trainingDataset.dataset.summary.syntheticExamples}</p>
                               </div>
-                              <div className="p-2 bg-green-50 border border-green-200 rounded">
-                                <p className="font-medium text-sm text-green-800">🎯 WTA Template</p>
-                                <p className="text-sm mt-1 font-mono">{generatedTemplates.wta}</p>
+                              <div className="p-2 bg-white rounded border">
+                                <p className="text-muted-foreground">Topics</p>
+                                <p className="font-semibold text-amber-600">{trainingDataset.dataset.summary.topics.length}</p>
                               </div>
                             </div>
 
-                            {/* Synthetic Script Generation */}
-                            <div className="mt-4 p-3 bg-white rounded border">
-                              <h5 className="font-medium text-indigo-800 mb-2">✨ Generate Synthetic Scripts</h5>
-                              <div className="space-y-3">
-                                {/* Automatic Generation */}
-                                <div className="flex gap-2 items-center">
-                                  <button
-                                    onClick={handleGenerateAllSyntheticScripts}
-                                    disabled={!!(templateGenerationStatus && templateGenerationStatus.includes("Generating"))}
-                                    className="px-3 py-2 bg-purple-600 text-white text-sm rounded hover:bg-purple-700 transition-colors disabled:opacity-50"
-                                  >
-                                    Auto-Generate 5 Synthetic Scripts
-                                  </button>
-                                  <p className="text-sm text-muted-foreground">
-                                    Automatically create scripts for: productivity, social media, health, fitness, business
-                                  </p>
-                                </div>
-                                
-                                {/* Manual Generation */}
-                                <div className="border-t pt-2">
-                                  <p className="text-xs text-muted-foreground mb-2">Or generate a custom topic:</p>
-                                  <div className="flex gap-2">
-                                    <input
-                                      type="text"
-                                      value={syntheticTopic}
-                                      onChange={(e) => setSyntheticTopic(e.target.value)}
-                                      placeholder="Enter a custom topic..."
-                                      className="flex-1 px-3 py-2 border border-gray-300 rounded text-sm"
-                                    />
-                                    <button
-                                      onClick={handleGenerateSyntheticScript}
-                                                                              disabled={!syntheticTopic.trim() || (!!(templateGenerationStatus && templateGenerationStatus.includes("Generating")))}
-                                      className="px-3 py-2 bg-gray-600 text-white text-sm rounded hover:bg-gray-700 transition-colors disabled:opacity-50"
-                                    >
-                                      Generate Custom
-                                    </button>
-                                  </div>
-                                </div>
-                              </div>
-                            </div>
-
-                            {/* Generated Synthetic Script */}
-                            {syntheticScript && (
-                              <div className="space-y-3">
-                                <h5 className="font-medium text-purple-800">🎬 Generated Synthetic Script</h5>
-                                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                                  <div className="p-2 bg-yellow-50 border border-yellow-200 rounded">
-                                    <p className="font-medium text-sm text-yellow-800">🎣 Hook</p>
-                                    <p className="text-sm mt-1">{syntheticScript.Hook}</p>
-                                  </div>
-                                  <div className="p-2 bg-blue-50 border border-blue-200 rounded">
-                                    <p className="font-medium text-sm text-blue-800">🌉 Bridge</p>
-                                    <p className="text-sm mt-1">{syntheticScript.Bridge}</p>
-                                  </div>
-                                  <div className="p-2 bg-amber-50 border border-amber-200 rounded">
-                                    <p className="font-medium text-sm text-amber-800">💎 Golden Nugget</p>
-                                    <p className="text-sm mt-1">{syntheticScript["Golden Nugget"]}</p>
-                                  </div>
-                                  <div className="p-2 bg-green-50 border border-green-200 rounded">
-                                    <p className="font-medium text-sm text-green-800">🎯 WTA</p>
-                                    <p className="text-sm mt-1">{syntheticScript.WTA}</p>
+                            {/* Validation Results */}
+                            {trainingDataset.validation && (
+                              <div className="p-2 bg-white rounded border text-sm">
+                                <p className="font-medium mb-1">
+                                  Validation: <span className={trainingDataset.validation.valid ? "text-green-600" : "text-red-600"}>
+                                    {trainingDataset.validation.valid ? "✅ Valid" : "❌ Issues Found"}
+                                  </span>
+                                </p>
+                                {trainingDataset.validation.warnings.length > 0 && (
+                                  <div className="text-yellow-600 text-xs">
+                                    <p>Warnings: {trainingDataset.validation.warnings.length}</p>
                                   </div>
-                                </div>
-
-                                {/* Copy Buttons for Templates and Synthetic Script */}
-                                <div className="flex gap-2 flex-wrap">
-                                  <button
-                                    onClick={() => navigator.clipboard.writeText(JSON.stringify(generatedTemplates, null, 2))}
-                                    className="px-2 py-1 bg-indigo-600 text-white text-xs rounded hover:bg-indigo-700 transition-colors"
-                                  >
-                                    Copy Templates
-                                  </button>
-                                  <button
-                                    onClick={() => navigator.clipboard.writeText(JSON.stringify(syntheticScript, null, 2))}
-                                    className="px-2 py-1 bg-purple-600 text-white text-xs rounded hover:bg-purple-700 transition-colors"
-                                  >
-                                    Copy Synthetic Script
-                                  </button>
-                                  <button
-                                    onClick={() => {
-                                      const fullScript = `${syntheticScript.Hook} ${syntheticScript.Bridge} ${syntheticScript["Golden Nugget"]} ${syntheticScript.WTA}`;
-                                      navigator.clipboard.writeText(fullScript);
-                                    }}
-                                    className="px-2 py-1 bg-gray-600 text-white text-xs rounded hover:bg-gray-700 transition-colors"
-                                  >
-                                    Copy Full Script
-                                  </button>
+                                )}
+                                <div className="text-xs text-muted-foreground mt-1">
+                                  Avg lengths: {trainingDataset.validation.stats.avgInputLength} input, {trainingDataset.validation.stats.avgOutputLength} output chars
                                 </div>
                               </div>
                             )}
 
-                            {/* Template Copy Button */}
-                            {!syntheticScript && (
-                              <div className="flex gap-2">
-                                <button
-                                  onClick={() => navigator.clipboard.writeText(JSON.stringify(generatedTemplates, null, 2))}
-                                  className="px-2 py-1 bg-indigo-600 text-white text-xs rounded hover:bg-indigo-700 transition-colors"
-                                >
-                                  Copy Templates
-                                </button>
-                              </div>
-                            )}
-
-                            {/* Training Data Export Section */}
-                            <div className="mt-6 p-4 bg-gradient-to-r from-emerald-50 to-teal-50 rounded border border-emerald-200">
-                              <h5 className="font-medium text-emerald-800 mb-3">🚀 Export Training Data for Fine-Tuning</h5>
-                              
-                              {/* Export Options */}
-                              <div className="space-y-3">
-                                <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
-                                  <label className="flex items-center space-x-2">
-                                    <input
-                                      type="checkbox"
-                                      checked={exportOptions.includeOriginal}
-                                      onChange={(e) => setExportOptions(prev => ({ ...prev, includeOriginal: e.target.checked }))}
-                                      className="rounded"
-                                    />
-                                    <span>Original Scripts</span>
-                                  </label>
-                                  <label className="flex items-center space-x-2">
-                                    <input
-                                      type="checkbox"
-                                      checked={exportOptions.includeSynthetic}
-                                      onChange={(e) => setExportOptions(prev => ({ ...prev, includeSynthetic: e.target.checked }))}
-                                      className="rounded"
-                                    />
-                                    <span>Synthetic Scripts</span>
-                                  </label>
-                                  <div className="flex items-center space-x-2">
-                                    <label className="text-xs">Max per video:</label>
-                                    <input
-                                      type="number"
-                                      min="1"
-                                      max="20"
-                                      value={exportOptions.maxExamplesPerVideo}
-                                      onChange={(e) => setExportOptions(prev => ({ ...prev, maxExamplesPerVideo: parseInt(e.target.value) || 10 }))}
-                                      className="w-16 px-1 py-1 border rounded text-xs"
-                                    />
-                                  </div>
-                                  <select
-                                    value={exportOptions.format}
-                                    onChange={(e) => setExportOptions(prev => ({ ...prev, format: e.target.value as 'jsonl' | 'json' }))}
-                                    className="px-2 py-1 border rounded text-xs"
-                                  >
-                                    <option value="jsonl">JSONL (Gemini)</option>
-                                    <option value="json">JSON (Debug)</option>
-                                  </select>
-                                </div>
+                            {/* Download Buttons */}
+                            <div className="flex gap-2 flex-wrap">
+                              <button
+                                onClick={() => handleDownloadTrainingData('jsonl', false)}
+                                className="px-3 py-2 bg-emerald-600 text-white text-sm rounded hover:bg-emerald-700 transition-colors"
+                              >
+                                📥 Download JSONL (Gemini Fine-tuning)
+                              </button>
+                              <button
+                                onClick={() => handleDownloadTrainingData('json', true)}
+                                className="px-3 py-2 bg-blue-600 text-white text-sm rounded hover:bg-blue-700 transition-colors"
+                              >
+                                📥 Download JSON (with metadata)
+                              </button>
+                              <button
+                                onClick={() => navigator.clipboard.writeText(JSON.stringify(trainingDataset.dataset, null, 2))}
+                                className="px-2 py-1 bg-gray-600 text-white text-xs rounded hover:bg-gray-700 transition-colors"
+                              >
+                                Copy Dataset
+                              </button>
+                            </div>
 
-                                {/* Generate Dataset Button */}
-                                <div className="flex gap-2 items-center">
-                                  <button
-                                    onClick={handleExportTrainingData}
-                                    disabled={!generatedTemplates || (!!(exportStatus && exportStatus.includes("Generating")))}
-                                    className="px-3 py-2 bg-emerald-600 text-white text-sm rounded hover:bg-emerald-700 transition-colors disabled:opacity-50"
-                                  >
-                                    {exportStatus && exportStatus.includes("Generating") ? "Generating..." : "Generate Training Dataset"}
-                                  </button>
-                                  <div className="text-sm text-muted-foreground">
-                                    <p>Create JSONL file for Gemini fine-tuning</p>
-                                    {exportOptions.includeSynthetic && (!generatedTemplates?.syntheticScripts || generatedTemplates.syntheticScripts.length === 0) && (
-                                      <p className="text-amber-600 mt-1">
-                                        ⚠️ Synthetic scripts enabled but not generated. Click &quot;Auto-Generate 5 Synthetic Scripts&quot; above first.
-                                      </p>
-                                    )}
-                                  </div>
+                            {/* Topics Preview */}
+                            {trainingDataset.dataset.summary.topics.length > 0 && (
+                              <div className="p-2 bg-white rounded border text-sm">
+                                <p className="font-medium mb-1">Topics Covered:</p>
+                                <div className="flex flex-wrap gap-1">
+                                  {trainingDataset.dataset.summary.topics.slice(0, 10).map((topic: string, index: number) => (
+                                    <span key={index} className="px-2 py-1 bg-gray-100 text-gray-700 text-xs rounded">
+                                      {topic}
+                                    </span>
+                                  ))}
+                                  {trainingDataset.dataset.summary.topics.length > 10 && (
+                                    <span className="px-2 py-1 bg-gray-100 text-gray-700 text-xs rounded">
+                                      +{trainingDataset.dataset.summary.topics.length - 10} more
+                                    </span>
+                                  )}
                                 </div>
-
-                                {/* Export Status */}
-                                {exportStatus && (
-                                  <div className="p-2 bg-white rounded border text-sm">
-                                    <p className={exportStatus.includes("failed") ? "text-red-600" : "text-emerald-600"}>
-                                      {exportStatus}
-                                    </p>
-                                  </div>
-                                )}
-
-                                {/* Training Dataset Summary */}
-                                {trainingDataset && (
-                                  <div className="space-y-3">
-                                    <h6 className="font-medium text-emerald-800">📊 Dataset Summary</h6>
-                                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
-                                      <div className="p-2 bg-white rounded border">
-                                        <p className="text-muted-foreground">Total Examples</p>
-                                        <p className="font-semibold text-emerald-600">{trainingDataset.dataset.summary.totalExamples}</p>
-                                      </div>
-                                      <div className="p-2 bg-white rounded border">
-                                        <p className="text-muted-foreground">Original</p>
-                                        <p className="font-semibold text-blue-600">{trainingDataset.dataset.summary.originalExamples}</p>
-                                      </div>
-                                      <div className="p-2 bg-white rounded border">
-                                        <p className="text-muted-foreground">Synthetic</p>
-                                        <p className="font-semibold text-purple-600">{trainingDataset.dataset.summary.syntheticExamples}</p>
-                                      </div>
-                                      <div className="p-2 bg-white rounded border">
-                                        <p className="text-muted-foreground">Topics</p>
-                                        <p className="font-semibold text-amber-600">{trainingDataset.dataset.summary.topics.length}</p>
-                                      </div>
-                                    </div>
-
-                                    {/* Validation Results */}
-                                    {trainingDataset.validation && (
-                                      <div className="p-2 bg-white rounded border text-sm">
-                                        <p className="font-medium mb-1">
-                                          Validation: <span className={trainingDataset.validation.valid ? "text-green-600" : "text-red-600"}>
-                                            {trainingDataset.validation.valid ? "✅ Valid" : "❌ Issues Found"}
-                                          </span>
-                                        </p>
-                                        {trainingDataset.validation.warnings.length > 0 && (
-                                          <div className="text-yellow-600 text-xs">
-                                            <p>Warnings: {trainingDataset.validation.warnings.length}</p>
-                                          </div>
-                                        )}
-                                        <div className="text-xs text-muted-foreground mt-1">
-                                          Avg lengths: {trainingDataset.validation.stats.avgInputLength} input, {trainingDataset.validation.stats.avgOutputLength} output chars
-                                        </div>
-                                      </div>
-                                    )}
-
-                                    {/* Download Buttons */}
-                                    <div className="flex gap-2 flex-wrap">
-                                      <button
-                                        onClick={() => handleDownloadTrainingData('jsonl', false)}
-                                        className="px-3 py-2 bg-emerald-600 text-white text-sm rounded hover:bg-emerald-700 transition-colors"
-                                      >
-                                        📥 Download JSONL (Gemini Fine-tuning)
-                                      </button>
-                                      <button
-                                        onClick={() => handleDownloadTrainingData('json', true)}
-                                        className="px-3 py-2 bg-blue-600 text-white text-sm rounded hover:bg-blue-700 transition-colors"
-                                      >
-                                        📥 Download JSON (with metadata)
-                                      </button>
-                                      <button
-                                        onClick={() => navigator.clipboard.writeText(JSON.stringify(trainingDataset.dataset, null, 2))}
-                                        className="px-2 py-1 bg-gray-600 text-white text-xs rounded hover:bg-gray-700 transition-colors"
-                                      >
-                                        Copy Dataset
-                                      </button>
-                                    </div>
-
-                                    {/* Topics Preview */}
-                                    {trainingDataset.dataset.summary.topics.length > 0 && (
-                                      <div className="p-2 bg-white rounded border text-sm">
-                                        <p className="font-medium mb-1">Topics Covered:</p>
-                                        <div className="flex flex-wrap gap-1">
-                                          {trainingDataset.dataset.summary.topics.slice(0, 10).map((topic: string, index: number) => (
-                                            <span key={index} className="px-2 py-1 bg-gray-100 text-gray-700 text-xs rounded">
-                                              {topic}
-                                            </span>
-                                          ))}
-                                          {trainingDataset.dataset.summary.topics.length > 10 && (
-                                            <span className="px-2 py-1 bg-gray-100 text-gray-700 text-xs rounded">
-                                              +{trainingDataset.dataset.summary.topics.length - 10} more
-                                            </span>
-                                          )}
-                                        </div>
-                                      </div>
-                                    )}
-                                  </div>
-                                )}
                               </div>
-                            </div>
-
-                            {/* Fine-Tuning Section */}
-                            {trainingDataset && (
-                              <FineTuningSection 
-                                trainingDataset={trainingDataset.dataset}
-                                onJobStarted={(job) => {
-                                  console.log('Fine-tuning job started:', job);
-                                  // Could add job tracking state here
-                                }}
-                              />
                             )}
                           </div>
                         )}
                       </div>
                     </div>
-                  )}
-                </div>
-              ) : (
-                <div className="p-3 bg-red-50 border border-red-200 rounded">
-                  <p className="text-red-600 text-sm">
-                    <strong>Marketing Analysis Failed:</strong> {transcriptionResponse.error || 'Unknown error occurred'}
-                  </p>
-                </div>
-              )}
+
+                    {/* Fine-Tuning Section */}
+                    {trainingDataset && (
+                      <FineTuningSection 
+                        trainingDataset={trainingDataset.dataset}
+                        onJobStarted={(job) => {
+                          console.log('Fine-tuning job started:', job);
+                          // Could add job tracking state here
+                        }}
+                      />
+                    )}
+                  </div>
+                )}
+              </div>
             </div>
           )}
         </div>
+      ) : (
+        <div className="p-3 bg-red-50 border border-red-200 rounded">
+          <p className="text-red-600 text-sm">
+            <strong>Marketing Analysis Failed:</strong> {transcriptionResponse.error || 'Unknown error occurred'}
+          </p>
+        </div>
       )}
-
-      {/* Rate Limiting Info */}
-      <div className="text-xs text-muted-foreground text-center">
-        Rate limit: {rateLimiter.maxCalls} requests per minute to prevent API abuse
-      </div>
     </div>
   );
-} 
\ No newline at end of file
+}
@@ -0,0 +1,17 @@
+/**
+ * Runs once when the server starts. Opening the job store and the content
+ * cache here makes a missing JOB_STORE_PATH or CACHE_PATH, or an unwritable
+ * database, stop `next start` instead of every run being dropped, or every
+ * cache lookup missing, silently later.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return;
+  }
+
+  const { getJobStore } = await import('@/lib/job-store');
+  getJobStore();
+
+  const { getContentCache } = await import('@/lib/cache');
+  getContentCache();
+}
@@ -0,0 +1,93 @@
+import path from 'path';
+import { SqliteContentCache } from './sqlite-content-cache';
+import { ContentCache } from './types';
+
+const DEFAULT_CACHE_PATH = path.join(process.cwd(), 'data', 'cache.db');
+const DEFAULT_MAX_BYTES = 2 * 1024 * 1024 * 1024; // 2GB
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * How long entries stay valid, overridable with CACHE_VIDEO_TTL_HOURS and
+ * CACHE_RESPONSE_TTL_HOURS. Downloads expire sooner since they are large.
+ */
+export const CACHE_TTL_MS = {
+  video: (Number(process.env.CACHE_VIDEO_TTL_HOURS) || 24 * 7) * HOUR_MS,
+  response: (Number(process.env.CACHE_RESPONSE_TTL_HOURS) || 24 * 30) * HOUR_MS
+};
+
+export class CacheConfigError extends Error {
+  constructor(message: string, public cause?: Error) {
+    super(message);
+    this.name = 'CacheConfigError';
+  }
+}
+
+// Keep one cache per server process, including across dev-mode hot reloads
+const globalForContentCache = globalThis as unknown as { contentCache?: ContentCache };
+
+/**
+ * The database file to open. Production servers must set CACHE_PATH, for the
+ * same reason as JOB_STORE_PATH: a deployed app's working directory is often
+ * neither writable nor kept across deploys.
+ */
+function resolveCachePath(): string {
+  if (process.env.CACHE_PATH) {
+    return process.env.CACHE_PATH;
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw new CacheConfigError('CACHE_PATH must be set in production to a database file on a persistent, writable disk');
+  }
+  return DEFAULT_CACHE_PATH;
+}
+
+/**
+ * Get the shared cache, opening the SQLite database on first use. Set
+ * CACHE_PATH to move the database file (":memory:" keeps it in process only)
+ * and CACHE_MAX_BYTES to change the size cap. Throws a CacheConfigError when
+ * the database can't be opened.
+ */
+export function getContentCache(): ContentCache {
+  if (!globalForContentCache.contentCache) {
+    const filePath = resolveCachePath();
+    try {
+      globalForContentCache.contentCache = new SqliteContentCache(
+        filePath,
+        Number(process.env.CACHE_MAX_BYTES) || DEFAULT_MAX_BYTES
+      );
+    } catch (error) {
+      const cause = error instanceof Error ? error : undefined;
+      throw new CacheConfigError(`Could not open the content cache at ${filePath}: ${cause?.message || 'Unknown error'}`, cause);
+    }
+  }
+  return globalForContentCache.contentCache;
+}
+
+/**
+ * Replace the shared cache, e.g. with a different storage backend
+ */
+export function setContentCache(cache: ContentCache): void {
+  globalForContentCache.contentCache = cache;
+}
+
+/**
+ * Run a cache step without letting storage failures break the request;
+ * a broken cache behaves like an empty one
+ */
+export async function withContentCache<T>(label: string, action: (cache: ContentCache) => Promise<T>): Promise<T | null> {
+  try {
+    return await action(getContentCache());
+  } catch (error) {
+    console.error(`[ContentCache] Failed to ${label}:`, error);
+    return null;
+  }
+}
+
+export { SqliteContentCache } from './sqlite-content-cache';
+
+export type {
+  ContentCache,
+  CacheNamespace,
+  CacheNamespaceStats,
+  CacheStats
+} from './types';
@@ -0,0 +1,151 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import { CacheNamespace, CacheNamespaceStats, CacheStats, ContentCache } from './types';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS cache_entries (
+    namespace TEXT NOT NULL,
+    key TEXT NOT NULL,
+    value BLOB NOT NULL,
+    size INTEGER NOT NULL,
+    created_at INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL,
+    last_accessed_at INTEGER NOT NULL,
+    PRIMARY KEY (namespace, key)
+  );
+  CREATE INDEX IF NOT EXISTS idx_cache_entries_accessed ON cache_entries(last_accessed_at);
+  CREATE INDEX IF NOT EXISTS idx_cache_entries_expires ON cache_entries(expires_at);
+`;
+
+const NAMESPACES: CacheNamespace[] = ['video', 'video_index', 'gemini_response'];
+
+export class SqliteContentCache implements ContentCache {
+  private db: Database.Database;
+  // Hit/miss counts since the server started
+  private counters = new Map<CacheNamespace, { hits: number; misses: number }>();
+
+  constructor(filePath: string, private maxBytes: number) {
+    if (filePath !== ':memory:') {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    }
+
+    console.log(`[ContentCache] Opening SQLite cache at ${filePath} (max ${maxBytes} bytes)`);
+    this.db = new Database(filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(SCHEMA);
+  }
+
+  async get(namespace: CacheNamespace, key: string): Promise<Buffer | null> {
+    const now = Date.now();
+    const row = this.db.prepare(`
+      SELECT value, expires_at FROM cache_entries WHERE namespace = ? AND key = ?
+    `).get(namespace, key) as { value: Buffer; expires_at: number } | undefined;
+
+    if (!row || row.expires_at <= now) {
+      if (row) {
+        await this.delete(namespace, key);
+      }
+      this.count(namespace, 'misses');
+      return null;
+    }
+
+    this.db.prepare(`
+      UPDATE cache_entries SET last_accessed_at = ? WHERE namespace = ? AND key = ?
+    `).run(now, namespace, key);
+
+    this.count(namespace, 'hits');
+    return row.value;
+  }
+
+  async set(namespace: CacheNamespace, key: string, value: Buffer, ttlMs: number): Promise<void> {
+    if (value.length > this.maxBytes) {
+      console.warn(`[ContentCache] Not caching ${namespace}/${key}: ${value.length} bytes exceeds the cache size`);
+      return;
+    }
+
+    const now = Date.now();
+    this.db.prepare(`
+      INSERT INTO cache_entries (namespace, key, value, size, created_at, expires_at, last_accessed_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(namespace, key) DO UPDATE SET
+        value = excluded.value, size = excluded.size, created_at = excluded.created_at,
+        expires_at = excluded.expires_at, last_accessed_at = excluded.last_accessed_at
+    `).run(namespace, key, value, value.length, now, now + ttlMs, now);
+
+    this.evict(now);
+  }
+
+  async delete(namespace: CacheNamespace, key: string): Promise<void> {
+    this.db.prepare('DELETE FROM cache_entries WHERE namespace = ? AND key = ?').run(namespace, key);
+  }
+
+  async clear(namespace?: CacheNamespace): Promise<void> {
+    if (namespace) {
+      this.db.prepare('DELETE FROM cache_entries WHERE namespace = ?').run(namespace);
+    } else {
+      this.db.prepare('DELETE FROM cache_entries').run();
+    }
+  }
+
+  async getStats(): Promise<CacheStats> {
+    const rows = this.db.prepare(`
+      SELECT namespace, COUNT(*) AS entries, COALESCE(SUM(size), 0) AS total_bytes
+      FROM cache_entries WHERE expires_at > ? GROUP BY namespace
+    `).all(Date.now()) as Array<{ namespace: CacheNamespace; entries: number; total_bytes: number }>;
+
+    const namespaces = {} as Record<CacheNamespace, CacheNamespaceStats>;
+    for (const namespace of NAMESPACES) {
+      const row = rows.find(r => r.namespace === namespace);
+      const counter = this.counters.get(namespace) || { hits: 0, misses: 0 };
+      namespaces[namespace] = {
+        entries: row?.entries || 0,
+        totalBytes: row?.total_bytes || 0,
+        ...counter
+      };
+    }
+
+    return {
+      maxBytes: this.maxBytes,
+      totalBytes: rows.reduce((sum, row) => sum + row.total_bytes, 0),
+      namespaces
+    };
+  }
+
+  /**
+   * Drop expired entries, then the least recently used ones until the cache fits its cap
+   */
+  private evict(now: number): void {
+    this.db.prepare('DELETE FROM cache_entries WHERE expires_at <= ?').run(now);
+
+    let { total } = this.db.prepare('SELECT COALESCE(SUM(size), 0) AS total FROM cache_entries').get() as { total: number };
+    if (total <= this.maxBytes) {
+      return;
+    }
+
+    const candidates = this.db.prepare(`
+      SELECT namespace, key, size FROM cache_entries ORDER BY last_accessed_at ASC
+    `).all() as Array<{ namespace: CacheNamespace; key: string; size: number }>;
+    const remove = this.db.prepare('DELETE FROM cache_entries WHERE namespace = ? AND key = ?');
+
+    let evicted = 0;
+    this.db.transaction(() => {
+      for (const entry of candidates) {
+        if (total <= this.maxBytes) {
+          break;
+        }
+        remove.run(entry.namespace, entry.key);
+        total -= entry.size;
+        evicted++;
+      }
+    })();
+
+    console.log(`[ContentCache] Evicted ${evicted} entries to stay under ${this.maxBytes} bytes`);
+  }
+
+  private count(namespace: CacheNamespace, outcome: 'hits' | 'misses'): void {
+    const counter = this.counters.get(namespace) || { hits: 0, misses: 0 };
+    counter[outcome]++;
+    this.counters.set(namespace, counter);
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * What a cache entry holds:
+ * - `video`: downloaded video bytes, keyed by their SHA-256
+ * - `video_index`: which content hash a platform video ID last resolved to
+ * - `gemini_response`: a Gemini response, keyed by model, prompt version, options and content hash
+ */
+export type CacheNamespace = 'video' | 'video_index' | 'gemini_response';
+
+export interface CacheNamespaceStats {
+  entries: number;
+  totalBytes: number;
+  hits: number;
+  misses: number;
+}
+
+export interface CacheStats {
+  maxBytes: number;
+  totalBytes: number;
+  namespaces: Record<CacheNamespace, CacheNamespaceStats>;
+}
+
+/**
+ * Size-capped key/value cache with per-entry TTLs. When the cap is exceeded,
+ * the least recently used entries are evicted first.
+ */
+export interface ContentCache {
+  get(namespace: CacheNamespace, key: string): Promise<Buffer | null>;
+  set(namespace: CacheNamespace, key: string, value: Buffer, ttlMs: number): Promise<void>;
+  delete(namespace: CacheNamespace, key: string): Promise<void>;
+  clear(namespace?: CacheNamespace): Promise<void>;
+  getStats(): Promise<CacheStats>;
+}
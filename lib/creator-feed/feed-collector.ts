@@ -0,0 +1,113 @@
+import {
+  CollectCreatorVideosOptions,
+  CollectCreatorVideosResult,
+  CreatorFeedProvider,
+  ExtractedVideo
+} from './types';
+
+/**
+ * Page through a creator's feed and select the best performing videos by view count
+ */
+export async function collectCreatorVideos(
+  provider: CreatorFeedProvider,
+  username: string,
+  options: CollectCreatorVideosOptions
+): Promise<CollectCreatorVideosResult> {
+  const { videoCount, maxId } = options;
+
+  let allExtractedVideos: ExtractedVideo[] = [];
+  const pagination: CollectCreatorVideosResult['pagination'] = {
+    hasMore: false,
+    totalRequested: videoCount,
+    totalExtracted: 0
+  };
+
+  let currentMaxId = maxId;
+  let apiCallCount = 0;
+  // Collect more videos than requested so we can sort by view count and select best performers
+  const targetCollectionCount = Math.min(videoCount * 2, 200); // Collect 2x requested or max 200
+  const maxApiCalls = Math.max(Math.ceil(targetCollectionCount / 10), 10); // At least 10 API calls, more if needed
+
+  console.log(`Target: ${videoCount} best performing videos, Collection target: ${targetCollectionCount}, Max API calls: ${maxApiCalls}`);
+
+  const creator = await provider.resolveUser(username);
+  const errors: CollectCreatorVideosResult['errors'] = [];
+
+  while (allExtractedVideos.length < targetCollectionCount && apiCallCount < maxApiCalls) {
+    apiCallCount++;
+    console.log(`${provider.displayName} API Call ${apiCallCount}/${maxApiCalls}, Current videos: ${allExtractedVideos.length}/${targetCollectionCount}`);
+
+    const page = await provider.fetchFeedPage(creator, { cursor: currentMaxId, page: apiCallCount });
+
+    // Add to our collection, but don't exceed the target collection count
+    const remainingSlots = targetCollectionCount - allExtractedVideos.length;
+    const videosToAdd = page.videos.slice(0, remainingSlots);
+    allExtractedVideos.push(...videosToAdd);
+
+    console.log(`Added ${videosToAdd.length} videos, Total: ${allExtractedVideos.length}/${targetCollectionCount}`);
+
+    if (!page.hasMore) {
+      // No more data available or no cursor for next page
+      pagination.hasMore = false;
+      console.log(`${provider.displayName} pagination: No more data available, stopping pagination`);
+      break;
+    }
+
+    currentMaxId = page.nextCursor;
+    pagination.hasMore = allExtractedVideos.length < targetCollectionCount;
+    pagination.maxId = currentMaxId;
+
+    // If we have enough videos for sorting, stop
+    if (allExtractedVideos.length >= targetCollectionCount) {
+      break;
+    }
+
+    // Add delay between API calls to respect rate limits
+    if (apiCallCount < maxApiCalls) {
+      await provider.waitBetweenRequests();
+    }
+  }
+
+  pagination.totalExtracted = allExtractedVideos.length;
+
+  // Sort videos by view count to get best performing content
+  console.log(`Sorting ${allExtractedVideos.length} videos by view count...`);
+  allExtractedVideos.sort((a, b) => (b.viewCount || 0) - (a.viewCount || 0));
+
+  // Take only the requested number of top performing videos
+  if (allExtractedVideos.length > videoCount) {
+    console.log(`Selecting top ${videoCount} performing videos from ${allExtractedVideos.length} total`);
+    allExtractedVideos = allExtractedVideos.slice(0, videoCount);
+    pagination.totalExtracted = allExtractedVideos.length;
+  }
+
+  // Some providers only resolve playable URLs for the videos that made the cut
+  if (provider.hydrateVideos && allExtractedVideos.length > 0) {
+    await provider.waitBetweenRequests();
+    const hydration = await provider.hydrateVideos(allExtractedVideos);
+    allExtractedVideos = hydration.videos;
+    errors.push(...hydration.errors);
+    pagination.totalExtracted = allExtractedVideos.length;
+
+    if (errors.length > 0) {
+      console.warn(`Left out ${errors.length} selected videos without a playable URL`);
+    }
+  }
+
+  console.log(`Pagination Summary:`, {
+    requested: pagination.totalRequested,
+    extracted: pagination.totalExtracted,
+    hasMore: pagination.hasMore,
+    maxId: pagination.maxId,
+    apiCalls: apiCallCount,
+    failed: errors.length
+  });
+
+  return {
+    creator,
+    videos: allExtractedVideos,
+    pagination,
+    apiCallCount,
+    errors
+  };
+}
@@ -0,0 +1,32 @@
+// Collection
+export { collectCreatorVideos } from './feed-collector';
+
+// Registry
+export {
+  registerCreatorFeedProvider,
+  getCreatorFeedProvider,
+  getSupportedPlatforms,
+  isSupportedPlatform,
+  getPostProviderForUrl
+} from './provider-registry';
+export type { CreatorFeedProviderFactory } from './provider-registry';
+
+// Providers
+export { TikTokFeedProvider } from './tiktok-provider';
+export { InstagramFeedProvider } from './instagram-provider';
+export { YouTubeFeedProvider } from './youtube-provider';
+export { fetchFromRapidAPI, validateRapidAPIEnvironment } from './rapidapi-client';
+
+// Types
+export type {
+  CreatorFeedProvider,
+  CreatorFeedProviderOptions,
+  ExtractedVideo,
+  ResolvedCreator,
+  FeedPage,
+  FeedPageRequest,
+  FeedFetcher,
+  HydratedVideos,
+  CollectCreatorVideosOptions,
+  CollectCreatorVideosResult
+} from './types';
@@ -0,0 +1,270 @@
+import { fetchFromRapidAPI, validateRapidAPIEnvironment, delay } from './rapidapi-client';
+import {
+  CreatorFeedProvider,
+  CreatorFeedProviderOptions,
+  ExtractedVideo,
+  FeedFetcher,
+  FeedPage,
+  FeedPageRequest,
+  ResolvedCreator
+} from './types';
+
+export class InstagramFeedProvider implements CreatorFeedProvider {
+  private static readonly HOST = 'instagram-scrapper-posts-reels-stories-downloader.p.rapidapi.com';
+  private static readonly DEFAULT_REQUEST_DELAY = 1000; // Avoid per-second rate limiting
+  private static readonly VIDEO_MEDIA_TYPE = 2;
+
+  readonly platform = 'instagram';
+  readonly displayName = 'Instagram';
+
+  private fetchJson: FeedFetcher;
+  private requestDelayMs: number;
+
+  constructor(options: CreatorFeedProviderOptions = {}) {
+    this.fetchJson = options.fetchJson || fetchFromRapidAPI;
+    this.requestDelayMs = options.requestDelayMs ?? InstagramFeedProvider.DEFAULT_REQUEST_DELAY;
+  }
+
+  validateEnvironment(): string | null {
+    return validateRapidAPIEnvironment();
+  }
+
+  /**
+   * Instagram feeds are keyed by numeric user ID, so look it up from the username first
+   */
+  async resolveUser(username: string): Promise<ResolvedCreator> {
+    console.log(`Processing Instagram request for: ${username}`);
+    console.log("Step 1: Getting Instagram User ID");
+
+    const userIdUrl = `https://${InstagramFeedProvider.HOST}/user_id_by_username?username=${username}`;
+    const userIdResponse = await this.fetchJson(userIdUrl, InstagramFeedProvider.HOST);
+
+    // Log the Instagram User ID API response
+    console.log('=== INSTAGRAM USER ID API RESPONSE JSON ===');
+    console.log(JSON.stringify(userIdResponse, null, 2));
+    console.log('=== END INSTAGRAM USER ID RESPONSE ===');
+
+    // Instagram API returns `UserID` not `user_id` - always check both
+    const userId = userIdResponse?.UserID || userIdResponse?.user_id;
+    if (!userId) {
+      throw new Error('Could not retrieve Instagram User ID from username');
+    }
+
+    console.log(`Step 1 Complete: Retrieved Instagram User ID: ${userId}`);
+
+    // Add delay to avoid per-second rate limiting before the feed request
+    await this.waitBetweenRequests();
+
+    return { username, userId: `${userId}` };
+  }
+
+  async fetchFeedPage(creator: ResolvedCreator, request: FeedPageRequest): Promise<FeedPage> {
+    let postFeedUrl = `https://${InstagramFeedProvider.HOST}/posts_by_user_id?user_id=${creator.userId}`;
+
+    // Add pagination if cursor is provided
+    if (request.cursor) {
+      postFeedUrl += `&next_max_id=${request.cursor}`;
+    }
+
+    const apiResponse = await this.fetchJson(postFeedUrl, InstagramFeedProvider.HOST);
+
+    // Log the complete Instagram Posts API response
+    console.log(`=== INSTAGRAM POSTS API CALL ${request.page} RESPONSE JSON ===`);
+    console.log(JSON.stringify(apiResponse, null, 2));
+    console.log('=== END INSTAGRAM POSTS RESPONSE ===');
+
+    return this.normalizeFeedResponse(apiResponse, request);
+  }
+
+  normalizeFeedResponse(apiResponse: any, request: FeedPageRequest): FeedPage {
+    const items = apiResponse?.items || [];
+    console.log(`Instagram API Call ${request.page}: Found ${items.length} items to process`);
+
+    // Debug: Log structure of first item to understand play_count location
+    if (items.length > 0) {
+      console.log("=== INSTAGRAM FIRST ITEM STRUCTURE DEBUG ===");
+      const firstItem = items[0];
+      console.log("Item available fields:", Object.keys(firstItem));
+      console.log("Item play_count:", firstItem.play_count);
+      console.log("Item view_count:", firstItem.view_count);
+      console.log("Item like_count:", firstItem.like_count);
+      if (firstItem.carousel_media && firstItem.carousel_media.length > 0) {
+        console.log("Carousel media fields:", Object.keys(firstItem.carousel_media[0]));
+        console.log("Carousel media play_count:", firstItem.carousel_media[0].play_count);
+      }
+      console.log("=== END INSTAGRAM STRUCTURE DEBUG ===");
+    }
+
+    const videos: ExtractedVideo[] = items
+      .map((item: any, index: number) => this.normalizeItem(item, `instagram_${request.page}_${index}`))
+      .flat()
+      .filter((video: ExtractedVideo) => video.is_video && InstagramFeedProvider.isValidVideoUrl(video.video_url));
+
+    const hasMore = !!(apiResponse && apiResponse.more_available);
+
+    return {
+      videos,
+      hasMore,
+      nextCursor: hasMore ? apiResponse.next_max_id : undefined
+    };
+  }
+
+  /**
+   * Normalize an Instagram post (single media or carousel) into extracted videos
+   */
+  normalizeItem(item: any, fallbackId: string): ExtractedVideo[] {
+    // Handle carousel media (multiple videos/images) or single media
+    const media = item.carousel_media || [item];
+
+    return media.map((m: any, mediaIndex: number) => {
+      const videos = [...(m.video_versions || [])];
+      const images = [...(m.image_versions2?.candidates || [])];
+
+      // Find smallest video version for transcription
+      const smallestVideo = videos.sort((a: any, b: any) =>
+        (a.width || 0) - (b.width || 0)
+      )[0];
+
+      // Find smallest image/thumbnail
+      const smallestImage = images.sort((a: any, b: any) =>
+        (a.width || 0) - (b.width || 0)
+      )[0];
+
+      // Only process items where media_type === 2 (videos)
+      const isVideo = m.media_type === InstagramFeedProvider.VIDEO_MEDIA_TYPE;
+
+      // Extract view count and engagement data - check multiple possible field locations
+      const viewCount = item.play_count || m.play_count || item.view_count || m.view_count || 0;
+      const likeCount = item.like_count || m.like_count || 0;
+
+      console.log(`Instagram Item ${m.id || fallbackId}.${mediaIndex + 1}:`, {
+        video_url: smallestVideo?.url,
+        thumbnail: smallestImage?.url,
+        is_video: isVideo,
+        video_width: smallestVideo?.width,
+        video_height: smallestVideo?.height,
+        play_count: viewCount,
+        like_count: likeCount,
+        item_has_play_count: !!item.play_count,
+        media_has_play_count: !!m.play_count
+      });
+
+      return {
+        id: m.id || `${fallbackId}_${mediaIndex}`,
+        video_url: smallestVideo?.url,
+        thumbnail: smallestImage?.url,
+        is_video: isVideo,
+        platform: this.platform,
+        quality: `${smallestVideo?.width || 0}x${smallestVideo?.height || 0}`,
+        fileSize: smallestVideo?.width || 0,
+        viewCount,
+        likeCount
+      };
+    });
+  }
+
+  matchesPostUrl(permalink: URL): boolean {
+    return /(^|\.)instagram\.com$/.test(permalink.hostname);
+  }
+
+  /**
+   * Resolve a post or reel permalink such as https://www.instagram.com/reel/Cx1AbCdEfGh/
+   */
+  async resolvePost(permalink: string): Promise<ExtractedVideo> {
+    const shortcode = new URL(permalink).pathname.match(/\/(?:p|reel|reels|tv)\/([A-Za-z0-9_-]+)/)?.[1];
+    if (!shortcode) {
+      throw new Error('Could not find an Instagram shortcode in the post URL');
+    }
+
+    return this.resolveShortcode(shortcode);
+  }
+
+  /**
+   * Look up a single Instagram post by the media ID from a feed item (`<mediaId>_<ownerId>`)
+   */
+  async resolveVideoById(videoId: string): Promise<ExtractedVideo> {
+    const mediaId = videoId.split('_')[0];
+    if (!/^\d+$/.test(mediaId)) {
+      throw new Error(`Could not resolve Instagram media ID: ${videoId}`);
+    }
+
+    return this.resolveShortcode(InstagramFeedProvider.mediaIdToShortcode(mediaId));
+  }
+
+  private async resolveShortcode(shortcode: string): Promise<ExtractedVideo> {
+    console.log(`Resolving Instagram post: ${shortcode}`);
+    const apiResponse = await this.fetchJson(
+      `https://${InstagramFeedProvider.HOST}/post_by_shortcode?shortcode=${shortcode}`,
+      InstagramFeedProvider.HOST
+    );
+
+    console.log('=== INSTAGRAM POST API RESPONSE JSON ===');
+    console.log(JSON.stringify(apiResponse, null, 2));
+    console.log('=== END INSTAGRAM POST RESPONSE ===');
+
+    const item = apiResponse?.items?.[0] || apiResponse?.data || apiResponse;
+
+    // Carousels can mix images and videos; take the first playable video
+    const video = item
+      ? this.normalizeItem(item, shortcode).find(candidate =>
+          candidate.is_video && InstagramFeedProvider.isValidVideoUrl(candidate.video_url)
+        )
+      : undefined;
+
+    if (!video) {
+      throw new Error('Could not retrieve a playable Instagram video');
+    }
+
+    return video;
+  }
+
+  async waitBetweenRequests(): Promise<void> {
+    if (this.requestDelayMs > 0) {
+      console.log(`Waiting ${this.requestDelayMs}ms before next Instagram API call...`);
+      await delay(this.requestDelayMs);
+    }
+  }
+
+  /**
+   * Shortcodes are the numeric media ID written in Instagram's URL-safe base64 alphabet
+   */
+  static mediaIdToShortcode(mediaId: string): string {
+    const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+    const base = BigInt(alphabet.length);
+    const zero = BigInt(0);
+
+    let remaining = BigInt(mediaId);
+    let shortcode = '';
+    while (remaining > zero) {
+      shortcode = alphabet[Number(remaining % base)] + shortcode;
+      remaining = remaining / base;
+    }
+
+    return shortcode;
+  }
+
+  /**
+   * Only include videos with valid URLs that look like actual Instagram video URLs
+   */
+  private static isValidVideoUrl(videoUrl?: string): boolean {
+    if (!videoUrl) return false;
+
+    try {
+      const url = new URL(videoUrl);
+      const isValidInstagramUrl = url.hostname.includes('cdninstagram') ||
+                                  url.hostname.includes('instagram') ||
+                                  url.hostname.includes('fbcdn') ||
+                                  url.pathname.includes('.mp4');
+
+      if (!isValidInstagramUrl) {
+        console.warn(`Filtering out invalid Instagram URL: ${videoUrl.substring(0, 100)}...`);
+        return false;
+      }
+
+      return true;
+    } catch (urlError) {
+      console.warn(`Filtering out malformed Instagram URL: ${videoUrl.substring(0, 100)}...`);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,65 @@
+import { TikTokFeedProvider } from './tiktok-provider';
+import { InstagramFeedProvider } from './instagram-provider';
+import { YouTubeFeedProvider } from './youtube-provider';
+import { CreatorFeedProvider } from './types';
+
+export type CreatorFeedProviderFactory = () => CreatorFeedProvider;
+
+// Registry keyed by platform. Registering an existing platform replaces its provider,
+// which is how alternate scrapers are swapped in without touching the API routes.
+const providerFactories = new Map<string, CreatorFeedProviderFactory>([
+  ['tiktok', () => new TikTokFeedProvider()],
+  ['instagram', () => new InstagramFeedProvider()],
+  ['youtube', () => new YouTubeFeedProvider()]
+]);
+
+/**
+ * Register (or replace) the provider used for a platform
+ */
+export function registerCreatorFeedProvider(platform: string, factory: CreatorFeedProviderFactory): void {
+  console.log(`[CreatorFeed] Registering provider for platform: ${platform}`);
+  providerFactories.set(platform, factory);
+}
+
+/**
+ * Get a provider instance for a platform, or null if none is registered
+ */
+export function getCreatorFeedProvider(platform: string): CreatorFeedProvider | null {
+  const factory = providerFactories.get(platform);
+  return factory ? factory() : null;
+}
+
+/**
+ * List the platforms that currently have a registered provider
+ */
+export function getSupportedPlatforms(): string[] {
+  return Array.from(providerFactories.keys());
+}
+
+/**
+ * Check whether a platform has a registered provider
+ */
+export function isSupportedPlatform(platform: string): boolean {
+  return providerFactories.has(platform);
+}
+
+/**
+ * Find the provider that can resolve a public post permalink, or null if no provider recognizes it
+ */
+export function getPostProviderForUrl(permalink: string): CreatorFeedProvider | null {
+  let url: URL;
+  try {
+    url = new URL(permalink);
+  } catch {
+    return null;
+  }
+
+  for (const factory of Array.from(providerFactories.values())) {
+    const provider = factory();
+    if (provider.resolvePost && provider.matchesPostUrl?.(url)) {
+      return provider;
+    }
+  }
+
+  return null;
+}
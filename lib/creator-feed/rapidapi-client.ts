@@ -0,0 +1,79 @@
+/**
+ * Make a RapidAPI call with comprehensive error handling
+ */
+export async function fetchFromRapidAPI(url: string, host: string): Promise<any> {
+  const options = {
+    method: 'GET',
+    headers: {
+      'x-rapidapi-key': process.env.RAPIDAPI_KEY!,
+      'x-rapidapi-host': host,
+    },
+  };
+
+  console.log(`Making RapidAPI request to: ${url}`);
+  console.log(`Host: ${host}`);
+
+  try {
+    const response = await fetch(url, options);
+
+    console.log(`Response status: ${response.status}`);
+    console.log(`Response headers:`, Object.fromEntries(response.headers.entries()));
+
+    if (!response.ok) {
+      let errorMessage = `API call failed with status: ${response.status}`;
+
+      try {
+        const errorData = await response.json();
+        console.log("Error response data:", errorData);
+        errorMessage = errorData.message || errorData.error || errorMessage;
+      } catch (parseError) {
+        console.log("Could not parse error response as JSON");
+        const textResponse = await response.text();
+        console.log("Error response text:", textResponse);
+        errorMessage = textResponse || errorMessage;
+      }
+
+      throw new Error(errorMessage);
+    }
+
+    const data = await response.json();
+    console.log("Successful API response received");
+    console.log("Response data keys:", Object.keys(data));
+
+    return data;
+
+  } catch (error: any) {
+    console.error("RapidAPI Error Details:", {
+      message: error.message,
+      name: error.name,
+      stack: error.stack,
+      url: url,
+      host: host
+    });
+
+    // Re-throw with more context
+    throw new Error(`RapidAPI request failed: ${error.message}`);
+  }
+}
+
+/**
+ * Validate the RapidAPI key shared by the RapidAPI-backed providers
+ */
+export function validateRapidAPIEnvironment(): string | null {
+  if (!process.env.RAPIDAPI_KEY) {
+    return "RAPIDAPI_KEY environment variable is not set";
+  }
+
+  if (process.env.RAPIDAPI_KEY.length < 20) {
+    return "RAPIDAPI_KEY appears to be invalid (too short)";
+  }
+
+  return null;
+}
+
+/**
+ * Simple delay utility
+ */
+export function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
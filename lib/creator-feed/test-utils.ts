@@ -0,0 +1,155 @@
+import tiktokFeedFixture from './fixtures/tiktok-feed.json';
+import tiktokVideoFixture from './fixtures/tiktok-video.json';
+import instagramUserIdFixture from './fixtures/instagram-user-id.json';
+import instagramPostsFixture from './fixtures/instagram-posts.json';
+import instagramPostFixture from './fixtures/instagram-post.json';
+import youtubeResolveFixture from './fixtures/youtube-resolve.json';
+import youtubeShortsFixture from './fixtures/youtube-shorts.json';
+import youtubeDownloadFixture from './fixtures/youtube-dl.json';
+import { collectCreatorVideos } from './feed-collector';
+import { CreatorFeedProvider, ExtractedVideo, FeedFetcher } from './types';
+
+/**
+ * A recorded upstream response, matched against the request URL
+ */
+export interface RecordedResponse {
+  urlIncludes: string;
+  response: any;
+}
+
+/**
+ * Recorded RapidAPI responses for each built-in provider
+ */
+export const recordedFixtures: Record<string, RecordedResponse[]> = {
+  tiktok: [
+    { urlIncludes: '/feed', response: tiktokFeedFixture },
+    { urlIncludes: '/video/', response: tiktokVideoFixture }
+  ],
+  instagram: [
+    { urlIncludes: '/user_id_by_username', response: instagramUserIdFixture },
+    { urlIncludes: '/posts_by_user_id', response: instagramPostsFixture },
+    { urlIncludes: '/post_by_shortcode', response: instagramPostFixture }
+  ],
+  youtube: [
+    { urlIncludes: '/resolve', response: youtubeResolveFixture },
+    { urlIncludes: '/channel/shorts', response: youtubeShortsFixture },
+    { urlIncludes: '/dl', response: youtubeDownloadFixture }
+  ]
+};
+
+/**
+ * Create a fetcher that replays recorded JSON instead of calling the network.
+ * Pass it to a provider constructor as `fetchJson` with `requestDelayMs: 0`.
+ */
+export function createFixtureFetcher(recorded: RecordedResponse[]): FeedFetcher & { calls: string[] } {
+  const calls: string[] = [];
+
+  const fetcher = async (url: string, host: string) => {
+    calls.push(url);
+    const match = recorded.find(entry => url.includes(entry.urlIncludes));
+
+    if (!match) {
+      throw new Error(`RapidAPI request failed: No recorded fixture for ${host} ${url}`);
+    }
+
+    // Return a copy so normalization can never mutate the shared fixture
+    return JSON.parse(JSON.stringify(match.response));
+  };
+
+  return Object.assign(fetcher, { calls });
+}
+
+/**
+ * Validate a normalized video entry
+ */
+export function validateExtractedVideo(video: ExtractedVideo): { valid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!video.id) {
+    errors.push('Video ID is required');
+  }
+
+  if (!video.platform) {
+    errors.push('Platform is required');
+  }
+
+  if (!video.video_url) {
+    errors.push('Video URL is required');
+  } else {
+    try {
+      new URL(video.video_url);
+    } catch {
+      errors.push('Invalid video URL format');
+    }
+  }
+
+  if (video.viewCount !== undefined && (typeof video.viewCount !== 'number' || video.viewCount < 0)) {
+    errors.push('View count must be a non-negative number');
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Run a provider end to end against recorded fixtures and validate every normalized video
+ */
+export async function runProviderAgainstFixtures(
+  createProvider: (fetchJson: FeedFetcher) => CreatorFeedProvider,
+  recorded: RecordedResponse[],
+  username = 'examplecreator',
+  videoCount = 10
+): Promise<{ videos: ExtractedVideo[]; calls: string[]; errors: string[] }> {
+  const fetcher = createFixtureFetcher(recorded);
+  const provider = createProvider(fetcher);
+
+  const result = await collectCreatorVideos(provider, username, { videoCount });
+
+  const errors = [
+    ...result.videos.flatMap(video =>
+      validateExtractedVideo(video).errors.map(error => `${video.id}: ${error}`)
+    ),
+    ...result.errors.map(({ videoId, error }) => `${videoId}: ${error}`)
+  ];
+
+  return {
+    videos: result.videos,
+    calls: fetcher.calls,
+    errors
+  };
+}
+
+/**
+ * Sample public post permalinks for each built-in provider
+ */
+export const samplePostUrls: Record<string, string> = {
+  tiktok: 'https://www.tiktok.com/@examplecreator/video/7381234567890123456',
+  instagram: 'https://www.instagram.com/reel/C8xAbCdEfGh/',
+  youtube: 'https://www.youtube.com/shorts/dQw4w9WgXcQ'
+};
+
+/**
+ * Resolve a single post permalink against recorded fixtures and validate the normalized video
+ */
+export async function runPostResolutionAgainstFixtures(
+  createProvider: (fetchJson: FeedFetcher) => CreatorFeedProvider,
+  recorded: RecordedResponse[],
+  permalink: string
+): Promise<{ video?: ExtractedVideo; calls: string[]; errors: string[] }> {
+  const fetcher = createFixtureFetcher(recorded);
+  const provider = createProvider(fetcher);
+
+  if (!provider.resolvePost || !provider.matchesPostUrl?.(new URL(permalink))) {
+    return { calls: fetcher.calls, errors: [`${provider.platform} provider cannot resolve ${permalink}`] };
+  }
+
+  const video = await provider.resolvePost(permalink);
+
+  return {
+    video,
+    calls: fetcher.calls,
+    errors: validateExtractedVideo(video).errors
+  };
+}
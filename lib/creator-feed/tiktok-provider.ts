@@ -0,0 +1,218 @@
+import { fetchFromRapidAPI, validateRapidAPIEnvironment, delay } from './rapidapi-client';
+import {
+  CreatorFeedProvider,
+  CreatorFeedProviderOptions,
+  ExtractedVideo,
+  FeedFetcher,
+  FeedPage,
+  FeedPageRequest,
+  ResolvedCreator
+} from './types';
+
+export class TikTokFeedProvider implements CreatorFeedProvider {
+  private static readonly HOST = 'tiktok-scrapper-videos-music-challenges-downloader.p.rapidapi.com';
+  private static readonly DEFAULT_REQUEST_DELAY = 1000; // 1 second between API calls
+  private static readonly SPECULATIVE_PAGE_LIMIT = 5; // Keep paging without a cursor for the first few calls
+
+  readonly platform = 'tiktok';
+  readonly displayName = 'TikTok';
+
+  private fetchJson: FeedFetcher;
+  private requestDelayMs: number;
+
+  constructor(options: CreatorFeedProviderOptions = {}) {
+    this.fetchJson = options.fetchJson || fetchFromRapidAPI;
+    this.requestDelayMs = options.requestDelayMs ?? TikTokFeedProvider.DEFAULT_REQUEST_DELAY;
+  }
+
+  validateEnvironment(): string | null {
+    return validateRapidAPIEnvironment();
+  }
+
+  /**
+   * TikTok feeds are keyed by username directly, no lookup needed
+   */
+  async resolveUser(username: string): Promise<ResolvedCreator> {
+    console.log(`Fetching TikTok feed for: ${username}`);
+    return { username, userId: username };
+  }
+
+  async fetchFeedPage(creator: ResolvedCreator, request: FeedPageRequest): Promise<FeedPage> {
+    // Construct URL with pagination if cursor is provided
+    let url = `https://${TikTokFeedProvider.HOST}/user/${creator.userId}/feed`;
+    if (request.cursor) {
+      url += `?max_cursor=${request.cursor}`;
+    }
+
+    const apiResponse = await this.fetchJson(url, TikTokFeedProvider.HOST);
+
+    // Log the complete TikTok API response
+    console.log(`=== TIKTOK API CALL ${request.page} RESPONSE JSON ===`);
+    console.log(JSON.stringify(apiResponse, null, 2));
+    console.log('=== END TIKTOK RESPONSE ===');
+
+    return this.normalizeFeedResponse(apiResponse, request);
+  }
+
+  normalizeFeedResponse(apiResponse: any, request: FeedPageRequest): FeedPage {
+    // Extract videos from this API call
+    const awemeList = apiResponse?.data?.aweme_list || apiResponse?.aweme_list || [];
+    console.log(`TikTok API Call ${request.page}: Found ${awemeList.length} videos to process`);
+
+    // Debug: Log structure of first video and pagination info
+    if (awemeList.length > 0) {
+      console.log("=== TIKTOK FIRST VIDEO STRUCTURE DEBUG ===");
+      const firstVideo = awemeList[0];
+      console.log("Available fields:", Object.keys(firstVideo));
+      console.log("Stats object:", firstVideo.stats);
+      console.log("Statistics object:", firstVideo.statistics);
+      console.log("=== END TIKTOK STRUCTURE DEBUG ===");
+    }
+
+    const videos: ExtractedVideo[] = awemeList
+      .map((aweme: any, index: number) => this.normalizeAweme(aweme, `tiktok_${request.page}_${index}`))
+      .filter((video: ExtractedVideo) => TikTokFeedProvider.isValidVideoUrl(video.video_url));
+
+    // Check for pagination info - be aggressive about collecting videos
+    const hasMoreFromAPI = !!(apiResponse && (apiResponse.has_more || apiResponse.hasMore));
+    const gotVideosThisCall = videos.length > 0;
+    const maxCursor = apiResponse?.max_cursor || apiResponse?.maxCursor;
+
+    // Continue if: API says more available, OR we got videos and have a cursor, OR we haven't tried enough calls yet
+    const hasMore = hasMoreFromAPI ||
+                    (gotVideosThisCall && !!maxCursor) ||
+                    (gotVideosThisCall && request.page < TikTokFeedProvider.SPECULATIVE_PAGE_LIMIT);
+
+    // Use provided cursor, or generate a simple incremental one if none provided
+    const nextCursor = hasMore
+      ? `${maxCursor || (request.cursor ? parseInt(request.cursor) + 1 : 1)}`
+      : undefined;
+
+    console.log(`TikTok pagination: hasMoreFromAPI=${hasMoreFromAPI}, gotVideos=${gotVideosThisCall}, maxCursor=${!!maxCursor}, willContinue=${hasMore}`);
+
+    return { videos, hasMore, nextCursor };
+  }
+
+  /**
+   * Normalize a single TikTok aweme into the extracted video shape
+   */
+  normalizeAweme(aweme: any, fallbackId: string): ExtractedVideo {
+    // Find smallest bitrate video for transcription
+    const bitrates = [...(aweme.video?.bit_rate || [])];
+    const smallestBitrate = bitrates.sort((a: any, b: any) =>
+      (a.bit_rate || 0) - (b.bit_rate || 0)
+    )[0];
+
+    const videoUrl = smallestBitrate?.play_addr?.url_list?.[0] ||
+                     aweme.video?.play_addr?.url_list?.[0] ||
+                     aweme.video?.download_addr?.url_list?.[0];
+
+    const thumbnailUrl = aweme.video?.cover?.url_list?.[0] ||
+                         aweme.video?.dynamic_cover?.url_list?.[0];
+
+    // Extract view count and engagement data
+    const viewCount = aweme.statistics?.play_count || aweme.stats?.play_count || 0;
+    const likeCount = aweme.statistics?.digg_count || aweme.stats?.digg_count || 0;
+
+    console.log(`TikTok Video ${aweme.aweme_id || fallbackId}:`, {
+      video_url: videoUrl,
+      thumbnail: thumbnailUrl,
+      bitrate: smallestBitrate?.bit_rate,
+      quality: smallestBitrate?.quality,
+      play_count: viewCount,
+      digg_count: likeCount,
+      stats_available: !!aweme.statistics || !!aweme.stats
+    });
+
+    return {
+      id: aweme.aweme_id || fallbackId,
+      video_url: videoUrl,
+      thumbnail: thumbnailUrl,
+      is_video: true,
+      platform: this.platform,
+      quality: smallestBitrate?.quality || 'unknown',
+      fileSize: smallestBitrate?.bit_rate,
+      viewCount,
+      likeCount
+    };
+  }
+
+  matchesPostUrl(permalink: URL): boolean {
+    return /(^|\.)tiktok\.com$/.test(permalink.hostname);
+  }
+
+  /**
+   * Resolve a post permalink such as https://www.tiktok.com/@user/video/7234567890123456789
+   */
+  async resolvePost(permalink: string): Promise<ExtractedVideo> {
+    const videoId = new URL(permalink).pathname.match(/\/video\/(\d+)/)?.[1];
+    if (!videoId) {
+      throw new Error('Could not find a TikTok video ID in the post URL');
+    }
+
+    return this.resolveVideoById(videoId);
+  }
+
+  /**
+   * Look up a single TikTok video by its aweme ID
+   */
+  async resolveVideoById(videoId: string): Promise<ExtractedVideo> {
+    if (!/^\d+$/.test(videoId)) {
+      throw new Error(`Could not resolve TikTok video ID: ${videoId}`);
+    }
+
+    console.log(`Resolving TikTok video: ${videoId}`);
+    const apiResponse = await this.fetchJson(
+      `https://${TikTokFeedProvider.HOST}/video/${videoId}`,
+      TikTokFeedProvider.HOST
+    );
+
+    console.log('=== TIKTOK VIDEO API RESPONSE JSON ===');
+    console.log(JSON.stringify(apiResponse, null, 2));
+    console.log('=== END TIKTOK VIDEO RESPONSE ===');
+
+    const aweme = apiResponse?.data?.aweme_detail ||
+                  apiResponse?.aweme_detail ||
+                  apiResponse?.data?.aweme_list?.[0] ||
+                  apiResponse?.aweme_list?.[0];
+
+    const video = aweme ? this.normalizeAweme(aweme, videoId) : null;
+    if (!video || !TikTokFeedProvider.isValidVideoUrl(video.video_url)) {
+      throw new Error('Could not retrieve a playable TikTok video');
+    }
+
+    return video;
+  }
+
+  async waitBetweenRequests(): Promise<void> {
+    if (this.requestDelayMs > 0) {
+      console.log(`Waiting ${this.requestDelayMs}ms before next TikTok API call...`);
+      await delay(this.requestDelayMs);
+    }
+  }
+
+  /**
+   * Only include videos with valid URLs that look like actual TikTok video URLs
+   */
+  private static isValidVideoUrl(videoUrl?: string): boolean {
+    if (!videoUrl) return false;
+
+    try {
+      const url = new URL(videoUrl);
+      const isValidTikTokUrl = url.hostname.includes('tiktokcdn') ||
+                               url.hostname.includes('tiktok') ||
+                               url.pathname.includes('.mp4') ||
+                               url.searchParams.has('mime_type');
+
+      if (!isValidTikTokUrl) {
+        console.warn(`Filtering out invalid TikTok URL: ${videoUrl.substring(0, 100)}...`);
+        return false;
+      }
+
+      return true;
+    } catch (urlError) {
+      console.warn(`Filtering out malformed URL: ${videoUrl.substring(0, 100)}...`);
+      return false;
+    }
+  }
+}
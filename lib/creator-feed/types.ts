@@ -0,0 +1,129 @@
+/**
+ * Normalized video entry returned by every creator feed provider.
+ * This is the `extractedVideos` shape consumed by the UI and the transcription pipeline.
+ */
+export interface ExtractedVideo {
+  id: string;
+  video_url?: string;
+  thumbnail?: string;
+  is_video: boolean;
+  platform: string;
+  fileSize?: number;
+  quality?: string;
+  viewCount?: number; // Added view count for sorting
+  likeCount?: number; // Additional engagement metrics
+}
+
+/**
+ * Creator identity resolved from a public username
+ */
+export interface ResolvedCreator {
+  username: string;
+  userId: string;
+}
+
+/**
+ * Request for a single page of a creator's feed
+ */
+export interface FeedPageRequest {
+  cursor?: string;
+  page: number; // 1-based index of the API call within this extraction
+}
+
+/**
+ * Single page of normalized feed results
+ */
+export interface FeedPage {
+  videos: ExtractedVideo[];
+  hasMore: boolean;
+  nextCursor?: string;
+}
+
+/**
+ * Fetches JSON from a provider's upstream API. Swappable so providers can be
+ * exercised offline against recorded fixtures.
+ */
+export type FeedFetcher = (url: string, host: string) => Promise<any>;
+
+export interface CreatorFeedProviderOptions {
+  fetchJson?: FeedFetcher;
+  requestDelayMs?: number; // Delay between upstream API calls
+}
+
+/**
+ * A source of creator videos for one social platform
+ */
+export interface CreatorFeedProvider {
+  readonly platform: string;
+  readonly displayName: string;
+
+  /**
+   * Return an error message if the provider is not configured, otherwise null
+   */
+  validateEnvironment(): string | null;
+
+  /**
+   * Resolve a public username to the identifier used for feed requests
+   */
+  resolveUser(username: string): Promise<ResolvedCreator>;
+
+  /**
+   * Fetch and normalize one page of the creator's feed
+   */
+  fetchFeedPage(creator: ResolvedCreator, request: FeedPageRequest): Promise<FeedPage>;
+
+  /**
+   * Normalize a raw upstream feed response into a feed page
+   */
+  normalizeFeedResponse(apiResponse: any, request: FeedPageRequest): FeedPage;
+
+  /**
+   * Optionally fill in details (e.g. playable URLs) for the final selection of videos.
+   * Videos that can't be made playable are left out and reported in `errors`.
+   */
+  hydrateVideos?(videos: ExtractedVideo[]): Promise<HydratedVideos>;
+
+  /**
+   * Whether a public post permalink belongs to this provider's platform
+   */
+  matchesPostUrl?(permalink: URL): boolean;
+
+  /**
+   * Resolve a single public post permalink to a playable video with engagement stats
+   */
+  resolvePost?(permalink: string): Promise<ExtractedVideo>;
+
+  /**
+   * Re-resolve a previously extracted video by ID, e.g. to get a fresh CDN URL after the old one expired
+   */
+  resolveVideoById?(videoId: string): Promise<ExtractedVideo>;
+
+  /**
+   * Wait between upstream API calls to respect per-second rate limits
+   */
+  waitBetweenRequests(): Promise<void>;
+}
+
+export interface HydratedVideos {
+  videos: ExtractedVideo[];
+  errors: Array<{ videoId: string; error: string }>;
+}
+
+export interface CollectCreatorVideosOptions {
+  videoCount: number;
+  maxId?: string; // For pagination continuation
+}
+
+export interface CollectCreatorVideosResult {
+  creator: ResolvedCreator;
+  videos: ExtractedVideo[];
+  pagination: {
+    hasMore: boolean;
+    maxId?: string;
+    totalRequested: number;
+    totalExtracted: number;
+  };
+  apiCallCount: number;
+  // Selected videos left out because no playable URL could be resolved
+  errors: Array<{ videoId: string; error: string }>;
+}
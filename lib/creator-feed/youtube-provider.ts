@@ -0,0 +1,271 @@
+import { fetchFromRapidAPI, validateRapidAPIEnvironment, delay } from './rapidapi-client';
+import {
+  CreatorFeedProvider,
+  CreatorFeedProviderOptions,
+  ExtractedVideo,
+  FeedFetcher,
+  FeedPage,
+  FeedPageRequest,
+  HydratedVideos,
+  ResolvedCreator
+} from './types';
+
+export class YouTubeFeedProvider implements CreatorFeedProvider {
+  private static readonly HOST = 'yt-api.p.rapidapi.com';
+  private static readonly DEFAULT_REQUEST_DELAY = 1000; // 1 second between API calls
+
+  readonly platform = 'youtube';
+  readonly displayName = 'YouTube';
+
+  private fetchJson: FeedFetcher;
+  private requestDelayMs: number;
+
+  constructor(options: CreatorFeedProviderOptions = {}) {
+    this.fetchJson = options.fetchJson || fetchFromRapidAPI;
+    this.requestDelayMs = options.requestDelayMs ?? YouTubeFeedProvider.DEFAULT_REQUEST_DELAY;
+  }
+
+  validateEnvironment(): string | null {
+    return validateRapidAPIEnvironment();
+  }
+
+  /**
+   * Shorts feeds are keyed by channel ID, so resolve the @handle to its browse ID first
+   */
+  async resolveUser(username: string): Promise<ResolvedCreator> {
+    console.log(`Processing YouTube request for: ${username}`);
+
+    // Channel IDs can be used directly
+    if (/^UC[a-zA-Z0-9_-]{22}$/.test(username)) {
+      return { username, userId: username };
+    }
+
+    console.log("Step 1: Resolving YouTube channel ID");
+    const handleUrl = encodeURIComponent(`https://www.youtube.com/@${username}`);
+    const resolveResponse = await this.fetchJson(
+      `https://${YouTubeFeedProvider.HOST}/resolve?url=${handleUrl}`,
+      YouTubeFeedProvider.HOST
+    );
+
+    console.log('=== YOUTUBE RESOLVE API RESPONSE JSON ===');
+    console.log(JSON.stringify(resolveResponse, null, 2));
+    console.log('=== END YOUTUBE RESOLVE RESPONSE ===');
+
+    const channelId = resolveResponse?.browseId || resolveResponse?.channelId;
+    if (!channelId) {
+      throw new Error('Could not retrieve YouTube channel ID from username');
+    }
+
+    console.log(`Step 1 Complete: Retrieved YouTube channel ID: ${channelId}`);
+    await this.waitBetweenRequests();
+
+    return { username, userId: channelId };
+  }
+
+  async fetchFeedPage(creator: ResolvedCreator, request: FeedPageRequest): Promise<FeedPage> {
+    let url = `https://${YouTubeFeedProvider.HOST}/channel/shorts?id=${creator.userId}`;
+    if (request.cursor) {
+      url += `&token=${encodeURIComponent(request.cursor)}`;
+    }
+
+    const apiResponse = await this.fetchJson(url, YouTubeFeedProvider.HOST);
+
+    console.log(`=== YOUTUBE SHORTS API CALL ${request.page} RESPONSE JSON ===`);
+    console.log(JSON.stringify(apiResponse, null, 2));
+    console.log('=== END YOUTUBE SHORTS RESPONSE ===');
+
+    return this.normalizeFeedResponse(apiResponse, request);
+  }
+
+  /**
+   * Feed entries carry view counts but no playable URL; those are resolved in `hydrateVideos`
+   * once the best performers have been selected, to avoid a stream lookup per candidate.
+   */
+  normalizeFeedResponse(apiResponse: any, request: FeedPageRequest): FeedPage {
+    const items = (apiResponse?.data || []).filter((item: any) => item?.videoId);
+    console.log(`YouTube API Call ${request.page}: Found ${items.length} shorts to process`);
+
+    const videos: ExtractedVideo[] = items.map((item: any) => {
+      const thumbnails = [...(item.thumbnail || [])];
+      const smallestThumbnail = thumbnails.sort((a: any, b: any) =>
+        (a.width || 0) - (b.width || 0)
+      )[0];
+
+      return {
+        id: item.videoId,
+        thumbnail: smallestThumbnail?.url,
+        is_video: true,
+        platform: this.platform,
+        quality: 'unknown',
+        viewCount: YouTubeFeedProvider.parseCount(item.viewCount ?? item.viewCountText),
+        likeCount: YouTubeFeedProvider.parseCount(item.likeCount ?? item.likeCountText)
+      };
+    });
+
+    const continuation = apiResponse?.continuation;
+
+    return {
+      videos,
+      hasMore: !!continuation && videos.length > 0,
+      nextCursor: continuation || undefined
+    };
+  }
+
+  /**
+   * Resolve playable stream URLs and full engagement stats for the selected shorts.
+   * Shorts without a muxed MP4 stream are left out and reported in `errors`.
+   */
+  async hydrateVideos(videos: ExtractedVideo[]): Promise<HydratedVideos> {
+    console.log(`Resolving YouTube stream URLs for ${videos.length} shorts`);
+
+    const hydrated: ExtractedVideo[] = [];
+    const errors: HydratedVideos['errors'] = [];
+    for (let i = 0; i < videos.length; i++) {
+      const video = videos[i];
+
+      try {
+        const details = await this.fetchVideoDetails(video.id);
+        if (!details.video_url) {
+          throw new Error('No playable MP4 stream');
+        }
+        hydrated.push({
+          ...video,
+          ...details,
+          id: video.id,
+          thumbnail: video.thumbnail || details.thumbnail,
+          viewCount: details.viewCount || video.viewCount,
+          likeCount: details.likeCount || video.likeCount
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.warn(`Could not resolve YouTube stream for ${video.id}:`, message);
+        errors.push({ videoId: video.id, error: `Could not resolve a playable stream: ${message}` });
+      }
+
+      if (i < videos.length - 1) {
+        await this.waitBetweenRequests();
+      }
+    }
+
+    return { videos: hydrated, errors };
+  }
+
+  /**
+   * Look up the smallest muxed (audio + video) MP4 stream and stats for a short
+   */
+  async fetchVideoDetails(videoId: string): Promise<ExtractedVideo> {
+    const apiResponse = await this.fetchJson(
+      `https://${YouTubeFeedProvider.HOST}/dl?id=${videoId}`,
+      YouTubeFeedProvider.HOST
+    );
+
+    return this.normalizeVideoDetails(apiResponse, videoId);
+  }
+
+  normalizeVideoDetails(apiResponse: any, videoId: string): ExtractedVideo {
+    // Muxed formats carry the audio track we need for transcription
+    const formats = [...(apiResponse?.formats || [])].filter((format: any) =>
+      format?.url && (format.mimeType || '').startsWith('video/mp4')
+    );
+
+    // Find smallest stream for transcription
+    const smallestFormat = formats.sort((a: any, b: any) =>
+      (parseInt(a.contentLength) || a.width || 0) - (parseInt(b.contentLength) || b.width || 0)
+    )[0];
+
+    const thumbnails = [...(apiResponse?.thumbnail || [])];
+    const smallestThumbnail = thumbnails.sort((a: any, b: any) =>
+      (a.width || 0) - (b.width || 0)
+    )[0];
+
+    const viewCount = YouTubeFeedProvider.parseCount(apiResponse?.viewCount);
+    const likeCount = YouTubeFeedProvider.parseCount(apiResponse?.likeCount);
+
+    console.log(`YouTube Short ${videoId}:`, {
+      video_url: smallestFormat?.url,
+      quality: smallestFormat?.qualityLabel,
+      content_length: smallestFormat?.contentLength,
+      view_count: viewCount,
+      like_count: likeCount
+    });
+
+    return {
+      id: apiResponse?.id || videoId,
+      video_url: smallestFormat?.url,
+      thumbnail: smallestThumbnail?.url,
+      is_video: true,
+      platform: this.platform,
+      quality: smallestFormat
+        ? `${smallestFormat.width || 0}x${smallestFormat.height || 0}`
+        : 'unknown',
+      fileSize: parseInt(smallestFormat?.contentLength) || undefined,
+      viewCount,
+      likeCount
+    };
+  }
+
+  matchesPostUrl(permalink: URL): boolean {
+    return /(^|\.)youtube\.com$/.test(permalink.hostname) || permalink.hostname === 'youtu.be';
+  }
+
+  /**
+   * Resolve a Shorts permalink such as https://www.youtube.com/shorts/dQw4w9WgXcQ
+   */
+  async resolvePost(permalink: string): Promise<ExtractedVideo> {
+    const url = new URL(permalink);
+    const videoId = url.hostname === 'youtu.be'
+      ? url.pathname.slice(1)
+      : url.pathname.match(/\/shorts\/([A-Za-z0-9_-]{11})/)?.[1] || url.searchParams.get('v');
+
+    if (!videoId || !/^[A-Za-z0-9_-]{11}$/.test(videoId)) {
+      throw new Error('Could not find a YouTube video ID in the post URL');
+    }
+
+    return this.resolveVideoById(videoId);
+  }
+
+  /**
+   * Look up a single short's stream URL and stats by video ID
+   */
+  async resolveVideoById(videoId: string): Promise<ExtractedVideo> {
+    console.log(`Resolving YouTube video: ${videoId}`);
+    const video = await this.fetchVideoDetails(videoId);
+
+    if (!video.video_url) {
+      throw new Error('Could not retrieve a playable YouTube video');
+    }
+
+    return video;
+  }
+
+  async waitBetweenRequests(): Promise<void> {
+    if (this.requestDelayMs > 0) {
+      console.log(`Waiting ${this.requestDelayMs}ms before next YouTube API call...`);
+      await delay(this.requestDelayMs);
+    }
+  }
+
+  /**
+   * Normalize YouTube counts, which arrive as numbers, numeric strings or
+   * display text such as "1.2M views" or "3,456 likes"
+   */
+  static parseCount(value: unknown): number {
+    if (typeof value === 'number') {
+      return Number.isFinite(value) ? Math.round(value) : 0;
+    }
+
+    if (typeof value !== 'string') {
+      return 0;
+    }
+
+    const match = value.replace(/,/g, '').match(/([\d.]+)\s*([KMB])?/i);
+    if (!match) {
+      return 0;
+    }
+
+    const multipliers: Record<string, number> = { K: 1e3, M: 1e6, B: 1e9 };
+    const multiplier = match[2] ? multipliers[match[2].toUpperCase()] : 1;
+
+    return Math.round(parseFloat(match[1]) * multiplier) || 0;
+  }
+}
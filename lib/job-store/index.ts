@@ -0,0 +1,113 @@
+import path from 'path';
+import type { TranscriptionJobResult } from '@/lib/transcription/types';
+import { SqliteJobStore } from './sqlite-job-store';
+import { JobStore } from './types';
+
+const DEFAULT_DATABASE_PATH = path.join(process.cwd(), 'data', 'audioscripts.db');
+
+export class JobStoreConfigError extends Error {
+  constructor(message: string, public cause?: Error) {
+    super(message);
+    this.name = 'JobStoreConfigError';
+  }
+}
+
+// Keep one store per server process, including across dev-mode hot reloads
+const globalForJobStore = globalThis as unknown as { jobStore?: JobStore };
+
+/**
+ * The database file to open. Production servers must set JOB_STORE_PATH,
+ * since a deployed app's working directory is often neither writable nor kept
+ * across deploys.
+ */
+function resolveDatabasePath(): string {
+  if (process.env.JOB_STORE_PATH) {
+    return process.env.JOB_STORE_PATH;
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw new JobStoreConfigError('JOB_STORE_PATH must be set in production to a database file on a persistent, writable disk');
+  }
+  return DEFAULT_DATABASE_PATH;
+}
+
+/**
+ * Get the shared job store, opening the SQLite database on first use.
+ * Set JOB_STORE_PATH to move the database file (":memory:" keeps it in process only).
+ * Throws a JobStoreConfigError when the database can't be opened.
+ */
+export function getJobStore(): JobStore {
+  if (!globalForJobStore.jobStore) {
+    const filePath = resolveDatabasePath();
+    try {
+      globalForJobStore.jobStore = new SqliteJobStore(filePath);
+    } catch (error) {
+      const cause = error instanceof Error ? error : undefined;
+      throw new JobStoreConfigError(`Could not open the job store at ${filePath}: ${cause?.message || 'Unknown error'}`, cause);
+    }
+  }
+  return globalForJobStore.jobStore;
+}
+
+/**
+ * Replace the shared job store, e.g. with a different database backend
+ */
+export function setJobStore(store: JobStore): void {
+  globalForJobStore.jobStore = store;
+}
+
+/**
+ * Run a persistence step without letting storage failures break the request,
+ * the same way Google Drive uploads degrade gracefully. A store that can't be
+ * opened is a configuration error and is thrown rather than swallowed.
+ */
+export async function withJobStore<T>(label: string, action: (store: JobStore) => Promise<T>): Promise<T | null> {
+  const store = getJobStore();
+  try {
+    return await action(store);
+  } catch (error) {
+    console.error(`[JobStore] Failed to ${label}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Save a transcription job's results under its run and mark the run finished
+ */
+export async function completeTranscriptionRun(runId: string, result: TranscriptionJobResult, output: any = {}) {
+  return withJobStore('save transcription results', async store => {
+    await store.saveTranscriptionResults(runId, result.results);
+    return store.updateRun(runId, {
+      status: result.success ? 'completed' : 'failed',
+      error: result.success ? undefined : result.errors.map(e => e.error).join('; ') || 'No videos transcribed successfully',
+      output: {
+        totalProcessed: result.totalProcessed,
+        totalFailed: result.totalFailed,
+        processingTime: result.processingTime,
+        errors: result.errors,
+        cache: result.cache,
+        usage: result.usage,
+        ...output
+      }
+    });
+  });
+}
+
+export { SqliteJobStore } from './sqlite-job-store';
+
+export type {
+  JobStore,
+  RunType,
+  RunStatus,
+  RunRecord,
+  RunDetails,
+  CreatorRecord,
+  CreatorUsage,
+  VideoRecord,
+  TranscriptionResultRecord,
+  TemplateRecord,
+  SyntheticScriptRecord,
+  DatasetRecord,
+  CreateRunInput,
+  UpdateRunInput,
+  ListRunsFilter
+} from './types';
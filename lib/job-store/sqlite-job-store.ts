@@ -0,0 +1,571 @@
+import Database from 'better-sqlite3';
+import { randomUUID } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { ExtractedVideo } from '@/lib/creator-feed';
+import type {
+  MarketingSegments,
+  PromptRef,
+  ScriptTemplate,
+  SegmentFramework,
+  TranscriptionResult
+} from '@/lib/transcription/types';
+import type { TrainingDataset } from '@/lib/transcription/training-data-exporter';
+import { summarizeUsage } from '@/lib/transcription/usage';
+import {
+  CreateRunInput,
+  CreatorRecord,
+  CreatorUsage,
+  DatasetRecord,
+  JobStore,
+  ListRunsFilter,
+  RunDetails,
+  RunRecord,
+  SyntheticScriptRecord,
+  TemplateRecord,
+  TranscriptionResultRecord,
+  UpdateRunInput,
+  VideoRecord
+} from './types';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS runs (
+    id TEXT PRIMARY KEY,
+    type TEXT NOT NULL,
+    status TEXT NOT NULL,
+    parent_run_id TEXT,
+    input TEXT,
+    output TEXT,
+    error TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    completed_at TEXT
+  );
+  CREATE INDEX IF NOT EXISTS idx_runs_parent ON runs(parent_run_id);
+  CREATE INDEX IF NOT EXISTS idx_runs_created ON runs(created_at);
+
+  CREATE TABLE IF NOT EXISTS creators (
+    id TEXT PRIMARY KEY,
+    platform TEXT NOT NULL,
+    username TEXT NOT NULL,
+    user_id TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    UNIQUE(platform, username)
+  );
+
+  CREATE TABLE IF NOT EXISTS run_creators (
+    run_id TEXT NOT NULL,
+    creator_id TEXT NOT NULL,
+    PRIMARY KEY (run_id, creator_id)
+  );
+
+  CREATE TABLE IF NOT EXISTS videos (
+    id TEXT PRIMARY KEY,
+    run_id TEXT,
+    creator_id TEXT,
+    platform TEXT NOT NULL,
+    video_id TEXT NOT NULL,
+    data TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_videos_run ON videos(run_id);
+
+  CREATE TABLE IF NOT EXISTS transcription_results (
+    id TEXT PRIMARY KEY,
+    run_id TEXT NOT NULL,
+    video_id TEXT NOT NULL,
+    platform TEXT NOT NULL,
+    success INTEGER NOT NULL,
+    data TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_transcription_results_run ON transcription_results(run_id);
+
+  CREATE TABLE IF NOT EXISTS templates (
+    id TEXT PRIMARY KEY,
+    run_id TEXT,
+    source_video_id TEXT,
+    data TEXT NOT NULL,
+    prompt TEXT,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_templates_run ON templates(run_id);
+
+  CREATE TABLE IF NOT EXISTS synthetic_scripts (
+    id TEXT PRIMARY KEY,
+    run_id TEXT,
+    topic TEXT NOT NULL,
+    data TEXT NOT NULL,
+    template TEXT,
+    prompt TEXT,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_synthetic_scripts_run ON synthetic_scripts(run_id);
+
+  CREATE TABLE IF NOT EXISTS datasets (
+    id TEXT PRIMARY KEY,
+    run_id TEXT,
+    data TEXT NOT NULL,
+    validation TEXT,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_datasets_run ON datasets(run_id);
+
+  CREATE TABLE IF NOT EXISTS segment_frameworks (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+`;
+
+export class SqliteJobStore implements JobStore {
+  private db: Database.Database;
+
+  constructor(filePath: string) {
+    if (filePath !== ':memory:') {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    }
+
+    console.log(`[JobStore] Opening SQLite job store at ${filePath}`);
+    this.db = new Database(filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(SCHEMA);
+  }
+
+  async createRun(input: CreateRunInput): Promise<RunRecord> {
+    const now = new Date().toISOString();
+    const run: RunRecord = {
+      id: randomUUID(),
+      type: input.type,
+      status: input.status || 'running',
+      parentRunId: input.parentRunId,
+      input: input.input,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.db.prepare(`
+      INSERT INTO runs (id, type, status, parent_run_id, input, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(run.id, run.type, run.status, run.parentRunId ?? null, toJson(run.input), now, now);
+
+    console.log(`[JobStore] Created ${run.type} run ${run.id}`);
+    return run;
+  }
+
+  async updateRun(id: string, update: UpdateRunInput): Promise<RunRecord | null> {
+    const existing = await this.getRun(id);
+    if (!existing) {
+      return null;
+    }
+
+    const now = new Date().toISOString();
+    const status = update.status ?? existing.status;
+    const isFinished = status === 'completed' || status === 'failed';
+
+    this.db.prepare(`
+      UPDATE runs SET status = ?, output = ?, error = ?, updated_at = ?, completed_at = ?
+      WHERE id = ?
+    `).run(
+      status,
+      toJson(update.output !== undefined ? update.output : existing.output),
+      update.error !== undefined ? update.error : existing.error ?? null,
+      now,
+      isFinished ? (existing.completedAt || now) : null,
+      id
+    );
+
+    return this.getRun(id);
+  }
+
+  async getRun(id: string): Promise<RunRecord | null> {
+    const row = this.db.prepare('SELECT * FROM runs WHERE id = ?').get(id);
+    return row ? toRunRecord(row) : null;
+  }
+
+  async listRuns(filter: ListRunsFilter = {}): Promise<RunRecord[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filter.type) {
+      conditions.push('type = ?');
+      params.push(filter.type);
+    }
+    if (filter.status) {
+      conditions.push('status = ?');
+      params.push(filter.status);
+    }
+    if (filter.parentRunId) {
+      conditions.push('parent_run_id = ?');
+      params.push(filter.parentRunId);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db.prepare(`
+      SELECT * FROM runs ${where} ORDER BY created_at DESC LIMIT ?
+    `).all(...params, filter.limit ?? 50);
+
+    return rows.map(toRunRecord);
+  }
+
+  async getRunDetails(id: string): Promise<RunDetails | null> {
+    const run = await this.getRun(id);
+    if (!run) {
+      return null;
+    }
+
+    const creators = this.db.prepare(`
+      SELECT creators.* FROM creators
+      JOIN run_creators ON run_creators.creator_id = creators.id
+      WHERE run_creators.run_id = ?
+    `).all(id).map(toCreatorRecord);
+
+    return {
+      run,
+      creators,
+      videos: this.db.prepare('SELECT * FROM videos WHERE run_id = ? ORDER BY rowid').all(id).map(toVideoRecord),
+      transcriptionResults: this.db.prepare('SELECT * FROM transcription_results WHERE run_id = ? ORDER BY rowid').all(id).map(toTranscriptionResultRecord),
+      templates: this.db.prepare('SELECT * FROM templates WHERE run_id = ? ORDER BY rowid').all(id).map(toTemplateRecord),
+      syntheticScripts: this.db.prepare('SELECT * FROM synthetic_scripts WHERE run_id = ? ORDER BY rowid').all(id).map(toSyntheticScriptRecord),
+      datasets: this.db.prepare('SELECT * FROM datasets WHERE run_id = ? ORDER BY rowid').all(id).map(toDatasetRecord),
+      childRuns: await this.listRuns({ parentRunId: id, limit: 1000 })
+    };
+  }
+
+  async upsertCreator(platform: string, username: string, userId?: string, runId?: string): Promise<CreatorRecord> {
+    const now = new Date().toISOString();
+
+    this.db.prepare(`
+      INSERT INTO creators (id, platform, username, user_id, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(platform, username) DO UPDATE SET
+        user_id = COALESCE(excluded.user_id, creators.user_id),
+        updated_at = excluded.updated_at
+    `).run(randomUUID(), platform, username, userId ?? null, now, now);
+
+    const creator = toCreatorRecord(
+      this.db.prepare('SELECT * FROM creators WHERE platform = ? AND username = ?').get(platform, username)
+    );
+
+    if (runId) {
+      this.db.prepare('INSERT OR IGNORE INTO run_creators (run_id, creator_id) VALUES (?, ?)').run(runId, creator.id);
+    }
+
+    return creator;
+  }
+
+  async getCreator(id: string): Promise<CreatorRecord | null> {
+    const row = this.db.prepare('SELECT * FROM creators WHERE id = ?').get(id);
+    return row ? toCreatorRecord(row) : null;
+  }
+
+  async getCreatorUsage(creatorId: string): Promise<CreatorUsage | null> {
+    const creator = await this.getCreator(creatorId);
+    if (!creator) {
+      return null;
+    }
+
+    const transcriptionRows = this.db.prepare(`
+      SELECT data FROM transcription_results
+      WHERE EXISTS (
+        SELECT 1 FROM videos
+        WHERE videos.creator_id = ?
+          AND videos.platform = transcription_results.platform
+          AND videos.video_id = transcription_results.video_id
+      )
+    `).all(creatorId) as Array<{ data: string }>;
+
+    const templateRows = this.db.prepare(`
+      SELECT output FROM runs
+      WHERE type = 'template_generation'
+        AND json_extract(input, '$.sourceVideoId') IN (SELECT video_id FROM videos WHERE creator_id = ?)
+    `).all(creatorId) as Array<{ output: string | null }>;
+
+    // Scripts aren't tied to a video; count those of pipelines that extracted the creator
+    const scriptRows = this.db.prepare(`
+      SELECT output FROM runs
+      WHERE type = 'script_generation'
+        AND parent_run_id IN (
+          SELECT parent_run_id FROM runs
+          WHERE id IN (SELECT run_id FROM videos WHERE creator_id = ?)
+        )
+    `).all(creatorId) as Array<{ output: string | null }>;
+
+    const transcription = summarizeUsage(transcriptionRows.map(row => fromJson(row.data)?.usage));
+    const templates = summarizeUsage(templateRows.map(row => fromJson(row.output)?.usage));
+    const synthetic = summarizeUsage(scriptRows.map(row => fromJson(row.output)?.usage));
+
+    return {
+      creator,
+      transcription,
+      templates,
+      synthetic,
+      total: summarizeUsage([transcription, templates, synthetic])
+    };
+  }
+
+  async saveVideos(runId: string, videos: ExtractedVideo[], creatorId?: string): Promise<VideoRecord[]> {
+    const now = new Date().toISOString();
+    const records: VideoRecord[] = videos.map(video => ({
+      id: randomUUID(),
+      runId,
+      creatorId,
+      platform: video.platform,
+      videoId: video.id,
+      video,
+      createdAt: now
+    }));
+
+    const insert = this.db.prepare(`
+      INSERT INTO videos (id, run_id, creator_id, platform, video_id, data, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    const insertAll = this.db.transaction((rows: VideoRecord[]) => {
+      for (const record of rows) {
+        insert.run(record.id, runId, creatorId ?? null, record.platform, record.videoId, toJson(record.video), now);
+      }
+    });
+    insertAll(records);
+
+    if (creatorId) {
+      this.db.prepare('INSERT OR IGNORE INTO run_creators (run_id, creator_id) VALUES (?, ?)').run(runId, creatorId);
+    }
+
+    console.log(`[JobStore] Saved ${records.length} videos for run ${runId}`);
+    return records;
+  }
+
+  async getVideo(id: string): Promise<VideoRecord | null> {
+    const row = this.db.prepare('SELECT * FROM videos WHERE id = ?').get(id);
+    return row ? toVideoRecord(row) : null;
+  }
+
+  async saveTranscriptionResults(runId: string, results: TranscriptionResult[]): Promise<TranscriptionResultRecord[]> {
+    const now = new Date().toISOString();
+    const records: TranscriptionResultRecord[] = results.map(result => ({
+      id: randomUUID(),
+      runId,
+      videoId: result.videoId,
+      platform: result.platform,
+      success: result.success,
+      result,
+      createdAt: now
+    }));
+
+    const insert = this.db.prepare(`
+      INSERT INTO transcription_results (id, run_id, video_id, platform, success, data, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    const insertAll = this.db.transaction((rows: TranscriptionResultRecord[]) => {
+      for (const record of rows) {
+        insert.run(record.id, runId, record.videoId, record.platform, record.success ? 1 : 0, toJson(record.result), now);
+      }
+    });
+    insertAll(records);
+
+    console.log(`[JobStore] Saved ${records.length} transcription results for run ${runId}`);
+    return records;
+  }
+
+  async getTranscriptionResult(id: string): Promise<TranscriptionResultRecord | null> {
+    const row = this.db.prepare('SELECT * FROM transcription_results WHERE id = ?').get(id);
+    return row ? toTranscriptionResultRecord(row) : null;
+  }
+
+  async saveTemplate(
+    template: ScriptTemplate,
+    runId?: string,
+    sourceVideoId?: string,
+    prompt?: PromptRef
+  ): Promise<TemplateRecord> {
+    const record: TemplateRecord = {
+      id: randomUUID(),
+      runId,
+      sourceVideoId,
+      template,
+      prompt,
+      createdAt: new Date().toISOString()
+    };
+
+    this.db.prepare(`
+      INSERT INTO templates (id, run_id, source_video_id, data, prompt, created_at) VALUES (?, ?, ?, ?, ?, ?)
+    `).run(record.id, runId ?? null, sourceVideoId ?? null, toJson(template), toJson(prompt), record.createdAt);
+
+    return record;
+  }
+
+  async getTemplate(id: string): Promise<TemplateRecord | null> {
+    const row = this.db.prepare('SELECT * FROM templates WHERE id = ?').get(id);
+    return row ? toTemplateRecord(row) : null;
+  }
+
+  async saveSyntheticScript(
+    topic: string,
+    script: MarketingSegments,
+    runId?: string,
+    template?: ScriptTemplate,
+    prompt?: PromptRef
+  ): Promise<SyntheticScriptRecord> {
+    const record: SyntheticScriptRecord = {
+      id: randomUUID(),
+      runId,
+      topic,
+      script,
+      template,
+      prompt,
+      createdAt: new Date().toISOString()
+    };
+
+    this.db.prepare(`
+      INSERT INTO synthetic_scripts (id, run_id, topic, data, template, prompt, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(record.id, runId ?? null, topic, toJson(script), toJson(template), toJson(prompt), record.createdAt);
+
+    return record;
+  }
+
+  async getSyntheticScript(id: string): Promise<SyntheticScriptRecord | null> {
+    const row = this.db.prepare('SELECT * FROM synthetic_scripts WHERE id = ?').get(id);
+    return row ? toSyntheticScriptRecord(row) : null;
+  }
+
+  async saveDataset(dataset: TrainingDataset, runId?: string, validation?: any): Promise<DatasetRecord> {
+    const record: DatasetRecord = {
+      id: randomUUID(),
+      runId,
+      dataset,
+      validation,
+      createdAt: new Date().toISOString()
+    };
+
+    this.db.prepare(`
+      INSERT INTO datasets (id, run_id, data, validation, created_at) VALUES (?, ?, ?, ?, ?)
+    `).run(record.id, runId ?? null, toJson(dataset), toJson(validation), record.createdAt);
+
+    return record;
+  }
+
+  async getDataset(id: string): Promise<DatasetRecord | null> {
+    const row = this.db.prepare('SELECT * FROM datasets WHERE id = ?').get(id);
+    return row ? toDatasetRecord(row) : null;
+  }
+
+  async saveSegmentFramework(framework: SegmentFramework): Promise<SegmentFramework> {
+    const now = new Date().toISOString();
+    this.db.prepare(`
+      INSERT INTO segment_frameworks (id, data, created_at, updated_at) VALUES (?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at
+    `).run(framework.id, toJson(framework), now, now);
+
+    return framework;
+  }
+
+  async getSegmentFramework(id: string): Promise<SegmentFramework | null> {
+    const row = this.db.prepare('SELECT * FROM segment_frameworks WHERE id = ?').get(id);
+    return row ? toSegmentFramework(row) : null;
+  }
+
+  async listSegmentFrameworks(): Promise<SegmentFramework[]> {
+    return this.db.prepare('SELECT * FROM segment_frameworks ORDER BY created_at').all().map(toSegmentFramework);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+function toJson(value: any): string | null {
+  return value === undefined ? null : JSON.stringify(value);
+}
+
+function fromJson(value: string | null): any {
+  return value === null || value === undefined ? undefined : JSON.parse(value);
+}
+
+function toRunRecord(row: any): RunRecord {
+  return {
+    id: row.id,
+    type: row.type,
+    status: row.status,
+    parentRunId: row.parent_run_id ?? undefined,
+    input: fromJson(row.input),
+    output: fromJson(row.output),
+    error: row.error ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    completedAt: row.completed_at ?? undefined
+  };
+}
+
+function toCreatorRecord(row: any): CreatorRecord {
+  return {
+    id: row.id,
+    platform: row.platform,
+    username: row.username,
+    userId: row.user_id ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+function toVideoRecord(row: any): VideoRecord {
+  return {
+    id: row.id,
+    runId: row.run_id ?? undefined,
+    creatorId: row.creator_id ?? undefined,
+    platform: row.platform,
+    videoId: row.video_id,
+    video: fromJson(row.data),
+    createdAt: row.created_at
+  };
+}
+
+function toTranscriptionResultRecord(row: any): TranscriptionResultRecord {
+  return {
+    id: row.id,
+    runId: row.run_id,
+    videoId: row.video_id,
+    platform: row.platform,
+    success: row.success === 1,
+    result: fromJson(row.data),
+    createdAt: row.created_at
+  };
+}
+
+function toTemplateRecord(row: any): TemplateRecord {
+  return {
+    id: row.id,
+    runId: row.run_id ?? undefined,
+    sourceVideoId: row.source_video_id ?? undefined,
+    template: fromJson(row.data),
+    prompt: fromJson(row.prompt),
+    createdAt: row.created_at
+  };
+}
+
+function toSyntheticScriptRecord(row: any): SyntheticScriptRecord {
+  return {
+    id: row.id,
+    runId: row.run_id ?? undefined,
+    topic: row.topic,
+    script: fromJson(row.data),
+    template: fromJson(row.template),
+    prompt: fromJson(row.prompt),
+    createdAt: row.created_at
+  };
+}
+
+function toDatasetRecord(row: any): DatasetRecord {
+  return {
+    id: row.id,
+    runId: row.run_id ?? undefined,
+    dataset: fromJson(row.data),
+    validation: fromJson(row.validation),
+    createdAt: row.created_at
+  };
+}
+
+function toSegmentFramework(row: any): SegmentFramework {
+  return fromJson(row.data);
+}
@@ -0,0 +1,181 @@
+import type { ExtractedVideo } from '@/lib/creator-feed';
+import type {
+  MarketingSegments,
+  PromptRef,
+  ScriptTemplate,
+  SegmentFramework,
+  TranscriptionResult,
+  UsageSummary
+} from '@/lib/transcription/types';
+import type { TrainingDataset } from '@/lib/transcription/training-data-exporter';
+
+export type RunType =
+  | 'creator_extraction'
+  | 'transcription'
+  | 'template_generation'
+  | 'script_generation'
+  | 'dataset_export'
+  | 'pipeline';
+
+export type RunStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+/**
+ * One invocation of an API workflow. Runs started on behalf of a pipeline
+ * point back to it through `parentRunId`.
+ */
+export interface RunRecord {
+  id: string;
+  type: RunType;
+  status: RunStatus;
+  parentRunId?: string;
+  input?: any;
+  output?: any;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
+
+export interface CreatorRecord {
+  id: string;
+  platform: string;
+  username: string;
+  userId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface VideoRecord {
+  id: string;
+  runId?: string;
+  creatorId?: string;
+  platform: string;
+  videoId: string;
+  video: ExtractedVideo;
+  createdAt: string;
+}
+
+export interface TranscriptionResultRecord {
+  id: string;
+  runId: string;
+  videoId: string;
+  platform: string;
+  success: boolean;
+  result: TranscriptionResult;
+  createdAt: string;
+}
+
+export interface TemplateRecord {
+  id: string;
+  runId?: string;
+  sourceVideoId?: string;
+  template: ScriptTemplate;
+  prompt?: PromptRef; // Prompt version the template was generated with; absent on older records
+  createdAt: string;
+}
+
+export interface SyntheticScriptRecord {
+  id: string;
+  runId?: string;
+  topic: string;
+  script: MarketingSegments;
+  template?: ScriptTemplate;
+  prompt?: PromptRef; // Prompt version the script was written with; absent on older records
+  createdAt: string;
+}
+
+export interface DatasetRecord {
+  id: string;
+  runId?: string;
+  dataset: TrainingDataset;
+  validation?: any;
+  createdAt: string;
+}
+
+/**
+ * A run together with everything it produced and any runs it started
+ */
+export interface RunDetails {
+  run: RunRecord;
+  creators: CreatorRecord[];
+  videos: VideoRecord[];
+  transcriptionResults: TranscriptionResultRecord[];
+  templates: TemplateRecord[];
+  syntheticScripts: SyntheticScriptRecord[];
+  datasets: DatasetRecord[];
+  childRuns: RunRecord[];
+}
+
+/**
+ * Gemini usage attributed to a creator: transcriptions of their videos, templates
+ * built from those videos and synthetic scripts from pipelines that extracted them
+ */
+export interface CreatorUsage {
+  creator: CreatorRecord;
+  transcription: UsageSummary;
+  templates: UsageSummary;
+  synthetic: UsageSummary;
+  total: UsageSummary;
+}
+
+export interface CreateRunInput {
+  type: RunType;
+  status?: RunStatus;
+  parentRunId?: string;
+  input?: any;
+}
+
+export interface UpdateRunInput {
+  status?: RunStatus;
+  output?: any;
+  // null clears an earlier error, e.g. when a failed run is resumed
+  error?: string | null;
+}
+
+export interface ListRunsFilter {
+  type?: RunType;
+  status?: RunStatus;
+  parentRunId?: string;
+  limit?: number;
+}
+
+/**
+ * Server-side persistence for runs and everything they produce
+ */
+export interface JobStore {
+  createRun(input: CreateRunInput): Promise<RunRecord>;
+  updateRun(id: string, update: UpdateRunInput): Promise<RunRecord | null>;
+  getRun(id: string): Promise<RunRecord | null>;
+  listRuns(filter?: ListRunsFilter): Promise<RunRecord[]>;
+  getRunDetails(id: string): Promise<RunDetails | null>;
+
+  upsertCreator(platform: string, username: string, userId?: string, runId?: string): Promise<CreatorRecord>;
+  getCreator(id: string): Promise<CreatorRecord | null>;
+  getCreatorUsage(creatorId: string): Promise<CreatorUsage | null>;
+
+  saveVideos(runId: string, videos: ExtractedVideo[], creatorId?: string): Promise<VideoRecord[]>;
+  getVideo(id: string): Promise<VideoRecord | null>;
+
+  saveTranscriptionResults(runId: string, results: TranscriptionResult[]): Promise<TranscriptionResultRecord[]>;
+  getTranscriptionResult(id: string): Promise<TranscriptionResultRecord | null>;
+
+  saveTemplate(template: ScriptTemplate, runId?: string, sourceVideoId?: string, prompt?: PromptRef): Promise<TemplateRecord>;
+  getTemplate(id: string): Promise<TemplateRecord | null>;
+
+  saveSyntheticScript(
+    topic: string,
+    script: MarketingSegments,
+    runId?: string,
+    template?: ScriptTemplate,
+    prompt?: PromptRef
+  ): Promise<SyntheticScriptRecord>;
+  getSyntheticScript(id: string): Promise<SyntheticScriptRecord | null>;
+
+  saveDataset(dataset: TrainingDataset, runId?: string, validation?: any): Promise<DatasetRecord>;
+  getDataset(id: string): Promise<DatasetRecord | null>;
+
+  // User-defined segment frameworks, saved under their id
+  saveSegmentFramework(framework: SegmentFramework): Promise<SegmentFramework>;
+  getSegmentFramework(id: string): Promise<SegmentFramework | null>;
+  listSegmentFrameworks(): Promise<SegmentFramework[]>;
+}
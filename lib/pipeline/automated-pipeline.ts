@@ -0,0 +1,566 @@
+import type { ExportOptions } from '@/lib/transcription/training-data-exporter';
+import type {
+  ScriptTemplate,
+  SyntheticScript,
+  TranscriptionResult,
+  VideoMetadata,
+  VideoProgressCallback
+} from '@/lib/transcription/types';
+import { formatCost, summarizeUsage } from '@/lib/transcription/usage';
+import {
+  exportTrainingDataset,
+  extractCreatorVideos,
+  generateSyntheticScript,
+  generateTemplates,
+  transcribeVideos
+} from '@/lib/workflows';
+import { PipelineProgressTracker } from './progress-tracker';
+import { AutomatedPipelineRequest, PipelineCheckpoints, PipelineData, PipelineOutput } from './types';
+
+const SYNTHETIC_TOPICS = [
+  'productivity tips for entrepreneurs',
+  'social media growth strategies',
+  'healthy morning routines',
+  'fitness motivation for beginners',
+  'business advice for startups',
+  'personal development habits',
+  'technology trends 2024',
+  'creative content ideas',
+  'financial literacy basics',
+  'time management techniques'
+];
+
+/**
+ * The workflow each step calls
+ */
+export interface PipelineWorkflows {
+  extractCreatorVideos: typeof extractCreatorVideos;
+  transcribeVideos: typeof transcribeVideos;
+  generateTemplates: typeof generateTemplates;
+  generateSyntheticScript: typeof generateSyntheticScript;
+  exportTrainingDataset: typeof exportTrainingDataset;
+}
+
+const DEFAULT_WORKFLOWS: PipelineWorkflows = {
+  extractCreatorVideos,
+  transcribeVideos,
+  generateTemplates,
+  generateSyntheticScript,
+  exportTrainingDataset
+};
+
+export interface PipelineRunContext {
+  runId?: string;
+  // Step outputs saved by an earlier attempt of the same run
+  checkpoints?: PipelineCheckpoints;
+  onCheckpoint?: (checkpoints: PipelineCheckpoints) => Promise<void> | void;
+  onVideoProgress?: VideoProgressCallback;
+  // Replaces individual step workflows, e.g. with stubs in tests
+  workflows?: Partial<PipelineWorkflows>;
+}
+
+// Only analyzed videos feed template generation and export
+function isUsableTranscription(result: TranscriptionResult): boolean {
+  return result.success && !!result.marketingSegments;
+}
+
+/**
+ * Optional steps a finished run has no complete checkpoint for: templates that
+ * failed to generate and synthetic topics without a script. A completed job
+ * with incomplete steps can be resumed to retry just those.
+ */
+export function findIncompleteSteps(
+  request: AutomatedPipelineRequest,
+  checkpoints: PipelineCheckpoints = {}
+): string[] {
+  const { fastMode = false, generateSyntheticData = true, syntheticScriptCount = 10 } = request.options || {};
+  if (fastMode) {
+    return [];
+  }
+
+  const incomplete: string[] = [];
+  if (!checkpoints.templates?.templates.length) {
+    incomplete.push('template_generation');
+  }
+  if (generateSyntheticData) {
+    const completedTopics = new Set((checkpoints.synthetic?.scripts || []).map(script => script.topic));
+    if (SYNTHETIC_TOPICS.slice(0, syntheticScriptCount).some(topic => !completedTopics.has(topic))) {
+      incomplete.push('synthetic_generation');
+    }
+  }
+  return incomplete;
+}
+
+/**
+ * Run every pipeline step for one creator: extraction, transcription, templates,
+ * synthetic scripts and training data export. Progress is reported through the
+ * tracker; a failed required step throws after marking the step failed.
+ *
+ * Each step's output is checkpointed through `onCheckpoint`. When earlier
+ * checkpoints are passed in, finished steps are reused and only failed videos,
+ * missing templates and synthetic topics and unfinished steps are run again.
+ * Failed template or synthetic generation doesn't fail the run; it is reported
+ * as an incomplete step on the completion step instead.
+ */
+export async function runAutomatedPipeline(
+  request: AutomatedPipelineRequest,
+  tracker: PipelineProgressTracker,
+  context: PipelineRunContext = {}
+): Promise<PipelineOutput> {
+  const { runId } = context;
+  const checkpoints: PipelineCheckpoints = { ...context.checkpoints };
+  const workflows: PipelineWorkflows = { ...DEFAULT_WORKFLOWS, ...context.workflows };
+  const saveCheckpoint = async () => {
+    await context.onCheckpoint?.(checkpoints);
+  };
+
+  const {
+    username,
+    platform,
+    videoCount = 40,
+    options = {}
+  } = request;
+
+  const {
+    fastMode = false,
+    extractAudio = false,
+    bypassCache = false,
+    timestamps,
+    diarize = false,
+    translateTo,
+    languages,
+    segmentFramework,
+    generateSyntheticData = true,
+    syntheticScriptCount = 10,
+    exportFormat = 'jsonl',
+    includeMetadata = true
+  } = options;
+
+  const isResume = Object.keys(checkpoints).length > 0;
+  tracker.addStep('initialization', 'completed', `${isResume ? 'Resuming' : 'Starting'} automated pipeline for ${platform}:${username}`, {
+    videoCount,
+    fastMode,
+    extractAudio,
+    bypassCache,
+    timestamps,
+    diarize,
+    translateTo,
+    languages,
+    segmentFramework,
+    generateSyntheticData,
+    syntheticScriptCount,
+    exportFormat,
+    checkpoints: Object.keys(checkpoints)
+  });
+
+  // Step 1: Extract Videos
+  if (checkpoints.extraction) {
+    tracker.addStep('video_extraction', 'completed', `Reused ${checkpoints.extraction.extractedVideos.length} extracted video URLs from checkpoint`, {
+      totalVideos: checkpoints.extraction.extractedVideos.length,
+      videoUrls: checkpoints.extraction.videoUrls,
+      googleDrive: checkpoints.extraction.googleDrive
+    });
+  } else {
+    tracker.addStep('video_extraction', 'running', `Extracting top ${videoCount} videos from ${platform}:${username}`);
+
+    let extractionResult;
+    try {
+      extractionResult = await workflows.extractCreatorVideos({
+        username,
+        platform,
+        videoCount,
+        parentRunId: runId
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      tracker.updateLastStep('failed', `Video extraction failed: ${message}`);
+      throw new Error(`Video extraction failed: ${message}`);
+    }
+
+    if (!extractionResult.extractedVideos.length) {
+      tracker.updateLastStep('failed', 'No videos extracted successfully');
+      throw new Error('No videos extracted successfully');
+    }
+
+    // Show extracted video URLs
+    const videoUrls = extractionResult.extractedVideos.map((video, index) => ({
+      index: index + 1,
+      id: video.id,
+      url: video.video_url,
+      platform: video.platform,
+      viewCount: video.viewCount || 0,
+      quality: video.quality
+    }));
+
+    checkpoints.extraction = {
+      extractedVideos: extractionResult.extractedVideos,
+      videoUrls,
+      googleDrive: extractionResult.googleDrive
+    };
+    await saveCheckpoint();
+
+    const failedCount = extractionResult.errors.length;
+    tracker.updateLastStep('completed', `Successfully extracted ${extractionResult.extractedVideos.length} video URLs${failedCount > 0 ? ` (${failedCount} without a playable URL left out)` : ''}`, {
+      totalVideos: extractionResult.extractedVideos.length,
+      videoUrls: videoUrls,
+      failed: extractionResult.errors,
+      googleDrive: extractionResult.googleDrive
+    });
+  }
+
+  const extraction = checkpoints.extraction;
+
+  // Step 2: Download and Transcribe Videos
+  const allVideos: VideoMetadata[] = extraction.extractedVideos
+    .filter(video => video.video_url)
+    .map(video => ({
+      id: video.id,
+      url: video.video_url!,
+      platform: video.platform as VideoMetadata['platform'],
+      description: `${video.platform} video - ${video.quality}`,
+      viewCount: video.viewCount,
+      likeCount: video.likeCount
+    }));
+
+  // On resume, only videos without a usable result are sent again
+  const previousTranscription = checkpoints.transcription;
+  const usableVideoIds = new Set(
+    (previousTranscription?.results || []).filter(isUsableTranscription).map(result => result.videoId)
+  );
+  const videosToProcess = allVideos.filter(video => !usableVideoIds.has(video.id));
+
+  if (previousTranscription && videosToProcess.length === 0) {
+    tracker.addStep('video_processing', 'running', `Reusing ${usableVideoIds.size} analyzed videos from checkpoint`);
+  } else {
+    tracker.addStep('video_processing', 'running', previousTranscription
+      ? `Retrying ${videosToProcess.length} failed videos (${usableVideoIds.size} reused from checkpoint)`
+      : `Downloading and ${fastMode ? 'transcribing' : 'analyzing'} ${extraction.extractedVideos.length} videos`);
+
+    let transcriptionResult;
+    try {
+      transcriptionResult = await workflows.transcribeVideos({
+        parentRunId: runId,
+        videos: videosToProcess,
+        options: {
+          extractMarketingSegments: !fastMode,
+          fastMode: fastMode,
+          includeVisualDescriptions: false,
+          extractAudio,
+          bypassCache,
+          timestamps,
+          diarize,
+          translateTo,
+          segmentFramework,
+          model: 'gemini-2.0-flash'
+        },
+        onProgress: context.onVideoProgress
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      tracker.updateLastStep('failed', `Transcription failed: ${message}`);
+      throw new Error(`Transcription failed: ${message}`);
+    }
+
+    const newResults = transcriptionResult.result.results;
+
+    // Retried videos replace their earlier failed results
+    const retriedIds = new Set(newResults.map(result => result.videoId));
+    checkpoints.transcription = {
+      results: [
+        ...(previousTranscription?.results || []).filter(result => !retriedIds.has(result.videoId)),
+        ...newResults
+      ],
+      processingTime: (previousTranscription?.processingTime || 0) + transcriptionResult.result.processingTime,
+      googleDrive: transcriptionResult.googleDrive || previousTranscription?.googleDrive,
+      // Replaced failures were still billed, so usage accumulates across attempts
+      usage: summarizeUsage([previousTranscription?.usage, transcriptionResult.result.usage])
+    };
+
+    // Newly analyzed videos make any later step outputs stale
+    if (previousTranscription && newResults.some(isUsableTranscription)) {
+      delete checkpoints.templates;
+      delete checkpoints.synthetic;
+      delete checkpoints.export;
+    }
+    await saveCheckpoint();
+  }
+
+  const transcription = checkpoints.transcription!;
+  const transcriptionResults = transcription.results;
+
+  if (!transcriptionResults.some(result => result.success)) {
+    tracker.updateLastStep('failed', 'No videos transcribed successfully');
+    throw new Error('No videos transcribed successfully');
+  }
+
+  const successfulTranscriptions = transcriptionResults.filter(isUsableTranscription);
+
+  // Log success rate for debugging
+  const totalAttempted = transcriptionResults.length;
+  const successRate = Math.round((successfulTranscriptions.length / totalAttempted) * 100);
+
+  // Continue even if success rate is low, but warn if too low
+  if (successfulTranscriptions.length === 0) {
+    tracker.updateLastStep('failed', 'No videos were successfully transcribed and analyzed');
+    throw new Error('No videos were successfully transcribed and analyzed');
+  }
+
+  // Show detailed transcription results
+  const transcriptionDetails = {
+    successRate: `${successRate}% (${successfulTranscriptions.length}/${totalAttempted})`,
+    processingTime: transcription.processingTime,
+    googleDrive: transcription.googleDrive,
+    successful: successfulTranscriptions.map(result => ({
+      videoId: result.videoId,
+      platform: result.platform,
+      transcription: result.transcription.substring(0, 200) + '...',
+      marketingSegments: result.marketingSegments,
+      processingTime: result.processingTime
+    })),
+    failed: transcriptionResults
+      .filter(result => !result.success)
+      .map(result => ({
+        videoId: result.videoId,
+        error: result.error
+      }))
+  };
+
+  if (successRate < 50) {
+    tracker.updateLastStep('completed', `⚠️ Low success rate: ${successRate}% - many videos may have expired URLs`, transcriptionDetails);
+  } else {
+    tracker.updateLastStep('completed', `Successfully processed ${successfulTranscriptions.length} videos (${successRate}% success rate)`, transcriptionDetails);
+  }
+
+  // Step 3: Google Drive Storage
+  if (transcription.googleDrive) {
+    tracker.addStep('drive_storage', 'completed', `Google Drive folder created: ${transcription.googleDrive.folderName}`, {
+      folderName: transcription.googleDrive.folderName,
+      folderUrl: transcription.googleDrive.folderUrl,
+      files: transcription.googleDrive.files || []
+    });
+  }
+
+  // Step 4: Generate Templates (if we have marketing analysis)
+  let templates: ScriptTemplate[] = checkpoints.templates?.templates || [];
+  let templateUsage = checkpoints.templates?.usage;
+  const templateSummary = (list: ScriptTemplate[]) => ({
+    templates: list.map(({ framework, ...parts }, index) => ({
+      index: index + 1,
+      framework,
+      ...Object.fromEntries(Object.entries(parts).map(([key, text]) => [key, text.substring(0, 100) + '...']))
+    }))
+  });
+
+  if (checkpoints.templates) {
+    tracker.addStep('template_generation', 'completed', `Reused ${templates.length} content templates from checkpoint`, templateSummary(templates));
+  } else if (!fastMode && successfulTranscriptions.length > 0) {
+    tracker.addStep('template_generation', 'running', `Generating templates from ${successfulTranscriptions.length} successful scripts`);
+
+    try {
+      const templateResult = await workflows.generateTemplates(successfulTranscriptions, {
+        parentRunId: runId,
+        maxTemplates: 20
+      });
+      templateUsage = templateResult.usage;
+
+      if (templateResult.templates.length > 0) {
+        templates = templateResult.templates;
+
+        // An export saved before the templates existed is missing them
+        checkpoints.templates = { templates, usage: templateUsage, prompt: templateResult.prompt };
+        delete checkpoints.export;
+        await saveCheckpoint();
+
+        tracker.updateLastStep('completed', `Generated ${templates.length} content templates`, {
+          ...templateSummary(templates),
+          errors: templateResult.errors
+        });
+      } else {
+        tracker.updateLastStep('failed', 'Template generation failed', { errors: templateResult.errors });
+      }
+    } catch (error) {
+      tracker.updateLastStep('failed', `Template generation error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Step 5: Generate Synthetic Scripts (if requested and we have marketing analysis)
+  const syntheticScripts: SyntheticScript[] = [...(checkpoints.synthetic?.scripts || [])];
+  let syntheticUsage = summarizeUsage([checkpoints.synthetic?.usage]);
+  if (generateSyntheticData && !fastMode && templates.length > 0) {
+    const syntheticTopics = SYNTHETIC_TOPICS.slice(0, syntheticScriptCount);
+    const completedTopics = new Set(syntheticScripts.map(script => script.topic));
+    const remainingTopics = syntheticTopics.filter(topic => !completedTopics.has(topic));
+
+    tracker.addStep('synthetic_generation', 'running', completedTopics.size > 0
+      ? `Generating ${remainingTopics.length} remaining synthetic scripts (${completedTopics.size} reused from checkpoint)`
+      : `Generating ${syntheticScriptCount} synthetic training scripts`);
+
+    const syntheticDetails: any[] = syntheticScripts.map(({ topic, script }) => ({
+      topic,
+      opening: (Object.values(script)[0] || '').substring(0, 100) + '...',
+      status: 'success'
+    }));
+
+    for (const topic of remainingTopics) {
+      try {
+        // Rotate through the top templates so scripts don't all share one structure
+        const topicIndex = syntheticTopics.indexOf(topic);
+        const syntheticResult = await workflows.generateSyntheticScript({
+          topic,
+          template: templates[topicIndex % Math.min(templates.length, 3)],
+          parentRunId: runId
+        });
+        syntheticUsage = summarizeUsage([syntheticUsage, syntheticResult.usage]);
+
+        if (syntheticResult.success && syntheticResult.script) {
+          syntheticScripts.push({
+            topic,
+            script: syntheticResult.script,
+            prompt: syntheticResult.prompt
+          });
+
+          // Checkpoint each script so a later failure keeps the ones already paid for
+          checkpoints.synthetic = { scripts: [...syntheticScripts], usage: syntheticUsage };
+          delete checkpoints.export;
+          await saveCheckpoint();
+
+          syntheticDetails.push({
+            topic,
+            opening: (Object.values(syntheticResult.script)[0] || '').substring(0, 100) + '...',
+            status: 'success'
+          });
+        } else {
+          syntheticDetails.push({
+            topic,
+            status: 'failed',
+            error: syntheticResult.error || 'No script generated'
+          });
+        }
+
+        // Small delay between synthetic generations
+        await new Promise(resolve => setTimeout(resolve, 2000));
+      } catch (error) {
+        syntheticDetails.push({
+          topic,
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+
+    tracker.updateLastStep('completed', `Generated ${syntheticScripts.length}/${syntheticScriptCount} synthetic scripts`, {
+      successfulSynthetic: syntheticScripts.length,
+      totalAttempted: syntheticScriptCount,
+      details: syntheticDetails
+    });
+  }
+
+  // Step 6: Export Training Data
+  let exportData = checkpoints.export;
+  if (exportData) {
+    tracker.addStep('data_export', 'running', 'Reusing training dataset from checkpoint');
+  } else {
+    tracker.addStep('data_export', 'running', 'Preparing training dataset for fine-tuning');
+
+    const exportOptions: ExportOptions = {
+      includeMetadata,
+      includeOriginalTranscriptions: true,
+      includeSyntheticScripts: syntheticScripts.length > 0,
+      maxExamplesPerVideo: 10,
+      minViewCount: 0,
+      format: exportFormat,
+      primarySpeakerOnly: diarize,
+      languages
+    };
+
+    try {
+      const exportResult = await workflows.exportTrainingDataset({
+        transcriptionResults: successfulTranscriptions,
+        templates,
+        syntheticScripts,
+        options: exportOptions,
+        parentRunId: runId
+      });
+      exportData = { dataset: exportResult.dataset };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      tracker.updateLastStep('failed', `Training data export failed: ${message}`);
+      throw new Error(`Training data export failed: ${message}`);
+    }
+
+    checkpoints.export = exportData;
+    await saveCheckpoint();
+  }
+
+  tracker.updateLastStep('completed', `Training dataset ready: ${exportData.dataset?.examples?.length || 0} examples in ${exportFormat.toUpperCase()} format`, {
+    totalExamples: exportData.dataset?.examples?.length || 0,
+    format: exportFormat,
+    downloadUrl: exportData.downloadUrl,
+    summary: exportData.dataset?.summary
+  });
+
+  const usage = {
+    transcription: transcription.usage,
+    templates: summarizeUsage([templateUsage]),
+    synthetic: syntheticUsage
+  };
+  const totalUsage = summarizeUsage([usage.transcription, usage.templates, usage.synthetic]);
+  const incompleteSteps = findIncompleteSteps(request, checkpoints);
+
+  // Final completion step
+  tracker.addStep('pipeline_complete', 'completed', incompleteSteps.length > 0
+    ? `Automated pipeline completed with incomplete steps (${incompleteSteps.join(', ')}); resume the job to retry them. Gemini usage: ${totalUsage.totalTokens} tokens, ${formatCost(totalUsage.costUsd)}`
+    : `Automated pipeline completed successfully! Gemini usage: ${totalUsage.totalTokens} tokens, ${formatCost(totalUsage.costUsd)}`, {
+    totalSteps: tracker.getSteps().length,
+    completedAt: new Date().toISOString(),
+    incompleteSteps,
+    usage: totalUsage
+  });
+
+  const successfulCount = transcriptionResults.filter(result => result.success).length;
+  const pipelineData: PipelineData = {
+    pipeline: {
+      username,
+      platform,
+      videoCount,
+      processingMode: fastMode ? 'fast' : 'marketing_analysis',
+      completedAt: new Date().toISOString(),
+      incompleteSteps
+    },
+    extraction: {
+      totalVideos: extraction.extractedVideos.length,
+      videoUrls: extraction.videoUrls,
+      googleDrive: extraction.googleDrive
+    },
+    transcription: {
+      totalProcessed: transcriptionResults.length,
+      successful: successfulCount,
+      failed: transcriptionResults.length - successfulCount,
+      processingTime: transcription.processingTime,
+      googleDrive: transcription.googleDrive,
+      results: successfulTranscriptions
+    },
+    templates: {
+      generated: templates.length,
+      templates: templates,
+      prompt: checkpoints.templates?.prompt
+    },
+    synthetic: {
+      generated: syntheticScripts.length,
+      scripts: syntheticScripts
+    },
+    trainingData: {
+      format: exportFormat,
+      totalExamples: exportData.dataset?.examples?.length || 0,
+      summary: exportData.dataset?.summary,
+      downloadUrl: exportData.downloadUrl,
+      metadata: exportData.dataset?.metadata
+    },
+    usage: { ...usage, total: totalUsage }
+  };
+
+  return {
+    data: pipelineData,
+    message: `Pipeline completed: ${successfulTranscriptions.length} videos analyzed, ${templates.length} templates generated, ${syntheticScripts.length} synthetic scripts created, ${exportData.dataset?.examples?.length || 0} training examples ready`
+  };
+}
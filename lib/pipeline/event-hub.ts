@@ -0,0 +1,39 @@
+import { PipelineEvent } from './types';
+
+type PipelineEventListener = (event: PipelineEvent) => void;
+
+/**
+ * Fans out live pipeline events to subscribers, keyed by job ID
+ */
+export class PipelineEventHub {
+  private listeners = new Map<string, Set<PipelineEventListener>>();
+
+  publish(jobId: string, event: PipelineEvent) {
+    const subscribers = this.listeners.get(jobId);
+    if (!subscribers) return;
+
+    subscribers.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`[PipelineEventHub] Listener for job ${jobId} failed:`, error);
+      }
+    });
+  }
+
+  /**
+   * Listen for a job's events. Returns a function that removes the listener.
+   */
+  subscribe(jobId: string, listener: PipelineEventListener): () => void {
+    const subscribers = this.listeners.get(jobId) || new Set<PipelineEventListener>();
+    subscribers.add(listener);
+    this.listeners.set(jobId, subscribers);
+
+    return () => {
+      subscribers.delete(listener);
+      if (subscribers.size === 0) {
+        this.listeners.delete(jobId);
+      }
+    };
+  }
+}
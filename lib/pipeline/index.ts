@@ -0,0 +1,63 @@
+import { PipelineEventHub } from './event-hub';
+import { PipelineJobQueue } from './job-queue';
+
+// Keep one queue and event hub per server process, including across dev-mode hot reloads
+const globalForPipeline = globalThis as unknown as {
+  pipelineJobQueue?: PipelineJobQueue;
+  pipelineEventHub?: PipelineEventHub;
+};
+
+/**
+ * Whether this process is a serverless function instance, which is frozen or
+ * stopped once its response is sent and so can't run queued jobs
+ */
+export function isServerlessRuntime(): boolean {
+  return !!(process.env.VERCEL || process.env.AWS_LAMBDA_FUNCTION_NAME);
+}
+
+/**
+ * Get the shared hub that streams live events for pipeline jobs
+ */
+export function getPipelineEventHub(): PipelineEventHub {
+  if (!globalForPipeline.pipelineEventHub) {
+    globalForPipeline.pipelineEventHub = new PipelineEventHub();
+  }
+  return globalForPipeline.pipelineEventHub;
+}
+
+/**
+ * Get the shared pipeline queue. The first call also recovers jobs left
+ * queued or running by a previous server process.
+ */
+export function getPipelineJobQueue(): PipelineJobQueue {
+  if (!globalForPipeline.pipelineJobQueue) {
+    const queue = new PipelineJobQueue(
+      getPipelineEventHub(),
+      parseInt(process.env.PIPELINE_CONCURRENCY || '1', 10) || 1
+    );
+    globalForPipeline.pipelineJobQueue = queue;
+    queue.recoverInterruptedJobs().catch(error => {
+      console.error('[PipelineJobQueue] Failed to recover interrupted jobs:', error);
+    });
+  }
+  return globalForPipeline.pipelineJobQueue;
+}
+
+export { PipelineJobQueue, PipelineJobError } from './job-queue';
+export { PipelineEventHub } from './event-hub';
+export { PipelineProgressTracker } from './progress-tracker';
+export { runAutomatedPipeline, type PipelineRunContext } from './automated-pipeline';
+
+export type {
+  AutomatedPipelineOptions,
+  AutomatedPipelineRequest,
+  PipelineStep,
+  PipelineStepStatus,
+  PipelineStepChange,
+  PipelineEvent,
+  PipelineCheckpoints,
+  PipelineData,
+  PipelineOutput,
+  PipelineJob,
+  PipelineJobStatus
+} from './types';
@@ -0,0 +1,280 @@
+import { randomUUID } from 'crypto';
+import { withJobStore, type RunRecord } from '@/lib/job-store';
+import { findIncompleteSteps, runAutomatedPipeline, type PipelineWorkflows } from './automated-pipeline';
+import { PipelineEventHub } from './event-hub';
+import { PipelineProgressTracker } from './progress-tracker';
+import { AutomatedPipelineRequest, PipelineJob } from './types';
+
+export class PipelineJobError extends Error {
+  constructor(
+    message: string,
+    public jobId: string,
+    public statusCode?: number
+  ) {
+    super(message);
+    this.name = 'PipelineJobError';
+  }
+}
+
+// Finished jobs kept in memory so status stays available if the job store is down
+const MAX_RETAINED_JOBS = 50;
+
+interface QueuedJob {
+  job: PipelineJob;
+  tracker: PipelineProgressTracker;
+}
+
+/**
+ * In-process queue that runs automated pipelines in the background.
+ * Each job is backed by a 'pipeline' run in the job store, so its status,
+ * steps and result outlive the request that enqueued it.
+ */
+export class PipelineJobQueue {
+  private jobs = new Map<string, QueuedJob>();
+  private pending: string[] = [];
+  private activeCount = 0;
+  private recovery: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly events: PipelineEventHub = new PipelineEventHub(),
+    private readonly maxConcurrentJobs: number = 1,
+    private readonly workflows?: Partial<PipelineWorkflows>
+  ) {}
+
+  /**
+   * Queue a pipeline and return immediately with its job ID
+   */
+  async enqueue(request: AutomatedPipelineRequest): Promise<PipelineJob> {
+    // Let recovered jobs take their place in the queue first
+    await this.recovery;
+
+    const run = await withJobStore('create pipeline run', store => store.createRun({
+      type: 'pipeline',
+      status: 'pending',
+      input: request
+    }));
+
+    const now = new Date().toISOString();
+    const job: PipelineJob = {
+      id: run?.id || randomUUID(),
+      status: 'pending',
+      request,
+      steps: [],
+      createdAt: run?.createdAt || now,
+      updatedAt: run?.updatedAt || now
+    };
+
+    this.schedule(job);
+    console.log(`[PipelineJobQueue] Queued job ${job.id} for ${request.platform}:${request.username} (${this.pending.length} waiting)`);
+    return job;
+  }
+
+  /**
+   * Queue a failed job, or a completed one with incomplete steps, again. Steps
+   * with a checkpoint are reused, so only failed videos, missing templates and
+   * synthetic topics and unfinished steps are run again.
+   */
+  async resume(id: string): Promise<PipelineJob> {
+    await this.recovery;
+
+    const job = await this.getJob(id);
+    if (!job) {
+      throw new PipelineJobError(`Pipeline job not found: ${id}`, id, 404);
+    }
+    const resumable = job.status === 'failed'
+      || (job.status === 'completed' && findIncompleteSteps(job.request, job.checkpoints).length > 0);
+    if (!resumable) {
+      throw new PipelineJobError(`Only failed pipeline jobs or completed jobs with incomplete steps can be resumed (job is ${job.status})`, id, 409);
+    }
+
+    const resumed: PipelineJob = {
+      ...job,
+      status: 'pending',
+      steps: [],
+      result: undefined,
+      error: undefined,
+      completedAt: undefined,
+      updatedAt: new Date().toISOString()
+    };
+
+    await withJobStore('mark pipeline run resumed', store => store.updateRun(id, {
+      status: 'pending',
+      error: null,
+      output: { steps: [], checkpoints: resumed.checkpoints }
+    }));
+
+    this.jobs.delete(id);
+    this.schedule(resumed);
+    console.log(`[PipelineJobQueue] Resuming job ${id} with checkpoints: ${Object.keys(resumed.checkpoints || {}).join(', ') || 'none'}`);
+    return resumed;
+  }
+
+  /**
+   * Look up a job from this process, falling back to the job store for past runs
+   */
+  async getJob(id: string): Promise<PipelineJob | null> {
+    const queued = this.jobs.get(id);
+    if (queued) {
+      return { ...queued.job, steps: [...queued.tracker.getSteps()] };
+    }
+
+    const run = await withJobStore('load pipeline run', store => store.getRun(id));
+    return run && run.type === 'pipeline' ? jobFromRun(run) : null;
+  }
+
+  /**
+   * Pick up pipeline runs left behind by a previous server process: queued runs
+   * are started again and runs that were mid-flight are marked failed.
+   */
+  recoverInterruptedJobs(): Promise<void> {
+    this.recovery = this.recoverJobs();
+    return this.recovery;
+  }
+
+  private async recoverJobs(): Promise<void> {
+    const interrupted = await withJobStore('list interrupted pipeline runs', store =>
+      store.listRuns({ type: 'pipeline', status: 'running', limit: 100 })
+    ) || [];
+
+    for (const run of interrupted) {
+      if (this.jobs.has(run.id)) continue;
+      await withJobStore('mark interrupted pipeline run failed', store => store.updateRun(run.id, {
+        status: 'failed',
+        error: 'Interrupted by a server restart'
+      }));
+    }
+
+    const queued = await withJobStore('list queued pipeline runs', store =>
+      store.listRuns({ type: 'pipeline', status: 'pending', limit: 100 })
+    ) || [];
+
+    // listRuns is newest first; restore the original queue order
+    for (const run of queued.reverse()) {
+      if (this.jobs.has(run.id)) continue;
+      this.schedule(jobFromRun(run));
+    }
+
+    if (interrupted.length > 0 || queued.length > 0) {
+      console.log(`[PipelineJobQueue] Recovered ${queued.length} queued jobs, failed ${interrupted.length} interrupted jobs`);
+    }
+  }
+
+  private schedule(job: PipelineJob) {
+    if (this.jobs.has(job.id)) return;
+    this.jobs.set(job.id, { job, tracker: new PipelineProgressTracker(job.steps) });
+    this.pending.push(job.id);
+    this.drain();
+  }
+
+  private drain() {
+    while (this.activeCount < this.maxConcurrentJobs && this.pending.length > 0) {
+      const id = this.pending.shift()!;
+      const queued = this.jobs.get(id);
+      if (!queued) continue;
+
+      this.activeCount++;
+      this.execute(queued)
+        .catch(error => console.error(`[PipelineJobQueue] Job ${id} crashed:`, error))
+        .finally(() => {
+          this.activeCount--;
+          this.pruneFinishedJobs();
+          this.drain();
+        });
+    }
+  }
+
+  private async execute({ job, tracker }: QueuedJob) {
+    const startTime = Date.now();
+    job.status = 'running';
+    job.updatedAt = new Date().toISOString();
+    console.log(`[PipelineJobQueue] Starting job ${job.id}`);
+    this.events.publish(job.id, { type: 'status', status: 'running' });
+
+    await withJobStore('mark pipeline run running', store => store.updateRun(job.id, {
+      status: 'running',
+      output: { steps: tracker.getSteps(), checkpoints: job.checkpoints }
+    }));
+
+    // Stream every step change to subscribers and persist it for pollers
+    const unsubscribe = tracker.onChange((change, steps) => {
+      job.updatedAt = new Date().toISOString();
+      this.events.publish(job.id, { type: 'step', ...change });
+      void withJobStore('save pipeline progress', store => store.updateRun(job.id, {
+        output: { steps, checkpoints: job.checkpoints }
+      }));
+    });
+
+    try {
+      const result = await runAutomatedPipeline(job.request, tracker, {
+        runId: job.id,
+        checkpoints: job.checkpoints,
+        onCheckpoint: async checkpoints => {
+          job.checkpoints = { ...checkpoints };
+          await withJobStore('save pipeline checkpoint', store => store.updateRun(job.id, {
+            output: { steps: tracker.getSteps(), checkpoints: job.checkpoints }
+          }));
+        },
+        onVideoProgress: progress => this.events.publish(job.id, { type: 'video_progress', progress }),
+        workflows: this.workflows
+      });
+
+      job.status = 'completed';
+      job.result = result;
+      job.completedAt = job.updatedAt = new Date().toISOString();
+
+      await withJobStore('record completed pipeline run', store => store.updateRun(job.id, {
+        status: 'completed',
+        output: { steps: tracker.getSteps(), checkpoints: job.checkpoints, ...result }
+      }));
+
+      console.log(`[PipelineJobQueue] Job ${job.id} completed in ${Date.now() - startTime}ms`);
+      this.events.publish(job.id, { type: 'status', status: 'completed' });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error(`[PipelineJobQueue] Job ${job.id} failed after ${Date.now() - startTime}ms:`, error);
+
+      const steps = tracker.getSteps();
+      if (steps.length > 0 && steps[steps.length - 1].status === 'running') {
+        tracker.updateLastStep('failed', `${steps[steps.length - 1].message} - ${message}`);
+      }
+      tracker.addStep('pipeline_failed', 'failed', message);
+      job.status = 'failed';
+      job.error = message;
+      job.completedAt = job.updatedAt = new Date().toISOString();
+
+      await withJobStore('record failed pipeline run', store => store.updateRun(job.id, {
+        status: 'failed',
+        error: message,
+        output: { steps: tracker.getSteps(), checkpoints: job.checkpoints }
+      }));
+
+      this.events.publish(job.id, { type: 'status', status: 'failed', error: message });
+    } finally {
+      unsubscribe();
+    }
+  }
+
+  private pruneFinishedJobs() {
+    const finished = Array.from(this.jobs.values())
+      .filter(({ job }) => job.status === 'completed' || job.status === 'failed');
+
+    for (const { job } of finished.slice(0, Math.max(0, finished.length - MAX_RETAINED_JOBS))) {
+      this.jobs.delete(job.id);
+    }
+  }
+}
+
+function jobFromRun(run: RunRecord): PipelineJob {
+  return {
+    id: run.id,
+    status: run.status,
+    request: run.input,
+    steps: run.output?.steps || [],
+    checkpoints: run.output?.checkpoints,
+    result: run.output?.data ? { data: run.output.data, message: run.output.message } : undefined,
+    error: run.error,
+    createdAt: run.createdAt,
+    updatedAt: run.updatedAt,
+    completedAt: run.completedAt
+  };
+}
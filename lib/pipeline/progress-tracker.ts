@@ -0,0 +1,69 @@
+import { PipelineStep, PipelineStepChange, PipelineStepStatus } from './types';
+
+type StepListener = (change: PipelineStepChange, steps: PipelineStep[]) => void;
+
+/**
+ * Collects pipeline steps and notifies listeners whenever a step is added or updated
+ */
+export class PipelineProgressTracker {
+  private steps: PipelineStep[] = [];
+  private listeners: StepListener[] = [];
+
+  constructor(initialSteps: PipelineStep[] = []) {
+    this.steps = [...initialSteps];
+  }
+
+  addStep(step: string, status: PipelineStepStatus, message: string, details?: any) {
+    const stepData: PipelineStep = {
+      step,
+      status,
+      message,
+      details,
+      timestamp: new Date().toISOString()
+    };
+    
+    this.steps.push(stepData);
+    console.log(`[Pipeline Step] ${step}: ${status} - ${message}`);
+    
+    if (details) {
+      console.log(`[Pipeline Details]`, details);
+    }
+
+    this.notify({ action: 'added', index: this.steps.length - 1, step: stepData });
+  }
+
+  getSteps() {
+    return this.steps;
+  }
+
+  updateLastStep(status: PipelineStepStatus, message: string, details?: any) {
+    if (this.steps.length > 0) {
+      const lastStep = this.steps[this.steps.length - 1];
+      lastStep.status = status;
+      lastStep.message = message;
+      if (details) lastStep.details = details;
+      lastStep.timestamp = new Date().toISOString();
+      this.notify({ action: 'updated', index: this.steps.length - 1, step: lastStep });
+    }
+  }
+
+  /**
+   * Subscribe to step changes. Returns a function that removes the listener.
+   */
+  onChange(listener: StepListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(existing => existing !== listener);
+    };
+  }
+
+  private notify(change: PipelineStepChange) {
+    for (const listener of this.listeners) {
+      try {
+        listener(change, this.steps);
+      } catch (error) {
+        console.error('[PipelineProgressTracker] Step listener failed:', error);
+      }
+    }
+  }
+}
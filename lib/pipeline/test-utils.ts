@@ -0,0 +1,179 @@
+import type { TranscriptionResult } from '@/lib/transcription/types';
+import { emptyUsageSummary } from '@/lib/transcription/usage';
+import { findIncompleteSteps, type PipelineWorkflows } from './automated-pipeline';
+import { PipelineEventHub } from './event-hub';
+import { PipelineJobQueue } from './job-queue';
+import { AutomatedPipelineRequest, PipelineJob } from './types';
+
+/**
+ * Small pipeline request that keeps stubbed runs quick
+ */
+export const sampleResumeRequest: AutomatedPipelineRequest = {
+  username: 'examplecreator',
+  platform: 'tiktok',
+  videoCount: 2,
+  options: {
+    syntheticScriptCount: 1
+  }
+};
+
+/**
+ * Create an analyzed transcription result for a stubbed video
+ */
+export function createAnalyzedResult(videoId: string): TranscriptionResult {
+  return {
+    videoId,
+    videoUrl: `https://example.com/tiktok/${videoId}.mp4`,
+    platform: 'tiktok',
+    transcription: 'Stop scrolling. Here is why. Silence makes room for ideas. Try it today.',
+    marketingSegments: {
+      Hook: 'Stop scrolling.',
+      Bridge: 'Here is why.',
+      'Golden Nugget': 'Silence makes room for ideas.',
+      WTA: 'Try it today.'
+    },
+    processingTime: 1,
+    success: true
+  };
+}
+
+/**
+ * Workflows that extract and analyze stub videos without any network calls.
+ * Template generation fails the first `templateFailures` times it is called.
+ */
+export function createStubWorkflows(templateFailures = 1): Partial<PipelineWorkflows> & { calls: Record<string, number> } {
+  const calls: Record<string, number> = {
+    extractCreatorVideos: 0,
+    transcribeVideos: 0,
+    generateTemplates: 0,
+    generateSyntheticScript: 0
+  };
+
+  const workflows: Partial<PipelineWorkflows> = {
+    extractCreatorVideos: async input => {
+      calls.extractCreatorVideos++;
+      const extractedVideos = ['stub-video-1', 'stub-video-2'].map(id => ({
+        id,
+        video_url: `https://example.com/tiktok/${id}.mp4`,
+        is_video: true,
+        platform: 'tiktok',
+        viewCount: 1000
+      }));
+      return {
+        platform: input.platform,
+        username: input.username,
+        pagination: { hasMore: false, totalRequested: extractedVideos.length, totalExtracted: extractedVideos.length },
+        extractedVideos,
+        errors: []
+      };
+    },
+    transcribeVideos: async input => {
+      calls.transcribeVideos++;
+      const results = input.videos.map(video => createAnalyzedResult(video.id));
+      return {
+        mode: 'standard',
+        result: { success: true, results, totalProcessed: results.length, totalFailed: 0, processingTime: 1, errors: [] },
+        googleDrive: null
+      };
+    },
+    generateTemplates: async transcriptions => {
+      calls.generateTemplates++;
+      if (calls.generateTemplates <= templateFailures) {
+        throw new Error('Gemini API error: 503 Service Unavailable');
+      }
+      return {
+        templates: transcriptions.map(result => ({ ...result.marketingSegments! })),
+        errors: [],
+        usage: emptyUsageSummary()
+      };
+    },
+    generateSyntheticScript: async input => {
+      calls.generateSyntheticScript++;
+      return {
+        success: true,
+        topic: input.topic,
+        script: { ...input.template },
+        processingTime: 1
+      };
+    }
+  };
+
+  return Object.assign(workflows, { calls });
+}
+
+async function waitForJob(queue: PipelineJobQueue, id: string, timeoutMs: number): Promise<PipelineJob> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    const job = await queue.getJob(id);
+    if (job && (job.status === 'completed' || job.status === 'failed')) {
+      return job;
+    }
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+  throw new Error(`Pipeline job ${id} did not finish within ${timeoutMs}ms`);
+}
+
+/**
+ * Run a stubbed pipeline whose template generation fails once, resume it, and
+ * check the resume retried templates and synthetic scripts without calling
+ * extraction or transcription again
+ */
+export async function runTemplateFailureResumeScenario(timeoutMs = 30000): Promise<{
+  firstRun: PipelineJob;
+  resumedRun: PipelineJob;
+  calls: Record<string, number>;
+  errors: string[];
+}> {
+  const workflows = createStubWorkflows(1);
+  const queue = new PipelineJobQueue(new PipelineEventHub(), 1, workflows);
+  const errors: string[] = [];
+
+  const queued = await queue.enqueue(sampleResumeRequest);
+  const firstRun = await waitForJob(queue, queued.id, timeoutMs);
+
+  if (firstRun.status !== 'completed') {
+    errors.push(`First run should complete with incomplete steps, but it ${firstRun.status}: ${firstRun.error}`);
+  }
+  const incomplete = findIncompleteSteps(firstRun.request, firstRun.checkpoints);
+  if (!incomplete.includes('template_generation')) {
+    errors.push(`First run should report template_generation as incomplete, got: ${incomplete.join(', ') || 'none'}`);
+  }
+
+  await queue.resume(queued.id);
+  const resumedRun = await waitForJob(queue, queued.id, timeoutMs);
+
+  if (resumedRun.status !== 'completed') {
+    errors.push(`Resumed run should complete, but it ${resumedRun.status}: ${resumedRun.error}`);
+  }
+  const stillIncomplete = findIncompleteSteps(resumedRun.request, resumedRun.checkpoints);
+  if (stillIncomplete.length > 0) {
+    errors.push(`Resumed run still has incomplete steps: ${stillIncomplete.join(', ')}`);
+  }
+  if (workflows.calls.extractCreatorVideos !== 1) {
+    errors.push(`Extraction should run once, ran ${workflows.calls.extractCreatorVideos} times`);
+  }
+  if (workflows.calls.transcribeVideos !== 1) {
+    errors.push(`Transcription should run once, ran ${workflows.calls.transcribeVideos} times`);
+  }
+  if (workflows.calls.generateTemplates !== 2) {
+    errors.push(`Template generation should run twice, ran ${workflows.calls.generateTemplates} times`);
+  }
+  if (!resumedRun.result?.data.templates.generated) {
+    errors.push('Resumed run should include the generated templates');
+  }
+  if (!resumedRun.result?.data.trainingData.summary?.syntheticExamples) {
+    errors.push('Resumed run should regenerate the export with synthetic examples');
+  }
+
+  let completedResumeRejected = false;
+  try {
+    await queue.resume(queued.id);
+  } catch {
+    completedResumeRejected = true;
+  }
+  if (!completedResumeRejected) {
+    errors.push('A completed job without incomplete steps should not be resumable');
+  }
+
+  return { firstRun, resumedRun, calls: workflows.calls, errors };
+}
@@ -0,0 +1,165 @@
+import type { ExtractedVideo } from '@/lib/creator-feed';
+import type { TrainingDataset } from '@/lib/transcription/training-data-exporter';
+import type {
+  PromptRef,
+  ScriptTemplate,
+  SyntheticScript,
+  TimestampGranularity,
+  TranscriptionResult,
+  UsageSummary,
+  VideoPlatform,
+  VideoProgressEvent
+} from '@/lib/transcription/types';
+
+export interface AutomatedPipelineOptions {
+  fastMode?: boolean;
+  extractAudio?: boolean; // Send only the audio track to Gemini
+  bypassCache?: boolean; // Re-download and re-analyze videos even if cached
+  timestamps?: TimestampGranularity; // Time each phrase or word for captions
+  diarize?: boolean; // Label speakers; training outputs then keep only the primary speaker's lines
+  translateTo?: string; // Language code to translate transcripts into, kept next to the originals
+  languages?: string[]; // Only train on videos detected in these languages
+  segmentFramework?: string; // Id of the framework to segment scripts with; defaults to Hook/Bridge/Golden Nugget/WTA
+  generateSyntheticData?: boolean;
+  syntheticScriptCount?: number;
+  exportFormat?: 'jsonl' | 'json';
+  includeMetadata?: boolean;
+}
+
+export interface AutomatedPipelineRequest {
+  username: string;
+  platform: VideoPlatform;
+  videoCount?: number;
+  options?: AutomatedPipelineOptions;
+}
+
+export type PipelineStepStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export interface PipelineStep {
+  step: string;
+  status: PipelineStepStatus;
+  message: string;
+  details?: any;
+  timestamp: string;
+}
+
+/**
+ * Everything a finished pipeline produced, section by section
+ */
+export interface PipelineData {
+  pipeline: {
+    username: string;
+    platform: VideoPlatform;
+    videoCount: number;
+    processingMode: 'fast' | 'marketing_analysis';
+    completedAt: string;
+    // Optional steps that failed; resuming the job retries them
+    incompleteSteps?: string[];
+  };
+  extraction: {
+    totalVideos: number;
+    videoUrls: any[];
+    googleDrive?: any;
+  };
+  transcription: {
+    totalProcessed: number;
+    successful: number;
+    failed: number;
+    processingTime: number;
+    googleDrive?: any;
+    results: any[];
+  };
+  templates: {
+    generated: number;
+    templates: any[];
+    prompt?: PromptRef;
+  };
+  synthetic: {
+    generated: number;
+    scripts: any[];
+  };
+  trainingData: {
+    format: 'jsonl' | 'json';
+    totalExamples: number;
+    summary?: any;
+    downloadUrl?: string;
+    metadata?: any;
+  };
+  // Gemini tokens and cost per step, including calls that failed or were retried
+  usage: {
+    transcription: UsageSummary;
+    templates: UsageSummary;
+    synthetic: UsageSummary;
+    total: UsageSummary;
+  };
+}
+
+export interface PipelineOutput {
+  data: PipelineData;
+  message: string;
+}
+
+/**
+ * Outputs of the steps a run has finished, saved as they complete so a
+ * failed run can resume without repeating them
+ */
+export interface PipelineCheckpoints {
+  extraction?: {
+    extractedVideos: ExtractedVideo[];
+    videoUrls: any[];
+    googleDrive?: any;
+  };
+  transcription?: {
+    // Every attempted video, failures included, so a resume retries only those
+    results: TranscriptionResult[];
+    processingTime: number;
+    googleDrive?: any;
+    usage: UsageSummary;
+  };
+  templates?: {
+    templates: ScriptTemplate[];
+    usage?: UsageSummary;
+    prompt?: PromptRef; // Prompt version the templates were generated with
+  };
+  synthetic?: {
+    scripts: SyntheticScript[];
+    usage?: UsageSummary;
+  };
+  export?: {
+    dataset: TrainingDataset;
+    downloadUrl?: string;
+  };
+}
+
+export type PipelineJobStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+/**
+ * A queued pipeline execution. The job ID is the ID of its pipeline run in the job store.
+ */
+export interface PipelineJob {
+  id: string;
+  status: PipelineJobStatus;
+  request: AutomatedPipelineRequest;
+  steps: PipelineStep[];
+  checkpoints?: PipelineCheckpoints;
+  result?: PipelineOutput;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
+
+export interface PipelineStepChange {
+  action: 'added' | 'updated';
+  index: number;
+  step: PipelineStep;
+}
+
+/**
+ * Live events streamed to subscribers of a running job
+ */
+export type PipelineEvent =
+  | { type: 'snapshot'; job: PipelineJob }
+  | ({ type: 'step' } & PipelineStepChange)
+  | { type: 'video_progress'; progress: VideoProgressEvent }
+  | { type: 'status'; status: PipelineJobStatus; error?: string };
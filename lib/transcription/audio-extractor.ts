@@ -0,0 +1,139 @@
+import { spawn } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { getWorkerPool } from './worker-pool';
+import { AudioExtractionStats, DownloadedVideo } from './types';
+
+export class AudioExtractionError extends Error {
+  constructor(
+    message: string,
+    public videoId: string,
+    public cause?: Error
+  ) {
+    super(message);
+    this.name = 'AudioExtractionError';
+  }
+}
+
+/**
+ * Demuxes the audio track of a video with ffmpeg into mono 16kHz Opus, which is
+ * all Gemini needs when only speech is analyzed. Set FFMPEG_PATH if ffmpeg is
+ * not on the PATH.
+ */
+export class AudioExtractor {
+  private static readonly AUDIO_MIME_TYPE = 'audio/ogg';
+  private static readonly TIMEOUT_MS = 120000; // 2 minutes
+  // Shared pool bounding concurrent ffmpeg processes
+  private static readonly WORKER_POOL = 'audio-extraction';
+  // Gemini's per-second token rates for video (frames plus audio) and audio-only input
+  private static readonly VIDEO_TOKENS_PER_SECOND = 263;
+  private static readonly AUDIO_TOKENS_PER_SECOND = 32;
+
+  /**
+   * Replace the video's buffer with its audio track and report the savings
+   */
+  static async extractAudio(video: DownloadedVideo): Promise<{ audio: DownloadedVideo; stats: AudioExtractionStats }> {
+    const videoId = video.metadata.id;
+    const startTime = Date.now();
+
+    const { buffer, durationSeconds } = await getWorkerPool(this.WORKER_POOL).run(() => this.runFfmpeg(video));
+
+    if (buffer.length === 0) {
+      throw new AudioExtractionError('Video has no audio track', videoId);
+    }
+
+    const duration = durationSeconds ?? video.metadata.duration;
+    const stats: AudioExtractionStats = {
+      originalBytes: video.size,
+      audioBytes: buffer.length,
+      bytesSaved: video.size - buffer.length,
+      durationSeconds: duration,
+      estimatedTokensSaved: duration !== undefined
+        ? Math.round(duration * (this.VIDEO_TOKENS_PER_SECOND - this.AUDIO_TOKENS_PER_SECOND))
+        : undefined,
+      extractionTime: Date.now() - startTime
+    };
+
+    console.log(`[AudioExtractor] Extracted audio for ${videoId} in ${stats.extractionTime}ms: ${stats.originalBytes} -> ${stats.audioBytes} bytes`);
+
+    return {
+      audio: {
+        buffer,
+        mimeType: this.AUDIO_MIME_TYPE,
+        size: buffer.length,
+        metadata: video.metadata
+      },
+      stats
+    };
+  }
+
+  /**
+   * Run ffmpeg on the video's file, or a temp copy of an in-memory video; MP4s
+   * with the index at the end can't be read from a pipe
+   */
+  private static async runFfmpeg(video: DownloadedVideo): Promise<{ buffer: Buffer; durationSeconds?: number }> {
+    const videoId = video.metadata.id;
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'audio-extract-'));
+    const inputPath = video.filePath || path.join(tempDir, 'input');
+
+    try {
+      if (!video.filePath) {
+        await fs.writeFile(inputPath, video.buffer!);
+      }
+
+      return await new Promise((resolve, reject) => {
+        const ffmpeg = spawn(process.env.FFMPEG_PATH || 'ffmpeg', [
+          '-hide_banner',
+          '-nostdin',
+          '-i', inputPath,
+          '-vn',
+          '-ac', '1',
+          '-ar', '16000',
+          '-c:a', 'libopus',
+          '-b:a', '24k',
+          '-f', 'ogg',
+          'pipe:1'
+        ]);
+
+        const chunks: Buffer[] = [];
+        let stderr = '';
+        const timeoutId = setTimeout(() => ffmpeg.kill('SIGKILL'), this.TIMEOUT_MS);
+
+        ffmpeg.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+        ffmpeg.stderr.on('data', (chunk: Buffer) => {
+          stderr += chunk.toString();
+        });
+
+        ffmpeg.on('error', error => {
+          clearTimeout(timeoutId);
+          reject(new AudioExtractionError(`Failed to start ffmpeg: ${error.message}`, videoId, error));
+        });
+
+        ffmpeg.on('close', (code, signal) => {
+          clearTimeout(timeoutId);
+          if (code !== 0) {
+            const reason = signal ? `was killed (${signal})` : `exited with code ${code}`;
+            const lastLine = stderr.trim().split('\n').pop();
+            reject(new AudioExtractionError(`ffmpeg ${reason}${lastLine ? `: ${lastLine}` : ''}`, videoId));
+            return;
+          }
+          resolve({ buffer: Buffer.concat(chunks), durationSeconds: this.parseDuration(stderr) });
+        });
+      });
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Read the input duration from ffmpeg's banner, e.g. "Duration: 00:01:02.50"
+   */
+  private static parseDuration(stderr: string): number | undefined {
+    const match = stderr.match(/Duration: (\d+):(\d{2}):(\d{2}(?:\.\d+)?)/);
+    if (!match) {
+      return undefined;
+    }
+    return parseInt(match[1], 10) * 3600 + parseInt(match[2], 10) * 60 + parseFloat(match[3]);
+  }
+}
@@ -0,0 +1,137 @@
+import { z } from 'zod';
+import { TRANSCRIPTION_RESPONSE_SCHEMA } from './marketing-analysis';
+import { Diarization, SpeakerStats, SpeakerUtterance } from './types';
+
+const utteranceSchema = z.object({
+  speaker: z.string().trim().min(1, 'Speaker label is empty'),
+  text: z.string(),
+  start: z.number().min(0).optional(),
+  end: z.number().min(0).optional()
+}) satisfies z.ZodType<SpeakerUtterance>;
+
+const diarizedResponseSchema = z.object({
+  transcription: z.string().optional(),
+  utterances: z.array(utteranceSchema).min(1, 'No utterances')
+});
+
+/**
+ * Add an `utterances` array to a Gemini `responseSchema`, or to a plain
+ * transcription schema when there is no base schema
+ */
+export function buildDiarizedResponseSchema(baseSchema?: any, withTimes: boolean = false) {
+  const utteranceProperties: Record<string, any> = {
+    speaker: { type: 'STRING', description: 'Speaker label, e.g. "Speaker 1"' },
+    text: { type: 'STRING', description: 'Everything the speaker says in this turn' }
+  };
+  if (withTimes) {
+    utteranceProperties.start = { type: 'NUMBER', description: 'Start time in seconds from the beginning of the video' };
+    utteranceProperties.end = { type: 'NUMBER', description: 'End time in seconds from the beginning of the video' };
+  }
+
+  const utterances = {
+    type: 'ARRAY',
+    description: 'The transcript split into speaker turns in spoken order',
+    items: {
+      type: 'OBJECT',
+      properties: utteranceProperties,
+      required: Object.keys(utteranceProperties),
+      propertyOrdering: Object.keys(utteranceProperties)
+    }
+  };
+
+  const base = baseSchema || TRANSCRIPTION_RESPONSE_SCHEMA;
+
+  return {
+    ...base,
+    properties: { ...base.properties, utterances },
+    required: [...base.required, 'utterances'],
+    propertyOrdering: [...base.propertyOrdering, 'utterances']
+  };
+}
+
+/**
+ * Prompt instructions matching buildDiarizedResponseSchema
+ */
+export function buildDiarizationInstructions(withTimes: boolean): string {
+  let instructions = '\n\nAlso return "utterances": the transcript split into speaker turns in spoken order. Label speakers "Speaker 1", "Speaker 2" and so on in order of first appearance, and reuse the same label whenever the same person speaks again. Tell speakers apart by voice, not by the content. If only one person speaks, return a single speaker.';
+
+  if (withTimes) {
+    instructions += ' Give each turn the time in seconds from the start of the video when it starts and ends.';
+  }
+
+  return instructions;
+}
+
+/**
+ * Parse and validate the utterances of a diarized response and work out who
+ * the primary speaker is
+ */
+export function parseDiarization(responseText: string):
+  | { success: true; diarization: Diarization; transcription?: string }
+  | { success: false; issues: string[] } {
+  let json: unknown;
+  try {
+    json = JSON.parse(responseText);
+  } catch (error) {
+    return {
+      success: false,
+      issues: [`Response is not valid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`]
+    };
+  }
+
+  const parsed = diarizedResponseSchema.safeParse(json);
+  if (!parsed.success) {
+    return {
+      success: false,
+      issues: parsed.error.issues.map(issue => `${issue.path.join('.') || 'response'}: ${issue.message}`)
+    };
+  }
+
+  const utterances = parsed.data.utterances
+    .map(utterance => ({ ...utterance, text: utterance.text.trim() }))
+    .filter(utterance => utterance.text);
+
+  if (utterances.length === 0) {
+    return { success: false, issues: ['utterances: every utterance is empty'] };
+  }
+
+  const speakers = getSpeakerStats(utterances);
+
+  return {
+    success: true,
+    diarization: { utterances, speakers, primarySpeaker: speakers[0].speaker },
+    transcription: parsed.data.transcription
+  };
+}
+
+/**
+ * Word counts per speaker, most words first; ties go to whoever spoke first
+ */
+export function getSpeakerStats(utterances: SpeakerUtterance[]): SpeakerStats[] {
+  const counts = new Map<string, number>();
+  let totalWords = 0;
+
+  for (const utterance of utterances) {
+    const words = utterance.text.split(/\s+/).filter(Boolean).length;
+    counts.set(utterance.speaker, (counts.get(utterance.speaker) || 0) + words);
+    totalWords += words;
+  }
+
+  return Array.from(counts.entries())
+    .map(([speaker, wordCount]) => ({
+      speaker,
+      wordCount,
+      share: totalWords > 0 ? Math.round((wordCount / totalWords) * 1000) / 1000 : 0
+    }))
+    .sort((a, b) => b.wordCount - a.wordCount);
+}
+
+/**
+ * The primary speaker's lines, joined in spoken order
+ */
+export function getPrimarySpeakerText(diarization: Diarization): string {
+  return diarization.utterances
+    .filter(utterance => utterance.speaker === diarization.primarySpeaker)
+    .map(utterance => utterance.text)
+    .join(' ');
+}
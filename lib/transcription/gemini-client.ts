@@ -1,131 +1,374 @@
-import { DownloadedVideo, GeminiResponse, TranscriptionOptions } from './types';
+import { createHash } from 'crypto';
+import { CACHE_TTL_MS, withContentCache } from '@/lib/cache';
+import { AudioExtractor } from './audio-extractor';
+import { buildDiarizationInstructions, buildDiarizedResponseSchema, parseDiarization } from './diarization';
+import { GeminiFile, GeminiFileManager } from './gemini-files';
+import { buildLanguageInstructions, buildLanguageResponseSchema, parseLanguage } from './language';
+import { buildMarketingAnalysisResponseSchema, parseMarketingAnalysis } from './marketing-analysis';
+import { DEFAULT_GEMINI_RETRY_POLICY, getBackoffDelay } from './retry-policy';
+import { formatCategoryDefinitions, getCategoryNames, resolveSegmentFramework } from './segment-frameworks';
+import { buildTimedResponseSchema, buildTimelineInstructions, parseTimeline } from './timeline';
+import { renderPrompt } from './prompts';
+import { priceUsage, summarizeUsage } from './usage';
+import { getWorkerPool } from './worker-pool';
+import {
+  AudioExtractionStats,
+  DownloadedVideo,
+  GeminiModel,
+  GeminiResponse,
+  GeminiUsage,
+  GeminiRetryPolicy,
+  ModelFallback,
+  ModelFallbackReason,
+  PromptRef,
+  SegmentFramework,
+  TokenUsage,
+  TranscriptionOptions,
+  TranscriptParsePath,
+  UsageSummary,
+  VideoProgressCallback
+} from './types';
 
 export class GeminiTranscriptionError extends Error {
+  // Billed calls that answered without a usable result, e.g. an unparseable response
+  usage?: GeminiUsage | UsageSummary;
+
   constructor(
     message: string,
     public videoId: string,
     public statusCode?: number,
-    public cause?: Error
+    public cause?: Error,
+    public attempts?: number, // Requests sent to Gemini, including retries
+    public fallbackReason?: ModelFallbackReason // Set when the next model in the fallback chain may succeed
   ) {
     super(message);
     this.name = 'GeminiTranscriptionError';
   }
 }
 
+/**
+ * Gemini answered, but the structured response did not match the expected schema
+ */
+export class GeminiResponseParseError extends GeminiTranscriptionError {
+  constructor(
+    videoId: string,
+    public issues: string[],
+    public responseText: string,
+    attempts?: number,
+    kind: string = 'marketing analysis'
+  ) {
+    super(`Invalid ${kind} response: ${issues.join('; ')}`, videoId, undefined, undefined, attempts, 'invalid_response');
+    this.name = 'GeminiResponseParseError';
+  }
+}
+
+/**
+ * A failed generateContent call, classified for the retry loop
+ */
+class GeminiRequestError extends Error {
+  attempts = 1;
+
+  constructor(
+    message: string,
+    public status?: number,
+    public retryable: boolean = false,
+    public retryAfterMs?: number,
+    public fallbackReason?: ModelFallbackReason
+  ) {
+    super(message);
+    this.name = 'GeminiRequestError';
+  }
+}
+
 export class GeminiClient {
-  private static readonly API_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
-  private static readonly DEFAULT_MODEL = 'gemini-2.0-flash';
+  private static readonly DEFAULT_API_BASE_URL = 'https://generativelanguage.googleapis.com';
+  private static readonly DEFAULT_MODEL: GeminiModel = 'gemini-2.0-flash';
   private static readonly REQUEST_TIMEOUT = 60000; // 60 seconds
-  private static readonly RATE_LIMIT_DELAY = 500; // Reduced from 1000ms to 500ms
-  private static readonly FAST_MODE_DELAY = 200; // Even faster for simple transcription
+  // Shared worker pool that bounds concurrent requests and requests/tokens per minute
+  private static readonly WORKER_POOL = 'gemini';
+  // Requests are capped at 20MB and base64 adds a third, so larger videos go through the Files API
+  private static readonly INLINE_DATA_LIMIT = 14 * 1024 * 1024;
+  // Candidate finish reasons that mean the answer was withheld
+  private static readonly BLOCKED_FINISH_REASONS = ['SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII'];
 
   private apiKey: string;
+  private baseUrl: string;
+  private retryPolicy: GeminiRetryPolicy;
+  private files: GeminiFileManager;
 
-  constructor(apiKey?: string) {
+  constructor(apiKey?: string, retryPolicy: Partial<GeminiRetryPolicy> = {}) {
     this.apiKey = apiKey || process.env.GEMINI_API_KEY || '';
+    this.retryPolicy = { ...DEFAULT_GEMINI_RETRY_POLICY, ...retryPolicy };
     
     if (!this.apiKey) {
       throw new Error('Gemini API key is required. Set GEMINI_API_KEY environment variable.');
     }
+
+    // GEMINI_API_BASE_URL points the client at a local mock of the API
+    this.baseUrl = (process.env.GEMINI_API_BASE_URL || GeminiClient.DEFAULT_API_BASE_URL).replace(/\/+$/, '');
+    this.files = new GeminiFileManager(this.apiKey, this.baseUrl, this.retryPolicy);
   }
 
   /**
-   * Transcribe a single video using Gemini API
+   * Models a transcription tries in order: the requested model, then its
+   * configured fallbacks. Fallback is opt-in, since every fallback is another
+   * billed call, usually on a pricier model.
+   */
+  static getModelChain(options: TranscriptionOptions): GeminiModel[] {
+    const model = options.model || GeminiClient.DEFAULT_MODEL;
+    const fallbacks = options.fallbackModels || [];
+    return [model, ...fallbacks.filter((fallback, index) => fallback !== model && fallbacks.indexOf(fallback) === index)];
+  }
+
+  /**
+   * Transcribe a single video using Gemini API. When a model times out, is
+   * blocked or unavailable, or returns an empty or invalid response, the next
+   * model in the configured fallback chain is tried.
    */
   async transcribeVideo(
     video: DownloadedVideo, 
     options: TranscriptionOptions = {}
+  ): Promise<GeminiResponse> {
+    const models = GeminiClient.getModelChain(options);
+    const modelFallbacks: ModelFallback[] = [];
+    // Models given up on may still have been billed
+    const abandonedUsage: Array<GeminiUsage | UsageSummary> = [];
+
+    for (let i = 0; ; i++) {
+      try {
+        const response = await this.transcribeWithModel(video, options, models[i]);
+        if (modelFallbacks.length === 0) {
+          return response;
+        }
+        const usage = abandonedUsage.length > 0 ? summarizeUsage([...abandonedUsage, response.usage]) : response.usage;
+        return { ...response, modelFallbacks, usage };
+      } catch (error) {
+        const reason = error instanceof GeminiTranscriptionError ? error.fallbackReason : undefined;
+        if (!reason || i === models.length - 1) {
+          if (modelFallbacks.length > 0 && error instanceof Error) {
+            error.message += ` (after falling back from ${modelFallbacks.map(fallback => fallback.model).join(', ')})`;
+          }
+          if (abandonedUsage.length > 0 && error instanceof GeminiTranscriptionError) {
+            error.usage = summarizeUsage([...abandonedUsage, error.usage]);
+          }
+          throw error;
+        }
+        if (error instanceof GeminiTranscriptionError && error.usage) {
+          abandonedUsage.push(error.usage);
+        }
+        modelFallbacks.push({ model: models[i], reason, error: (error as Error).message });
+        console.warn(`[GeminiClient] ${models[i]} failed for ${video.metadata.id} (${reason}); falling back to ${models[i + 1]}`);
+      }
+    }
+  }
+
+  /**
+   * Transcribe a single video with one model
+   */
+  private async transcribeWithModel(
+    video: DownloadedVideo,
+    options: TranscriptionOptions,
+    model: GeminiModel
   ): Promise<GeminiResponse> {
     const startTime = Date.now();
     const videoId = video.metadata.id;
+    let uploadedFile: GeminiFile | undefined;
+    let usage: GeminiUsage | undefined;
     
     try {
-      console.log(`[GeminiClient] Starting transcription for video: ${videoId} (${this.getProcessingMode(options)})`);
+      console.log(`[GeminiClient] Starting transcription for video: ${videoId} with ${model} (${this.getProcessingMode(options)})`);
       
-      const model = options.model || GeminiClient.DEFAULT_MODEL;
-      const prompt = this.buildTranscriptionPrompt(options);
-      const base64Data = video.buffer.toString('base64');
+      const framework = options.extractMarketingSegments
+        ? await resolveSegmentFramework(options.segmentFramework)
+        : undefined;
+      const { text: prompt, prompts } = this.buildTranscriptionPrompt(options, framework);
+
+      const cacheKey = this.getResponseCacheKey(video, model, prompt, options);
+      if (!options.bypassCache) {
+        const cached = await this.readCachedResponse(cacheKey, videoId);
+        if (cached) {
+          return cached;
+        }
+      }
+
+      // Without visual analysis only speech matters, so the audio track is enough
+      let media = video;
+      let audioExtraction: AudioExtractionStats | undefined;
+      if (options.extractAudio && !options.includeVisualDescriptions) {
+        try {
+          ({ audio: media, stats: audioExtraction } = await AudioExtractor.extractAudio(video));
+        } catch (error) {
+          // Don't fail the transcription; send the full video instead
+          console.warn(`[GeminiClient] Audio extraction failed for ${videoId}, sending video:`, error);
+        }
+      }
+
+      // Small files stay inline; larger ones, including any streamed to disk, are uploaded first and referenced by URI
+      if (!media.buffer || media.buffer.length > GeminiClient.INLINE_DATA_LIMIT) {
+        const source = media.buffer || { filePath: media.filePath!, size: media.size };
+        uploadedFile = await this.files.upload(source, media.mimeType, videoId);
+      }
+
+      const mediaPart = uploadedFile
+        ? {
+            fileData: {
+              mimeType: uploadedFile.mimeType || media.mimeType,
+              fileUri: uploadedFile.uri
+            }
+          }
+        : {
+            inlineData: {
+              mimeType: media.mimeType,
+              data: media.buffer!.toString('base64')
+            }
+          };
 
       const requestBody = {
         contents: [
           {
             parts: [
-              {
-                inlineData: {
-                  mimeType: video.mimeType,
-                  data: base64Data
-                }
-              },
+              mediaPart,
               {
                 text: prompt
               }
             ]
           }
         ],
-        generationConfig: this.getOptimizedGenerationConfig(options)
+        generationConfig: this.getOptimizedGenerationConfig(options, framework)
       };
 
       const response = await this.makeRequest(model, requestBody, videoId);
+      usage = response.usage && priceUsage(model, response.usage);
+
+      // Marketing analysis comes back as schema-constrained JSON; validate it before use
+      let analysis;
+      if (framework) {
+        const parsed = parseMarketingAnalysis(response.text, framework);
+        if (!parsed.success) {
+          throw new GeminiResponseParseError(videoId, parsed.issues, response.text, response.attempts);
+        }
+        analysis = { ...parsed.analysis, segmentFramework: framework.id };
+      }
+
+      // Every response is JSON; without marketing analysis its transcription becomes the plain text
+      let structuredTranscription: string | undefined;
+      let parsePath: TranscriptParsePath = analysis ? 'analysis' : 'raw';
+      let timeline;
+      if (options.timestamps) {
+        const parsed = parseTimeline(response.text, options.timestamps, framework && getCategoryNames(framework));
+        if (!parsed.success) {
+          throw new GeminiResponseParseError(videoId, parsed.issues, response.text, response.attempts, 'timeline');
+        }
+        timeline = parsed.timeline;
+        structuredTranscription = parsed.transcription || timeline.entries.map(entry => entry.text).join(' ');
+        parsePath = analysis ? 'analysis' : parsed.transcription ? 'json' : 'timeline';
+      }
+
+      let diarization;
+      if (options.diarize) {
+        const parsed = parseDiarization(response.text);
+        if (!parsed.success) {
+          throw new GeminiResponseParseError(videoId, parsed.issues, response.text, response.attempts, 'diarization');
+        }
+        diarization = parsed.diarization;
+        if (structuredTranscription === undefined) {
+          structuredTranscription = parsed.transcription || diarization.utterances.map(utterance => utterance.text).join(' ');
+          parsePath = analysis ? 'analysis' : parsed.transcription ? 'json' : 'diarization';
+        }
+        console.log(`[GeminiClient] ${videoId} has ${diarization.speakers.length} speaker(s), primary: ${diarization.primarySpeaker}`);
+      }
+
+      const parsedLanguage = parseLanguage(response.text, options.translateTo);
+      if (!parsedLanguage.success) {
+        throw new GeminiResponseParseError(videoId, parsedLanguage.issues, response.text, response.attempts, 'language');
+      }
+      const { language, translation } = parsedLanguage;
+      if (structuredTranscription === undefined && parsedLanguage.transcription !== undefined) {
+        structuredTranscription = parsedLanguage.transcription;
+        parsePath = analysis ? 'analysis' : 'json';
+      }
+      console.log(`[GeminiClient] ${videoId} is in ${language.name} (${language.code})${translation ? `, translated to ${translation.language}` : ''}`);
+
+      const text = !analysis && structuredTranscription !== undefined ? structuredTranscription.trim() : response.text;
+
       const processingTime = Date.now() - startTime;
       
       console.log(`[GeminiClient] Successfully transcribed ${videoId} in ${processingTime}ms (${this.getProcessingMode(options)})`);
       
-      return {
-        text: response.text,
-        usage: response.usage
+      const result: GeminiResponse = {
+        text,
+        analysis,
+        timeline,
+        diarization,
+        language,
+        translation,
+        model,
+        usage,
+        parsePath,
+        prompts,
+        audioExtraction
       };
 
+      await withContentCache(`cache response for ${videoId}`, cache =>
+        cache.set('gemini_response', cacheKey, Buffer.from(JSON.stringify(result)), CACHE_TTL_MS.response)
+      );
+
+      return { ...result, attempts: response.attempts, cached: false };
+
     } catch (error) {
       const processingTime = Date.now() - startTime;
       console.error(`[GeminiClient] Failed to transcribe ${videoId} after ${processingTime}ms:`, error);
-      
-      throw new GeminiTranscriptionError(
-        `Transcription failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        videoId,
-        error instanceof Error && 'status' in error ? (error as any).status : undefined,
-        error instanceof Error ? error : undefined
-      );
+
+      const attempts = error instanceof GeminiRequestError ? error.attempts : undefined;
+      const transcriptionError = error instanceof GeminiTranscriptionError
+        ? error
+        : new GeminiTranscriptionError(
+            `Transcription failed${attempts && attempts > 1 ? ` after ${attempts} attempts` : ''}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            videoId,
+            error instanceof Error && 'status' in error ? (error as any).status : undefined,
+            error instanceof Error ? error : undefined,
+            attempts,
+            error instanceof GeminiRequestError ? error.fallbackReason : undefined
+          );
+      // Gemini answered and billed the call even though the answer is thrown away
+      if (usage) {
+        transcriptionError.usage = usage;
+      }
+      throw transcriptionError;
+    } finally {
+      if (uploadedFile) {
+        try {
+          await this.files.delete(uploadedFile.name);
+        } catch (error) {
+          // Don't fail the transcription; uploaded files expire on their own after 48 hours
+          console.warn(`[GeminiClient] Failed to delete uploaded file ${uploadedFile.name}:`, error);
+        }
+      }
     }
   }
 
   /**
-   * Transcribe multiple videos with optimized rate limiting
+   * Transcribe multiple videos concurrently. The shared "gemini" worker pool
+   * bounds how many requests run at once and how many are sent per minute.
    */
   async transcribeVideos(
     videos: DownloadedVideo[],
-    options: TranscriptionOptions = {}
+    options: TranscriptionOptions = {},
+    onProgress?: VideoProgressCallback
   ): Promise<{
     successful: Array<{ video: DownloadedVideo; response: GeminiResponse }>;
     failed: Array<{ video: DownloadedVideo; error: GeminiTranscriptionError }>;
   }> {
     console.log(`[GeminiClient] Starting batch transcription of ${videos.length} videos (${this.getProcessingMode(options)})`);
     
-    // Use parallel processing for fast mode with small batches
-    if (options.fastMode && videos.length <= 5) {
-      return this.transcribeVideosParallel(videos, options);
-    }
-    
-    const successful: Array<{ video: DownloadedVideo; response: GeminiResponse }> = [];
-    const failed: Array<{ video: DownloadedVideo; error: GeminiTranscriptionError }> = [];
-
-    // Use optimized delay based on processing mode
-    const delay = options.extractMarketingSegments 
-      ? GeminiClient.RATE_LIMIT_DELAY 
-      : GeminiClient.FAST_MODE_DELAY;
+    const results = await Promise.all(videos.map(async (video, i) => {
+      const progress = { videoId: video.metadata.id, index: i + 1, total: videos.length };
+      onProgress?.({ ...progress, stage: 'transcribing' });
 
-    // Process videos sequentially with optimized rate limiting
-    for (let i = 0; i < videos.length; i++) {
-      const video = videos[i];
-      
       try {
         const response = await this.transcribeVideo(video, options);
-        successful.push({ video, response });
-        
-        // Add optimized delay between requests (except for the last one)
-        if (i < videos.length - 1) {
-          await this.delay(delay);
-        }
-        
+        onProgress?.({ ...progress, stage: 'transcribed' });
+        return { video, response };
       } catch (error) {
         const transcriptionError = error instanceof GeminiTranscriptionError 
           ? error 
@@ -135,10 +378,18 @@ export class GeminiClient {
               undefined,
               error instanceof Error ? error : undefined
             );
-        
-        failed.push({ video, error: transcriptionError });
+        onProgress?.({ ...progress, stage: 'transcription_failed', error: transcriptionError.message });
+        return { video, error: transcriptionError };
       }
-    }
+    }));
+
+    const successful = results
+      .filter(r => r.response)
+      .map(r => ({ video: r.video, response: r.response! }));
+    
+    const failed = results
+      .filter(r => r.error)
+      .map(r => ({ video: r.video, error: r.error! }));
 
     console.log(`[GeminiClient] Batch transcription complete: ${successful.length} successful, ${failed.length} failed`);
     
@@ -146,60 +397,70 @@ export class GeminiClient {
   }
 
   /**
-   * Parallel transcription for small batches in fast mode
+   * Responses are reused for the same video content, model, prompt and
+   * output-affecting options. The hash of the full prompt, registered
+   * prompts and option instructions alike, acts as its version, so any
+   * prompt change invalidates earlier responses.
    */
-  private async transcribeVideosParallel(
-    videos: DownloadedVideo[],
-    options: TranscriptionOptions
-  ): Promise<{
-    successful: Array<{ video: DownloadedVideo; response: GeminiResponse }>;
-    failed: Array<{ video: DownloadedVideo; error: GeminiTranscriptionError }>;
-  }> {
-    console.log(`[GeminiClient] Using parallel processing for ${videos.length} videos`);
-    
-    const promises = videos.map(async (video) => {
-      try {
-        const response = await this.transcribeVideo(video, options);
-        return { success: true, video, response };
-      } catch (error) {
-        const transcriptionError = error instanceof GeminiTranscriptionError 
-          ? error 
-          : new GeminiTranscriptionError(
-              `Unexpected error: ${error instanceof Error ? error.message : 'Unknown error'}`,
-              video.metadata.id,
-              undefined,
-              error instanceof Error ? error : undefined
-            );
-        return { success: false, video, error: transcriptionError };
-      }
-    });
+  private getResponseCacheKey(video: DownloadedVideo, model: string, prompt: string, options: TranscriptionOptions): string {
+    return createHash('sha256').update(JSON.stringify({
+      model,
+      promptVersion: createHash('sha256').update(prompt).digest('hex'),
+      options: {
+        extractMarketingSegments: !!options.extractMarketingSegments,
+        includeVisualDescriptions: !!options.includeVisualDescriptions,
+        extractAudio: !!options.extractAudio,
+        fastMode: !!options.fastMode,
+        language: options.language || null,
+        timestamps: options.timestamps || null,
+        diarize: !!options.diarize,
+        translateTo: options.translateTo || null
+      },
+      contentHash: video.contentHash || createHash('sha256').update(video.buffer!).digest('hex')
+    })).digest('hex');
+  }
 
-    const results = await Promise.all(promises);
-    
-    const successful = results
-      .filter(r => r.success && r.response)
-      .map(r => ({ video: r.video, response: r.response! }));
-    
-    const failed = results
-      .filter(r => !r.success && r.error)
-      .map(r => ({ video: r.video, error: r.error! }));
+  private async readCachedResponse(key: string, videoId: string): Promise<GeminiResponse | null> {
+    return withContentCache(`read cached response for ${videoId}`, async cache => {
+      const entry = await cache.get('gemini_response', key);
+      if (!entry) {
+        return null;
+      }
 
-    console.log(`[GeminiClient] Parallel transcription complete: ${successful.length} successful, ${failed.length} failed`);
-    
-    return { successful, failed };
+      console.log(`[GeminiClient] Using cached response for ${videoId}`);
+      // Cached responses are from a single call
+      const response: GeminiResponse & { usage?: GeminiUsage } = JSON.parse(entry.toString('utf8'));
+      return {
+        ...response,
+        usage: response.usage && { ...response.usage, costUsd: 0, cached: true },
+        cached: true
+      };
+    });
   }
 
   /**
    * Get optimized generation config based on processing mode
    */
-  private getOptimizedGenerationConfig(options: TranscriptionOptions) {
+  private getOptimizedGenerationConfig(options: TranscriptionOptions, framework?: SegmentFramework) {
     if (options.extractMarketingSegments) {
       // Complex analysis mode - need more tokens and careful generation
       return {
         temperature: 0.1,
         topK: 40,
         topP: 0.95,
-        maxOutputTokens: 8192
+        maxOutputTokens: 8192,
+        responseMimeType: 'application/json',
+        responseSchema: this.getResponseSchema(options, framework)
+      };
+    } else if (options.timestamps || options.diarize || options.translateTo) {
+      // Timestamps, speakers and translations need room for one entry per phrase, word or turn, or a second transcript
+      return {
+        temperature: 0.0,
+        topK: 20,
+        topP: 0.8,
+        maxOutputTokens: 8192,
+        responseMimeType: 'application/json',
+        responseSchema: this.getResponseSchema(options, framework)
       };
     } else {
       // Fast transcription mode - optimize for speed
@@ -207,11 +468,29 @@ export class GeminiClient {
         temperature: 0.0, // More deterministic for faster processing
         topK: 20, // Reduced for faster token selection
         topP: 0.8, // More focused for speed
-        maxOutputTokens: 4096 // Reduced for faster generation
+        maxOutputTokens: 4096, // Reduced for faster generation
+        responseMimeType: 'application/json', // Transcription plus detected language
+        responseSchema: this.getResponseSchema(options, framework)
       };
     }
   }
 
+  /**
+   * Marketing analysis or plain transcription schema, extended with the
+   * timeline and speaker turns when those were requested, and always with
+   * the detected language
+   */
+  private getResponseSchema(options: TranscriptionOptions, framework?: SegmentFramework) {
+    let schema = framework ? buildMarketingAnalysisResponseSchema(framework) : undefined;
+    if (options.timestamps) {
+      schema = buildTimedResponseSchema(options.timestamps, schema);
+    }
+    if (options.diarize) {
+      schema = buildDiarizedResponseSchema(schema, !!options.timestamps);
+    }
+    return buildLanguageResponseSchema(schema, options.translateTo);
+  }
+
   /**
    * Get processing mode description for logging
    */
@@ -220,119 +499,113 @@ export class GeminiClient {
   }
 
   /**
-   * Build transcription prompt based on options
+   * Build transcription prompt based on options, from the registered prompts
+   * it is made of
    */
-  private buildTranscriptionPrompt(options: TranscriptionOptions): string {
-    if (options.extractMarketingSegments) {
+  private buildTranscriptionPrompt(
+    options: TranscriptionOptions,
+    framework?: SegmentFramework
+  ): { text: string; prompts: PromptRef[] } {
+    if (framework) {
       // Marketing analysis prompt - combines transcription and word-level segment assignment
-      let prompt = `You are an expert Script Analyst AI. Your task is to:
-
-1. First, transcribe the audio from this video accurately
-2. Then analyze the transcript and assign EVERY SINGLE WORD to one of the four marketing categories
-
-CRITICAL REQUIREMENTS:
-- Every word in the transcript must be assigned to exactly one category
-- No word can be left unassigned
-- No word can be assigned to multiple categories
-- The sum of all category text must equal the complete transcript
-- Maintain the original word order and spacing
-
-CRITICAL OUTPUT REQUIREMENT: 
-Your response must start IMMEDIATELY with the opening brace { and contain NOTHING else except the JSON object. 
-
-DO NOT include:
-- Any introductory text like "Okay, I'm ready to analyze..."
-- Any explanatory comments
-- Markdown formatting or code blocks
-- Any text before or after the JSON
-
-Your first character must be { and your last character must be }
-
-IMPORTANT: For reliability, SKIP the wordAssignments array. Only provide transcription and marketingSegments.
-
-Expected JSON format:
-{
-  "transcription": "The complete, accurate transcription of the video audio",
-  "marketingSegments": {
-    "Hook": "All words assigned to Hook category in original order",
-    "Bridge": "All words assigned to Bridge category in original order", 
-    "Golden Nugget": "All words assigned to Golden Nugget category in original order",
-    "WTA": "All words assigned to WTA category in original order"
-  }
-}
-
-PRECISE CATEGORY DEFINITIONS:
-
-Hook: ONLY the initial attention-grabbing statement that presents the core problem, controversial opinion, or bold claim. This should be ONE complete sentence or thought that immediately hooks the viewer. Stop at the first natural pause or when transitional language begins.
-
-Examples of Hook boundaries:
-- "You can't get off that fucking phone and that's the reason why you can't create shit." (STOP HERE)
-- "Batch recording content got to be one of the most overrated things in content creation." (STOP HERE)
-
-DO NOT include in Hook:
-- Transitional phrases like "Let's talk about it"
-- Explanatory setup like "Now look, before y'all start typing..."
-- Multiple sentences that elaborate on the initial statement
-- Any "bridge" language that connects to the main content
-
-Bridge: Words that build connection, establish credibility, provide context, or transition from the hook to the main content. This includes:
-- Transitional phrases ("Let's talk about it", "Now look")
-- Credibility builders and disclaimers
-- Context setting and audience acknowledgment
-- Setup for the main teaching point
-
-Golden Nugget: Words containing the main value, insights, tips, or core educational content. The actual teaching or valuable information being shared.
-
-WTA (Why To Act): Words that create urgency, provide calls-to-action, or motivate immediate response. Usually at the end encouraging follow, subscribe, or take action.
+      const names = getCategoryNames(framework);
+      const analysis = renderPrompt('marketing-analysis', {
+        categoryCount: names.length,
+        frameworkName: framework.name,
+        categoryNames: names.join(', '),
+        categoryDefinitions: formatCategoryDefinitions(framework),
+        guidance: framework.guidance ? `\n${framework.guidance}\n` : '',
+        categorySum: names.join(' + ')
+      });
+      const prompts = [analysis.ref];
+      let prompt = analysis.text;
 
-ASSIGNMENT STRATEGY:
-1. Transcribe the complete audio first
-2. Identify the Hook: Find the FIRST bold statement that grabs attention - usually one sentence
-3. Identify transitions and setup language for Bridge
-4. Identify the main teaching content for Golden Nugget  
-5. Identify calls-to-action for WTA
-6. Assign each word to the most appropriate category
-7. Verify that concatenating all category text recreates the original transcript
+      if (options.includeVisualDescriptions) {
+        prompt += ' Also include relevant visual descriptions that support the marketing analysis.';
+      }
 
-VALIDATION CHECK:
-- Hook + Bridge + Golden Nugget + WTA = Complete Transcript (word for word)
-- Hook should be SHORT and PUNCHY (typically 1 sentence)
-- Bridge should handle transitions and setup
-- Golden Nugget should contain the main value
-- WTA should drive action
+      if (options.strictPrompt) {
+        const strict = renderPrompt('strict-analysis', {
+          wordLimits: framework.categories
+            .filter(category => category.maxWords)
+            .map(category => `\n- Keep ${category.name} to at most ${category.maxWords} words`)
+            .join('')
+        });
+        prompt += `\n\n${strict.text}`;
+        prompts.push(strict.ref);
+      }
 
-FINAL REMINDER: Your response must be PURE JSON starting with { and ending with }. No other text whatsoever.`;
+      prompt += buildLanguageInstructions({ expectedLanguage: options.language, translateTo: options.translateTo }, true);
 
-      if (options.includeVisualDescriptions) {
-        prompt += ' Also include relevant visual descriptions that support the marketing analysis.';
+      if (options.timestamps) {
+        prompt += buildTimelineInstructions(options.timestamps, true);
       }
-      
-      if (options.language) {
-        prompt += ` The content is primarily in ${options.language}.`;
+
+      if (options.diarize) {
+        prompt += buildDiarizationInstructions(!!options.timestamps);
+        prompt += ' When several people speak, still assign every word of the transcript to a category, whoever says it.';
       }
       
-      return prompt;
+      return { text: prompt, prompts };
     } else {
       // Standard transcription prompt - optimized for speed
-      let prompt = 'Transcribe the audio from this video accurately. Return only the transcription text without any additional formatting or explanations.';
+      const transcription = renderPrompt('transcription');
+      let prompt = transcription.text;
       
       if (options.includeVisualDescriptions) {
-        prompt += ' Also provide brief visual descriptions of what is happening in the video.';
+        prompt += ' Also provide brief visual descriptions of what is happening in the video, in square brackets within the transcription.';
       }
-      
-      if (options.language) {
-        prompt += ` The content is primarily in ${options.language}.`;
+
+      prompt += buildLanguageInstructions({ expectedLanguage: options.language, translateTo: options.translateTo }, false);
+
+      if (options.timestamps) {
+        prompt += buildTimelineInstructions(options.timestamps, false);
+      }
+
+      if (options.diarize) {
+        prompt += buildDiarizationInstructions(!!options.timestamps);
       }
       
-      return prompt;
+      return { text: prompt, prompts: [transcription.ref] };
     }
   }
 
   /**
-   * Make HTTP request to Gemini API
+   * Make HTTP request to Gemini API, retrying rate limits, server errors,
+   * timeouts and network failures according to the retry policy
    */
   private async makeRequest(model: string, body: any, videoId: string): Promise<any> {
-    const url = `${GeminiClient.API_BASE_URL}/${model}:generateContent?key=${this.apiKey}`;
+    const { maxAttempts, maxRetryAfterMs } = this.retryPolicy;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        // Each attempt takes its own slot, so backoff waits don't hold up other videos
+        const response = await getWorkerPool(GeminiClient.WORKER_POOL).run(
+          () => this.sendRequest(model, body),
+          result => result.usage?.totalTokens
+        );
+        return { ...response, attempts: attempt };
+      } catch (error) {
+        const requestError = this.classifyRequestError(error);
+        requestError.attempts = attempt;
+
+        const waitTooLong = requestError.retryAfterMs !== undefined && requestError.retryAfterMs > maxRetryAfterMs;
+        if (!requestError.retryable || attempt >= maxAttempts || waitTooLong) {
+          throw requestError;
+        }
+
+        const delayMs = requestError.retryAfterMs ?? getBackoffDelay(this.retryPolicy, attempt);
+        console.warn(`[GeminiClient] Request for ${videoId} failed (attempt ${attempt}/${maxAttempts}): ${requestError.message}. Retrying in ${delayMs}ms`);
+        await this.delay(delayMs);
+      }
+    }
+  }
+
+  /**
+   * Send one generateContent request
+   */
+  private async sendRequest(model: string, body: any): Promise<{ text: string; usage?: TokenUsage }> {
+    const url = `${this.baseUrl}/v1beta/models/${model}:generateContent?key=${this.apiKey}`;
     
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), GeminiClient.REQUEST_TIMEOUT);
@@ -352,9 +625,10 @@ FINAL REMINDER: Your response must be PURE JSON starting with { and ending with
       if (!response.ok) {
         const errorText = await response.text();
         let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
+        let errorData: any;
         
         try {
-          const errorData = JSON.parse(errorText);
+          errorData = JSON.parse(errorText);
           if (errorData.error?.message) {
             errorMessage = errorData.error.message;
           }
@@ -365,13 +639,26 @@ FINAL REMINDER: Your response must be PURE JSON starting with { and ending with
           }
         }
         
-        throw new Error(errorMessage);
+        throw new GeminiRequestError(
+          errorMessage,
+          response.status,
+          this.retryPolicy.retryableStatusCodes.includes(response.status),
+          GeminiClient.parseRetryAfter(response.headers.get('retry-after'), errorData),
+          GeminiClient.getStatusFallbackReason(response.status)
+        );
       }
 
       const data = await response.json();
+
+      // Blocked prompts have no candidates; blocked answers stop with a block reason
+      const blockReason = data.promptFeedback?.blockReason
+        || (GeminiClient.BLOCKED_FINISH_REASONS.includes(data.candidates?.[0]?.finishReason) && data.candidates[0].finishReason);
+      if (blockReason) {
+        throw new GeminiRequestError(`Response blocked by Gemini (${blockReason})`, undefined, false, undefined, 'blocked');
+      }
       
       if (!data.candidates || !data.candidates[0] || !data.candidates[0].content) {
-        throw new Error('Invalid response format from Gemini API');
+        throw new GeminiRequestError('Invalid response format from Gemini API', undefined, false, undefined, 'empty_response');
       }
 
       const text = data.candidates[0].content.parts
@@ -379,7 +666,7 @@ FINAL REMINDER: Your response must be PURE JSON starting with { and ending with
         .join('') || '';
 
       if (!text.trim()) {
-        throw new Error('Empty transcription response from Gemini API');
+        throw new GeminiRequestError('Empty transcription response from Gemini API', undefined, false, undefined, 'empty_response');
       }
 
       return {
@@ -387,7 +674,9 @@ FINAL REMINDER: Your response must be PURE JSON starting with { and ending with
         usage: data.usageMetadata ? {
           promptTokens: data.usageMetadata.promptTokenCount || 0,
           completionTokens: data.usageMetadata.candidatesTokenCount || 0,
-          totalTokens: data.usageMetadata.totalTokenCount || 0
+          totalTokens: data.usageMetadata.totalTokenCount || 0,
+          audioPromptTokens: data.usageMetadata.promptTokensDetails
+            ?.find((detail: any) => detail.modality === 'AUDIO')?.tokenCount
         } : undefined
       };
 
@@ -397,6 +686,56 @@ FINAL REMINDER: Your response must be PURE JSON starting with { and ending with
     }
   }
 
+  /**
+   * Decide whether a failed request is worth retrying. Timeouts and network
+   * failures are retryable; other unexpected errors are fatal.
+   */
+  private classifyRequestError(error: unknown): GeminiRequestError {
+    if (error instanceof GeminiRequestError) {
+      return error;
+    }
+    if (error instanceof Error && error.name === 'AbortError') {
+      return new GeminiRequestError(`Request timed out after ${GeminiClient.REQUEST_TIMEOUT}ms`, 408, true, undefined, 'timeout');
+    }
+    if (error instanceof TypeError) {
+      // fetch rejects with a TypeError when the connection fails
+      return new GeminiRequestError(`Network error: ${error.message}`, undefined, true, undefined, 'unavailable');
+    }
+    return new GeminiRequestError(error instanceof Error ? error.message : 'Unknown error');
+  }
+
+  /**
+   * Whether another model may succeed where one failed with this HTTP status.
+   * Rate limits, server errors and unknown models are specific to a model;
+   * other client errors such as a bad API key would fail on every model.
+   */
+  private static getStatusFallbackReason(status: number): ModelFallbackReason | undefined {
+    if (status === 408) return 'timeout';
+    if (status === 404 || status === 429 || status >= 500) return 'unavailable';
+    return undefined;
+  }
+
+  /**
+   * Read the server-requested wait from a Retry-After header (seconds or
+   * HTTP date) or the RetryInfo detail Gemini adds to 429 responses
+   */
+  private static parseRetryAfter(header: string | null, errorData?: any): number | undefined {
+    if (header) {
+      const seconds = Number(header);
+      if (!isNaN(seconds)) {
+        return Math.max(0, seconds * 1000);
+      }
+      const date = Date.parse(header);
+      if (!isNaN(date)) {
+        return Math.max(0, date - Date.now());
+      }
+    }
+
+    const retryInfo = errorData?.error?.details?.find((detail: any) => typeof detail?.retryDelay === 'string');
+    const match = retryInfo?.retryDelay.match(/^(\d+(?:\.\d+)?)s$/);
+    return match ? Math.round(parseFloat(match[1]) * 1000) : undefined;
+  }
+
   /**
    * Simple delay utility
    */
@@ -0,0 +1,326 @@
+import { promises as fs } from 'fs';
+import { getBackoffDelay } from './retry-policy';
+import { GeminiRetryPolicy } from './types';
+
+/**
+ * A file stored with the Gemini Files API
+ */
+export interface GeminiFile {
+  name: string; // e.g. "files/abc123"
+  uri: string;
+  mimeType: string;
+  sizeBytes?: string;
+  state?: 'STATE_UNSPECIFIED' | 'PROCESSING' | 'ACTIVE' | 'FAILED';
+}
+
+/**
+ * Bytes to upload: a buffer, or a file read one chunk at a time
+ */
+export type GeminiUploadSource = Buffer | { filePath: string; size: number };
+
+interface ChunkReader {
+  size: number;
+  read(start: number, end: number): Promise<Buffer>;
+  close(): Promise<void>;
+}
+
+export class GeminiFileError extends Error {
+  constructor(
+    message: string,
+    public status?: number,
+    public retryable: boolean = false
+  ) {
+    super(message);
+    this.name = 'GeminiFileError';
+  }
+}
+
+/**
+ * Uploads videos that are too large to inline through the Files API's
+ * resumable protocol, waits for them to finish processing and deletes them.
+ * `baseUrl` is the API root, so the endpoints can be pointed at a local mock.
+ */
+export class GeminiFileManager {
+  // Every chunk except the last must be a multiple of 256 KiB
+  private static readonly CHUNK_SIZE = 8 * 1024 * 1024;
+  private static readonly REQUEST_TIMEOUT = 60000; // 60 seconds
+  private static readonly POLL_INTERVAL_MS = 2000;
+  private static readonly PROCESSING_TIMEOUT_MS = 5 * 60 * 1000;
+
+  constructor(
+    private apiKey: string,
+    private baseUrl: string,
+    private retryPolicy: GeminiRetryPolicy
+  ) {}
+
+  /**
+   * Upload a buffer or file and resolve once the file is ACTIVE and can be used in prompts.
+   * A failed chunk is resumed from the offset the server reports it received.
+   */
+  async upload(source: GeminiUploadSource, mimeType: string, displayName: string): Promise<GeminiFile> {
+    const startTime = Date.now();
+    const reader = await this.openSource(source);
+    console.log(`[GeminiFileManager] Uploading ${displayName} (${reader.size} bytes)`);
+
+    let file: GeminiFile;
+    try {
+      const uploadUrl = await this.withRetry(`start upload of ${displayName}`, () =>
+        this.startUpload(reader.size, mimeType, displayName)
+      );
+      file = await this.sendChunks(uploadUrl, reader, displayName);
+    } finally {
+      await reader.close();
+    }
+
+    console.log(`[GeminiFileManager] Uploaded ${displayName} as ${file.name} in ${Date.now() - startTime}ms`);
+
+    return this.waitUntilActive(file);
+  }
+
+  async get(name: string): Promise<GeminiFile> {
+    const response = await this.send(`${this.baseUrl}/v1beta/${name}?key=${this.apiKey}`, { method: 'GET' });
+    if (!response.ok) {
+      throw await this.toFileError(response, `Failed to get file ${name}`);
+    }
+    return response.json();
+  }
+
+  async delete(name: string): Promise<void> {
+    await this.withRetry(`delete ${name}`, async () => {
+      const response = await this.send(`${this.baseUrl}/v1beta/${name}?key=${this.apiKey}`, { method: 'DELETE' });
+      if (!response.ok && response.status !== 404) {
+        throw await this.toFileError(response, `Failed to delete file ${name}`);
+      }
+    });
+    console.log(`[GeminiFileManager] Deleted ${name}`);
+  }
+
+  /**
+   * Open a resumable upload session and return its upload URL
+   */
+  private async startUpload(size: number, mimeType: string, displayName: string): Promise<string> {
+    const response = await this.send(`${this.baseUrl}/upload/v1beta/files?key=${this.apiKey}`, {
+      method: 'POST',
+      headers: {
+        'X-Goog-Upload-Protocol': 'resumable',
+        'X-Goog-Upload-Command': 'start',
+        'X-Goog-Upload-Header-Content-Length': String(size),
+        'X-Goog-Upload-Header-Content-Type': mimeType,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ file: { display_name: displayName } })
+    });
+
+    if (!response.ok) {
+      throw await this.toFileError(response, 'Failed to start upload');
+    }
+
+    const uploadUrl = response.headers.get('x-goog-upload-url');
+    if (!uploadUrl) {
+      throw new GeminiFileError('Upload session started without an upload URL');
+    }
+    return uploadUrl;
+  }
+
+  /**
+   * Files are read chunk by chunk, so a large video is never held in memory whole
+   */
+  private async openSource(source: GeminiUploadSource): Promise<ChunkReader> {
+    if (Buffer.isBuffer(source)) {
+      return {
+        size: source.length,
+        read: async (start, end) => source.subarray(start, end),
+        close: async () => undefined
+      };
+    }
+
+    const handle = await fs.open(source.filePath, 'r');
+    return {
+      size: source.size,
+      read: async (start, end) => {
+        const chunk = Buffer.alloc(end - start);
+        const { bytesRead } = await handle.read(chunk, 0, chunk.length, start);
+        return chunk.subarray(0, bytesRead);
+      },
+      close: () => handle.close()
+    };
+  }
+
+  private async sendChunks(uploadUrl: string, reader: ChunkReader, displayName: string): Promise<GeminiFile> {
+    const { maxAttempts } = this.retryPolicy;
+    let offset = 0;
+
+    for (let failures = 0; ;) {
+      const end = Math.min(offset + GeminiFileManager.CHUNK_SIZE, reader.size);
+
+      try {
+        const file = await this.uploadChunk(uploadUrl, await reader.read(offset, end), offset, end === reader.size);
+        if (file) {
+          return file;
+        }
+        offset = end;
+        failures = 0;
+      } catch (error) {
+        failures++;
+        if (!(error instanceof GeminiFileError) || !error.retryable || failures >= maxAttempts) {
+          throw error;
+        }
+
+        const delayMs = getBackoffDelay(this.retryPolicy, failures);
+        console.warn(`[GeminiFileManager] Chunk at offset ${offset} of ${displayName} failed (attempt ${failures}/${maxAttempts}): ${error.message}. Resuming in ${delayMs}ms`);
+        await this.delay(delayMs);
+
+        const status = await this.withRetry(`query upload of ${displayName}`, () => this.queryUpload(uploadUrl));
+        if (status.file) {
+          return status.file;
+        }
+        offset = status.offset;
+      }
+    }
+  }
+
+  /**
+   * Send one chunk; the last chunk finalizes the upload and returns the file
+   */
+  private async uploadChunk(uploadUrl: string, chunk: Buffer, offset: number, last: boolean): Promise<GeminiFile | undefined> {
+    const response = await this.send(uploadUrl, {
+      method: 'POST',
+      headers: {
+        'X-Goog-Upload-Command': last ? 'upload, finalize' : 'upload',
+        'X-Goog-Upload-Offset': String(offset)
+      },
+      body: chunk
+    });
+
+    if (!response.ok) {
+      throw await this.toFileError(response, 'Chunk upload failed');
+    }
+    if (!last) {
+      return undefined;
+    }
+    return this.readUploadedFile(response);
+  }
+
+  /**
+   * Ask how many bytes the server kept, or get the file if the upload already finalized
+   */
+  private async queryUpload(uploadUrl: string): Promise<{ offset: number; file?: GeminiFile }> {
+    const response = await this.send(uploadUrl, {
+      method: 'POST',
+      headers: { 'X-Goog-Upload-Command': 'query' }
+    });
+
+    if (!response.ok) {
+      throw await this.toFileError(response, 'Upload status query failed');
+    }
+
+    if (response.headers.get('x-goog-upload-status') === 'final') {
+      return { offset: 0, file: await this.readUploadedFile(response) };
+    }
+
+    const received = parseInt(response.headers.get('x-goog-upload-size-received') || '', 10);
+    if (isNaN(received)) {
+      throw new GeminiFileError('Upload status query did not report the received size');
+    }
+    return { offset: received };
+  }
+
+  private async readUploadedFile(response: Response): Promise<GeminiFile> {
+    const data = await response.json();
+    if (!data.file?.uri || !data.file?.name) {
+      throw new GeminiFileError('Upload finalized without a file URI');
+    }
+    return data.file;
+  }
+
+  /**
+   * Videos are processed after upload and can't be referenced until ACTIVE
+   */
+  private async waitUntilActive(file: GeminiFile): Promise<GeminiFile> {
+    const deadline = Date.now() + GeminiFileManager.PROCESSING_TIMEOUT_MS;
+    let current = file;
+
+    while (current.state !== 'ACTIVE') {
+      if (current.state === 'FAILED') {
+        throw new GeminiFileError(`File ${file.name} failed processing`);
+      }
+      if (Date.now() > deadline) {
+        throw new GeminiFileError(`File ${file.name} was still processing after ${GeminiFileManager.PROCESSING_TIMEOUT_MS}ms`, 408);
+      }
+
+      // Unspecified state means the API didn't say; check rather than assume ready
+      if (current.state === 'PROCESSING') {
+        await this.delay(GeminiFileManager.POLL_INTERVAL_MS);
+      }
+      current = await this.withRetry(`check ${file.name}`, () => this.get(file.name));
+    }
+
+    return current;
+  }
+
+  private async withRetry<T>(action: string, request: () => Promise<T>): Promise<T> {
+    const { maxAttempts } = this.retryPolicy;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await request();
+      } catch (error) {
+        if (!(error instanceof GeminiFileError) || !error.retryable || attempt >= maxAttempts) {
+          throw error;
+        }
+
+        const delayMs = getBackoffDelay(this.retryPolicy, attempt);
+        console.warn(`[GeminiFileManager] Failed to ${action} (attempt ${attempt}/${maxAttempts}): ${error.message}. Retrying in ${delayMs}ms`);
+        await this.delay(delayMs);
+      }
+    }
+  }
+
+  /**
+   * fetch with a timeout; timeouts and network failures become retryable errors
+   */
+  private async send(url: string, init: RequestInit): Promise<Response> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), GeminiFileManager.REQUEST_TIMEOUT);
+
+    try {
+      return await fetch(url, { ...init, signal: controller.signal });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new GeminiFileError(`Request timed out after ${GeminiFileManager.REQUEST_TIMEOUT}ms`, 408, true);
+      }
+      if (error instanceof TypeError) {
+        throw new GeminiFileError(`Network error: ${error.message}`, undefined, true);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  private async toFileError(response: Response, action: string): Promise<GeminiFileError> {
+    const errorText = await response.text();
+    let message = `HTTP ${response.status}: ${response.statusText}`;
+
+    try {
+      const errorData = JSON.parse(errorText);
+      if (errorData.error?.message) {
+        message = errorData.error.message;
+      }
+    } catch {
+      if (errorText) {
+        message += ` - ${errorText}`;
+      }
+    }
+
+    return new GeminiFileError(
+      `${action}: ${message}`,
+      response.status,
+      this.retryPolicy.retryableStatusCodes.includes(response.status)
+    );
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
@@ -3,27 +3,142 @@ export { TranscriptionService } from './transcription-service';
 
 // Individual modules
 export { VideoDownloader, VideoDownloadError } from './video-downloader';
-export { GeminiClient, GeminiTranscriptionError } from './gemini-client';
-export { TemplateGenerator } from './template-generator';
+export {
+  GeminiClient,
+  GeminiTranscriptionError,
+  GeminiResponseParseError
+} from './gemini-client';
+export { GeminiFileManager, GeminiFileError } from './gemini-files';
+export { AudioExtractor, AudioExtractionError } from './audio-extractor';
+export { DEFAULT_GEMINI_RETRY_POLICY } from './retry-policy';
+export {
+  marketingAnalysisSchema,
+  marketingSegmentsSchema,
+  parseMarketingAnalysis,
+  MARKETING_ANALYSIS_RESPONSE_SCHEMA
+} from './marketing-analysis';
+export { TemplateGenerator, TemplateResponseError } from './template-generator';
+export { WorkerPool, getWorkerPool, configureWorkerPool } from './worker-pool';
 export { TrainingDataExporter } from './training-data-exporter';
+export { SubtitleExporter } from './subtitle-exporter';
+export {
+  parseDiarization,
+  getSpeakerStats,
+  getPrimarySpeakerText
+} from './diarization';
+export {
+  parseLanguage,
+  normalizeLanguageCode,
+  isSameLanguage,
+  isLanguageCode,
+  getLanguageName
+} from './language';
+export {
+  SegmentFrameworkError,
+  DEFAULT_SEGMENT_FRAMEWORK_ID,
+  BUILT_IN_SEGMENT_FRAMEWORKS,
+  parseSegmentFramework,
+  resolveSegmentFramework,
+  listSegmentFrameworks,
+  saveSegmentFramework
+} from './segment-frameworks';
+export {
+  parseTimeline,
+  getSegmentRanges,
+  buildTimedWordAssignments
+} from './timeline';
+export {
+  alignSegments,
+  alignWordTimes,
+  normalizeWord,
+  MIN_ALIGNMENT_MATCH_RATIO
+} from './word-alignment';
+export {
+  PromptRegistryError,
+  PROMPTS,
+  getPrompt,
+  getPromptVersion,
+  getPromptVariables,
+  renderPrompt,
+  listPrompts,
+  diffPromptVersions
+} from './prompts';
+export {
+  scoreTranscriptionResult,
+  DEFAULT_QUALITY_THRESHOLD
+} from './quality';
+export {
+  GEMINI_MODEL_PRICING,
+  priceUsage,
+  summarizeUsage,
+  emptyUsageSummary,
+  formatCost
+} from './usage';
+
+// Constants
+export { SUPPORTED_VIDEO_PLATFORMS, GEMINI_MODELS } from './types';
 
 // Types
 export type {
+  VideoPlatform,
+  VideoSource,
   VideoMetadata,
   TranscriptionRequest,
   TranscriptionOptions,
   TranscriptionResult,
   TranscriptionJobResult,
+  VideoProgressStage,
+  VideoProgressEvent,
+  VideoProgressCallback,
   DownloadedVideo,
   GeminiResponse,
+  GeminiRetryPolicy,
+  AudioExtractionStats,
+  CacheHitStats,
+  TokenUsage,
+  GeminiUsage,
+  UsageTotals,
+  UsageSummary,
   ScriptTemplate,
+  SyntheticScript,
   MarketingSegments,
-  WordAssignment
+  SegmentCategory,
+  SegmentCategoryDefinition,
+  SegmentFramework,
+  WordAssignment,
+  AlignmentQuality,
+  SegmentAlignment,
+  TranscriptParsePath,
+  GeminiModel,
+  ModelFallbackReason,
+  ModelFallback,
+  PromptVersion,
+  PromptDefinition,
+  PromptRef,
+  QualityCheck,
+  QualityIssue,
+  QualityReport,
+  TimestampGranularity,
+  TimelineEntry,
+  TranscriptTimeline,
+  SpeakerUtterance,
+  SpeakerStats,
+  Diarization,
+  DetectedLanguage,
+  TranscriptTranslation
 } from './types';
 
+export type { MarketingAnalysis } from './marketing-analysis';
+export type { GeminiFile } from './gemini-files';
+export type { ModelPricing } from './usage';
+export type { PromptDiff, PromptDiffLine } from './prompts';
+export type { SubtitleFormat, SubtitleOptions, SubtitleCue } from './subtitle-exporter';
+export type { RateLimit, WorkerPoolOptions, WorkerPoolStats } from './worker-pool';
+
 // Training data types
 export type {
   TrainingExample,
   TrainingDataset,
-  ExportOptions
+  ExportOptions,
+  DatasetValidation
 } from './training-data-exporter'; 
\ No newline at end of file
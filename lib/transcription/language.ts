@@ -0,0 +1,163 @@
+import { z } from 'zod';
+import { buildSegmentsResponseSchema, TRANSCRIPTION_RESPONSE_SCHEMA } from './marketing-analysis';
+import { DetectedLanguage, TranscriptTranslation } from './types';
+
+// ISO 639-1/639-3 code with optional region or script subtags, e.g. "es", "pt-BR", "zh-Hant"
+const LANGUAGE_CODE_PATTERN = /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i;
+
+const languageSchema = z.object({
+  code: z.string().trim().regex(LANGUAGE_CODE_PATTERN, 'Not a language code'),
+  name: z.string().trim().min(1, 'Language name is empty')
+});
+
+const translationSchema = z.object({
+  transcription: z.string().trim().min(1, 'Translation is empty'),
+  marketingSegments: z.record(z.string()).optional()
+});
+
+const languageResponseSchema = z.object({
+  transcription: z.string().optional(),
+  language: languageSchema,
+  translation: translationSchema.optional()
+});
+
+/**
+ * Primary language subtag in lower case, so "pt-BR" and "pt" compare equal
+ */
+export function normalizeLanguageCode(code: string): string {
+  return code.trim().split('-')[0].toLowerCase();
+}
+
+export function isSameLanguage(a: string, b: string): boolean {
+  return normalizeLanguageCode(a) === normalizeLanguageCode(b);
+}
+
+export function isLanguageCode(code: string): boolean {
+  return LANGUAGE_CODE_PATTERN.test(code.trim());
+}
+
+/**
+ * English name of a language code, e.g. "Spanish" for "es"; the code itself
+ * when the runtime has no name for it
+ */
+export function getLanguageName(code: string): string {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(code) || code;
+  } catch {
+    return code;
+  }
+}
+
+/**
+ * Add the detected `language`, and a `translation` when a target language is
+ * given, to a Gemini `responseSchema`. The translation carries its own
+ * marketing segments when the base schema asks for them.
+ */
+export function buildLanguageResponseSchema(baseSchema?: any, translateTo?: string) {
+  const base = baseSchema || TRANSCRIPTION_RESPONSE_SCHEMA;
+  const properties: Record<string, any> = {
+    ...base.properties,
+    language: {
+      type: 'OBJECT',
+      description: 'The language mostly spoken in the video',
+      properties: {
+        code: { type: 'STRING', description: 'ISO 639-1 code, e.g. "en" or "es"' },
+        name: { type: 'STRING', description: 'English name of the language, e.g. "Spanish"' }
+      },
+      required: ['code', 'name'],
+      propertyOrdering: ['code', 'name']
+    }
+  };
+  const fields = ['language'];
+
+  if (translateTo) {
+    const translationProperties: Record<string, any> = {
+      transcription: { type: 'STRING', description: `The transcription translated into ${getLanguageName(translateTo)}` }
+    };
+    const categories: string[] | undefined = base.properties?.marketingSegments?.propertyOrdering;
+    if (categories) {
+      translationProperties.marketingSegments = buildSegmentsResponseSchema(categories, name => `Translation of the ${name} text`);
+    }
+
+    properties.translation = {
+      type: 'OBJECT',
+      properties: translationProperties,
+      required: Object.keys(translationProperties),
+      propertyOrdering: Object.keys(translationProperties)
+    };
+    fields.push('translation');
+  }
+
+  return {
+    ...base,
+    properties,
+    required: [...base.required, ...fields],
+    propertyOrdering: [...base.propertyOrdering, ...fields]
+  };
+}
+
+/**
+ * Prompt instructions matching buildLanguageResponseSchema. An expected
+ * language is passed as a hint only; the detected language is what is reported.
+ */
+export function buildLanguageInstructions(
+  options: { expectedLanguage?: string; translateTo?: string },
+  withSegments: boolean
+): string {
+  let instructions = '\n\nAlso return "language": the ISO 639-1 code and English name of the language mostly spoken in the video, detected from the audio.';
+
+  if (options.expectedLanguage) {
+    instructions += ` The content is expected to be in ${options.expectedLanguage}, but report the language that is actually spoken.`;
+  }
+
+  instructions += ' Always transcribe in the spoken language; never translate the transcription itself.';
+
+  if (options.translateTo) {
+    const target = `${getLanguageName(options.translateTo)} ("${options.translateTo}")`;
+    instructions += ` Then return "translation": the transcription translated into ${target}, natural rather than word for word, keeping the speaker's tone.`;
+    if (withSegments) {
+      instructions += ' Give the translation its own "marketingSegments" with the translation of each category\'s text, so the segments line up with the original.';
+    }
+    instructions += ' If the video is already in that language, copy the original.';
+  }
+
+  return instructions;
+}
+
+/**
+ * Parse and validate the detected language and translation of a response.
+ * A translation into the language that was spoken is dropped.
+ */
+export function parseLanguage(responseText: string, translateTo?: string):
+  | { success: true; language: DetectedLanguage; translation?: TranscriptTranslation; transcription?: string }
+  | { success: false; issues: string[] } {
+  let json: unknown;
+  try {
+    json = JSON.parse(responseText);
+  } catch (error) {
+    return {
+      success: false,
+      issues: [`Response is not valid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`]
+    };
+  }
+
+  const parsed = languageResponseSchema.safeParse(json);
+  if (!parsed.success) {
+    return {
+      success: false,
+      issues: parsed.error.issues.map(issue => `${issue.path.join('.') || 'response'}: ${issue.message}`)
+    };
+  }
+
+  const language: DetectedLanguage = {
+    code: normalizeLanguageCode(parsed.data.language.code),
+    name: parsed.data.language.name
+  };
+
+  let translation: TranscriptTranslation | undefined;
+  if (translateTo && parsed.data.translation && !isSameLanguage(language.code, translateTo)) {
+    translation = { language: translateTo.trim(), ...parsed.data.translation };
+  }
+
+  return { success: true, language, translation, transcription: parsed.data.transcription };
+}
@@ -0,0 +1,119 @@
+import { z } from 'zod';
+import { getCategoryNames, HOOK_BRIDGE_NUGGET_WTA_FRAMEWORK } from './segment-frameworks';
+import { MarketingSegments, SegmentFramework, WordAssignment } from './types';
+
+/**
+ * Segment text per category of a framework; the output keeps framework order
+ */
+export function buildMarketingSegmentsSchema(framework: SegmentFramework): z.ZodType<MarketingSegments> {
+  return z.object(Object.fromEntries(getCategoryNames(framework).map(name => [name, z.string()])));
+}
+
+export const marketingSegmentsSchema = buildMarketingSegmentsSchema(HOOK_BRIDGE_NUGGET_WTA_FRAMEWORK);
+
+/**
+ * Shape of a marketing analysis response from Gemini for a framework
+ */
+export function buildMarketingAnalysisSchema(framework: SegmentFramework) {
+  const names = getCategoryNames(framework);
+  const wordAssignmentSchema = z.object({
+    word: z.string(),
+    category: z.string().refine(category => names.includes(category), { message: `Category must be one of: ${names.join(', ')}` }),
+    position: z.number().int()
+  }) satisfies z.ZodType<WordAssignment>;
+
+  return z.object({
+    transcription: z.string().trim().min(1, 'Transcription is empty'),
+    marketingSegments: buildMarketingSegmentsSchema(framework),
+    wordAssignments: z.array(wordAssignmentSchema).optional()
+  });
+}
+
+export const marketingAnalysisSchema = buildMarketingAnalysisSchema(HOOK_BRIDGE_NUGGET_WTA_FRAMEWORK);
+
+export type MarketingAnalysis = z.infer<typeof marketingAnalysisSchema>;
+
+/**
+ * Gemini `responseSchema` segment object for a framework's categories, in order
+ */
+export function buildSegmentsResponseSchema(names: string[], describe: (name: string) => string) {
+  return {
+    type: 'OBJECT',
+    properties: Object.fromEntries(names.map(name => [name, { type: 'STRING', description: describe(name) }])),
+    required: [...names],
+    propertyOrdering: [...names]
+  };
+}
+
+/**
+ * Gemini `responseSchema` (OpenAPI subset) for marketing analysis, built from
+ * the framework's categories so the model is constrained to the same shape we
+ * validate. Word assignments are left out; the model is unreliable at producing them.
+ */
+export function buildMarketingAnalysisResponseSchema(framework: SegmentFramework) {
+  return {
+    type: 'OBJECT',
+    properties: {
+      transcription: {
+        type: 'STRING',
+        description: 'The complete, accurate transcription of the video audio'
+      },
+      marketingSegments: buildSegmentsResponseSchema(
+        getCategoryNames(framework),
+        name => `All words assigned to the ${name} category in original order`
+      )
+    },
+    required: ['transcription', 'marketingSegments'],
+    propertyOrdering: ['transcription', 'marketingSegments']
+  };
+}
+
+export const MARKETING_ANALYSIS_RESPONSE_SCHEMA = buildMarketingAnalysisResponseSchema(HOOK_BRIDGE_NUGGET_WTA_FRAMEWORK);
+
+/**
+ * Gemini `responseSchema` for a plain transcription, the base that timeline
+ * and speaker fields are added to when marketing analysis is off
+ */
+export const TRANSCRIPTION_RESPONSE_SCHEMA = {
+  type: 'OBJECT',
+  properties: {
+    transcription: {
+      type: 'STRING',
+      description: 'The complete, accurate transcription of the video audio'
+    }
+  },
+  required: ['transcription'],
+  propertyOrdering: ['transcription']
+};
+
+/**
+ * Parse and validate a marketing analysis response against a framework's
+ * categories. Returns the problems found instead of throwing so callers can
+ * wrap them in their own error type.
+ */
+export function parseMarketingAnalysis(
+  responseText: string,
+  framework: SegmentFramework = HOOK_BRIDGE_NUGGET_WTA_FRAMEWORK
+):
+  | { success: true; analysis: MarketingAnalysis }
+  | { success: false; issues: string[] } {
+  let json: unknown;
+  try {
+    json = JSON.parse(responseText);
+  } catch (error) {
+    return {
+      success: false,
+      issues: [`Response is not valid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`]
+    };
+  }
+
+  const parsed = buildMarketingAnalysisSchema(framework).safeParse(json);
+  if (!parsed.success) {
+    return {
+      success: false,
+      issues: parsed.error.issues.map(issue => `${issue.path.join('.') || 'response'}: ${issue.message}`)
+    };
+  }
+
+  return { success: true, analysis: parsed.data };
+}
@@ -0,0 +1,286 @@
+import { PromptDefinition, PromptRef } from './types';
+
+export class PromptRegistryError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'PromptRegistryError';
+  }
+}
+
+/**
+ * Every prompt sent to Gemini, with its full version history. To change a
+ * prompt, append a version instead of editing an existing one, so results
+ * keep pointing at the text that produced them.
+ */
+export const PROMPTS: PromptDefinition[] = [
+  {
+    id: 'marketing-analysis',
+    name: 'Marketing analysis',
+    description: 'Transcribes a video and splits the transcript into the categories of a segment framework',
+    versions: [
+      {
+        version: 1,
+        createdAt: '2026-10-19',
+        template: `You are an expert Script Analyst AI. Your task is to:
+
+1. First, transcribe the audio from this video accurately
+2. Then analyze the transcript and assign EVERY SINGLE WORD to one of the {{categoryCount}} categories of the {{frameworkName}} framework
+
+CRITICAL REQUIREMENTS:
+- Every word in the transcript must be assigned to exactly one category
+- No word can be left unassigned
+- No word can be assigned to multiple categories
+- The sum of all category text must equal the complete transcript
+- Maintain the original word order and spacing
+
+Respond with the transcription and the text assigned to each category ({{categoryNames}}) in the requested JSON structure.
+
+PRECISE CATEGORY DEFINITIONS:
+
+{{categoryDefinitions}}
+{{guidance}}
+ASSIGNMENT STRATEGY:
+1. Transcribe the complete audio first
+2. Find where each category starts and ends; categories usually follow the order listed above
+3. Assign each word to the most appropriate category
+4. Verify that concatenating all category text recreates the original transcript
+
+VALIDATION CHECK:
+- {{categorySum}} = Complete Transcript (word for word)
+
+LANGUAGE:
+The video can be in any language. Transcribe it in the language that is spoken and fill every category with the original words, never a translation. The definitions and examples above are in English; apply them by what the words do, not by their wording, so a transition or call to action in Spanish, Portuguese or German goes to the same category as its English equivalent.`
+      }
+    ]
+  },
+  {
+    id: 'strict-analysis',
+    name: 'Strict analysis rules',
+    description: 'Added to the marketing analysis prompt when a low-scoring result is analyzed again',
+    versions: [
+      {
+        version: 1,
+        createdAt: '2026-10-19',
+        template: `STRICT MODE:
+An earlier analysis of this video was rejected because its categories did not match the transcript. Follow these rules exactly:
+- Copy the transcript into the categories word for word: nothing paraphrased, summarized, added or repeated in two categories
+- Every word of the transcription must appear in one of the categories
+- Only leave a category empty when the video truly has no such part{{wordLimits}}`
+      }
+    ]
+  },
+  {
+    id: 'transcription',
+    name: 'Transcription',
+    description: 'Plain transcription without marketing analysis',
+    versions: [
+      {
+        version: 1,
+        createdAt: '2026-10-19',
+        template: 'Transcribe the audio from this video accurately. Put the transcription text, without any additional formatting or explanations, in "transcription".'
+      }
+    ]
+  },
+  {
+    id: 'template-generation',
+    name: 'Template generation',
+    description: 'Turns one segment of a script into a reusable template with [Placeholders]',
+    versions: [
+      {
+        version: 1,
+        createdAt: '2026-10-19',
+        template: `You are an expert in content strategy and pattern recognition. Your task is to convert a specific script component into a generic, reusable template. Analyze the provided text and identify its underlying structure. Replace specific nouns, topics, and outcomes with generic, bracketed placeholders like [Topic], [Target Audience], [Common Problem], [Desired Outcome], [Specific Action], or [Benefit]. The goal is to create a template that can be adapted to ANY subject.
+
+**Example:**
+- **Specific Text:** "If you want your videos to look pro, here is why you need to stop using your back camera."
+- **Generated Template:** "If you want to achieve [Desired Outcome], here is why you need to stop [Common Mistake]."
+
+**Component Type:** {{componentType}}
+**Specific Text to Analyze:**
+"{{componentText}}"
+
+**CRITICAL OUTPUT REQUIREMENT:** 
+Your response must start IMMEDIATELY with the opening brace { and contain NOTHING else except the JSON object.
+
+Expected JSON format:
+{
+  "template": "Your generic template with [Placeholders] here",
+  "placeholders": ["List", "of", "placeholder", "types", "used"],
+  "explanation": "Brief explanation of the pattern identified"
+}`
+      }
+    ]
+  },
+  {
+    id: 'synthetic-script',
+    name: 'Synthetic script',
+    description: 'Writes a new script on a topic by filling in a set of segment templates',
+    versions: [
+      {
+        version: 1,
+        createdAt: '2026-10-19',
+        template: `You are an expert, creative scriptwriter AI. Your task is to generate a complete, cohesive, and compelling short-form video script based on a given topic and a set of structural templates. Fill in the placeholders in the provided templates to create a natural, engaging script about the specified topic.
+
+**Topic to Write About:**
+{{topic}}
+
+**Script Templates:**
+{{templates}}
+
+**CRITICAL OUTPUT REQUIREMENT:** 
+Your response must start IMMEDIATELY with the opening brace { and contain NOTHING else except the JSON object.
+
+Expected JSON format:
+{
+{{scriptFields}}
+  "fullScript": "Complete script as one flowing piece of content"
+}`
+      }
+    ]
+  }
+];
+
+const VARIABLE_PATTERN = /\{\{(\w+)\}\}/g;
+
+export interface PromptDiffLine {
+  type: 'unchanged' | 'added' | 'removed';
+  text: string;
+}
+
+export interface PromptDiff {
+  id: string;
+  from: number;
+  to: number;
+  variables: { added: string[]; removed: string[] };
+  lines: PromptDiffLine[];
+}
+
+/**
+ * Names of the {{variables}} a template uses, in order of first use
+ */
+export function getPromptVariables(template: string): string[] {
+  const names: string[] = [];
+  const pattern = new RegExp(VARIABLE_PATTERN.source, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(template)) !== null) {
+    if (!names.includes(match[1])) {
+      names.push(match[1]);
+    }
+  }
+  return names;
+}
+
+function findPrompt(id: string): PromptDefinition {
+  const prompt = PROMPTS.find(definition => definition.id === id);
+  if (!prompt) {
+    throw new PromptRegistryError(`Unknown prompt: ${id}`, 404);
+  }
+  return prompt;
+}
+
+/**
+ * A version of a prompt, the latest when no version is given
+ */
+export function getPromptVersion(id: string, version?: number) {
+  const prompt = findPrompt(id);
+  const found = version === undefined
+    ? prompt.versions[prompt.versions.length - 1]
+    : prompt.versions.find(candidate => candidate.version === version);
+  if (!found) {
+    throw new PromptRegistryError(`Prompt ${id} has no version ${version}`, 404);
+  }
+  return { id, ...found, variables: getPromptVariables(found.template) };
+}
+
+/**
+ * Fill in a prompt's variables. Every variable the template uses must be given.
+ */
+export function renderPrompt(
+  id: string,
+  variables: Record<string, string | number> = {},
+  version?: number
+): { text: string; ref: PromptRef } {
+  const prompt = getPromptVersion(id, version);
+  const missing = prompt.variables.filter(name => variables[name] === undefined);
+  if (missing.length > 0) {
+    throw new PromptRegistryError(`Prompt ${id} v${prompt.version} is missing variables: ${missing.join(', ')}`);
+  }
+
+  return {
+    text: prompt.template.replace(VARIABLE_PATTERN, (_, name: string) => String(variables[name])),
+    ref: { id, version: prompt.version }
+  };
+}
+
+/**
+ * Every prompt with its versions' dates, changes and variables, without the
+ * template text
+ */
+export function listPrompts() {
+  return PROMPTS.map(prompt => ({
+    id: prompt.id,
+    name: prompt.name,
+    description: prompt.description,
+    latestVersion: prompt.versions[prompt.versions.length - 1].version,
+    versions: prompt.versions.map(({ template, ...version }) => ({
+      ...version,
+      variables: getPromptVariables(template)
+    }))
+  }));
+}
+
+/**
+ * A prompt with the full text of every version
+ */
+export function getPrompt(id: string): PromptDefinition {
+  return findPrompt(id);
+}
+
+/**
+ * Line-by-line difference between two versions of a prompt
+ */
+export function diffPromptVersions(id: string, from: number, to: number): PromptDiff {
+  const before = getPromptVersion(id, from);
+  const after = getPromptVersion(id, to);
+  const a = before.template.split('\n');
+  const b = after.template.split('\n');
+
+  // lengths[i][j] is the longest common subsequence of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: PromptDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ type: 'unchanged', text: a[i] });
+      i++;
+      j++;
+    } else if (i < a.length && (j === b.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+      lines.push({ type: 'removed', text: a[i] });
+      i++;
+    } else {
+      lines.push({ type: 'added', text: b[j] });
+      j++;
+    }
+  }
+
+  return {
+    id,
+    from,
+    to,
+    variables: {
+      added: after.variables.filter(name => !before.variables.includes(name)),
+      removed: before.variables.filter(name => !after.variables.includes(name))
+    },
+    lines
+  };
+}
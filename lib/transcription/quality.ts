@@ -0,0 +1,84 @@
+import { QualityIssue, QualityReport, SegmentFramework, TranscriptionResult, TranscriptParsePath } from './types';
+
+// Results scoring below this are analyzed again with the strict prompt
+export const DEFAULT_QUALITY_THRESHOLD = 60;
+
+const PENALTIES = {
+  rawParsePath: 50,
+  lowAlignment: 30,
+  emptySegment: 15,
+  longSegment: 10,
+  uncoveredTranscript: 50 // At 0% coverage; scaled down as coverage rises
+};
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Score a successful result out of 100 by taking points off for each problem
+ * that makes it unfit for training: an empty transcript, a transcript read
+ * from the raw response text, segments that are empty, too long or don't line
+ * up with the transcript, and transcript words no segment covers.
+ *
+ * Pass the framework the segments follow to check segment lengths.
+ */
+export function scoreTranscriptionResult(
+  result: TranscriptionResult,
+  parsePath?: TranscriptParsePath,
+  framework?: SegmentFramework
+): QualityReport {
+  const issues: QualityIssue[] = [];
+
+  if (!result.transcription.trim()) {
+    issues.push({ check: 'transcript', message: 'Transcript is empty', penalty: 100 });
+  }
+
+  if (parsePath === 'raw') {
+    issues.push({
+      check: 'parse_path',
+      message: 'Transcript was taken from the raw response text because the response had no transcription field',
+      penalty: PENALTIES.rawParsePath
+    });
+  }
+
+  if (result.marketingSegments) {
+    for (const [category, text] of Object.entries(result.marketingSegments)) {
+      const words = countWords(text || '');
+      const maxWords = framework?.categories.find(definition => definition.name === category)?.maxWords;
+      if (words === 0) {
+        issues.push({ check: 'empty_segment', message: `${category} segment is empty`, penalty: PENALTIES.emptySegment });
+      } else if (maxWords && words > maxWords) {
+        issues.push({
+          check: 'segment_length',
+          message: `${category} segment is ${words} words; it should be at most ${maxWords}`,
+          penalty: PENALTIES.longSegment
+        });
+      }
+    }
+  }
+
+  const alignment = result.alignment;
+  if (alignment) {
+    if (alignment.quality === 'low') {
+      issues.push({
+        check: 'alignment',
+        message: `Segments don't line up with the transcript: ${alignment.issues.join('; ')}`,
+        penalty: PENALTIES.lowAlignment
+      });
+    }
+
+    const coverage = alignment.transcriptWords > 0 ? alignment.matchedWords / alignment.transcriptWords : 0;
+    const penalty = Math.round((1 - coverage) * PENALTIES.uncoveredTranscript);
+    if (penalty > 0) {
+      issues.push({
+        check: 'coverage',
+        message: `Segments cover ${Math.round(coverage * 100)}% of the transcript`,
+        penalty
+      });
+    }
+  }
+
+  const score = Math.max(0, 100 - issues.reduce((total, issue) => total + issue.penalty, 0));
+  return { score, issues, parsePath };
+}
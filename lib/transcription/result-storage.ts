@@ -0,0 +1,149 @@
+import { uploadToGoogleDrive } from '@/lib/google-drive';
+import { TranscriptionJobResult, TranscriptionOptions } from './types';
+import { formatCategoryLabel } from './segment-frameworks';
+
+/**
+ * Save transcription results to Google Drive, one summary plus an analysis and data file per video
+ */
+export async function saveTranscriptionResults(
+  result: TranscriptionJobResult,
+  options: TranscriptionOptions = {}
+) {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const folderName = `Marketing_Analysis_${timestamp}`;
+  
+  // Create summary data
+  const summaryData = {
+    jobInfo: {
+      timestamp: new Date().toISOString(),
+      totalVideos: result.totalProcessed,
+      successful: result.totalProcessed - result.totalFailed,
+      failed: result.totalFailed,
+      processingTime: result.processingTime
+    },
+    options,
+    results: result.results.map((r: any) => ({
+      videoId: r.videoId,
+      platform: r.platform,
+      success: r.success,
+      transcription: r.transcription,
+      marketingSegments: r.marketingSegments,
+      processingTime: r.processingTime,
+      error: r.error
+    })),
+    errors: result.errors
+  };
+
+  // Create individual transcription files for successful results
+  const files = [];
+  
+  // Add summary file
+  files.push({
+    name: 'marketing-analysis-summary.json',
+    content: JSON.stringify(summaryData, null, 2),
+    mimeType: 'application/json'
+  });
+
+  // Add individual marketing analysis files
+  const successfulResults = result.results.filter((r: any) => r.success);
+  for (const transcriptionResult of successfulResults) {
+    const fileName = `${transcriptionResult.platform}_${transcriptionResult.videoId}_marketing_analysis.txt`;
+    let content = `Video: ${transcriptionResult.videoUrl}\n`;
+    content += `Platform: ${transcriptionResult.platform}\n`;
+    content += `Processing Time: ${transcriptionResult.processingTime}ms\n`;
+    content += `Timestamp: ${new Date().toISOString()}\n\n`;
+    
+    // Add marketing segments if available
+    if (transcriptionResult.marketingSegments) {
+      content += `MARKETING SEGMENTS:\n`;
+      if (transcriptionResult.segmentFramework) {
+        content += `Framework: ${transcriptionResult.segmentFramework}\n\n`;
+      }
+      Object.entries(transcriptionResult.marketingSegments).forEach(([category, text]) => {
+        content += `${formatCategoryLabel(category)}: ${text}\n\n`;
+      });
+      content += `${'='.repeat(50)}\n\n`;
+    }
+    
+    // Add word assignments if available
+    if (transcriptionResult.wordAssignments && transcriptionResult.wordAssignments.length > 0) {
+      content += `WORD-LEVEL CATEGORY ASSIGNMENTS:\n`;
+      
+      // Sort by position
+      const sortedWords = transcriptionResult.wordAssignments.sort((a: any, b: any) => a.position - b.position);
+      
+      // Group by category for summary
+      const categories = transcriptionResult.marketingSegments
+        ? Object.keys(transcriptionResult.marketingSegments)
+        : Array.from(new Set(sortedWords.map((w: any) => w.category as string)));
+      const categoryGroups = Object.fromEntries(
+        categories.map(category => [category, sortedWords.filter((w: any) => w.category === category)])
+      );
+      
+      // Add category statistics
+      content += `\nCategory Distribution:\n`;
+      Object.entries(categoryGroups).forEach(([category, words]) => {
+        const percentage = ((words.length / sortedWords.length) * 100).toFixed(1);
+        content += `- ${category}: ${words.length} words (${percentage}%)\n`;
+      });
+      
+      content += `\nWord-by-Word Assignment:\n`;
+      sortedWords.forEach((assignment: any, index: number) => {
+        content += `${assignment.position}. [${assignment.category}] ${assignment.word}\n`;
+      });
+      
+      content += `\n${'='.repeat(50)}\n\n`;
+    }
+    
+    content += `FULL TRANSCRIPTION:\n${transcriptionResult.transcription}\n`;
+
+    files.push({
+      name: fileName,
+      content,
+      mimeType: 'text/plain'
+    });
+
+    // Also create a separate JSON file with structured data
+    const jsonFileName = `${transcriptionResult.platform}_${transcriptionResult.videoId}_data.json`;
+    const jsonContent = {
+      video: {
+        id: transcriptionResult.videoId,
+        url: transcriptionResult.videoUrl,
+        platform: transcriptionResult.platform
+      },
+      analysis: {
+        transcription: transcriptionResult.transcription,
+        marketingSegments: transcriptionResult.marketingSegments,
+        wordAssignments: transcriptionResult.wordAssignments,
+        alignment: transcriptionResult.alignment,
+        quality: transcriptionResult.quality,
+        model: transcriptionResult.model,
+        modelFallbacks: transcriptionResult.modelFallbacks,
+        prompts: transcriptionResult.prompts,
+        timeline: transcriptionResult.timeline,
+        language: transcriptionResult.language,
+        translation: transcriptionResult.translation,
+        processingTime: transcriptionResult.processingTime,
+        timestamp: new Date().toISOString()
+      }
+    };
+
+    files.push({
+      name: jsonFileName,
+      content: JSON.stringify(jsonContent, null, 2),
+      mimeType: 'application/json'
+    });
+  }
+
+  // Upload to Google Drive
+  const uploadResults = await uploadToGoogleDrive(files, folderName);
+  
+  return {
+    folderName,
+    folderUrl: uploadResults.folderUrl,
+    files: uploadResults.files.map(f => ({
+      name: f.name,
+      url: f.url
+    }))
+  };
+} 
\ No newline at end of file
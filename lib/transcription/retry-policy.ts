@@ -0,0 +1,19 @@
+import { GeminiRetryPolicy } from './types';
+
+export const DEFAULT_GEMINI_RETRY_POLICY: GeminiRetryPolicy = {
+  maxAttempts: 4,
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+  backoffMultiplier: 2,
+  maxRetryAfterMs: 60000,
+  retryableStatusCodes: [408, 429, 500, 502, 503, 504]
+};
+
+/**
+ * Exponential backoff with jitter for the wait after the given attempt
+ */
+export function getBackoffDelay(policy: GeminiRetryPolicy, attempt: number): number {
+  const { initialDelayMs, maxDelayMs, backoffMultiplier } = policy;
+  const delay = Math.min(initialDelayMs * Math.pow(backoffMultiplier, attempt - 1), maxDelayMs);
+  return Math.round(delay / 2 + Math.random() * delay / 2);
+}
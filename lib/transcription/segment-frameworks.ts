@@ -0,0 +1,337 @@
+import { z } from 'zod';
+import { withJobStore } from '@/lib/job-store';
+import { SegmentFramework } from './types';
+
+export class SegmentFrameworkError extends Error {
+  constructor(
+    message: string,
+    public issues: string[] = [],
+    public statusCode: number = 400
+  ) {
+    super(issues.length > 0 ? `${message}: ${issues.join('; ')}` : message);
+    this.name = 'SegmentFrameworkError';
+  }
+}
+
+export const DEFAULT_SEGMENT_FRAMEWORK_ID = 'hook-bridge-nugget-wta';
+
+export const HOOK_BRIDGE_NUGGET_WTA_FRAMEWORK: SegmentFramework = {
+  id: DEFAULT_SEGMENT_FRAMEWORK_ID,
+  name: 'Hook / Bridge / Golden Nugget / WTA',
+  description: 'Grab attention, connect, deliver the value, then give a reason to act',
+  builtIn: true,
+  categories: [
+    {
+      name: 'Hook',
+      templateKey: 'hook',
+      maxWords: 30,
+      definition: 'ONLY the initial attention-grabbing statement that presents the core problem, controversial opinion, or bold claim. This should be ONE complete sentence or thought that immediately hooks the viewer. Stop at the first natural pause or when transitional language begins.',
+      examples: [
+        "You can't get off that fucking phone and that's the reason why you can't create shit.",
+        'Batch recording content got to be one of the most overrated things in content creation.'
+      ]
+    },
+    {
+      name: 'Bridge',
+      templateKey: 'bridge',
+      definition: 'Words that build connection, establish credibility, provide context, or transition from the hook to the main content: transitional phrases, credibility builders and disclaimers, context setting and audience acknowledgment, and setup for the main teaching point.',
+      examples: [
+        "Let's talk about it.",
+        "Now look, before y'all start typing...",
+        'Vamos a hablar de eso.',
+        'Bora lá.'
+      ]
+    },
+    {
+      name: 'Golden Nugget',
+      templateKey: 'nugget',
+      definition: 'Words containing the main value, insights, tips, or core educational content. The actual teaching or valuable information being shared.'
+    },
+    {
+      name: 'WTA',
+      templateKey: 'wta',
+      definition: 'Why To Act: words that create urgency, provide calls-to-action, or motivate immediate response. Usually at the end encouraging follow, subscribe, or take action.',
+      examples: [
+        'So yeah, this is your sign to try this shit out too.',
+        'Folg mir für mehr.'
+      ]
+    }
+  ],
+  guidance: `DO NOT include in Hook:
+- Transitional phrases like "Let's talk about it"
+- Explanatory setup like "Now look, before y'all start typing..."
+- Multiple sentences that elaborate on the initial statement
+- Any "bridge" language that connects to the main content
+
+Hook should be SHORT and PUNCHY (typically 1 sentence), Bridge should handle transitions and setup, Golden Nugget should contain the main value, and WTA should drive action.`
+};
+
+export const BUILT_IN_SEGMENT_FRAMEWORKS: SegmentFramework[] = [
+  HOOK_BRIDGE_NUGGET_WTA_FRAMEWORK,
+  {
+    id: 'aida',
+    name: 'AIDA',
+    description: 'Attention, Interest, Desire, Action',
+    builtIn: true,
+    categories: [
+      {
+        name: 'Attention',
+        templateKey: 'attention',
+        maxWords: 30,
+        definition: 'The opening that stops the scroll: a bold claim, surprising fact, question or visual cue. Usually one sentence.',
+        examples: ['Nobody tells you this about saving money.']
+      },
+      {
+        name: 'Interest',
+        templateKey: 'interest',
+        definition: 'Builds curiosity with context, facts or a relatable situation that makes the viewer want to keep watching.',
+        examples: ['Most people put whatever is left at the end of the month into savings, and that is exactly why there is never anything left.']
+      },
+      {
+        name: 'Desire',
+        templateKey: 'desire',
+        definition: 'Makes the viewer want the outcome: benefits, results, proof and the picture of life after following the advice.',
+        examples: ['Flip it around and you will have an emergency fund in six months without feeling it.']
+      },
+      {
+        name: 'Action',
+        templateKey: 'action',
+        definition: 'Tells the viewer exactly what to do next: follow, comment, save, buy or try the advice.',
+        examples: ['Set up the transfer tonight and follow for part two.']
+      }
+    ]
+  },
+  {
+    id: 'pas',
+    name: 'PAS',
+    description: 'Problem, Agitate, Solution',
+    builtIn: true,
+    categories: [
+      {
+        name: 'Problem',
+        templateKey: 'problem',
+        maxWords: 40,
+        definition: 'Names the pain point or frustration the viewer has, usually in the first sentence or two.',
+        examples: ['Your videos keep getting stuck at 200 views.']
+      },
+      {
+        name: 'Agitate',
+        templateKey: 'agitate',
+        definition: 'Makes the problem feel bigger and more urgent: consequences, emotions, failed attempts and what it costs to ignore it.',
+        examples: ["You post every day, you follow every trend, and it still feels like you're talking to an empty room."]
+      },
+      {
+        name: 'Solution',
+        templateKey: 'solution',
+        definition: 'The fix: the method, tip or product that solves the problem, including any call to action that follows it.',
+        examples: ['Spend the first two seconds on the result, not the intro. Try it on your next three posts.']
+      }
+    ]
+  },
+  {
+    id: 'storytelling',
+    name: 'Storytelling',
+    description: 'Setup, Conflict, Resolution, Lesson',
+    builtIn: true,
+    categories: [
+      {
+        name: 'Setup',
+        templateKey: 'setup',
+        definition: 'Introduces the situation, the character (often the creator) and the stakes, including any teaser line that opens the story.',
+        examples: ['Two years ago I was working a night shift and posting videos on my lunch break.']
+      },
+      {
+        name: 'Conflict',
+        templateKey: 'conflict',
+        definition: 'The obstacle, setback or turning point that creates tension.',
+        examples: ['Then my manager found my account and told me to pick one.']
+      },
+      {
+        name: 'Resolution',
+        templateKey: 'resolution',
+        definition: 'How the conflict was resolved: the decision, the outcome and what happened next.',
+        examples: ['I picked the videos. Six months later they paid more than the job.']
+      },
+      {
+        name: 'Lesson',
+        templateKey: 'lesson',
+        definition: 'The takeaway the viewer should remember and any call to action that closes the video.',
+        examples: ["If you're waiting for permission, this is it. Follow if you're starting too."]
+      }
+    ]
+  }
+];
+
+const frameworkIdPattern = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const templateKeyPattern = /^[a-z][a-z0-9_]*$/;
+
+const categorySchema = z.object({
+  name: z.string().trim().min(1, 'Category name is empty').max(40, 'Category name is longer than 40 characters'),
+  templateKey: z.string().trim().regex(templateKeyPattern, 'Template key must be lower case letters, digits and underscores').optional(),
+  definition: z.string().trim().min(1, 'Category definition is empty'),
+  examples: z.array(z.string().trim().min(1)).optional(),
+  maxWords: z.number().int().positive('Max words must be positive').optional()
+});
+
+const segmentFrameworkSchema = z.object({
+  id: z.string().trim().regex(frameworkIdPattern, 'Id must be lower case letters and digits separated by hyphens'),
+  name: z.string().trim().min(1, 'Name is empty'),
+  description: z.string().trim().optional(),
+  categories: z.array(categorySchema)
+    .min(2, 'A framework needs at least 2 categories')
+    .max(8, 'A framework can have at most 8 categories'),
+  guidance: z.string().trim().optional()
+});
+
+/**
+ * ScriptTemplate key for a category name, e.g. "call_to_action" for "Call to Action"
+ */
+export function toTemplateKey(name: string): string {
+  const key = name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+  return /^[a-z]/.test(key) ? key : `category_${key}`;
+}
+
+/**
+ * Validate a user-defined framework, filling in missing template keys.
+ * Category names and template keys must be unique; "framework" is reserved
+ * because templates use it to record their framework.
+ */
+export function parseSegmentFramework(input: unknown):
+  | { success: true; framework: SegmentFramework }
+  | { success: false; issues: string[] } {
+  const parsed = segmentFrameworkSchema.safeParse(input);
+  if (!parsed.success) {
+    return {
+      success: false,
+      issues: parsed.error.issues.map(issue => `${issue.path.join('.') || 'framework'}: ${issue.message}`)
+    };
+  }
+
+  const categories = parsed.data.categories.map(category => ({
+    ...category,
+    templateKey: category.templateKey || toTemplateKey(category.name)
+  }));
+
+  const issues: string[] = [];
+  const names = categories.map(category => category.name.toLowerCase());
+  const keys = categories.map(category => category.templateKey);
+  names.forEach((name, index) => {
+    if (names.indexOf(name) !== index) {
+      issues.push(`categories.${index}.name: Duplicate category "${categories[index].name}"`);
+    }
+  });
+  keys.forEach((key, index) => {
+    if (key === 'framework') {
+      issues.push(`categories.${index}.templateKey: "framework" is reserved`);
+    } else if (keys.indexOf(key) !== index) {
+      issues.push(`categories.${index}.templateKey: Duplicate template key "${key}"`);
+    }
+  });
+  if (issues.length > 0) {
+    return { success: false, issues };
+  }
+
+  return { success: true, framework: { ...parsed.data, categories } };
+}
+
+export function getBuiltInSegmentFramework(id: string): SegmentFramework | undefined {
+  return BUILT_IN_SEGMENT_FRAMEWORKS.find(framework => framework.id === id);
+}
+
+/**
+ * Look up a framework by id (built-in first, then saved ones) or validate an
+ * inline definition. No reference means the default framework.
+ */
+export async function resolveSegmentFramework(ref?: string | SegmentFramework): Promise<SegmentFramework> {
+  if (!ref) {
+    return HOOK_BRIDGE_NUGGET_WTA_FRAMEWORK;
+  }
+
+  if (typeof ref !== 'string') {
+    if (ref.builtIn && getBuiltInSegmentFramework(ref.id)) {
+      return getBuiltInSegmentFramework(ref.id)!;
+    }
+    const parsed = parseSegmentFramework(ref);
+    if (!parsed.success) {
+      throw new SegmentFrameworkError('Invalid segment framework', parsed.issues);
+    }
+    return parsed.framework;
+  }
+
+  const framework = getBuiltInSegmentFramework(ref)
+    || await withJobStore(`load segment framework ${ref}`, store => store.getSegmentFramework(ref));
+  if (!framework) {
+    throw new SegmentFrameworkError(`Unknown segment framework: ${ref}`, [], 404);
+  }
+  return framework;
+}
+
+/**
+ * Built-in frameworks followed by saved ones
+ */
+export async function listSegmentFrameworks(): Promise<SegmentFramework[]> {
+  const saved = await withJobStore('list segment frameworks', store => store.listSegmentFrameworks());
+  return [...BUILT_IN_SEGMENT_FRAMEWORKS, ...(saved || [])];
+}
+
+/**
+ * Validate and save a user-defined framework, replacing an earlier one with
+ * the same id. Built-in ids can't be reused.
+ */
+export async function saveSegmentFramework(input: unknown): Promise<SegmentFramework> {
+  const parsed = parseSegmentFramework(input);
+  if (!parsed.success) {
+    throw new SegmentFrameworkError('Invalid segment framework', parsed.issues);
+  }
+  if (getBuiltInSegmentFramework(parsed.framework.id)) {
+    throw new SegmentFrameworkError(`"${parsed.framework.id}" is a built-in framework`, [], 409);
+  }
+
+  const saved = await withJobStore(`save segment framework ${parsed.framework.id}`, store =>
+    store.saveSegmentFramework(parsed.framework)
+  );
+  if (!saved) {
+    throw new SegmentFrameworkError('Segment framework could not be saved', [], 500);
+  }
+
+  console.log(`[SegmentFrameworks] Saved framework ${saved.id} with ${saved.categories.length} categories`);
+  return saved;
+}
+
+export function isDefaultSegmentFramework(id?: string): boolean {
+  return !id || id === DEFAULT_SEGMENT_FRAMEWORK_ID;
+}
+
+const DEFAULT_CATEGORY_EMOJI: Record<string, string> = {
+  Hook: '🎣',
+  Bridge: '🌉',
+  'Golden Nugget': '💎',
+  WTA: '🎯'
+};
+
+/**
+ * Category name for text reports, with an emoji for the default categories
+ */
+export function formatCategoryLabel(category: string): string {
+  const emoji = DEFAULT_CATEGORY_EMOJI[category];
+  return emoji ? `${emoji} ${category}` : category;
+}
+
+export function getCategoryNames(framework: SegmentFramework): string[] {
+  return framework.categories.map(category => category.name);
+}
+
+/**
+ * Category definitions and examples for the analysis prompt
+ */
+export function formatCategoryDefinitions(framework: SegmentFramework): string {
+  return framework.categories
+    .map(category => {
+      let text = `${category.name}: ${category.definition}`;
+      if (category.examples && category.examples.length > 0) {
+        text += `\n\nExamples of ${category.name}:\n${category.examples.map(example => `- "${example}"`).join('\n')}`;
+      }
+      return text;
+    })
+    .join('\n\n');
+}
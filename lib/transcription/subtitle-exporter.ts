@@ -0,0 +1,203 @@
+import { toTemplateKey } from './segment-frameworks';
+import { SegmentCategory, TranscriptTimeline, TranscriptionResult } from './types';
+
+export type SubtitleFormat = 'srt' | 'vtt';
+
+export interface SubtitleOptions {
+  segmentStyles?: boolean; // Mark cues with their marketing segment (WebVTT classes, SRT font colors)
+  maxCharsPerCue?: number; // Word timelines are grouped into cues up to this length
+  maxCueDuration?: number; // Seconds
+}
+
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  text: string;
+  category?: SegmentCategory;
+}
+
+/**
+ * Turns a transcript timeline into SRT or WebVTT captions. Cues never span two
+ * marketing segments, so each can be styled by the segment it belongs to.
+ */
+export class SubtitleExporter {
+  private static readonly MAX_LINE_LENGTH = 42;
+  private static readonly DEFAULT_MAX_CHARS_PER_CUE = 84; // Two lines
+  private static readonly DEFAULT_MAX_CUE_DURATION = 5;
+  private static readonly MIN_CUE_DURATION = 0.5;
+
+  // WebVTT class names used with ::cue(.name); other frameworks' categories
+  // use their template key
+  static readonly SEGMENT_CLASSES: Record<SegmentCategory, string> = {
+    Hook: 'hook',
+    Bridge: 'bridge',
+    'Golden Nugget': 'nugget',
+    WTA: 'wta'
+  };
+
+  static readonly SEGMENT_COLORS: Record<SegmentCategory, string> = {
+    Hook: '#facc15',
+    Bridge: '#60a5fa',
+    'Golden Nugget': '#fb923c',
+    WTA: '#4ade80'
+  };
+
+  // Colors for categories without one above, in order of first appearance
+  static readonly SEGMENT_PALETTE = ['#facc15', '#60a5fa', '#fb923c', '#4ade80', '#f472b6', '#a78bfa', '#22d3ee', '#f87171'];
+
+  /**
+   * Group timeline entries into cues. Segment timelines keep one cue per phrase;
+   * word timelines are joined until a sentence ends, the segment changes or the
+   * cue reaches its length or duration limit.
+   */
+  static buildCues(timeline: TranscriptTimeline, options: SubtitleOptions = {}): SubtitleCue[] {
+    const maxChars = options.maxCharsPerCue || this.DEFAULT_MAX_CHARS_PER_CUE;
+    const maxDuration = options.maxCueDuration || this.DEFAULT_MAX_CUE_DURATION;
+    const cues: SubtitleCue[] = [];
+    let current: SubtitleCue | undefined;
+
+    for (const entry of timeline.entries) {
+      const startsNewCue = !current
+        || timeline.granularity === 'segment'
+        || current.category !== entry.category
+        || current.text.length + 1 + entry.text.length > maxChars
+        || entry.end - current.start > maxDuration
+        || /[.!?]["')\]]*$/.test(current.text);
+
+      if (startsNewCue) {
+        current = { start: entry.start, end: entry.end, text: entry.text, category: entry.category };
+        cues.push(current);
+      } else {
+        current!.text += ` ${entry.text}`;
+        current!.end = Math.max(current!.end, entry.end);
+      }
+    }
+
+    // Give zero-length cues a readable duration without running into the next cue
+    return cues.map((cue, index) => {
+      const next = cues[index + 1];
+      let end = Math.max(cue.end, cue.start + this.MIN_CUE_DURATION);
+      if (next) {
+        end = Math.max(cue.start, Math.min(end, next.start));
+      }
+      return { ...cue, end };
+    });
+  }
+
+  /**
+   * Class name and color for each category in the timeline, in order of first
+   * appearance
+   */
+  static getSegmentStyles(timeline: TranscriptTimeline): Map<SegmentCategory, { className: string; color: string }> {
+    const styles = new Map<SegmentCategory, { className: string; color: string }>();
+    for (const entry of timeline.entries) {
+      if (entry.category && !styles.has(entry.category)) {
+        styles.set(entry.category, {
+          className: this.SEGMENT_CLASSES[entry.category] || toTemplateKey(entry.category),
+          color: this.SEGMENT_COLORS[entry.category] || this.SEGMENT_PALETTE[styles.size % this.SEGMENT_PALETTE.length]
+        });
+      }
+    }
+    return styles;
+  }
+
+  static toSrt(timeline: TranscriptTimeline, options: SubtitleOptions = {}): string {
+    const styles = this.getSegmentStyles(timeline);
+    return this.buildCues(timeline, options)
+      .map((cue, index) => {
+        let text = this.wrapLines(cue.text);
+        if (options.segmentStyles && cue.category) {
+          text = `<font color="${styles.get(cue.category)!.color}">${text}</font>`;
+        }
+        return `${index + 1}\n${this.formatTime(cue.start, ',')} --> ${this.formatTime(cue.end, ',')}\n${text}\n`;
+      })
+      .join('\n');
+  }
+
+  static toWebVtt(timeline: TranscriptTimeline, options: SubtitleOptions = {}): string {
+    const blocks = ['WEBVTT\n'];
+    const styles = this.getSegmentStyles(timeline);
+
+    if (options.segmentStyles && styles.size > 0) {
+      const rules = Array.from(styles.values())
+        .map(({ className, color }) => `::cue(.${className}) { color: ${color}; }`);
+      blocks.push(`STYLE\n${rules.join('\n')}\n`);
+    }
+
+    for (const cue of this.buildCues(timeline, options)) {
+      let text = this.wrapLines(this.escapeVtt(cue.text));
+      if (options.segmentStyles && cue.category) {
+        text = `<c.${styles.get(cue.category)!.className}>${text}</c>`;
+      }
+      blocks.push(`${this.formatTime(cue.start, '.')} --> ${this.formatTime(cue.end, '.')}\n${text}\n`);
+    }
+
+    return blocks.join('\n');
+  }
+
+  /**
+   * Prepare a result's captions for download; the result must have a timeline
+   */
+  static createDownloadableContent(
+    result: TranscriptionResult,
+    format: SubtitleFormat = 'srt',
+    options: SubtitleOptions = {}
+  ): { content: string; filename: string; mimeType: string } {
+    if (!result.timeline || result.timeline.entries.length === 0) {
+      throw new Error(`Transcription of ${result.videoId} has no timeline; transcribe it with the timestamps option`);
+    }
+
+    // Results can come from the client, so keep only characters that are safe in a Content-Disposition filename
+    const basename = [result.platform, result.videoId]
+      .map(part => String(part).replace(/[^A-Za-z0-9_-]/g, '_'))
+      .join('_');
+    if (format === 'vtt') {
+      return {
+        content: this.toWebVtt(result.timeline, options),
+        filename: `${basename}.vtt`,
+        mimeType: 'text/vtt'
+      };
+    } else {
+      return {
+        content: this.toSrt(result.timeline, options),
+        filename: `${basename}.srt`,
+        mimeType: 'application/x-subrip'
+      };
+    }
+  }
+
+  /**
+   * Split text longer than one line at the space closest to its middle
+   */
+  private static wrapLines(text: string): string {
+    if (text.length <= this.MAX_LINE_LENGTH) {
+      return text;
+    }
+
+    const middle = text.length / 2;
+    let splitAt = -1;
+    for (let i = 0; i < text.length; i++) {
+      if (text[i] === ' ' && (splitAt === -1 || Math.abs(i - middle) < Math.abs(splitAt - middle))) {
+        splitAt = i;
+      }
+    }
+    return splitAt === -1 ? text : `${text.slice(0, splitAt)}\n${text.slice(splitAt + 1)}`;
+  }
+
+  private static escapeVtt(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  }
+
+  /**
+   * HH:MM:SS,mmm for SRT and HH:MM:SS.mmm for WebVTT
+   */
+  private static formatTime(seconds: number, separator: ',' | '.'): string {
+    const totalMs = Math.round(seconds * 1000);
+    const hours = Math.floor(totalMs / 3600000);
+    const minutes = Math.floor((totalMs % 3600000) / 60000);
+    const secs = Math.floor((totalMs % 60000) / 1000);
+    const ms = totalMs % 1000;
+    const pad = (value: number, length: number = 2) => String(value).padStart(length, '0');
+    return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+  }
+}
@@ -1,18 +1,18 @@
 import { GeminiClient } from './gemini-client';
-import { MarketingSegments } from './types';
+import { renderPrompt } from './prompts';
+import { HOOK_BRIDGE_NUGGET_WTA_FRAMEWORK, isDefaultSegmentFramework } from './segment-frameworks';
+import { GeminiUsage, MarketingSegments, PromptRef, ScriptTemplate, SegmentFramework, UsageSummary } from './types';
+import { priceUsage, summarizeUsage } from './usage';
 
-export interface ScriptTemplate {
-  hook: string;
-  bridge: string;
-  nugget: string;
-  wta: string;
-}
+export type { ScriptTemplate };
 
 export interface TemplateGenerationResult {
   success: boolean;
   template?: ScriptTemplate;
   error?: string;
   processingTime: number;
+  usage?: UsageSummary; // One call per segment, including failed segments
+  prompt?: PromptRef;
 }
 
 export interface SyntheticScriptResult {
@@ -20,9 +20,26 @@ export interface SyntheticScriptResult {
   script?: MarketingSegments;
   error?: string;
   processingTime: number;
+  usage?: GeminiUsage;
+  prompt?: PromptRef;
+}
+
+/**
+ * A template request that was answered, and billed, but whose answer couldn't be used
+ */
+export class TemplateResponseError extends Error {
+  constructor(
+    message: string,
+    public usage?: GeminiUsage
+  ) {
+    super(message);
+    this.name = 'TemplateResponseError';
+  }
 }
 
 export class TemplateGenerator {
+  private static readonly MODEL = 'gemini-2.0-flash';
+
   private geminiClient: GeminiClient;
 
   constructor(geminiApiKey?: string) {
@@ -30,36 +47,22 @@ export class TemplateGenerator {
   }
 
   /**
-   * Convert a specific marketing segment into a generic, reusable template
+   * Convert a specific marketing segment into a generic, reusable template.
+   * `componentType` is the segment's category name, e.g. "Hook" or "Desire".
    */
   async createTemplateFromComponent(
     componentText: string,
-    componentType: 'hook' | 'bridge' | 'nugget' | 'wta'
-  ): Promise<{ success: boolean; template?: string; error?: string }> {
+    componentType: string
+  ): Promise<{ success: boolean; template?: string; error?: string; usage?: GeminiUsage; prompt?: PromptRef }> {
     const startTime = Date.now();
     
     try {
       console.log(`[TemplateGenerator] Creating template for ${componentType}: ${componentText.substring(0, 100)}...`);
       
-      const prompt = `You are an expert in content strategy and pattern recognition. Your task is to convert a specific script component into a generic, reusable template. Analyze the provided text and identify its underlying structure. Replace specific nouns, topics, and outcomes with generic, bracketed placeholders like [Topic], [Target Audience], [Common Problem], [Desired Outcome], [Specific Action], or [Benefit]. The goal is to create a template that can be adapted to ANY subject.
-
-**Example:**
-- **Specific Text:** "If you want your videos to look pro, here is why you need to stop using your back camera."
-- **Generated Template:** "If you want to achieve [Desired Outcome], here is why you need to stop [Common Mistake]."
-
-**Component Type:** ${componentType.toUpperCase()}
-**Specific Text to Analyze:**
-"${componentText}"
-
-**CRITICAL OUTPUT REQUIREMENT:** 
-Your response must start IMMEDIATELY with the opening brace { and contain NOTHING else except the JSON object.
-
-Expected JSON format:
-{
-  "template": "Your generic template with [Placeholders] here",
-  "placeholders": ["List", "of", "placeholder", "types", "used"],
-  "explanation": "Brief explanation of the pattern identified"
-}`;
+      const { text: prompt, ref } = renderPrompt('template-generation', {
+        componentType: componentType.toUpperCase(),
+        componentText
+      });
 
       // Use the existing Gemini client but with a simple video structure for text processing
       const mockVideo = {
@@ -70,15 +73,17 @@ Expected JSON format:
       };
 
       // We'll use a text-only approach by creating a custom request
-      const response = await this.makeTemplateRequest(prompt);
+      const { data, usage } = await this.makeTemplateRequest(prompt);
       
       const processingTime = Date.now() - startTime;
       console.log(`[TemplateGenerator] Template created for ${componentType} in ${processingTime}ms`);
       
       return {
         success: true,
-        template: response.template,
-        error: undefined
+        template: data.template,
+        error: undefined,
+        usage,
+        prompt: ref
       };
 
     } catch (error) {
@@ -88,46 +93,48 @@ Expected JSON format:
       return {
         success: false,
         template: undefined,
-        error: error instanceof Error ? error.message : 'Unknown error'
+        error: error instanceof Error ? error.message : 'Unknown error',
+        usage: error instanceof TemplateResponseError ? error.usage : undefined
       };
     }
   }
 
   /**
-   * Generate templates for all marketing segments
+   * Generate templates for all marketing segments, one per framework category.
+   * Templates from other frameworks than the default record their framework id.
    */
-  async generateTemplatesFromSegments(segments: MarketingSegments): Promise<TemplateGenerationResult> {
+  async generateTemplatesFromSegments(
+    segments: MarketingSegments,
+    framework: SegmentFramework = HOOK_BRIDGE_NUGGET_WTA_FRAMEWORK
+  ): Promise<TemplateGenerationResult> {
     const startTime = Date.now();
+    let usage: UsageSummary | undefined;
     
     try {
-      console.log('[TemplateGenerator] Generating templates from marketing segments');
+      console.log(`[TemplateGenerator] Generating templates from marketing segments (${framework.name})`);
       
       // Create templates for each segment
-      const [hookResult, bridgeResult, nuggetResult, wtaResult] = await Promise.all([
-        this.createTemplateFromComponent(segments.Hook, 'hook'),
-        this.createTemplateFromComponent(segments.Bridge, 'bridge'),
-        this.createTemplateFromComponent(segments["Golden Nugget"], 'nugget'),
-        this.createTemplateFromComponent(segments.WTA, 'wta')
-      ]);
+      const results = await Promise.all(framework.categories.map(category =>
+        this.createTemplateFromComponent(segments[category.name] || '', category.name)
+      ));
+      usage = summarizeUsage(results.map(result => result.usage));
 
       // Check if all templates were created successfully
-      if (!hookResult.success || !bridgeResult.success || !nuggetResult.success || !wtaResult.success) {
-        const errors = [
-          hookResult.error && `Hook: ${hookResult.error}`,
-          bridgeResult.error && `Bridge: ${bridgeResult.error}`,
-          nuggetResult.error && `Nugget: ${nuggetResult.error}`,
-          wtaResult.error && `WTA: ${wtaResult.error}`
-        ].filter(Boolean).join('; ');
+      if (results.some(result => !result.success)) {
+        const errors = results
+          .map((result, index) => result.error && `${framework.categories[index].name}: ${result.error}`)
+          .filter(Boolean)
+          .join('; ');
         
         throw new Error(`Template generation failed: ${errors}`);
       }
 
-      const template: ScriptTemplate = {
-        hook: hookResult.template!,
-        bridge: bridgeResult.template!,
-        nugget: nuggetResult.template!,
-        wta: wtaResult.template!
-      };
+      const template: ScriptTemplate = Object.fromEntries(
+        framework.categories.map((category, index) => [category.templateKey, results[index].template!])
+      );
+      if (!isDefaultSegmentFramework(framework.id)) {
+        template.framework = framework.id;
+      }
 
       const processingTime = Date.now() - startTime;
       console.log(`[TemplateGenerator] Successfully generated all templates in ${processingTime}ms`);
@@ -135,7 +142,9 @@ Expected JSON format:
       return {
         success: true,
         template,
-        processingTime
+        processingTime,
+        usage,
+        prompt: results[0].prompt
       };
 
     } catch (error) {
@@ -145,60 +154,52 @@ Expected JSON format:
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error',
-        processingTime
+        processingTime,
+        usage
       };
     }
   }
 
   /**
-   * Generate a new script using templates and a topic
+   * Generate a new script using templates and a topic. `framework` must be the
+   * one the templates were generated with.
    */
-  async generateSyntheticScript(topic: string, templates: ScriptTemplate): Promise<SyntheticScriptResult> {
+  async generateSyntheticScript(
+    topic: string,
+    templates: ScriptTemplate,
+    framework: SegmentFramework = HOOK_BRIDGE_NUGGET_WTA_FRAMEWORK
+  ): Promise<SyntheticScriptResult> {
     const startTime = Date.now();
     
     try {
       console.log(`[TemplateGenerator] Generating synthetic script for topic: ${topic}`);
       
-      const prompt = `You are an expert, creative scriptwriter AI. Your task is to generate a complete, cohesive, and compelling short-form video script based on a given topic and a set of structural templates. Fill in the placeholders in the provided templates to create a natural, engaging script about the specified topic.
-
-**Topic to Write About:**
-${topic}
-
-**Script Templates:**
-- **Hook Template:** "${templates.hook}"
-- **Bridge Template:** "${templates.bridge}"
-- **Golden Nugget Template:** "${templates.nugget}"
-- **WTA Template:** "${templates.wta}"
-
-**CRITICAL OUTPUT REQUIREMENT:** 
-Your response must start IMMEDIATELY with the opening brace { and contain NOTHING else except the JSON object.
-
-Expected JSON format:
-{
-  "Hook": "Complete hook text with placeholders filled in",
-  "Bridge": "Complete bridge text with placeholders filled in", 
-  "Golden Nugget": "Complete golden nugget text with placeholders filled in",
-  "WTA": "Complete WTA text with placeholders filled in",
-  "fullScript": "Complete script as one flowing piece of content"
-}`;
+      const { text: prompt, ref } = renderPrompt('synthetic-script', {
+        topic,
+        templates: framework.categories
+          .map(category => `- **${category.name} Template:** "${templates[category.templateKey] || ''}"`)
+          .join('\n'),
+        scriptFields: framework.categories
+          .map(category => `  "${category.name}": "Complete ${category.name.toLowerCase()} text with placeholders filled in",`)
+          .join('\n')
+      });
 
-      const response = await this.makeTemplateRequest(prompt);
+      const { data: response, usage } = await this.makeTemplateRequest(prompt);
       
       const processingTime = Date.now() - startTime;
       console.log(`[TemplateGenerator] Generated synthetic script for "${topic}" in ${processingTime}ms`);
       
       // Convert response to MarketingSegments format
-      const script: MarketingSegments = {
-        Hook: response.Hook || '',
-        Bridge: response.Bridge || '',
-        "Golden Nugget": response["Golden Nugget"] || '',
-        WTA: response.WTA || ''
-      };
+      const script: MarketingSegments = Object.fromEntries(
+        framework.categories.map(category => [category.name, response[category.name] || ''])
+      );
       
       return {
         success: true,
         script,
-        processingTime
+        processingTime,
+        usage,
+        prompt: ref
       };
 
     } catch (error) {
@@ -208,21 +209,24 @@ Expected JSON format:
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error',
-        processingTime
+        processingTime,
+        usage: error instanceof TemplateResponseError ? error.usage : undefined
       };
     }
   }
 
   /**
-   * Make a direct text-based request to Gemini API for template generation
+   * Make a direct text-based request to Gemini API for template generation,
+   * returning the parsed JSON and the call's priced token usage. Answers that
+   * can't be used throw a TemplateResponseError carrying that usage.
    */
-  private async makeTemplateRequest(prompt: string): Promise<any> {
+  private async makeTemplateRequest(prompt: string): Promise<{ data: any; usage?: GeminiUsage }> {
     const apiKey = process.env.GEMINI_API_KEY;
     if (!apiKey) {
       throw new Error('Gemini API key is required');
     }
 
-    const url = `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${apiKey}`;
+    const url = `https://generativelanguage.googleapis.com/v1beta/models/${TemplateGenerator.MODEL}:generateContent?key=${apiKey}`;
     
     const requestBody = {
       contents: [
@@ -263,9 +267,14 @@ Expected JSON format:
       }
 
       const data = await response.json();
+      const usage: GeminiUsage | undefined = data.usageMetadata && priceUsage(TemplateGenerator.MODEL, {
+        promptTokens: data.usageMetadata.promptTokenCount || 0,
+        completionTokens: data.usageMetadata.candidatesTokenCount || 0,
+        totalTokens: data.usageMetadata.totalTokenCount || 0
+      });
       
       if (!data.candidates || !data.candidates[0] || !data.candidates[0].content) {
-        throw new Error('Invalid response format from Gemini API');
+        throw new TemplateResponseError('Invalid response format from Gemini API', usage);
       }
 
       const text = data.candidates[0].content.parts
@@ -273,7 +282,7 @@ Expected JSON format:
         .join('') || '';
 
       if (!text.trim()) {
-        throw new Error('Empty response from Gemini API');
+        throw new TemplateResponseError('Empty response from Gemini API', usage);
       }
 
       // Parse JSON response
@@ -288,13 +297,16 @@ Expected JSON format:
         const jsonMatch = cleanedResponse.match(/\{[\s\S]*\}/);
         if (jsonMatch) {
           const parsed = JSON.parse(jsonMatch[0]);
-          return parsed;
+          return { data: parsed, usage };
         } else {
           throw new Error('No JSON object found in response');
         }
       } catch (parseError) {
         console.error('[TemplateGenerator] Failed to parse JSON response:', text);
-        throw new Error(`Failed to parse JSON response: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`);
+        throw new TemplateResponseError(
+          `Failed to parse JSON response: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`,
+          usage
+        );
       }
 
     } catch (error) {
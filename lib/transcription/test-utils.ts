@@ -1,4 +1,7 @@
-import { VideoMetadata, TranscriptionRequest, TranscriptionOptions } from './types';
+import { createServer, IncomingMessage } from 'http';
+import { AddressInfo } from 'net';
+import { formatCategoryLabel } from './segment-frameworks';
+import { VideoMetadata, VideoPlatform, TranscriptionRequest, TranscriptionOptions, SUPPORTED_VIDEO_PLATFORMS } from './types';
 
 /**
  * Sample video metadata for testing
@@ -15,6 +18,12 @@ export const sampleVideos: VideoMetadata[] = [
     url: 'https://example.com/video2.mp4',
     platform: 'instagram',
     description: 'Test Instagram video'
+  },
+  {
+    id: 'test-video-3',
+    url: 'https://example.com/video3.mp4',
+    platform: 'youtube',
+    description: 'Test YouTube Short'
   }
 ];
 
@@ -68,8 +77,8 @@ export function validateVideoMetadata(video: VideoMetadata): { valid: boolean; e
     }
   }
   
-  if (!video.platform || !['tiktok', 'instagram'].includes(video.platform)) {
-    errors.push('Platform must be "tiktok" or "instagram"');
+  if (!video.platform || !SUPPORTED_VIDEO_PLATFORMS.includes(video.platform as VideoPlatform)) {
+    errors.push(`Platform must be one of: ${SUPPORTED_VIDEO_PLATFORMS.join(', ')}`);
   }
   
   return {
@@ -83,7 +92,7 @@ export function validateVideoMetadata(video: VideoMetadata): { valid: boolean; e
  */
 export function createTestVideo(
   id: string,
-  platform: 'tiktok' | 'instagram',
+  platform: VideoPlatform,
   url?: string
 ): VideoMetadata {
   return {
@@ -100,6 +109,7 @@ export function createTestVideo(
 export const mockSuccessfulTranscriptionResponse = {
   text: `{
     "transcription": "You can't get off that fucking phone and that's the reason why you can't create shit. Let's talk about it. People don't even know how to give themselves five seconds of silence. Creativity won't show up when your brain is overstimulated. It's only going to show up when your brain is still. So yeah, this is your sign to try this shit out too.",
+    "language": {"code": "en", "name": "English"},
     "marketingSegments": {
       "Hook": "You can't get off that fucking phone and that's the reason why you can't create shit.",
       "Bridge": "Let's talk about it. People don't even know how to give themselves five seconds of silence.",
@@ -206,7 +216,7 @@ export function validateTestEnvironment(): { valid: boolean; errors: string[] }
 /**
  * Create a minimal test request with one video
  */
-export function createMinimalTestRequest(videoUrl: string, platform: 'tiktok' | 'instagram' = 'tiktok'): TranscriptionRequest {
+export function createMinimalTestRequest(videoUrl: string, platform: VideoPlatform = 'tiktok'): TranscriptionRequest {
   return {
     videos: [{
       id: `test-${Date.now()}`,
@@ -317,10 +327,9 @@ export function formatTranscriptionResults(results: any): string {
         output += `Transcription: ${result.transcription.substring(0, 200)}${result.transcription.length > 200 ? '...' : ''}\n`;
         if (result.marketingSegments) {
           output += `Marketing Segments:\n`;
-          output += `  🎣 Hook: ${result.marketingSegments.Hook}\n`;
-          output += `  🌉 Bridge: ${result.marketingSegments.Bridge}\n`;
-          output += `  💎 Golden Nugget: ${result.marketingSegments["Golden Nugget"]}\n`;
-          output += `  🎯 WTA: ${result.marketingSegments.WTA}\n`;
+          Object.entries(result.marketingSegments as Record<string, string>).forEach(([category, text]) => {
+            output += `  ${formatCategoryLabel(category)}: ${text}\n`;
+          });
         }
       } else {
         output += `Error: ${result.error}\n`;
@@ -338,4 +347,126 @@ export function formatTranscriptionResults(results: any): string {
   output += '==============================\n';
   
   return output;
-} 
\ No newline at end of file
+} 
+
+export interface MockGeminiServer {
+  // Set GEMINI_API_BASE_URL to this to route GeminiClient to the mock
+  baseUrl: string;
+  // Bytes received per file name, and files deleted so far
+  uploads: Map<string, number>;
+  deleted: string[];
+  close(): Promise<void>;
+}
+
+/**
+ * Start a local mock of the Gemini endpoints the client uses: resumable file
+ * upload (start, upload, query, finalize), file get/delete and generateContent.
+ * `failChunkAtOffset` rejects the first chunk sent at that offset with a 503
+ * after keeping half of it, to exercise resuming.
+ */
+export async function startMockGeminiServer(options: {
+  responseText?: string;
+  processingPolls?: number;
+  failChunkAtOffset?: number;
+} = {}): Promise<MockGeminiServer> {
+  const { responseText = mockSuccessfulTranscriptionResponse.text, processingPolls = 1 } = options;
+  const sessions = new Map<string, { name: string; mimeType: string; received: number; final: boolean }>();
+  const uploads = new Map<string, number>();
+  const polls = new Map<string, number>();
+  const deleted: string[] = [];
+  let failChunkAtOffset = options.failChunkAtOffset;
+  let nextId = 1;
+
+  const readBody = async (req: IncomingMessage): Promise<Buffer> => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks);
+  };
+
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const body = await readBody(req);
+    const command = String(req.headers['x-goog-upload-command'] || '');
+    const json = (status: number, data: unknown, headers: Record<string, string> = {}) => {
+      res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+      res.end(JSON.stringify(data));
+    };
+    const fileResource = (name: string) => ({
+      name,
+      uri: `${baseUrl}/v1beta/${name}`,
+      mimeType: sessions.get(name)?.mimeType || 'video/mp4',
+      state: (polls.get(name) || 0) < processingPolls ? 'PROCESSING' : 'ACTIVE'
+    });
+
+    if (url.pathname === '/upload/v1beta/files' && command === 'start') {
+      const name = `files/mock-${nextId++}`;
+      sessions.set(name, { name, mimeType: String(req.headers['x-goog-upload-header-content-type']), received: 0, final: false });
+      return json(200, {}, { 'X-Goog-Upload-URL': `${baseUrl}/upload/session/${encodeURIComponent(name)}` });
+    }
+
+    if (url.pathname.startsWith('/upload/session/')) {
+      const session = sessions.get(decodeURIComponent(url.pathname.slice('/upload/session/'.length)));
+      if (!session) {
+        return json(404, { error: { message: 'Unknown upload session' } });
+      }
+      if (command === 'query') {
+        return session.final
+          ? json(200, { file: fileResource(session.name) }, { 'X-Goog-Upload-Status': 'final' })
+          : json(200, {}, { 'X-Goog-Upload-Status': 'active', 'X-Goog-Upload-Size-Received': String(session.received) });
+      }
+
+      const offset = parseInt(String(req.headers['x-goog-upload-offset']), 10);
+      if (offset !== session.received) {
+        return json(400, { error: { message: `Expected offset ${session.received}, got ${offset}` } });
+      }
+      if (failChunkAtOffset === offset) {
+        failChunkAtOffset = undefined;
+        session.received += Math.floor(body.length / 2);
+        return json(503, { error: { message: 'Mock chunk failure' } });
+      }
+
+      session.received += body.length;
+      uploads.set(session.name, session.received);
+      if (command.includes('finalize')) {
+        session.final = true;
+        return json(200, { file: fileResource(session.name) }, { 'X-Goog-Upload-Status': 'final' });
+      }
+      return json(200, {}, { 'X-Goog-Upload-Status': 'active' });
+    }
+
+    const fileMatch = url.pathname.match(/^\/v1beta\/(files\/[^/]+)$/);
+    if (fileMatch) {
+      const name = fileMatch[1];
+      if (!sessions.has(name) || deleted.includes(name)) {
+        return json(404, { error: { message: 'File not found' } });
+      }
+      if (req.method === 'DELETE') {
+        deleted.push(name);
+        return json(200, {});
+      }
+      polls.set(name, (polls.get(name) || 0) + 1);
+      return json(200, fileResource(name));
+    }
+
+    if (url.pathname.endsWith(':generateContent')) {
+      return json(200, {
+        candidates: [{ content: { parts: [{ text: responseText }] } }],
+        usageMetadata: { promptTokenCount: 100, candidatesTokenCount: 50, totalTokenCount: 150 }
+      });
+    }
+
+    json(404, { error: { message: `No mock for ${req.method} ${url.pathname}` } });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const baseUrl: string = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    baseUrl,
+    uploads,
+    deleted,
+    close: () => new Promise<void>(resolve => server.close(() => resolve()))
+  };
+}
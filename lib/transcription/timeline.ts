@@ -0,0 +1,160 @@
+import { z } from 'zod';
+import { TRANSCRIPTION_RESPONSE_SCHEMA } from './marketing-analysis';
+import { TimelineEntry, TimestampGranularity, TranscriptTimeline, WordAssignment } from './types';
+
+const timelineEntrySchema = z.object({
+  start: z.number().min(0),
+  end: z.number().min(0),
+  text: z.string(),
+  category: z.string().optional()
+}).refine(entry => entry.end >= entry.start, { message: 'end is before start' }) satisfies z.ZodType<TimelineEntry>;
+
+const timedResponseSchema = z.object({
+  transcription: z.string().optional(),
+  timeline: z.array(timelineEntrySchema).min(1, 'Timeline is empty')
+});
+
+/**
+ * Add a `timeline` array to a Gemini `responseSchema`, or build a plain
+ * transcription-plus-timeline schema when there is no base schema. Entries
+ * carry a category only when the base schema asks for marketing segments,
+ * limited to that schema's categories.
+ */
+export function buildTimedResponseSchema(granularity: TimestampGranularity, baseSchema?: any) {
+  const categories: string[] | undefined = baseSchema?.properties?.marketingSegments?.propertyOrdering;
+  const entryProperties: Record<string, any> = {
+    start: { type: 'NUMBER', description: 'Start time in seconds from the beginning of the video' },
+    end: { type: 'NUMBER', description: 'End time in seconds from the beginning of the video' },
+    text: { type: 'STRING', description: granularity === 'word' ? 'One spoken word' : 'A short spoken phrase' }
+  };
+  if (categories) {
+    entryProperties.category = { type: 'STRING', enum: [...categories] };
+  }
+
+  const timeline = {
+    type: 'ARRAY',
+    description: `The transcript split into ${granularity === 'word' ? 'words' : 'phrases'} in spoken order`,
+    items: {
+      type: 'OBJECT',
+      properties: entryProperties,
+      required: Object.keys(entryProperties),
+      propertyOrdering: Object.keys(entryProperties)
+    }
+  };
+
+  const base = baseSchema || TRANSCRIPTION_RESPONSE_SCHEMA;
+
+  return {
+    ...base,
+    properties: { ...base.properties, timeline },
+    required: [...base.required, 'timeline'],
+    propertyOrdering: [...base.propertyOrdering, 'timeline']
+  };
+}
+
+/**
+ * Prompt instructions matching buildTimedResponseSchema
+ */
+export function buildTimelineInstructions(granularity: TimestampGranularity, withCategories: boolean): string {
+  let instructions = granularity === 'word'
+    ? '\n\nAlso return a "timeline" with one entry per spoken word, in order, each with the time in seconds from the start of the video when the word starts and ends.'
+    : '\n\nAlso return a "timeline" that splits the transcript into short phrases of at most about 10 words (one subtitle line each), in order, each with the time in seconds from the start of the video when the phrase starts and ends.';
+
+  instructions += ' Take the times from the audio, not from the length of the text. Joined together, the timeline text must equal the transcription.';
+
+  if (withCategories) {
+    instructions += granularity === 'word'
+      ? ' Give each word the category it was assigned to.'
+      : ' Give each phrase the category its words were assigned to, and start a new phrase wherever the category changes.';
+  }
+
+  return instructions;
+}
+
+/**
+ * Parse and validate the timeline of a timestamped response. Entries are put
+ * in time order and empty ones dropped; `transcription` is returned for
+ * responses built without a marketing analysis schema. Entry categories are
+ * checked against `categories` when given.
+ */
+export function parseTimeline(responseText: string, granularity: TimestampGranularity, categories?: string[]):
+  | { success: true; timeline: TranscriptTimeline; transcription?: string }
+  | { success: false; issues: string[] } {
+  let json: unknown;
+  try {
+    json = JSON.parse(responseText);
+  } catch (error) {
+    return {
+      success: false,
+      issues: [`Response is not valid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`]
+    };
+  }
+
+  const parsed = timedResponseSchema.safeParse(json);
+  if (!parsed.success) {
+    return {
+      success: false,
+      issues: parsed.error.issues.map(issue => `${issue.path.join('.') || 'response'}: ${issue.message}`)
+    };
+  }
+
+  if (categories) {
+    const issues = parsed.data.timeline
+      .map((entry, index) => entry.category && !categories.includes(entry.category)
+        ? `timeline.${index}.category: "${entry.category}" is not one of: ${categories.join(', ')}`
+        : undefined)
+      .filter((issue): issue is string => !!issue);
+    if (issues.length > 0) {
+      return { success: false, issues };
+    }
+  }
+
+  const entries = parsed.data.timeline
+    .map(entry => ({ ...entry, text: entry.text.trim() }))
+    .filter(entry => entry.text)
+    .sort((a, b) => a.start - b.start);
+
+  const timeline: TranscriptTimeline = { granularity, entries };
+  const segmentRanges = getSegmentRanges(entries);
+  if (segmentRanges) {
+    timeline.segmentRanges = segmentRanges;
+  }
+
+  return { success: true, timeline, transcription: parsed.data.transcription };
+}
+
+/**
+ * First start and last end of each category in the timeline
+ */
+export function getSegmentRanges(entries: TimelineEntry[]): TranscriptTimeline['segmentRanges'] {
+  const ranges: NonNullable<TranscriptTimeline['segmentRanges']> = {};
+
+  for (const entry of entries) {
+    if (!entry.category) {
+      continue;
+    }
+    const range = ranges[entry.category];
+    ranges[entry.category] = range
+      ? { start: Math.min(range.start, entry.start), end: Math.max(range.end, entry.end) }
+      : { start: entry.start, end: entry.end };
+  }
+
+  return Object.keys(ranges).length > 0 ? ranges : undefined;
+}
+
+/**
+ * Word assignments with times, from a categorized word-level timeline
+ */
+export function buildTimedWordAssignments(timeline: TranscriptTimeline): WordAssignment[] | undefined {
+  if (timeline.granularity !== 'word' || !timeline.entries.every(entry => entry.category)) {
+    return undefined;
+  }
+
+  return timeline.entries.map((entry, index) => ({
+    word: entry.text,
+    category: entry.category!,
+    position: index + 1,
+    start: entry.start,
+    end: entry.end
+  }));
+}
@@ -1,4 +1,8 @@
-import { MarketingSegments, ScriptTemplate, TranscriptionResult } from './types';
+import { getPrimarySpeakerText } from './diarization';
+import { isSameLanguage } from './language';
+import { DEFAULT_QUALITY_THRESHOLD } from './quality';
+import { DEFAULT_SEGMENT_FRAMEWORK_ID } from './segment-frameworks';
+import { MarketingSegments, PromptRef, ScriptTemplate, SyntheticScript, TranscriptionResult } from './types';
 
 export interface TrainingExample {
   input: string;
@@ -12,6 +16,13 @@ export interface TrainingExample {
     topic?: string;
     templateUsed?: boolean;
     processingTime?: number;
+    speakerCount?: number;
+    primarySpeakerOnly?: boolean; // Output holds only the primary speaker's lines
+    language?: string; // Detected language code of the source video
+    segmentFramework?: string; // Id of the framework the script is segmented with
+    qualityScore?: number; // Quality score of the source result, 0-100
+    model?: string; // Gemini model that analyzed the source video
+    prompt?: PromptRef; // Prompt version a synthetic script was written with
   };
 }
 
@@ -23,6 +34,7 @@ export interface TrainingDataset {
     syntheticExamples: number;
     platforms: string[];
     topics: string[];
+    languages: string[]; // Detected languages of the original examples
     avgViewCount?: number;
     avgLikeCount?: number;
   };
@@ -41,7 +53,25 @@ export interface ExportOptions {
   syntheticTopics?: string[];
   maxExamplesPerVideo?: number;
   minViewCount?: number;
+  minQualityScore?: number; // Leave out results scoring below this; results without a score are kept
   format?: 'jsonl' | 'json';
+  primarySpeakerOnly?: boolean; // For diarized videos with several speakers, train only on the primary speaker's lines
+  languages?: string[]; // Only use videos detected in these languages, e.g. ["en", "es"]
+  groupByLanguage?: boolean; // Also split the dataset into one dataset per language
+}
+
+export interface DatasetValidation {
+  valid: boolean;
+  errors: string[];
+  warnings: string[];
+  stats: {
+    avgInputLength: number;
+    avgOutputLength: number;
+    minInputLength: number;
+    maxInputLength: number;
+    minOutputLength: number;
+    maxOutputLength: number;
+  };
 }
 
 export class TrainingDataExporter {
@@ -69,7 +99,7 @@ export class TrainingDataExporter {
   static async generateTrainingDataset(
     transcriptionResults: TranscriptionResult[],
     templates: ScriptTemplate[],
-    syntheticScripts: Array<{topic: string, script: MarketingSegments}> = [],
+    syntheticScripts: SyntheticScript[] = [],
     options: ExportOptions = {}
   ): Promise<TrainingDataset> {
     const startTime = Date.now();
@@ -83,11 +113,15 @@ export class TrainingDataExporter {
       includeSyntheticScripts = true,
       syntheticTopics = this.DEFAULT_SYNTHETIC_TOPICS,
       maxExamplesPerVideo = 10,
-      minViewCount = 0
+      minViewCount = 0,
+      minQualityScore = DEFAULT_QUALITY_THRESHOLD,
+      primarySpeakerOnly = false,
+      languages
     } = options;
 
     const examples: TrainingExample[] = [];
     const platforms = new Set<string>();
+    const detectedLanguages = new Set<string>();
     const topics = new Set<string>();
     let totalViewCount = 0;
     let totalLikeCount = 0;
@@ -98,7 +132,10 @@ export class TrainingDataExporter {
     const validTranscriptions = transcriptionResults.filter(result => 
       result.success && 
       result.marketingSegments &&
-      (result.metadata?.viewCount || 0) >= minViewCount
+      (result.metadata?.viewCount || 0) >= minViewCount &&
+      (!result.quality || result.quality.score >= minQualityScore) &&
+      // Results without a detected language can't be matched against a language filter
+      (!languages || languages.length === 0 || (!!result.language && languages.some(code => isSameLanguage(code, result.language!.code))))
     );
 
     console.log(`[TrainingDataExporter] Processing ${validTranscriptions.length} valid transcriptions`);
@@ -106,10 +143,13 @@ export class TrainingDataExporter {
     // Generate original training examples
     if (includeOriginalTranscriptions) {
       for (const result of validTranscriptions) {
-        const example = this.createOriginalTrainingExample(result, includeMetadata);
+        const example = this.createOriginalTrainingExample(result, includeMetadata, primarySpeakerOnly);
         examples.push(example);
         
         platforms.add(result.platform);
+        if (result.language) {
+          detectedLanguages.add(result.language.code);
+        }
         if (result.metadata?.viewCount) {
           totalViewCount += result.metadata.viewCount;
           viewCountCount++;
@@ -130,7 +170,8 @@ export class TrainingDataExporter {
           syntheticScript.topic,
           syntheticScript.script,
           templates[0], // Use first template for metadata
-          includeMetadata
+          includeMetadata,
+          syntheticScript.prompt
         );
         examples.push(example);
         topics.add(syntheticScript.topic);
@@ -151,6 +192,7 @@ export class TrainingDataExporter {
         syntheticExamples: examples.filter(e => e.metadata?.source === 'synthetic').length,
         platforms: Array.from(platforms),
         topics: Array.from(topics),
+        languages: Array.from(detectedLanguages),
         avgViewCount: viewCountCount > 0 ? Math.round(totalViewCount / viewCountCount) : undefined,
         avgLikeCount: likeCountCount > 0 ? Math.round(totalLikeCount / likeCountCount) : undefined
       },
@@ -168,14 +210,21 @@ export class TrainingDataExporter {
    */
   private static createOriginalTrainingExample(
     result: TranscriptionResult,
-    includeMetadata: boolean
+    includeMetadata: boolean,
+    primarySpeakerOnly: boolean = false
   ): TrainingExample {
     const segments = result.marketingSegments!;
-    const fullScript = `${segments.Hook} ${segments.Bridge} ${segments["Golden Nugget"]} ${segments.WTA}`.trim();
+    const speakerCount = result.diarization?.speakers.length;
+
+    // Other speakers' lines (interviewers, duet partners) would teach the model someone else's script
+    const usePrimarySpeaker = primarySpeakerOnly && !!result.diarization && (speakerCount || 0) > 1;
+    const fullScript = usePrimarySpeaker
+      ? getPrimarySpeakerText(result.diarization!)
+      : this.joinSegments(segments);
     
     // Create input prompt based on content analysis
     const topic = this.extractTopicFromContent(fullScript);
-    const input = `Write a compelling short-form video script about ${topic} that follows the Hook-Bridge-Golden Nugget-WTA structure for maximum engagement.`;
+    const input = this.buildScriptPrompt(topic, segments);
     
     const example: TrainingExample = {
       input,
@@ -191,7 +240,13 @@ export class TrainingDataExporter {
         likeCount: result.metadata?.likeCount,
         topic,
         templateUsed: false,
-        processingTime: result.processingTime
+        processingTime: result.processingTime,
+        speakerCount,
+        primarySpeakerOnly: usePrimarySpeaker || undefined,
+        language: result.language?.code,
+        segmentFramework: result.segmentFramework || DEFAULT_SEGMENT_FRAMEWORK_ID,
+        qualityScore: result.quality?.score,
+        model: result.model
       };
     }
 
@@ -279,10 +334,11 @@ export class TrainingDataExporter {
     topic: string,
     script: MarketingSegments,
     template: ScriptTemplate,
-    includeMetadata: boolean
+    includeMetadata: boolean,
+    prompt?: PromptRef
   ): TrainingExample {
-    const fullScript = `${script.Hook} ${script.Bridge} ${script["Golden Nugget"]} ${script.WTA}`.trim();
-    const input = `Write a compelling short-form video script about ${topic} that follows the Hook-Bridge-Golden Nugget-WTA structure for maximum engagement.`;
+    const fullScript = this.joinSegments(script);
+    const input = this.buildScriptPrompt(topic, script);
     
     const example: TrainingExample = {
       input,
@@ -293,13 +349,30 @@ export class TrainingDataExporter {
       example.metadata = {
         source: 'synthetic',
         topic,
-        templateUsed: true
+        templateUsed: true,
+        segmentFramework: template.framework || DEFAULT_SEGMENT_FRAMEWORK_ID,
+        prompt
       };
     }
 
     return example;
   }
 
+  /**
+   * The script's segments in order, as one piece of text
+   */
+  private static joinSegments(segments: MarketingSegments): string {
+    return Object.values(segments).filter(Boolean).join(' ').trim();
+  }
+
+  /**
+   * Training input asking for a script with the same structure as `segments`,
+   * e.g. "Hook-Bridge-Golden Nugget-WTA"
+   */
+  private static buildScriptPrompt(topic: string, segments: MarketingSegments): string {
+    return `Write a compelling short-form video script about ${topic} that follows the ${Object.keys(segments).join('-')} structure for maximum engagement.`;
+  }
+
   /**
    * Extract topic from content using simple heuristics
    */
@@ -337,6 +410,47 @@ export class TrainingDataExporter {
     return bestTopic;
   }
 
+  /**
+   * Split a dataset into one dataset per detected language. Examples are
+   * grouped by their metadata, so the dataset must include it; synthetic
+   * examples and videos with no detected language go under "unknown".
+   */
+  static groupByLanguage(dataset: TrainingDataset): Record<string, TrainingDataset> {
+    const groups: Record<string, TrainingExample[]> = {};
+    for (const example of dataset.examples) {
+      const language = example.metadata?.language || 'unknown';
+      (groups[language] = groups[language] || []).push(example);
+    }
+
+    return Object.fromEntries(Object.entries(groups).map(([language, examples]) => {
+      const original = examples.filter(e => e.metadata?.source === 'original');
+      const synthetic = examples.filter(e => e.metadata?.source === 'synthetic');
+      const viewCounts = original.map(e => e.metadata?.viewCount).filter((count): count is number => !!count);
+      const likeCounts = original.map(e => e.metadata?.likeCount).filter((count): count is number => !!count);
+      const average = (values: number[]) =>
+        values.length > 0 ? Math.round(values.reduce((a, b) => a + b, 0) / values.length) : undefined;
+
+      const languageDataset: TrainingDataset = {
+        examples,
+        summary: {
+          totalExamples: examples.length,
+          originalExamples: original.length,
+          syntheticExamples: synthetic.length,
+          platforms: Array.from(new Set(original.map(e => e.metadata!.platform!).filter(Boolean))),
+          topics: Array.from(new Set(synthetic.map(e => e.metadata!.topic!).filter(Boolean))),
+          languages: language === 'unknown' ? [] : [language],
+          avgViewCount: average(viewCounts),
+          avgLikeCount: average(likeCounts)
+        },
+        metadata: {
+          ...dataset.metadata,
+          description: `Training dataset (${language}) with ${examples.length} examples (${original.length} original + ${synthetic.length} synthetic)`
+        }
+      };
+      return [language, languageDataset];
+    }));
+  }
+
   /**
    * Export dataset to JSONL format
    */
@@ -396,19 +510,7 @@ export class TrainingDataExporter {
   /**
    * Validate training dataset for Gemini fine-tuning requirements
    */
-  static validateDataset(dataset: TrainingDataset): {
-    valid: boolean;
-    errors: string[];
-    warnings: string[];
-    stats: {
-      avgInputLength: number;
-      avgOutputLength: number;
-      minInputLength: number;
-      maxInputLength: number;
-      minOutputLength: number;
-      maxOutputLength: number;
-    };
-  } {
+  static validateDataset(dataset: TrainingDataset): DatasetValidation {
     const errors: string[] = [];
     const warnings: string[] = [];
     
@@ -1,6 +1,12 @@
 import { VideoDownloader, VideoDownloadError } from './video-downloader';
 import { GeminiClient, GeminiTranscriptionError } from './gemini-client';
+import { isLanguageCode } from './language';
+import { DEFAULT_QUALITY_THRESHOLD, scoreTranscriptionResult } from './quality';
+import { parseSegmentFramework, resolveSegmentFramework } from './segment-frameworks';
 import { TemplateGenerator, ScriptTemplate } from './template-generator';
+import { alignSegments, alignWordTimes } from './word-alignment';
+import { summarizeUsage } from './usage';
+import { getWorkerPool, WorkerPool } from './worker-pool';
 import { 
   VideoMetadata, 
   TranscriptionRequest, 
@@ -8,87 +14,74 @@ import {
   TranscriptionJobResult,
   TranscriptionOptions,
   MarketingSegments,
-  WordAssignment
+  VideoPlatform,
+  DownloadedVideo,
+  GEMINI_MODELS,
+  GeminiModel,
+  GeminiResponse,
+  GeminiRetryPolicy,
+  SegmentFramework,
+  TranscriptParsePath,
+  VideoProgressCallback,
+  SUPPORTED_VIDEO_PLATFORMS
 } from './types';
 
 export class TranscriptionService {
+  // Videos downloaded ahead of those Gemini is working on
+  private static readonly PREFETCH_VIDEOS = 1;
+
   private geminiClient: GeminiClient;
   private templateGenerator: TemplateGenerator;
 
-  constructor(geminiApiKey?: string) {
-    this.geminiClient = new GeminiClient(geminiApiKey);
+  constructor(geminiApiKey?: string, retryPolicy?: Partial<GeminiRetryPolicy>) {
+    this.geminiClient = new GeminiClient(geminiApiKey, retryPolicy);
     this.templateGenerator = new TemplateGenerator(geminiApiKey);
   }
 
   /**
-   * Main method to process video transcription requests
+   * Main method to process video transcription requests.
+   * `onProgress` is called as each video is downloaded and transcribed.
+   * Results are returned in the order of `request.videos`.
    */
-  async processTranscriptionRequest(request: TranscriptionRequest): Promise<TranscriptionJobResult> {
+  async processTranscriptionRequest(
+    request: TranscriptionRequest,
+    onProgress?: VideoProgressCallback
+  ): Promise<TranscriptionJobResult> {
     const startTime = Date.now();
     const { videos, options = {} } = request;
     
     console.log(`[TranscriptionService] Starting transcription job for ${videos.length} videos`);
     
     try {
-      // Step 1: Download videos
-      console.log(`[TranscriptionService] Step 1: Downloading ${videos.length} videos`);
-      const downloadResult = await VideoDownloader.downloadVideos(videos);
-      
-      if (downloadResult.successful.length === 0) {
-        console.error(`[TranscriptionService] No videos downloaded successfully`);
-        return this.createFailedJobResult(
-          videos,
-          downloadResult.failed.map(f => ({ videoId: f.metadata.id, error: f.error.message })),
-          Date.now() - startTime
-        );
-      }
-
-      console.log(`[TranscriptionService] Downloaded ${downloadResult.successful.length}/${videos.length} videos successfully`);
-
-      // Step 2: Transcribe videos
-      console.log(`[TranscriptionService] Step 2: Transcribing ${downloadResult.successful.length} videos`);
-      const transcriptionResult = await this.geminiClient.transcribeVideos(
-        downloadResult.successful,
-        options
-      );
-
-      // Step 3: Process results
-      const results: TranscriptionResult[] = [];
-      const errors: Array<{ videoId: string; error: string }> = [];
-
-      // Process successful transcriptions
-      for (const { video, response } of transcriptionResult.successful) {
-        const result = this.createTranscriptionResult(video.metadata, response.text, true, undefined, undefined, options);
-        results.push(result);
-      }
+      // Each video is downloaded then transcribed on its own, so the next video downloads
+      // while earlier ones are analyzed. Only a few more videos than Gemini can work on are
+      // in flight at once, which bounds the videos held in memory or in temp files.
+      const inFlight = new WorkerPool('transcription-job', {
+        concurrency: getWorkerPool('gemini').concurrency + TranscriptionService.PREFETCH_VIDEOS
+      });
 
-      // Process transcription failures
-      for (const { video, error } of transcriptionResult.failed) {
-        const result = this.createTranscriptionResult(video.metadata, '', false, error.message, undefined, options);
-        results.push(result);
-        errors.push({ videoId: video.metadata.id, error: error.message });
-      }
+      const results = await Promise.all(videos.map((video, i) =>
+        inFlight.run(() => this.downloadAndTranscribe(video, options, { index: i + 1, total: videos.length }, onProgress))
+      ));
 
-      // Process download failures
-      for (const { metadata, error } of downloadResult.failed) {
-        const result = this.createTranscriptionResult(metadata, '', false, error.message, undefined, options);
-        results.push(result);
-        errors.push({ videoId: metadata.id, error: error.message });
-      }
+      const errors = results
+        .filter(result => !result.success)
+        .map(result => ({ videoId: result.videoId, error: result.error || 'Unknown error' }));
 
       const totalTime = Date.now() - startTime;
-      const successfulCount = results.filter(r => r.success).length;
-      const failedCount = results.length - successfulCount;
+      const successfulCount = results.length - errors.length;
 
-      console.log(`[TranscriptionService] Job completed in ${totalTime}ms: ${successfulCount} successful, ${failedCount} failed`);
+      console.log(`[TranscriptionService] Job completed in ${totalTime}ms: ${successfulCount} successful, ${errors.length} failed`);
 
       return {
         success: successfulCount > 0,
         results,
         totalProcessed: results.length,
-        totalFailed: failedCount,
+        totalFailed: errors.length,
         processingTime: totalTime,
-        errors
+        errors,
+        cache: this.summarizeCacheHits(results),
+        usage: summarizeUsage(results.map(result => result.usage))
       };
 
     } catch (error) {
@@ -103,6 +96,173 @@ export class TranscriptionService {
     }
   }
 
+  /**
+   * Download one video and transcribe it, reporting progress for both stages
+   */
+  private async downloadAndTranscribe(
+    metadata: VideoMetadata,
+    options: TranscriptionOptions,
+    position: { index: number; total: number },
+    onProgress?: VideoProgressCallback
+  ): Promise<TranscriptionResult> {
+    const startTime = Date.now();
+    const progress = { videoId: metadata.id, ...position };
+
+    let downloadedVideo: DownloadedVideo;
+    onProgress?.({ ...progress, stage: 'downloading' });
+    try {
+      downloadedVideo = await VideoDownloader.downloadVideo(metadata, { bypassCache: options.bypassCache });
+      onProgress?.({ ...progress, stage: 'downloaded' });
+    } catch (error) {
+      const downloadError = VideoDownloader.toDownloadError(error, metadata);
+      onProgress?.({ ...progress, stage: 'download_failed', error: downloadError.message });
+      return this.createTranscriptionResult(metadata, undefined, false, downloadError.message, Date.now() - startTime);
+    }
+
+    let result: TranscriptionResult;
+    onProgress?.({ ...progress, stage: 'transcribing' });
+    try {
+      const response = await this.geminiClient.transcribeVideo(downloadedVideo, options);
+      result = await this.ensureQuality(
+        downloadedVideo,
+        this.createTranscriptionResult(metadata, response, true),
+        response.parsePath,
+        options
+      );
+      result.processingTime = Date.now() - startTime;
+      onProgress?.({ ...progress, stage: 'transcribed' });
+    } catch (error) {
+      const message = error instanceof GeminiTranscriptionError
+        ? error.message
+        : `Unexpected error: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      onProgress?.({ ...progress, stage: 'transcription_failed', error: message });
+      result = this.createTranscriptionResult(metadata, undefined, false, message, Date.now() - startTime);
+      // Calls billed before the transcription failed still count toward the job's usage
+      if (error instanceof GeminiTranscriptionError && error.usage) {
+        result.usage = error.usage;
+      }
+    } finally {
+      await VideoDownloader.releaseVideo(downloadedVideo);
+    }
+
+    result.metadata = {
+      ...result.metadata,
+      cache: { ...result.metadata?.cache, download: !!downloadedVideo.cached }
+    };
+    return result;
+  }
+
+  /**
+   * Process locally uploaded video files through the same transcription path as scraped videos
+   */
+  async processUploadedVideos(
+    files: File[],
+    options: TranscriptionOptions = {}
+  ): Promise<TranscriptionJobResult> {
+    const startTime = Date.now();
+
+    console.log(`[TranscriptionService] Starting upload transcription job for ${files.length} files (${this.getProcessingMode(options)})`);
+
+    // Step 1: Load uploaded files
+    console.log(`[TranscriptionService] Step 1: Loading ${files.length} uploaded files`);
+    const loadResult = await VideoDownloader.loadUploadedFiles(files);
+    const uploadedVideos = [
+      ...loadResult.successful.map(video => video.metadata),
+      ...loadResult.failed.map(f => f.metadata)
+    ];
+
+    try {
+      if (loadResult.successful.length === 0) {
+        console.error(`[TranscriptionService] No uploaded files loaded successfully`);
+        return this.createFailedJobResult(
+          uploadedVideos,
+          loadResult.failed.map(f => ({ videoId: f.metadata.id, error: f.error.message })),
+          Date.now() - startTime
+        );
+      }
+
+      console.log(`[TranscriptionService] Loaded ${loadResult.successful.length}/${files.length} uploaded files successfully`);
+
+      return await this.transcribeDownloadedVideos(loadResult, options, startTime);
+
+    } catch (error) {
+      const totalTime = Date.now() - startTime;
+      console.error(`[TranscriptionService] Upload job failed after ${totalTime}ms:`, error);
+
+      return this.createFailedJobResult(
+        uploadedVideos,
+        [{ videoId: 'all', error: error instanceof Error ? error.message : 'Unknown error' }],
+        totalTime
+      );
+    } finally {
+      await Promise.all(loadResult.successful.map(video => VideoDownloader.releaseVideo(video)));
+    }
+  }
+
+  /**
+   * Transcribe videos that are already loaded and merge in any load failures
+   */
+  private async transcribeDownloadedVideos(
+    downloadResult: {
+      successful: DownloadedVideo[];
+      failed: Array<{ metadata: VideoMetadata; error: VideoDownloadError }>;
+    },
+    options: TranscriptionOptions,
+    startTime: number,
+    onProgress?: VideoProgressCallback
+  ): Promise<TranscriptionJobResult> {
+    // Step 2: Transcribe videos
+    console.log(`[TranscriptionService] Step 2: Transcribing ${downloadResult.successful.length} videos`);
+    const transcriptionResult = await this.geminiClient.transcribeVideos(
+      downloadResult.successful,
+      options,
+      onProgress
+    );
+
+    // Step 3: Process results
+    const results: TranscriptionResult[] = [];
+    const errors: Array<{ videoId: string; error: string }> = [];
+
+    // Process successful transcriptions, re-analyzing low scorers
+    results.push(...await Promise.all(transcriptionResult.successful.map(({ video, response }) =>
+      this.ensureQuality(video, this.createTranscriptionResult(video.metadata, response, true), response.parsePath, options)
+    )));
+
+    // Process transcription failures
+    for (const { video, error } of transcriptionResult.failed) {
+      const result = this.createTranscriptionResult(video.metadata, undefined, false, error.message);
+      if (error.usage) {
+        result.usage = error.usage;
+      }
+      results.push(result);
+      errors.push({ videoId: video.metadata.id, error: error.message });
+    }
+
+    // Process download failures
+    for (const { metadata, error } of downloadResult.failed) {
+      const result = this.createTranscriptionResult(metadata, undefined, false, error.message);
+      results.push(result);
+      errors.push({ videoId: metadata.id, error: error.message });
+    }
+
+    const totalTime = Date.now() - startTime;
+    const successfulCount = results.filter(r => r.success).length;
+    const failedCount = results.length - successfulCount;
+
+    console.log(`[TranscriptionService] Job completed in ${totalTime}ms: ${successfulCount} successful, ${failedCount} failed`);
+
+    return {
+      success: successfulCount > 0,
+      results,
+      totalProcessed: results.length,
+      totalFailed: failedCount,
+      processingTime: totalTime,
+      errors,
+      cache: this.summarizeCacheHits(results),
+      usage: summarizeUsage(results.map(result => result.usage))
+    };
+  }
+
   /**
    * Process a single video for transcription
    */
@@ -116,14 +276,25 @@ export class TranscriptionService {
       console.log(`[TranscriptionService] Processing single video: ${metadata.id} (${this.getProcessingMode(options)})`);
       
       // Download video
-      const downloadedVideo = await VideoDownloader.downloadVideo(metadata);
+      const downloadedVideo = await VideoDownloader.downloadVideo(metadata, { bypassCache: options.bypassCache });
       console.log(`[TranscriptionService] Downloaded video ${metadata.id}: ${VideoDownloader.formatFileSize(downloadedVideo.size)}`);
       
-      // Transcribe video
-      const response = await this.geminiClient.transcribeVideo(downloadedVideo, options);
-      console.log(`[TranscriptionService] Transcribed video ${metadata.id} successfully`);
-      
-      return this.createTranscriptionResult(metadata, response.text, true, undefined, Date.now() - startTime, options);
+      try {
+        // Transcribe video
+        const response = await this.geminiClient.transcribeVideo(downloadedVideo, options);
+        console.log(`[TranscriptionService] Transcribed video ${metadata.id} successfully`);
+
+        const result = await this.ensureQuality(
+          downloadedVideo,
+          this.createTranscriptionResult(metadata, response, true),
+          response.parsePath,
+          options
+        );
+        result.processingTime = Date.now() - startTime;
+        return result;
+      } finally {
+        await VideoDownloader.releaseVideo(downloadedVideo);
+      }
       
     } catch (error) {
       const processingTime = Date.now() - startTime;
@@ -133,7 +304,11 @@ export class TranscriptionService {
         ? error.message
         : `Unexpected error: ${error instanceof Error ? error.message : 'Unknown error'}`;
       
-      return this.createTranscriptionResult(metadata, '', false, errorMessage, processingTime, options);
+      const result = this.createTranscriptionResult(metadata, undefined, false, errorMessage, processingTime);
+      if (error instanceof GeminiTranscriptionError && error.usage) {
+        result.usage = error.usage;
+      }
+      return result;
     }
   }
 
@@ -142,7 +317,8 @@ export class TranscriptionService {
    */
   async transcribeVideosFast(
     videos: VideoMetadata[],
-    options: TranscriptionOptions = {}
+    options: TranscriptionOptions = {},
+    onProgress?: VideoProgressCallback
   ): Promise<TranscriptionJobResult> {
     // Force fast mode settings
     const fastOptions: TranscriptionOptions = {
@@ -157,7 +333,7 @@ export class TranscriptionService {
     return this.processTranscriptionRequest({
       videos,
       options: fastOptions
-    });
+    }, onProgress);
   }
 
   /**
@@ -196,8 +372,8 @@ export class TranscriptionService {
           errors.push(`Video ${index}: ID is required`);
         }
         
-        if (!video.platform || !['tiktok', 'instagram'].includes(video.platform)) {
-          errors.push(`Video ${index}: Platform must be 'tiktok' or 'instagram'`);
+        if (!video.platform || !SUPPORTED_VIDEO_PLATFORMS.includes(video.platform as VideoPlatform)) {
+          errors.push(`Video ${index}: Platform must be one of: ${SUPPORTED_VIDEO_PLATFORMS.join(', ')}`);
         }
         
         try {
@@ -207,6 +383,38 @@ export class TranscriptionService {
         }
       });
     }
+
+    const timestamps = request.options?.timestamps;
+    if (timestamps !== undefined && timestamps !== 'segment' && timestamps !== 'word') {
+      errors.push('options.timestamps must be "segment" or "word"');
+    }
+
+    const translateTo = request.options?.translateTo;
+    if (translateTo !== undefined && (typeof translateTo !== 'string' || !isLanguageCode(translateTo))) {
+      errors.push('options.translateTo must be a language code such as "en" or "es"');
+    }
+
+    const { model, fallbackModels } = request.options || {};
+    if (model !== undefined && !GEMINI_MODELS.includes(model)) {
+      errors.push(`options.model must be one of: ${GEMINI_MODELS.join(', ')}`);
+    }
+    if (fallbackModels !== undefined && (!Array.isArray(fallbackModels) || fallbackModels.some(fallback => !GEMINI_MODELS.includes(fallback)))) {
+      errors.push(`options.fallbackModels must be an array of: ${GEMINI_MODELS.join(', ')}`);
+    }
+
+    const qualityThreshold = request.options?.qualityThreshold;
+    if (qualityThreshold !== undefined && (typeof qualityThreshold !== 'number' || qualityThreshold < 0 || qualityThreshold > 100)) {
+      errors.push('options.qualityThreshold must be a number from 0 to 100');
+    }
+
+    // Framework ids are looked up when the analysis runs; inline definitions are checked here
+    const segmentFramework = request.options?.segmentFramework;
+    if (segmentFramework !== undefined && typeof segmentFramework !== 'string') {
+      const parsed = parseSegmentFramework(segmentFramework);
+      if (!parsed.success) {
+        errors.push(...parsed.issues.map(issue => `options.segmentFramework.${issue}`));
+      }
+    }
     
     return {
       valid: errors.length === 0,
@@ -219,11 +427,10 @@ export class TranscriptionService {
    */
   private createTranscriptionResult(
     metadata: VideoMetadata,
-    responseText: string,
+    response: GeminiResponse | undefined,
     success: boolean,
     error?: string,
-    processingTime?: number,
-    options?: TranscriptionOptions
+    processingTime?: number
   ): TranscriptionResult {
     const result: TranscriptionResult = {
       videoId: metadata.id,
@@ -239,335 +446,146 @@ export class TranscriptionService {
       return result;
     }
 
-    // Parse response based on whether marketing segments were requested
-    if (success && responseText && options?.extractMarketingSegments) {
-      const parsed = this.parseMarketingResponse(responseText);
-      result.transcription = parsed.transcription;
-      result.marketingSegments = parsed.marketingSegments;
-      result.wordAssignments = parsed.wordAssignments;
+    if (response?.model) {
+      result.model = response.model;
+    }
+    if (response?.modelFallbacks) {
+      result.modelFallbacks = response.modelFallbacks;
+    }
+    if (response?.prompts) {
+      result.prompts = response.prompts;
+    }
+    if (response?.usage) {
+      result.usage = response.usage;
+    }
+    if (response?.audioExtraction) {
+      result.metadata = { ...result.metadata, audioExtraction: response.audioExtraction };
+    }
+    if (response?.cached !== undefined) {
+      result.metadata = { ...result.metadata, cache: { response: response.cached } };
+    }
+    if (response?.timeline) {
+      result.timeline = response.timeline;
+    }
+    if (response?.diarization) {
+      result.diarization = response.diarization;
+    }
+    if (response?.language) {
+      result.language = response.language;
+    }
+    if (response?.translation) {
+      result.translation = response.translation;
+    }
+
+    // Marketing analysis responses are validated against the schema by GeminiClient
+    if (response?.analysis) {
+      const { transcription, marketingSegments } = response.analysis;
+      result.transcription = transcription;
+      result.marketingSegments = marketingSegments;
+      result.segmentFramework = response.analysis.segmentFramework;
+
+      // Word assignments come from aligning the segments with the transcript, not from Gemini
+      const { wordAssignments, alignment } = alignSegments(transcription, marketingSegments);
+      result.alignment = alignment;
+      if (wordAssignments.length > 0) {
+        result.wordAssignments = response.timeline ? alignWordTimes(wordAssignments, response.timeline) : wordAssignments;
+      }
+      if (alignment.quality === 'low') {
+        console.warn(`[TranscriptionService] Segments of ${metadata.id} could not be aligned with the transcript:`, alignment.issues);
+      } else if (alignment.quality === 'repaired') {
+        console.log(`[TranscriptionService] Aligned segments of ${metadata.id} after repairing ${alignment.repairedWords} transcript and ${alignment.unmatchedSegmentWords} segment words`);
+      }
     } else {
       // Standard transcription
-      result.transcription = responseText;
+      result.transcription = response?.text || '';
     }
     
     return result;
   }
 
   /**
-   * Parse marketing analysis response from Gemini
+   * Score a successful result and, when it falls below the quality threshold,
+   * analyze the video once more with the strict prompt on the next model in
+   * the fallback chain (the same model without one). The better-scoring
+   * result is returned; its usage covers both calls. Only marketing analysis
+   * is re-analyzed, since the strict prompt only tightens the segments.
    */
-  private parseMarketingResponse(responseText: string): {
-    transcription: string;
-    marketingSegments?: MarketingSegments;
-    wordAssignments?: WordAssignment[];
-  } {
+  private async ensureQuality(
+    video: DownloadedVideo,
+    result: TranscriptionResult,
+    parsePath: TranscriptParsePath | undefined,
+    options: TranscriptionOptions
+  ): Promise<TranscriptionResult> {
+    const framework = await this.getResultFramework(result, options);
+    const quality = scoreTranscriptionResult(result, parsePath, framework);
+    result.quality = quality;
+
+    const threshold = options.qualityThreshold ?? DEFAULT_QUALITY_THRESHOLD;
+    if (quality.score >= threshold || options.strictPrompt || !options.extractMarketingSegments) {
+      return result;
+    }
+
+    const chain = GeminiClient.getModelChain(options);
+    const [model = chain[chain.length - 1], ...fallbackModels] = chain.slice(chain.indexOf(result.model as GeminiModel) + 1);
+    console.warn(`[TranscriptionService] ${result.videoId} scored ${quality.score} (below ${threshold}); re-analyzing with ${model}:`, quality.issues.map(issue => issue.message));
+
     try {
-      console.log('[TranscriptionService] Raw Gemini response:', responseText.substring(0, 500) + '...');
-      
-      // Clean up the response text - remove markdown code blocks and extra text
-      let cleanedResponse = responseText;
-      
-      // Remove common prefixes that Gemini sometimes adds
-      const prefixPatterns = [
-        /^.*?(?:Okay, I'm ready to analyze this video and provide the JSON output\.).*?(?:\n|$)/i,
-        /^.*?(?:I'm ready to analyze.*?and provide.*?JSON.*?output).*?(?:\n|$)/i,
-        /^.*?(?:I'm ready to analyze|Here's the analysis|Let me analyze).*?(?:\n|$)/i,
-        /^.*?(?:```json|```)/i,
-        /^.*?(?:Okay,|Sure,|Here's|Let me).*?(?:\n|$)/i,
-        /^.*?(?:Based on|Looking at|After analyzing).*?(?:\n|$)/i,
-        /^.*?(?:The video|This video|I can see).*?(?:\n|$)/i
-      ];
-      
-      for (const pattern of prefixPatterns) {
-        cleanedResponse = cleanedResponse.replace(pattern, '');
-      }
-      
-      // Remove trailing markdown and extra text
-      cleanedResponse = cleanedResponse.replace(/```.*$/s, '');
-      cleanedResponse = cleanedResponse.replace(/\n\s*Note:.*$/s, '');
-      cleanedResponse = cleanedResponse.replace(/\n\s*Please.*$/s, '');
-      
-      // Remove everything before the first opening brace since response should start with {
-      const firstBraceIndex = cleanedResponse.indexOf('{');
-      if (firstBraceIndex > 0) {
-        cleanedResponse = cleanedResponse.substring(firstBraceIndex);
-        console.log('[TranscriptionService] Removed text before first opening brace');
-      }
-      
-      cleanedResponse = cleanedResponse.trim();
-      
-      console.log('[TranscriptionService] Cleaned response:', cleanedResponse.substring(0, 300) + '...');
-      
-      // Try multiple JSON extraction methods
-      let jsonString = '';
-      
-      // Method 1: Look for JSON wrapped in code blocks
-      const codeBlockMatch = responseText.match(/```(?:json)?\s*(\{[\s\S]*?\})\s*```/i);
-      if (codeBlockMatch) {
-        jsonString = codeBlockMatch[1];
-        console.log('[TranscriptionService] Found JSON in code block');
-      }
-      
-      // Method 2: Look for JSON object in cleaned response
-      if (!jsonString) {
-        const jsonMatch = cleanedResponse.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-          jsonString = jsonMatch[0];
-          console.log('[TranscriptionService] Found JSON in cleaned response');
-        }
-      }
-      
-      // Method 3: Look for JSON in original response
-      if (!jsonString) {
-        const originalJsonMatch = responseText.match(/\{[\s\S]*\}/);
-        if (originalJsonMatch) {
-          jsonString = originalJsonMatch[0];
-          console.log('[TranscriptionService] Found JSON in original response');
-        }
-      }
-      
-      if (jsonString) {
-        try {
-          // First try to parse the complete JSON
-          const parsed = JSON.parse(jsonString);
-          console.log('[TranscriptionService] Successfully parsed JSON');
-          
-          if (parsed.transcription && parsed.marketingSegments) {
-            const result: any = {
-              transcription: parsed.transcription,
-              marketingSegments: parsed.marketingSegments
-            };
-
-            // Include word assignments if present and valid
-            if (parsed.wordAssignments && Array.isArray(parsed.wordAssignments)) {
-              result.wordAssignments = parsed.wordAssignments;
-              
-              // Validate word assignments
-              const validationResult = this.validateWordAssignments(
-                parsed.transcription, 
-                parsed.marketingSegments, 
-                parsed.wordAssignments
-              );
-              
-              if (!validationResult.valid) {
-                console.warn('[TranscriptionService] Word assignment validation failed:', validationResult.errors);
-                // Still return the result but log the validation issues
-              } else {
-                console.log('[TranscriptionService] Word assignment validation passed');
-              }
-            }
-
-            return result;
-          } else {
-            console.warn('[TranscriptionService] Parsed JSON missing required fields');
-          }
-        } catch (parseError) {
-          console.error('[TranscriptionService] JSON parsing failed:', parseError);
-          console.log('[TranscriptionService] Attempting to parse without word assignments');
-          
-          // Try to parse just the core data without word assignments
-          try {
-            // Extract just the core sections without word assignments
-            const coreJsonMatch = jsonString.match(/\{[^}]*"transcription"\s*:\s*"[^"]*"[^}]*"marketingSegments"\s*:\s*\{[^}]*\}[^}]*\}/s);
-            if (coreJsonMatch) {
-              const coreJson = coreJsonMatch[0];
-              const coreParsed = JSON.parse(coreJson);
-              
-              if (coreParsed.transcription && coreParsed.marketingSegments) {
-                console.log('[TranscriptionService] Successfully parsed core JSON without word assignments');
-                return {
-                  transcription: coreParsed.transcription,
-                  marketingSegments: coreParsed.marketingSegments
-                };
-              }
-            }
-          } catch (coreParseError) {
-            console.error('[TranscriptionService] Core JSON parsing also failed:', coreParseError);
-          }
-        }
-      }
-      
-      // If JSON parsing fails, try to extract manually
-      console.warn('[TranscriptionService] Failed to parse JSON response, attempting manual extraction');
-      
-      // Look for transcription section with various patterns
-      const transcriptionPatterns = [
-        /(?:"transcription"\s*:\s*"(.*?)"\s*[,}])/is,
-        /(?:transcription['"]\s*:\s*['"](.*?)['"]\s*[,}])/is,
-        /(?:Transcription:\s*(.*?)(?:\n\n|\n(?=[A-Z])))/is
-      ];
-      
-      let transcription = '';
-      for (const pattern of transcriptionPatterns) {
-        const match = responseText.match(pattern);
-        if (match) {
-          transcription = match[1].trim();
-          console.log('[TranscriptionService] Extracted transcription using pattern');
-          break;
-        }
-      }
-      
-      // If no transcription found, try to extract just the text content without word assignments
-      if (!transcription) {
-        // Try to find content between "transcription" and "marketingSegments" or "wordAssignments"
-        const transcriptionSectionMatch = responseText.match(/"transcription"\s*:\s*"(.*?)"\s*,\s*"(?:marketingSegments|wordAssignments)/is);
-        if (transcriptionSectionMatch) {
-          transcription = transcriptionSectionMatch[1].trim();
-          console.log('[TranscriptionService] Extracted transcription from section');
-        } else {
-          // Last resort: try to extract from marketing segments concatenation
-          console.warn('[TranscriptionService] Could not extract transcription, will attempt to reconstruct from segments');
-          transcription = this.reconstructTranscriptionFromSegments(responseText);
+      const response = await this.geminiClient.transcribeVideo(video, { ...options, model, fallbackModels, strictPrompt: true });
+      const retry = this.createTranscriptionResult(video.metadata, response, true, undefined, result.processingTime);
+      const retryQuality = scoreTranscriptionResult(retry, response.parsePath, framework);
+      retry.quality = retryQuality;
+
+      const kept = retryQuality.score > quality.score ? retry : result;
+      kept.quality = {
+        ...kept.quality!,
+        reanalysis: {
+          model,
+          originalScore: quality.score,
+          reanalyzedScore: retryQuality.score,
+          kept: kept === retry ? 'reanalysis' : 'original'
         }
-      }
-      
-      // Try to extract marketing segments manually
-      const hookMatch = responseText.match(/(?:Hook['"]\s*:\s*['"](.*?)['"]\s*[,}])|(?:Hook:\s*(.*?)(?:\n|$))/is);
-      const bridgeMatch = responseText.match(/(?:Bridge['"]\s*:\s*['"](.*?)['"]\s*[,}])|(?:Bridge:\s*(.*?)(?:\n|$))/is);
-      const nuggetMatch = responseText.match(/(?:Golden Nugget['"]\s*:\s*['"](.*?)['"]\s*[,}])|(?:Golden Nugget:\s*(.*?)(?:\n|$))/is);
-      const wtaMatch = responseText.match(/(?:WTA['"]\s*:\s*['"](.*?)['"]\s*[,}])|(?:WTA:\s*(.*?)(?:\n|$))/is);
-      
-      const marketingSegments: MarketingSegments = {
-        Hook: hookMatch ? (hookMatch[1] || hookMatch[2] || '').trim() : 'Not Present',
-        Bridge: bridgeMatch ? (bridgeMatch[1] || bridgeMatch[2] || '').trim() : 'Not Present',
-        "Golden Nugget": nuggetMatch ? (nuggetMatch[1] || nuggetMatch[2] || '').trim() : 'Not Present',
-        WTA: wtaMatch ? (wtaMatch[1] || wtaMatch[2] || '').trim() : 'Not Present'
-      };
-      
-      console.log('[TranscriptionService] Manual extraction completed');
-      
-      return {
-        transcription,
-        marketingSegments
       };
-      
+      kept.usage = summarizeUsage([result.usage, retry.usage]);
+      if (kept === retry) {
+        retry.modelFallbacks = [
+          ...(result.modelFallbacks || []),
+          { model: result.model || model, reason: 'quality', error: `Quality score ${quality.score} is below ${threshold}` },
+          ...(retry.modelFallbacks || [])
+        ];
+      }
+      console.log(`[TranscriptionService] Re-analysis of ${result.videoId} scored ${retryQuality.score}; kept the ${kept.quality.reanalysis!.kept} result`);
+      return kept;
     } catch (error) {
-      console.error('[TranscriptionService] Error parsing marketing response:', error);
-      console.error('[TranscriptionService] Raw response that failed:', responseText.substring(0, 500) + '...');
-      
-      // Try one last attempt to extract just the transcription text
-      let fallbackTranscription = 'Parsing failed - unable to extract transcription';
-      const lastResortMatch = responseText.match(/"transcription"\s*:\s*"([^"]*?)"/i);
-      if (lastResortMatch) {
-        fallbackTranscription = lastResortMatch[1];
-        console.log('[TranscriptionService] Extracted fallback transcription');
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.warn(`[TranscriptionService] Re-analysis of ${result.videoId} failed; keeping the original result:`, message);
+      quality.reanalysis = { model, originalScore: quality.score, kept: 'original', error: message };
+      if (error instanceof GeminiTranscriptionError && error.usage) {
+        result.usage = summarizeUsage([result.usage, error.usage]);
       }
-      
-      return {
-        transcription: fallbackTranscription,
-        marketingSegments: {
-          Hook: 'Parsing Error',
-          Bridge: 'Parsing Error',
-          "Golden Nugget": 'Parsing Error',
-          WTA: 'Parsing Error'
-        }
-      };
+      return result;
     }
   }
 
   /**
-   * Reconstruct transcription from marketing segments when direct extraction fails
+   * The framework a result's segments follow, for scoring segment lengths.
+   * An inline framework from the options is used when its id matches.
    */
-  private reconstructTranscriptionFromSegments(responseText: string): string {
-    try {
-      // Extract marketing segments
-      const hookMatch = responseText.match(/"Hook"\s*:\s*"([^"]*?)"/i);
-      const bridgeMatch = responseText.match(/"Bridge"\s*:\s*"([^"]*?)"/i);
-      const nuggetMatch = responseText.match(/"Golden Nugget"\s*:\s*"([^"]*?)"/i);
-      const wtaMatch = responseText.match(/"WTA"\s*:\s*"([^"]*?)"/i);
-      
-      const segments = [
-        hookMatch ? hookMatch[1] : '',
-        bridgeMatch ? bridgeMatch[1] : '',
-        nuggetMatch ? nuggetMatch[1] : '',
-        wtaMatch ? wtaMatch[1] : ''
-      ].filter(segment => segment.trim().length > 0);
-      
-      if (segments.length > 0) {
-        const reconstructed = segments.join(' ').trim();
-        console.log('[TranscriptionService] Reconstructed transcription from segments');
-        return reconstructed;
-      }
-    } catch (error) {
-      console.error('[TranscriptionService] Failed to reconstruct from segments:', error);
+  private async getResultFramework(
+    result: TranscriptionResult,
+    options: TranscriptionOptions
+  ): Promise<SegmentFramework | undefined> {
+    if (!result.marketingSegments) {
+      return undefined;
     }
-    
-    return 'Transcription extraction failed - unable to parse response';
-  }
-
-  /**
-   * Validate that word assignments cover the entire transcript
-   */
-  private validateWordAssignments(
-    transcription: string,
-    marketingSegments: MarketingSegments,
-    wordAssignments: WordAssignment[]
-  ): { valid: boolean; errors: string[] } {
-    const errors: string[] = [];
 
+    const inline = typeof options.segmentFramework === 'object' && options.segmentFramework.id === result.segmentFramework
+      ? options.segmentFramework
+      : undefined;
     try {
-      // Check if word assignments exist
-      if (!wordAssignments || wordAssignments.length === 0) {
-        errors.push('No word assignments provided');
-        return { valid: false, errors };
-      }
-
-      // Reconstruct transcript from word assignments
-      const sortedAssignments = wordAssignments.sort((a, b) => a.position - b.position);
-      const reconstructedTranscript = sortedAssignments.map(w => w.word).join(' ');
-      
-      // Normalize both transcripts for comparison (remove extra whitespace, normalize punctuation)
-      const normalizeText = (text: string) => text.replace(/\s+/g, ' ').trim();
-      const originalNormalized = normalizeText(transcription);
-      const reconstructedNormalized = normalizeText(reconstructedTranscript);
-      
-      if (originalNormalized !== reconstructedNormalized) {
-        errors.push(`Word assignments don't match original transcript. Original: "${originalNormalized.substring(0, 100)}..." Reconstructed: "${reconstructedNormalized.substring(0, 100)}..."`);
-      }
-
-      // Check that marketing segments concatenation matches transcript
-      const segmentsConcatenated = [
-        marketingSegments.Hook,
-        marketingSegments.Bridge,
-        marketingSegments["Golden Nugget"],
-        marketingSegments.WTA
-      ].join(' ');
-      
-      const segmentsNormalized = normalizeText(segmentsConcatenated);
-      
-      if (originalNormalized !== segmentsNormalized) {
-        errors.push(`Marketing segments concatenation doesn't match original transcript`);
-      }
-
-      // Check for duplicate positions
-      const positions = wordAssignments.map(w => w.position);
-      const uniquePositions = new Set(positions);
-      if (positions.length !== uniquePositions.size) {
-        errors.push('Duplicate word positions found');
-      }
-
-      // Check for missing positions (should be consecutive from 1 to N)
-      const expectedPositions = Array.from({ length: wordAssignments.length }, (_, i) => i + 1);
-      const missingPositions = expectedPositions.filter(pos => !positions.includes(pos));
-      if (missingPositions.length > 0) {
-        errors.push(`Missing word positions: ${missingPositions.join(', ')}`);
-      }
-
-      // Validate category distribution
-      const categoryStats = {
-        Hook: wordAssignments.filter(w => w.category === 'Hook').length,
-        Bridge: wordAssignments.filter(w => w.category === 'Bridge').length,
-        'Golden Nugget': wordAssignments.filter(w => w.category === 'Golden Nugget').length,
-        WTA: wordAssignments.filter(w => w.category === 'WTA').length
-      };
-
-      console.log('[TranscriptionService] Word assignment distribution:', categoryStats);
-
-      return { valid: errors.length === 0, errors };
-
+      return await resolveSegmentFramework(inline || result.segmentFramework);
     } catch (error) {
-      errors.push(`Validation error: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      return { valid: false, errors };
+      console.warn(`[TranscriptionService] Could not load segment framework ${result.segmentFramework} to score ${result.videoId}:`, error);
+      return undefined;
     }
   }
 
@@ -580,7 +598,7 @@ export class TranscriptionService {
     processingTime: number
   ): TranscriptionJobResult {
     const results: TranscriptionResult[] = videos.map(video => 
-      this.createTranscriptionResult(video, '', false, 'Job failed before processing')
+      this.createTranscriptionResult(video, undefined, false, 'Job failed before processing')
     );
     
     return {
@@ -593,6 +611,22 @@ export class TranscriptionService {
     };
   }
 
+  /**
+   * Count cache hits and misses across a job's results; videos that never
+   * reached a stage are not counted for it
+   */
+  private summarizeCacheHits(results: TranscriptionResult[]): TranscriptionJobResult['cache'] {
+    const count = (stage: 'download' | 'response') => {
+      const flags = results
+        .map(result => result.metadata?.cache?.[stage])
+        .filter((flag): flag is boolean => flag !== undefined);
+      const hits = flags.filter(Boolean).length;
+      return { hits, misses: flags.length - hits };
+    };
+
+    return { downloads: count('download'), responses: count('response') };
+  }
+
   /**
    * Get service health status
    */
@@ -636,7 +670,8 @@ export class TranscriptionService {
     }
 
     console.log(`[TranscriptionService] Generating templates for video ${result.videoId}`);
-    return await this.templateGenerator.generateTemplatesFromSegments(result.marketingSegments);
+    const framework = await resolveSegmentFramework(result.segmentFramework);
+    return await this.templateGenerator.generateTemplatesFromSegments(result.marketingSegments, framework);
   }
 
   /**
@@ -649,6 +684,7 @@ export class TranscriptionService {
     processingTime: number;
   }> {
     console.log(`[TranscriptionService] Generating synthetic script for topic: ${topic}`);
-    return await this.templateGenerator.generateSyntheticScript(topic, template);
+    const framework = await resolveSegmentFramework(template.framework);
+    return await this.templateGenerator.generateSyntheticScript(topic, template, framework);
   }
 } 
\ No newline at end of file
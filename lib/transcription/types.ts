@@ -1,6 +1,13 @@
+export type VideoPlatform = 'tiktok' | 'instagram' | 'youtube';
+
+export const SUPPORTED_VIDEO_PLATFORMS: VideoPlatform[] = ['tiktok', 'instagram', 'youtube'];
+
+// Uploaded files are transcribed alongside scraped videos but have no source platform
+export type VideoSource = VideoPlatform | 'upload';
+
 export interface VideoMetadata {
   url: string;
-  platform: 'tiktok' | 'instagram';
+  platform: VideoSource;
   id: string;
   description?: string;
   duration?: number;
@@ -12,32 +19,245 @@ export interface TranscriptionRequest {
   options?: TranscriptionOptions;
 }
 
+export type GeminiModel = 'gemini-2.0-flash' | 'gemini-2.5-flash-preview' | 'gemini-2.5-pro-preview';
+
+// Cheapest to strongest
+export const GEMINI_MODELS: GeminiModel[] = ['gemini-2.0-flash', 'gemini-2.5-flash-preview', 'gemini-2.5-pro-preview'];
+
+/**
+ * Why a model was given up on for the next one in the fallback chain
+ */
+export type ModelFallbackReason =
+  | 'timeout'
+  | 'blocked' // Safety or other content block
+  | 'empty_response'
+  | 'invalid_response' // Didn't match the response schema
+  | 'unavailable' // Rate limited, server errors or unknown model, after retries
+  | 'quality'; // Result scored below the quality threshold
+
+export interface ModelFallback {
+  model: string;
+  reason: ModelFallbackReason;
+  error: string;
+}
+
 export interface TranscriptionOptions {
   includeVisualDescriptions?: boolean;
-  language?: string;
-  model?: 'gemini-2.0-flash' | 'gemini-2.5-flash-preview' | 'gemini-2.5-pro-preview';
+  language?: string; // Expected language, a hint only; the detected one is reported on the result
+  model?: GeminiModel;
+  fallbackModels?: GeminiModel[]; // Tried in order when the model fails; no fallback by default
   extractMarketingSegments?: boolean; // New option for marketing analysis
   fastMode?: boolean; // Optimize for speed over detailed analysis
+  extractAudio?: boolean; // Send only the audio track when visual descriptions are off
+  bypassCache?: boolean; // Skip cached downloads and responses; fresh results still refresh the cache
+  timestamps?: TimestampGranularity; // Ask Gemini for start/end times per segment or per word
+  diarize?: boolean; // Split the transcript into speaker-labelled utterances
+  translateTo?: string; // Language code; adds a translation alongside the original transcript
+  segmentFramework?: string | SegmentFramework; // Framework id or an inline definition; defaults to Hook/Bridge/Golden Nugget/WTA
+  qualityThreshold?: number; // Re-analyze results scoring below this (0-100) once with a stricter prompt; 0 turns it off
+  strictPrompt?: boolean; // Stricter segmentation rules, used when re-analyzing a low-scoring result
+}
+
+/**
+ * One category of a segment framework, e.g. the Hook of Hook/Bridge/Golden Nugget/WTA
+ */
+export interface SegmentCategoryDefinition {
+  name: string; // Key in MarketingSegments and WordAssignment.category, e.g. "Golden Nugget"
+  templateKey: string; // Key in ScriptTemplate, e.g. "nugget"
+  definition: string;
+  examples?: string[];
+  maxWords?: number; // Longest the segment should usually be; longer ones lower the quality score
 }
 
-export interface MarketingSegments {
-  Hook: string;
-  Bridge: string;
-  "Golden Nugget": string;
-  WTA: string;
+/**
+ * A named script structure that transcripts are split into. Categories are
+ * listed in the order they usually appear in a video.
+ */
+export interface SegmentFramework {
+  id: string; // e.g. "aida"
+  name: string; // e.g. "AIDA"
+  description?: string;
+  categories: SegmentCategoryDefinition[];
+  guidance?: string; // Extra analysis rules for the prompt
+  builtIn?: boolean;
+}
+
+/**
+ * One version of a registered prompt. `template` holds {{variable}}
+ * placeholders that are filled in when the prompt is rendered.
+ */
+export interface PromptVersion {
+  version: number;
+  createdAt: string; // Date the version was added, YYYY-MM-DD
+  changes?: string; // What changed from the previous version
+  template: string;
+}
+
+/**
+ * A named prompt with every version it has had, oldest first. The last
+ * version is the one in use.
+ */
+export interface PromptDefinition {
+  id: string; // e.g. "marketing-analysis"
+  name: string;
+  description: string;
+  versions: PromptVersion[];
+}
+
+/**
+ * The registered prompt and version a Gemini request was built from
+ */
+export interface PromptRef {
+  id: string;
+  version: number;
 }
 
+/**
+ * Text assigned to each category of a segment framework, keyed by category
+ * name in framework order
+ */
+export type MarketingSegments = Record<string, string>;
+
+export type SegmentCategory = string;
+
 export interface WordAssignment {
   word: string;
-  category: 'Hook' | 'Bridge' | 'Golden Nugget' | 'WTA';
+  category: SegmentCategory;
   position: number;
+  charStart?: number; // Offset of the word in the transcription
+  charEnd?: number; // Exclusive
+  start?: number; // Seconds from the start of the video, present with word timestamps
+  end?: number;
+}
+
+export type AlignmentQuality = 'exact' | 'repaired' | 'low';
+
+/**
+ * How well the marketing segments lined up with the transcript when word
+ * assignments were derived from them. Word counts skip punctuation-only words.
+ */
+export interface SegmentAlignment {
+  quality: AlignmentQuality; // 'low' when a segment can't be found or too few words match
+  transcriptWords: number;
+  segmentWords: number;
+  matchedWords: number;
+  repairedWords: number; // Transcript words missing from the segments, assigned from their neighbours
+  unmatchedSegmentWords: number; // Segment words not in the transcript, e.g. repeated in two segments
+  issues: string[];
+}
+
+/**
+ * Where the transcript of a Gemini response was read from: the marketing
+ * analysis, the "transcription" field of the JSON, the joined timeline or
+ * speaker turns, or, when none of those had it, the raw response text
+ */
+export type TranscriptParsePath = 'analysis' | 'json' | 'timeline' | 'diarization' | 'raw';
+
+export type QualityCheck = 'transcript' | 'coverage' | 'alignment' | 'segment_length' | 'empty_segment' | 'parse_path';
+
+export interface QualityIssue {
+  check: QualityCheck;
+  message: string;
+  penalty: number; // Points taken off the score
 }
 
-export interface ScriptTemplate {
-  hook: string;
-  bridge: string;
-  nugget: string;
-  wta: string;
+/**
+ * How usable a result is as training data, scored out of 100, with the
+ * issues that lowered the score
+ */
+export interface QualityReport {
+  score: number;
+  issues: QualityIssue[];
+  parsePath?: TranscriptParsePath;
+  // Present when the result scored below the threshold and was analyzed again
+  reanalysis?: {
+    model: string;
+    originalScore: number;
+    reanalyzedScore?: number; // Absent when the second call failed
+    kept: 'original' | 'reanalysis';
+    error?: string;
+  };
+}
+
+export type TimestampGranularity = 'segment' | 'word';
+
+/**
+ * A timed span of speech. `category` is set when marketing segments were requested.
+ */
+export interface TimelineEntry {
+  start: number; // Seconds from the start of the video
+  end: number;
+  text: string;
+  category?: SegmentCategory;
+}
+
+/**
+ * When each part of the transcript is spoken, at segment (phrase) or word granularity
+ */
+export interface TranscriptTimeline {
+  granularity: TimestampGranularity;
+  entries: TimelineEntry[];
+  // First and last second of each marketing segment, e.g. where the hook ends
+  segmentRanges?: Partial<Record<SegmentCategory, { start: number; end: number }>>;
+}
+
+/**
+ * One speaker turn. Times are present when timestamps were requested too.
+ */
+export interface SpeakerUtterance {
+  speaker: string; // e.g. "Speaker 1", numbered in order of first appearance
+  text: string;
+  start?: number;
+  end?: number;
+}
+
+export interface SpeakerStats {
+  speaker: string;
+  wordCount: number;
+  share: number; // Fraction of all spoken words, 0-1
+}
+
+/**
+ * Who said what. The primary speaker is the one with the most words.
+ */
+export interface Diarization {
+  utterances: SpeakerUtterance[];
+  speakers: SpeakerStats[];
+  primarySpeaker: string;
+}
+
+/**
+ * Language mostly spoken in a video, as detected by Gemini
+ */
+export interface DetectedLanguage {
+  code: string; // ISO 639-1 primary subtag in lower case, e.g. "es"
+  name: string; // English name, e.g. "Spanish"
+}
+
+/**
+ * The transcript in another language, kept next to the original. Segments
+ * are translated one by one so they line up with the original segments.
+ */
+export interface TranscriptTranslation {
+  language: string; // Target language code
+  transcription: string;
+  marketingSegments?: MarketingSegments;
+}
+
+/**
+ * A reusable template per category, keyed by each category's templateKey
+ * (hook, bridge, nugget and wta for the default framework). `framework` is
+ * absent for the default framework.
+ */
+export type ScriptTemplate = Record<string, string> & { framework?: string };
+
+/**
+ * A script written on a topic by following a template
+ */
+export interface SyntheticScript {
+  topic: string;
+  script: MarketingSegments;
+  prompt?: PromptRef; // Prompt version the script was written with; absent when supplied by older runs or callers
 }
 
 export interface TranscriptionResult {
@@ -47,33 +267,152 @@ export interface TranscriptionResult {
   transcription: string;
   visualDescription?: string;
   marketingSegments?: MarketingSegments;
+  segmentFramework?: string; // Id of the framework the segments follow; absent on older results means the default
   wordAssignments?: WordAssignment[];
+  alignment?: SegmentAlignment; // Set with marketing analysis
+  timeline?: TranscriptTimeline;
+  diarization?: Diarization;
+  language?: DetectedLanguage;
+  translation?: TranscriptTranslation; // Absent when the video is already in the target language
+  quality?: QualityReport; // Set on successful results
+  model?: string; // Model that produced the result
+  modelFallbacks?: ModelFallback[]; // Models tried before it, in order
+  prompts?: PromptRef[]; // Registered prompts the request was built from, the main prompt first
   scriptTemplate?: ScriptTemplate;
   processingTime: number;
   success: boolean;
   error?: string;
+  usage?: GeminiUsage | UsageSummary; // A summary when the result took several billed calls, e.g. fallbacks or a re-analysis
   metadata?: {
     viewCount?: number;
     likeCount?: number;
     quality?: string;
     fileSize?: number;
+    audioExtraction?: AudioExtractionStats;
+    // Whether the download and the Gemini response came from the cache
+    cache?: {
+      download?: boolean;
+      response?: boolean;
+    };
   };
 }
 
+export type VideoProgressStage =
+  | 'downloading'
+  | 'downloaded'
+  | 'download_failed'
+  | 'transcribing'
+  | 'transcribed'
+  | 'transcription_failed';
+
+/**
+ * Per-video progress reported while a batch is downloaded and transcribed.
+ * `index` is the video's 1-based position within its stage's batch of `total`.
+ */
+export interface VideoProgressEvent {
+  videoId: string;
+  stage: VideoProgressStage;
+  index: number;
+  total: number;
+  error?: string;
+}
+
+export type VideoProgressCallback = (event: VideoProgressEvent) => void;
+
 export interface DownloadedVideo {
-  buffer: Buffer;
+  buffer?: Buffer; // Videos small enough to send inline are held in memory
+  filePath?: string; // Larger videos are streamed to a temp file; see VideoDownloader.releaseVideo
   mimeType: string;
   size: number;
   metadata: VideoMetadata;
+  contentHash?: string; // SHA-256 of the video's bytes
+  cached?: boolean;
+}
+
+/**
+ * How GeminiClient retries rate-limited, failing or timed out requests
+ */
+export interface GeminiRetryPolicy {
+  maxAttempts: number; // Total requests per video, including the first
+  initialDelayMs: number; // Backoff before the first retry
+  maxDelayMs: number; // Cap on the computed backoff
+  backoffMultiplier: number;
+  maxRetryAfterMs: number; // Longest server-requested wait to honour before giving up
+  retryableStatusCodes: number[];
+}
+
+/**
+ * Payload and token savings from sending a video's audio track instead of the video
+ */
+export interface AudioExtractionStats {
+  originalBytes: number;
+  audioBytes: number;
+  bytesSaved: number;
+  durationSeconds?: number;
+  estimatedTokensSaved?: number; // From Gemini's per-second video and audio token rates; needs the duration
+  extractionTime: number;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  audioPromptTokens?: number; // Part of promptTokens; billed at the audio rate on some models
+}
+
+/**
+ * Token usage and cost of one Gemini call. Cached calls report the tokens of
+ * the original call but cost nothing.
+ */
+export interface GeminiUsage extends TokenUsage {
+  model: string;
+  costUsd: number;
+  cached?: boolean;
+}
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+/**
+ * Billed usage across many calls. Cached calls are counted separately and
+ * left out of the token and cost totals.
+ */
+export interface UsageSummary extends UsageTotals {
+  cachedCalls: number;
+  byModel: Record<string, UsageTotals>;
 }
 
 export interface GeminiResponse {
   text: string;
-  usage?: {
-    promptTokens: number;
-    completionTokens: number;
-    totalTokens: number;
+  // Validated marketing analysis, present when segments were requested
+  analysis?: {
+    transcription: string;
+    marketingSegments: MarketingSegments;
+    wordAssignments?: WordAssignment[];
+    segmentFramework: string;
   };
+  timeline?: TranscriptTimeline; // Present when timestamps were requested
+  diarization?: Diarization; // Present when diarization was requested
+  language?: DetectedLanguage;
+  translation?: TranscriptTranslation; // Present when a translation was requested into another language
+  model?: string;
+  modelFallbacks?: ModelFallback[]; // Models that failed before this one answered
+  usage?: GeminiUsage | UsageSummary; // A summary when models that failed before this one were billed too
+  parsePath?: TranscriptParsePath;
+  prompts?: PromptRef[];
+  attempts?: number; // Requests it took, including retries
+  audioExtraction?: AudioExtractionStats; // Present when audio was sent instead of the video
+  cached?: boolean;
+}
+
+export interface CacheHitStats {
+  hits: number;
+  misses: number;
 }
 
 export interface TranscriptionJobResult {
@@ -86,6 +425,11 @@ export interface TranscriptionJobResult {
     videoId: string;
     error: string;
   }>;
+  cache?: {
+    downloads: CacheHitStats;
+    responses: CacheHitStats;
+  };
+  usage?: UsageSummary;
 }
 
 export interface TrainingExample {
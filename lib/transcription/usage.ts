@@ -0,0 +1,99 @@
+import { GeminiUsage, TokenUsage, UsageSummary, UsageTotals } from './types';
+
+/**
+ * USD per million tokens. Models that bill audio input at a different rate
+ * set `audioInputPerMillion`; other input (text, image, video) uses `inputPerMillion`.
+ */
+export interface ModelPricing {
+  inputPerMillion: number;
+  audioInputPerMillion?: number;
+  outputPerMillion: number;
+}
+
+export const GEMINI_MODEL_PRICING: Record<string, ModelPricing> = {
+  'gemini-2.0-flash': { inputPerMillion: 0.1, audioInputPerMillion: 0.7, outputPerMillion: 0.4 },
+  'gemini-2.5-flash-preview': { inputPerMillion: 0.15, audioInputPerMillion: 1.0, outputPerMillion: 0.6 },
+  'gemini-2.5-pro-preview': { inputPerMillion: 1.25, outputPerMillion: 10.0 }
+};
+
+const warnedModels = new Set<string>();
+
+/**
+ * Price a call's token usage with the model's entry in GEMINI_MODEL_PRICING
+ */
+export function priceUsage(model: string, usage: TokenUsage): GeminiUsage {
+  const pricing = GEMINI_MODEL_PRICING[model];
+  if (!pricing) {
+    if (!warnedModels.has(model)) {
+      warnedModels.add(model);
+      console.warn(`[Usage] No pricing for model ${model}; its calls are counted at $0`);
+    }
+    return { ...usage, model, costUsd: 0 };
+  }
+
+  const audioTokens = usage.audioPromptTokens || 0;
+  const cost = (
+    (usage.promptTokens - audioTokens) * pricing.inputPerMillion +
+    audioTokens * (pricing.audioInputPerMillion ?? pricing.inputPerMillion) +
+    usage.completionTokens * pricing.outputPerMillion
+  ) / 1_000_000;
+
+  return { ...usage, model, costUsd: roundCost(cost) };
+}
+
+export function emptyUsageSummary(): UsageSummary {
+  return { calls: 0, cachedCalls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0, byModel: {} };
+}
+
+/**
+ * Roll up per-call usage and earlier summaries into one summary
+ */
+export function summarizeUsage(items: Array<GeminiUsage | UsageSummary | undefined>): UsageSummary {
+  const summary = emptyUsageSummary();
+
+  for (const item of items) {
+    if (!item) {
+      continue;
+    }
+
+    if ('byModel' in item) {
+      summary.cachedCalls += item.cachedCalls;
+      addTotals(summary, item);
+      for (const [model, totals] of Object.entries(item.byModel)) {
+        summary.byModel[model] = addTotals(summary.byModel[model] || emptyTotals(), totals);
+      }
+    } else if (item.cached) {
+      summary.cachedCalls++;
+    } else {
+      const call = { calls: 1, ...item };
+      addTotals(summary, call);
+      summary.byModel[item.model] = addTotals(summary.byModel[item.model] || emptyTotals(), call);
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Dollar amount for display, with more precision for sub-cent totals
+ */
+export function formatCost(costUsd: number): string {
+  return costUsd < 0.01 ? `$${costUsd.toFixed(4)}` : `$${costUsd.toFixed(2)}`;
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0 };
+}
+
+function addTotals<T extends UsageTotals>(target: T, source: UsageTotals): T {
+  target.calls += source.calls;
+  target.promptTokens += source.promptTokens;
+  target.completionTokens += source.completionTokens;
+  target.totalTokens += source.totalTokens;
+  target.costUsd = roundCost(target.costUsd + source.costUsd);
+  return target;
+}
+
+function roundCost(cost: number): number {
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
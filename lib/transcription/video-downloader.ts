@@ -1,11 +1,20 @@
-import { VideoMetadata, DownloadedVideo } from './types';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import type { FileHandle } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { CACHE_TTL_MS, withContentCache } from '@/lib/cache';
+import { getCreatorFeedProvider } from '@/lib/creator-feed';
+import { VideoMetadata, VideoPlatform, DownloadedVideo, VideoProgressCallback } from './types';
+import { getWorkerPool } from './worker-pool';
 
 export class VideoDownloadError extends Error {
   constructor(
     message: string,
     public videoId: string,
     public videoUrl: string,
-    public cause?: Error
+    public cause?: Error,
+    public statusCode?: number
   ) {
     super(message);
     this.name = 'VideoDownloadError';
@@ -13,7 +22,11 @@ export class VideoDownloadError extends Error {
 }
 
 export class VideoDownloader {
-  private static readonly MAX_FILE_SIZE = 25 * 1024 * 1024; // 25MB (increased for TikTok videos)
+  private static readonly MAX_FILE_SIZE = 2 * 1024 * 1024 * 1024; // 2GB, the Gemini Files API limit
+  // Uploaded files reach us already parsed into memory by formData(), so they get a lower cap
+  private static readonly MAX_UPLOAD_SIZE = 200 * 1024 * 1024; // 200MB
+  // Videos up to Gemini's inline limit stay in memory; larger ones are streamed to a temp file
+  private static readonly IN_MEMORY_LIMIT = 14 * 1024 * 1024;
   private static readonly TIMEOUT_MS = 45000; // 45 seconds (increased timeout for larger files)
   private static readonly SUPPORTED_MIME_TYPES = [
     'video/mp4',
@@ -26,12 +39,144 @@ export class VideoDownloader {
     'video/wmv',
     'video/3gpp'
   ];
+  // Some CDNs reject hotlinked requests that don't come from the platform's own site
+  private static readonly REFERERS: Record<VideoPlatform, string> = {
+    tiktok: 'https://www.tiktok.com/',
+    instagram: 'https://www.instagram.com/',
+    youtube: 'https://www.youtube.com/'
+  };
+  // Signed CDN links answer with these once they expire
+  private static readonly EXPIRED_URL_STATUSES = [403, 410];
 
   /**
-   * Download a single video from URL
+   * Download a single video, reusing the cached copy of the same platform video
+   * unless `bypassCache` is set. Downloads are stored by content hash, so
+   * identical videos under different IDs share one copy.
    */
-  static async downloadVideo(metadata: VideoMetadata): Promise<DownloadedVideo> {
+  static async downloadVideo(metadata: VideoMetadata, options: { bypassCache?: boolean } = {}): Promise<DownloadedVideo> {
+    if (!options.bypassCache) {
+      const cached = await this.readCachedVideo(metadata);
+      if (cached) {
+        return cached;
+      }
+    }
+
+    const video = await this.downloadWithRefresh(metadata);
+    await this.cacheVideo(video);
+    return video;
+  }
+
+  /**
+   * Download a single video from URL, refreshing the URL once through the platform provider if it has expired
+   */
+  private static async downloadWithRefresh(metadata: VideoMetadata): Promise<DownloadedVideo> {
+    try {
+      return await this.fetchVideoPooled(metadata);
+    } catch (error) {
+      if (!(error instanceof VideoDownloadError) ||
+          !error.statusCode ||
+          !this.EXPIRED_URL_STATUSES.includes(error.statusCode)) {
+        throw error;
+      }
+
+      const freshUrl = await this.refreshVideoUrl(metadata);
+      if (!freshUrl) {
+        throw error;
+      }
+
+      console.log(`[VideoDownloader] Retrying ${metadata.id} with refreshed URL after HTTP ${error.statusCode}`);
+      return await this.fetchVideoPooled({ ...metadata, url: freshUrl });
+    }
+  }
+
+  private static async readCachedVideo(metadata: VideoMetadata): Promise<DownloadedVideo | null> {
+    return withContentCache(`read cached video ${metadata.id}`, async cache => {
+      const entry = await cache.get('video_index', this.getCacheKey(metadata));
+      if (!entry) {
+        return null;
+      }
+
+      const { contentHash, mimeType } = JSON.parse(entry.toString('utf8'));
+      const buffer = await cache.get('video', contentHash);
+      if (!buffer) {
+        return null;
+      }
+
+      console.log(`[VideoDownloader] Using cached download of ${metadata.id}: ${buffer.length} bytes`);
+      return { buffer, mimeType, size: buffer.length, metadata, contentHash, cached: true };
+    });
+  }
+
+  private static async cacheVideo(video: DownloadedVideo): Promise<void> {
+    // Videos streamed to disk are too large to store as a single cache entry
+    const buffer = video.buffer;
+    if (!buffer) {
+      return;
+    }
+    const contentHash = video.contentHash || this.hashContent(buffer);
+
+    await withContentCache(`cache video ${video.metadata.id}`, async cache => {
+      await cache.set('video', contentHash, buffer, CACHE_TTL_MS.video);
+      await cache.set(
+        'video_index',
+        this.getCacheKey(video.metadata),
+        Buffer.from(JSON.stringify({ contentHash, mimeType: video.mimeType })),
+        CACHE_TTL_MS.video
+      );
+    });
+  }
+
+  private static getCacheKey(metadata: VideoMetadata): string {
+    return `${metadata.platform}:${metadata.id}`;
+  }
+
+  /**
+   * SHA-256 of a video's bytes, used to address cached downloads and responses
+   */
+  static hashContent(buffer: Buffer): string {
+    return createHash('sha256').update(buffer).digest('hex');
+  }
+
+  /**
+   * Fetch through the platform's shared download pool, which bounds concurrent
+   * downloads and downloads per minute against each CDN
+   */
+  private static fetchVideoPooled(metadata: VideoMetadata): Promise<DownloadedVideo> {
+    return getWorkerPool(`download:${metadata.platform}`).run(() => this.fetchVideo(metadata));
+  }
+
+  /**
+   * Ask the platform provider for a fresh CDN URL for a video, or null if it can't provide one
+   */
+  static async refreshVideoUrl(metadata: VideoMetadata): Promise<string | null> {
+    const provider = getCreatorFeedProvider(metadata.platform);
+    if (!provider?.resolveVideoById || provider.validateEnvironment()) {
+      console.warn(`[VideoDownloader] No URL refresh available for ${metadata.platform} video ${metadata.id}`);
+      return null;
+    }
+
+    try {
+      console.log(`[VideoDownloader] Refreshing expired URL for ${metadata.platform} video ${metadata.id}`);
+      const video = await provider.resolveVideoById(metadata.id);
+
+      if (!video.video_url || video.video_url === metadata.url) {
+        console.warn(`[VideoDownloader] Provider returned no new URL for ${metadata.id}`);
+        return null;
+      }
+
+      return video.video_url;
+    } catch (error) {
+      console.warn(`[VideoDownloader] Failed to refresh URL for ${metadata.id}:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  /**
+   * Fetch a video from its current URL
+   */
+  private static async fetchVideo(metadata: VideoMetadata): Promise<DownloadedVideo> {
     const startTime = Date.now();
+    let statusCode: number | undefined;
     
     try {
       console.log(`[VideoDownloader] Starting download for ${metadata.platform} video: ${metadata.id}`);
@@ -47,7 +192,7 @@ export class VideoDownloader {
         'Accept-Language': 'en-US,en;q=0.9',
         'Accept-Encoding': 'identity', // Don't compress video
         'Cache-Control': 'no-cache',
-        'Referer': metadata.platform === 'tiktok' ? 'https://www.tiktok.com/' : 'https://www.instagram.com/'
+        'Referer': this.REFERERS[metadata.platform as VideoPlatform] || this.REFERERS.instagram
       };
 
       const response = await fetch(metadata.url, {
@@ -59,6 +204,7 @@ export class VideoDownloader {
       clearTimeout(timeoutId);
 
       if (!response.ok) {
+        statusCode = response.status;
         console.error(`[VideoDownloader] HTTP error for ${metadata.id}: ${response.status} ${response.statusText}`);
         throw new Error(`HTTP ${response.status}: ${response.statusText} - URL may be expired or invalid`);
       }
@@ -71,22 +217,15 @@ export class VideoDownloader {
       const contentType = response.headers.get('content-type') || 'video/mp4';
       const mimeType = this.validateMimeType(contentType);
 
-      const arrayBuffer = await response.arrayBuffer();
-      const buffer = Buffer.from(arrayBuffer);
-
-      if (buffer.length > this.MAX_FILE_SIZE) {
-        throw new Error(`Downloaded file too large: ${buffer.length} bytes (max: ${this.MAX_FILE_SIZE})`);
+      if (!response.body) {
+        throw new Error('Response has no body');
       }
+      const content = await this.readVideoContent(response.body);
 
       const downloadTime = Date.now() - startTime;
-      console.log(`[VideoDownloader] Successfully downloaded ${metadata.id}: ${buffer.length} bytes in ${downloadTime}ms`);
+      console.log(`[VideoDownloader] Successfully downloaded ${metadata.id}: ${content.size} bytes${content.filePath ? ' to disk' : ''} in ${downloadTime}ms`);
 
-      return {
-        buffer,
-        mimeType,
-        size: buffer.length,
-        metadata
-      };
+      return { ...content, mimeType, metadata };
 
     } catch (error) {
       const downloadTime = Date.now() - startTime;
@@ -96,55 +235,232 @@ export class VideoDownloader {
         `Failed to download video: ${error instanceof Error ? error.message : 'Unknown error'}`,
         metadata.id,
         metadata.url,
-        error instanceof Error ? error : undefined
+        error instanceof Error ? error : undefined,
+        statusCode
       );
     }
   }
 
   /**
-   * Download multiple videos with error handling
+   * Download multiple videos concurrently, limited by each platform's download pool
    */
-  static async downloadVideos(videos: VideoMetadata[]): Promise<{
+  static async downloadVideos(
+    videos: VideoMetadata[],
+    onProgress?: VideoProgressCallback,
+    options: { bypassCache?: boolean } = {}
+  ): Promise<{
     successful: DownloadedVideo[];
     failed: Array<{ metadata: VideoMetadata; error: VideoDownloadError }>;
   }> {
     console.log(`[VideoDownloader] Starting batch download of ${videos.length} videos`);
     
+    const results = await Promise.all(videos.map(async (video, i) => {
+      const progress = { videoId: video.id, index: i + 1, total: videos.length };
+      onProgress?.({ ...progress, stage: 'downloading' });
+
+      try {
+        const downloaded = await this.downloadVideo(video, options);
+        onProgress?.({ ...progress, stage: 'downloaded' });
+        return { downloaded };
+      } catch (error) {
+        const downloadError = this.toDownloadError(error, video);
+        onProgress?.({ ...progress, stage: 'download_failed', error: downloadError.message });
+        return { failure: { metadata: video, error: downloadError } };
+      }
+    }));
+
+    const successful = results.filter(r => r.downloaded).map(r => r.downloaded!);
+    const failed = results.filter(r => r.failure).map(r => r.failure!);
+
+    console.log(`[VideoDownloader] Batch download complete: ${successful.length} successful, ${failed.length} failed`);
+    
+    return { successful, failed };
+  }
+
+  /**
+   * Wrap any download failure in a VideoDownloadError for the given video
+   */
+  static toDownloadError(error: unknown, metadata: VideoMetadata): VideoDownloadError {
+    return error instanceof VideoDownloadError 
+      ? error 
+      : new VideoDownloadError(
+          `Unexpected error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          metadata.id,
+          metadata.url,
+          error instanceof Error ? error : undefined
+        );
+  }
+
+  /**
+   * Load a locally uploaded file into the same shape as a downloaded video
+   */
+  static async loadUploadedFile(file: File, id?: string): Promise<DownloadedVideo> {
+    const metadata = this.createUploadMetadata(file, id || this.createUploadId(file.name));
+
+    try {
+      console.log(`[VideoDownloader] Loading uploaded file ${file.name} as ${metadata.id}`);
+
+      if (file.type && !file.type.startsWith('video/')) {
+        throw new Error(`Unsupported file type: ${file.type}`);
+      }
+
+      if (file.size === 0) {
+        throw new Error('Uploaded file is empty');
+      }
+
+      if (file.size > this.MAX_UPLOAD_SIZE) {
+        throw new Error(`File too large: ${file.size} bytes (max: ${this.MAX_UPLOAD_SIZE})`);
+      }
+
+      const mimeType = this.validateMimeType(file.type || 'video/mp4');
+      const content = await this.readVideoContent(file.stream());
+
+      console.log(`[VideoDownloader] Loaded uploaded file ${metadata.id}: ${this.formatFileSize(content.size)}`);
+
+      return { ...content, mimeType, metadata };
+
+    } catch (error) {
+      console.error(`[VideoDownloader] Failed to load uploaded file ${file.name}:`, error);
+
+      throw new VideoDownloadError(
+        `Failed to load uploaded file: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        metadata.id,
+        metadata.url,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Load multiple uploaded files, collecting failures like `downloadVideos`
+   */
+  static async loadUploadedFiles(files: File[]): Promise<{
+    successful: DownloadedVideo[];
+    failed: Array<{ metadata: VideoMetadata; error: VideoDownloadError }>;
+  }> {
+    console.log(`[VideoDownloader] Loading ${files.length} uploaded files`);
+
     const successful: DownloadedVideo[] = [];
     const failed: Array<{ metadata: VideoMetadata; error: VideoDownloadError }> = [];
+    const usedIds = new Set<string>();
+
+    for (const file of files) {
+      // Keep IDs unique when the same file name is uploaded twice
+      let id = this.createUploadId(file.name);
+      for (let suffix = 2; usedIds.has(id); suffix++) {
+        id = `${this.createUploadId(file.name)}_${suffix}`;
+      }
+      usedIds.add(id);
 
-    // Process videos sequentially to avoid overwhelming the server
-    for (const video of videos) {
       try {
-        const downloaded = await this.downloadVideo(video);
-        successful.push(downloaded);
-        
-        // Add small delay between downloads to be respectful
-        await this.delay(1000);
-        
+        successful.push(await this.loadUploadedFile(file, id));
       } catch (error) {
-        const downloadError = error instanceof VideoDownloadError 
-          ? error 
+        const metadata = this.createUploadMetadata(file, id);
+        const loadError = error instanceof VideoDownloadError
+          ? error
           : new VideoDownloadError(
               `Unexpected error: ${error instanceof Error ? error.message : 'Unknown error'}`,
-              video.id,
-              video.url,
+              metadata.id,
+              metadata.url,
               error instanceof Error ? error : undefined
             );
-        
-        failed.push({ metadata: video, error: downloadError });
+
+        failed.push({ metadata, error: loadError });
       }
     }
 
-    console.log(`[VideoDownloader] Batch download complete: ${successful.length} successful, ${failed.length} failed`);
-    
+    console.log(`[VideoDownloader] Uploaded files loaded: ${successful.length} successful, ${failed.length} failed`);
+
     return { successful, failed };
   }
 
+  /**
+   * Read a video stream, hashing it as it arrives. Videos up to the in-memory
+   * limit are kept in a buffer; past it, what was read so far and the rest of the
+   * stream are written to a temp file instead.
+   */
+  private static async readVideoContent(
+    stream: ReadableStream<Uint8Array>
+  ): Promise<{ buffer?: Buffer; filePath?: string; size: number; contentHash: string }> {
+    const reader = stream.getReader();
+    const hash = createHash('sha256');
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let filePath: string | undefined;
+    let file: FileHandle | undefined;
+
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+
+        const chunk = Buffer.from(value.buffer, value.byteOffset, value.byteLength);
+        size += chunk.length;
+        if (size > this.MAX_FILE_SIZE) {
+          await reader.cancel();
+          throw new Error(`File too large: over ${this.MAX_FILE_SIZE} bytes`);
+        }
+        hash.update(chunk);
+
+        if (!file && size > this.IN_MEMORY_LIMIT) {
+          filePath = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'video-download-')), 'video');
+          file = await fs.open(filePath, 'w');
+          for (const pending of chunks.splice(0)) {
+            await file.write(pending);
+          }
+        }
+
+        if (file) {
+          await file.write(chunk);
+        } else {
+          chunks.push(chunk);
+        }
+      }
+
+      await file?.close();
+    } catch (error) {
+      await file?.close().catch(() => undefined);
+      if (filePath) {
+        await this.removeTempFile(filePath);
+      }
+      throw error;
+    }
+
+    return {
+      buffer: filePath ? undefined : Buffer.concat(chunks),
+      filePath,
+      size,
+      contentHash: hash.digest('hex')
+    };
+  }
+
+  /**
+   * Delete the temp file of a video that was streamed to disk. Call once the
+   * video is no longer needed; videos held in memory need no cleanup.
+   */
+  static async releaseVideo(video: DownloadedVideo): Promise<void> {
+    if (video.filePath) {
+      await this.removeTempFile(video.filePath);
+    }
+  }
+
+  private static async removeTempFile(filePath: string): Promise<void> {
+    try {
+      await fs.rm(path.dirname(filePath), { recursive: true, force: true });
+    } catch (error) {
+      console.warn(`[VideoDownloader] Failed to remove temp file ${filePath}:`, error);
+    }
+  }
+
   /**
    * Convert downloaded video to base64 for Gemini API
    */
   static videoToBase64(video: DownloadedVideo): string {
+    if (!video.buffer) {
+      throw new Error(`Video ${video.metadata.id} is too large to send inline`);
+    }
     return video.buffer.toString('base64');
   }
 
@@ -164,10 +480,24 @@ export class VideoDownloader {
   }
 
   /**
-   * Simple delay utility
+   * Uploaded files have no source URL, so record the original file name instead
+   */
+  private static createUploadMetadata(file: File, id: string): VideoMetadata {
+    return {
+      id,
+      url: `upload://${file.name}`,
+      platform: 'upload',
+      description: file.name,
+      size: file.size
+    };
+  }
+
+  /**
+   * Derive a stable, filesystem-safe video ID from an uploaded file name
    */
-  private static delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private static createUploadId(fileName: string): string {
+    const baseName = fileName.replace(/\.[^.]+$/, '').replace(/[^a-zA-Z0-9_-]+/g, '_').slice(0, 60);
+    return `upload_${baseName || 'video'}`;
   }
 
   /**
@@ -0,0 +1,211 @@
+import { MarketingSegments, SegmentAlignment, TranscriptTimeline, WordAssignment } from './types';
+
+// Below this share of matched words, in the transcript or in the segments, an alignment is low quality
+export const MIN_ALIGNMENT_MATCH_RATIO = 0.8;
+
+// Size limit of the match table (transcript words x segment words), about 32MB
+const MAX_ALIGNMENT_CELLS = 16_000_000;
+
+const SENTENCE_END = /[.!?…]["')\]]*$/;
+
+interface Token {
+  text: string;
+  key: string; // Lower case letters and digits only; empty for punctuation
+  start: number;
+  end: number;
+}
+
+/**
+ * Comparison form of a word: lower case, without punctuation, so "Stop," and
+ * "stop" match
+ */
+export function normalizeWord(word: string): string {
+  return word.normalize('NFKC').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /\S+/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    tokens.push({
+      text: match[0],
+      key: normalizeWord(match[0]),
+      start: match.index,
+      end: match.index + match[0].length
+    });
+  }
+  return tokens;
+}
+
+/**
+ * Longest common subsequence of two word key lists, as index pairs in order.
+ * Empty keys never match. Undefined when the lists are too long to compare.
+ */
+export function alignWordSequences(a: string[], b: string[]): Array<[number, number]> | undefined {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  if (rows * cols > MAX_ALIGNMENT_CELLS) {
+    return undefined;
+  }
+
+  // lengths[i * cols + j] is the LCS length of a[i..] and b[j..]
+  const lengths = new Uint16Array(rows * cols);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * cols + j] = a[i] && a[i] === b[j]
+        ? lengths[(i + 1) * cols + j + 1] + 1
+        : Math.max(lengths[(i + 1) * cols + j], lengths[i * cols + j + 1]);
+    }
+  }
+
+  const pairs: Array<[number, number]> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] && a[i] === b[j]) {
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * cols + j] >= lengths[i * cols + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Map each marketing segment onto the transcript's words, giving every word
+ * of the transcript exactly one category with its position and character
+ * offsets.
+ *
+ * Segment words are matched to transcript words in order. Words between two
+ * matches take the categories of the unmatched segment words between them;
+ * transcript words missing from the segments stay with the previous category
+ * until a sentence ends, then go to the next one. Segment words that don't
+ * match, such as a sentence Gemini put in two segments, are dropped.
+ */
+export function alignSegments(transcription: string, segments: MarketingSegments): {
+  wordAssignments: WordAssignment[];
+  alignment: SegmentAlignment;
+} {
+  const tokens = tokenize(transcription);
+  const segmentTokens = Object.entries(segments).flatMap(([category, text]) =>
+    tokenize(text || '')
+      .filter(token => token.key)
+      .map(token => ({ key: token.key, category }))
+  );
+
+  const alignment: SegmentAlignment = {
+    quality: 'exact',
+    transcriptWords: tokens.filter(token => token.key).length,
+    segmentWords: segmentTokens.length,
+    matchedWords: 0,
+    repairedWords: 0,
+    unmatchedSegmentWords: 0,
+    issues: []
+  };
+
+  if (alignment.transcriptWords === 0 || alignment.segmentWords === 0) {
+    alignment.quality = 'low';
+    alignment.issues.push(alignment.transcriptWords === 0 ? 'Transcript has no words' : 'Segments have no words');
+    return { wordAssignments: [], alignment };
+  }
+
+  const pairs = alignWordSequences(tokens.map(token => token.key), segmentTokens.map(token => token.key));
+  if (!pairs || pairs.length === 0) {
+    alignment.quality = 'low';
+    alignment.unmatchedSegmentWords = alignment.segmentWords;
+    alignment.issues.push(pairs
+      ? 'No segment words were found in the transcript'
+      : `Transcript is too long to align (${tokens.length} words)`);
+    return { wordAssignments: [], alignment };
+  }
+
+  const categories: string[] = new Array(tokens.length);
+  for (const [tokenIndex, segmentIndex] of pairs) {
+    categories[tokenIndex] = segmentTokens[segmentIndex].category;
+  }
+
+  // Fill the words before, between and after the matches
+  const bounds: Array<[number, number]> = [[-1, -1], ...pairs, [tokens.length, segmentTokens.length]];
+  for (let b = 0; b < bounds.length - 1; b++) {
+    const [prevToken, prevSegment] = bounds[b];
+    const [nextToken, nextSegment] = bounds[b + 1];
+    const prevCategory = prevToken >= 0 ? categories[prevToken] : undefined;
+    const nextCategory = nextToken < tokens.length ? categories[nextToken] : undefined;
+    const unmatched = segmentTokens.slice(prevSegment + 1, nextSegment).map(token => token.category);
+    let sentenceEnded = prevToken >= 0 && SENTENCE_END.test(tokens[prevToken].text);
+
+    for (let t = prevToken + 1, offset = 0; t < nextToken; t++, offset++) {
+      if (offset < unmatched.length) {
+        categories[t] = unmatched[offset];
+      } else {
+        categories[t] = (sentenceEnded ? nextCategory : prevCategory) || prevCategory || nextCategory!;
+      }
+      sentenceEnded = sentenceEnded || SENTENCE_END.test(tokens[t].text);
+    }
+  }
+
+  alignment.matchedWords = pairs.length;
+  alignment.repairedWords = alignment.transcriptWords - pairs.length;
+  alignment.unmatchedSegmentWords = alignment.segmentWords - pairs.length;
+
+  const matchedCategories = new Set(pairs.map(([, segmentIndex]) => segmentTokens[segmentIndex].category));
+  Object.keys(segments)
+    .filter(category => segmentTokens.some(token => token.category === category) && !matchedCategories.has(category))
+    .forEach(category => alignment.issues.push(`${category} segment could not be found in the transcript`));
+
+  const transcriptRatio = pairs.length / alignment.transcriptWords;
+  const segmentRatio = pairs.length / alignment.segmentWords;
+  if (transcriptRatio < MIN_ALIGNMENT_MATCH_RATIO) {
+    alignment.issues.push(`Segments cover only ${Math.round(transcriptRatio * 100)}% of the transcript`);
+  }
+  if (segmentRatio < MIN_ALIGNMENT_MATCH_RATIO) {
+    alignment.issues.push(`Only ${Math.round(segmentRatio * 100)}% of the segment words are in the transcript`);
+  }
+
+  if (alignment.issues.length > 0) {
+    alignment.quality = 'low';
+  } else if (alignment.repairedWords > 0 || alignment.unmatchedSegmentWords > 0) {
+    alignment.quality = 'repaired';
+  }
+
+  return {
+    wordAssignments: tokens.map((token, index) => ({
+      word: token.text,
+      category: categories[index],
+      position: index + 1,
+      charStart: token.start,
+      charEnd: token.end
+    })),
+    alignment
+  };
+}
+
+/**
+ * Copy start and end times from a word-level timeline onto the word
+ * assignments whose words it contains
+ */
+export function alignWordTimes(wordAssignments: WordAssignment[], timeline: TranscriptTimeline): WordAssignment[] {
+  if (timeline.granularity !== 'word') {
+    return wordAssignments;
+  }
+
+  const pairs = alignWordSequences(
+    wordAssignments.map(assignment => normalizeWord(assignment.word)),
+    timeline.entries.map(entry => normalizeWord(entry.text))
+  );
+  if (!pairs) {
+    return wordAssignments;
+  }
+
+  const timed = wordAssignments.map(assignment => ({ ...assignment }));
+  for (const [assignmentIndex, entryIndex] of pairs) {
+    timed[assignmentIndex].start = timeline.entries[entryIndex].start;
+    timed[assignmentIndex].end = timeline.entries[entryIndex].end;
+  }
+  return timed;
+}
@@ -0,0 +1,200 @@
+/**
+ * Per-provider request budget over a sliding one-minute window
+ */
+export interface RateLimit {
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+}
+
+export interface WorkerPoolOptions extends RateLimit {
+  concurrency: number;
+}
+
+export interface WorkerPoolStats {
+  name: string;
+  active: number;
+  queued: number;
+  requestsLastMinute: number;
+  tokensLastMinute: number;
+}
+
+const RATE_WINDOW_MS = 60000;
+
+/**
+ * Bounded-concurrency scheduler with an optional requests/tokens per minute limit.
+ * Tasks wait for a free slot first, then for room in the rate window.
+ */
+export class WorkerPool {
+  private active = 0;
+  private waiting: Array<() => void> = [];
+  private window: Array<{ time: number; tokens: number }> = [];
+  private averageTokens?: number;
+
+  constructor(
+    public readonly name: string,
+    private options: WorkerPoolOptions
+  ) {}
+
+  get concurrency(): number {
+    return this.options.concurrency;
+  }
+
+  /**
+   * Change the pool's limits; queued tasks pick up the new concurrency as slots free up
+   */
+  configure(options: Partial<WorkerPoolOptions>): void {
+    this.options = { ...this.options, ...options };
+    while (this.waiting.length > 0 && this.active < this.options.concurrency) {
+      this.active++;
+      this.waiting.shift()!();
+    }
+  }
+
+  /**
+   * Run a task once a slot and rate budget are available. `countTokens` reports
+   * what the task actually used, which also sets the estimate for later tasks.
+   */
+  async run<T>(task: () => Promise<T>, countTokens?: (result: T) => number | undefined): Promise<T> {
+    await this.acquireSlot();
+
+    try {
+      const entry = await this.reserve();
+      const result = await task();
+
+      const tokens = countTokens?.(result);
+      if (tokens !== undefined) {
+        entry.tokens = tokens;
+        this.averageTokens = this.averageTokens === undefined
+          ? tokens
+          : Math.round(this.averageTokens * 0.8 + tokens * 0.2);
+      }
+
+      return result;
+    } finally {
+      this.releaseSlot();
+    }
+  }
+
+  getStats(): WorkerPoolStats {
+    this.pruneWindow(Date.now());
+    return {
+      name: this.name,
+      active: this.active,
+      queued: this.waiting.length,
+      requestsLastMinute: this.window.length,
+      tokensLastMinute: this.window.reduce((sum, entry) => sum + entry.tokens, 0)
+    };
+  }
+
+  private acquireSlot(): Promise<void> {
+    if (this.active < this.options.concurrency) {
+      this.active++;
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.waiting.push(resolve));
+  }
+
+  private releaseSlot(): void {
+    const next = this.waiting.shift();
+    if (next && this.active <= this.options.concurrency) {
+      // Hand the slot straight to the next task
+      next();
+    } else {
+      if (next) {
+        this.waiting.unshift(next);
+      }
+      this.active--;
+    }
+  }
+
+  /**
+   * Wait until one more request (with the estimated token cost) fits in the window
+   */
+  private async reserve(): Promise<{ time: number; tokens: number }> {
+    const { requestsPerMinute, tokensPerMinute } = this.options;
+    const estimatedTokens = this.averageTokens || 0;
+
+    for (;;) {
+      const now = Date.now();
+      this.pruneWindow(now);
+
+      const usedTokens = this.window.reduce((sum, entry) => sum + entry.tokens, 0);
+      const requestsOk = !requestsPerMinute || this.window.length < requestsPerMinute;
+      // An empty window always admits one request, even if its estimate exceeds the budget
+      const tokensOk = !tokensPerMinute || this.window.length === 0 || usedTokens + estimatedTokens <= tokensPerMinute;
+
+      if (requestsOk && tokensOk) {
+        const entry = { time: now, tokens: estimatedTokens };
+        this.window.push(entry);
+        return entry;
+      }
+
+      const waitMs = this.window[0].time + RATE_WINDOW_MS - now;
+      console.log(`[WorkerPool] ${this.name} rate limit reached, waiting ${waitMs}ms`);
+      await new Promise(resolve => setTimeout(resolve, Math.max(waitMs, 10)));
+    }
+  }
+
+  private pruneWindow(now: number): void {
+    while (this.window.length > 0 && this.window[0].time <= now - RATE_WINDOW_MS) {
+      this.window.shift();
+    }
+  }
+}
+
+// Keep one pool per provider per server process, including across dev-mode hot reloads
+const globalForWorkerPools = globalThis as unknown as { workerPools?: Map<string, WorkerPool> };
+
+function readLimit(name: string): number | undefined {
+  const value = parseInt(process.env[name] || '', 10);
+  return value > 0 ? value : undefined;
+}
+
+/**
+ * Default limits for a pool, overridable through environment variables:
+ * GEMINI_CONCURRENCY, GEMINI_REQUESTS_PER_MINUTE, GEMINI_TOKENS_PER_MINUTE for
+ * the "gemini" pool, AUDIO_EXTRACTION_CONCURRENCY for the "audio-extraction"
+ * pool and DOWNLOAD_CONCURRENCY, DOWNLOAD_REQUESTS_PER_MINUTE for the
+ * per-platform "download:<platform>" pools
+ */
+function getDefaultPoolOptions(name: string): WorkerPoolOptions {
+  if (name === 'gemini') {
+    return {
+      concurrency: readLimit('GEMINI_CONCURRENCY') || 4,
+      requestsPerMinute: readLimit('GEMINI_REQUESTS_PER_MINUTE') || 60,
+      tokensPerMinute: readLimit('GEMINI_TOKENS_PER_MINUTE')
+    };
+  }
+  if (name === 'audio-extraction') {
+    return { concurrency: readLimit('AUDIO_EXTRACTION_CONCURRENCY') || 2 };
+  }
+  return {
+    concurrency: readLimit('DOWNLOAD_CONCURRENCY') || 3,
+    requestsPerMinute: readLimit('DOWNLOAD_REQUESTS_PER_MINUTE') || 60
+  };
+}
+
+/**
+ * Get the shared pool for a provider, e.g. "gemini" or "download:tiktok"
+ */
+export function getWorkerPool(name: string): WorkerPool {
+  if (!globalForWorkerPools.workerPools) {
+    globalForWorkerPools.workerPools = new Map();
+  }
+
+  let pool = globalForWorkerPools.workerPools.get(name);
+  if (!pool) {
+    pool = new WorkerPool(name, getDefaultPoolOptions(name));
+    globalForWorkerPools.workerPools.set(name, pool);
+  }
+  return pool;
+}
+
+/**
+ * Override a shared pool's concurrency or rate limit
+ */
+export function configureWorkerPool(name: string, options: Partial<WorkerPoolOptions>): WorkerPool {
+  const pool = getWorkerPool(name);
+  pool.configure(options);
+  return pool;
+}
@@ -0,0 +1,264 @@
+import {
+  createFolder,
+  uploadTextFile,
+  generateCreatorFolderName,
+  testGoogleDriveConnection
+} from '@/lib/google-drive';
+import {
+  collectCreatorVideos,
+  getCreatorFeedProvider,
+  getSupportedPlatforms,
+  type CollectCreatorVideosResult
+} from '@/lib/creator-feed';
+import { withJobStore } from '@/lib/job-store';
+import { WorkflowError } from './errors';
+import { CreatorDriveFolder, CreatorExtractionInput, CreatorExtractionResult } from './types';
+
+// Helper function to validate username
+function validateUsername(username: string): string | null {
+  if (!username || username.trim().length === 0) {
+    return "Username cannot be empty";
+  }
+
+  if (username.length > 50) {
+    return "Username is too long (max 50 characters)";
+  }
+
+  // Remove @ symbol if present
+  const cleanUsername = username.replace('@', '');
+
+  if (!/^[a-zA-Z0-9._-]+$/.test(cleanUsername)) {
+    return "Username contains invalid characters";
+  }
+
+  return null;
+}
+
+// Map provider failures to the status code and message shown to the caller
+function toWorkflowError(error: any): WorkflowError {
+  const message: string = error?.message || '';
+
+  if (message.includes("User ID")) {
+    return new WorkflowError("Instagram user not found or username is invalid", 404);
+  } else if (message.includes("channel ID")) {
+    return new WorkflowError("YouTube channel not found or handle is invalid", 404);
+  } else if (message.includes("API call failed with status: 404")) {
+    return new WorkflowError("User not found on the selected platform", 404);
+  } else if (message.includes("API call failed with status: 401")) {
+    return new WorkflowError("API authentication failed - please check API key", 401);
+  } else if (message.includes("API call failed with status: 429")) {
+    return new WorkflowError("Rate limit exceeded - please try again later", 429);
+  } else if (message.includes("RapidAPI request failed")) {
+    return new WorkflowError(message, 500);
+  }
+
+  return new WorkflowError("An internal server error occurred", 500);
+}
+
+/**
+ * Save the extraction metadata to a new Google Drive folder for the creator
+ */
+async function saveExtractionToDrive(
+  platform: string,
+  username: string,
+  videoCount: number,
+  collection: CollectCreatorVideosResult,
+  startTime: number
+): Promise<CreatorDriveFolder | undefined> {
+  console.log("Starting Google Drive integration...");
+
+  try {
+    // Test Google Drive connection first
+    const connectionTest = await testGoogleDriveConnection();
+    if (!connectionTest.success) {
+      console.warn("Google Drive connection failed, skipping upload:", connectionTest.error);
+      return undefined;
+    }
+    console.log("Google Drive connection successful, proceeding with upload");
+
+    // Create unique folder for this creator/request
+    const folderName = generateCreatorFolderName(platform, username);
+    const parentFolderId = process.env.GOOGLE_DRIVE_PARENT_FOLDER_ID!;
+
+    const folder = await createFolder(folderName, parentFolderId);
+    if (!folder.id) {
+      return undefined;
+    }
+
+    // Create metadata file with API response
+    const metadata = {
+      platform,
+      username,
+      requestTime: new Date().toISOString(),
+      pagination: collection.pagination,
+      extractedVideos: collection.videos,
+      videoCount: collection.videos.length,
+      failedVideos: collection.errors,
+      requestedCount: videoCount,
+      apiCallsMade: collection.apiCallCount,
+      processingDuration: Date.now() - startTime,
+    };
+
+    const metadataFileName = `${platform}_${username}_${videoCount}videos_metadata.json`;
+    const metadataFile = await uploadTextFile(
+      JSON.stringify(metadata, null, 2),
+      metadataFileName,
+      folder.id,
+      'application/json'
+    );
+
+    const googleDriveInfo: CreatorDriveFolder = {
+      folderId: folder.id,
+      folderName,
+      metadataFileId: metadataFile.id || undefined,
+      folderUrl: `https://drive.google.com/drive/folders/${folder.id}`,
+    };
+
+    console.log("Google Drive upload successful:", googleDriveInfo);
+    return googleDriveInfo;
+  } catch (driveError: any) {
+    console.error("Google Drive integration failed:", driveError);
+    // Don't fail the entire request if Google Drive fails
+    console.log("Continuing without Google Drive upload...");
+    return undefined;
+  }
+}
+
+/**
+ * Collect a creator's best performing videos, save the metadata to Google Drive
+ * and record the extraction run. Invalid input and provider failures throw a
+ * WorkflowError carrying the HTTP status to report.
+ */
+export async function extractCreatorVideos(input: CreatorExtractionInput): Promise<CreatorExtractionResult> {
+  const startTime = Date.now();
+  const { username, platform, videoCount = 40, maxId, parentRunId } = input;
+
+  console.log("Request details:", { username, platform, videoCount, maxId });
+
+  // Validate required fields
+  if (!username || !platform) {
+    throw new WorkflowError("Username and platform are required", 400);
+  }
+
+  // Validate video count
+  if (videoCount < 10 || videoCount > 100 || videoCount % 10 !== 0) {
+    throw new WorkflowError("Video count must be between 10-100 in increments of 10", 400);
+  }
+
+  // Validate username
+  const usernameError = validateUsername(username);
+  if (usernameError) {
+    throw new WorkflowError(usernameError, 400);
+  }
+
+  // Validate platform
+  const provider = getCreatorFeedProvider(platform);
+  if (!provider) {
+    const supported = getSupportedPlatforms().map(p => `'${p}'`).join(', ');
+    throw new WorkflowError(`Platform must be one of: ${supported}`, 400);
+  }
+
+  // Validate environment for the selected provider
+  const envError = provider.validateEnvironment();
+  if (envError) {
+    console.error("Environment validation failed:", envError);
+    throw new WorkflowError(envError, 500);
+  }
+
+  const cleanUsername = username.replace('@', '').trim();
+
+  const run = await withJobStore('create extraction run', store => store.createRun({
+    type: 'creator_extraction',
+    parentRunId,
+    input: { platform, username: cleanUsername, videoCount, maxId }
+  }));
+  const runId = run?.id;
+
+  let collection: CollectCreatorVideosResult;
+  try {
+    // --- PLATFORM-SPECIFIC API CALLS WITH PAGINATION ---
+    collection = await collectCreatorVideos(provider, cleanUsername, { videoCount, maxId });
+  } catch (error: any) {
+    console.error("Error details:", {
+      message: error.message,
+      name: error.name,
+      stack: error.stack,
+      duration: `${Date.now() - startTime}ms`
+    });
+
+    const workflowError = toWorkflowError(error);
+    if (runId) {
+      await withJobStore('record failed extraction run', store =>
+        store.updateRun(runId, { status: 'failed', error: workflowError.message })
+      );
+    }
+    throw workflowError;
+  }
+
+  const allExtractedVideos = collection.videos;
+
+  // --- GOOGLE DRIVE INTEGRATION ---
+  const googleDriveInfo = await saveExtractionToDrive(platform, cleanUsername, videoCount, collection, startTime);
+
+  console.log(`Successfully extracted ${allExtractedVideos.length} videos for transcription`);
+
+  // Log extracted video summary with full URLs and performance metrics
+  console.log("=== EXTRACTED VIDEOS SUMMARY WITH PERFORMANCE METRICS ===");
+  allExtractedVideos.forEach((video, index) => {
+    console.log(`Video ${index + 1} (sorted by view count):`, {
+      id: video.id,
+      platform: video.platform,
+      has_video_url: !!video.video_url,
+      has_thumbnail: !!video.thumbnail,
+      quality: video.quality,
+      viewCount: video.viewCount,
+      likeCount: video.likeCount
+    });
+    console.log(`Video ${index + 1} COMPLETE DOWNLOAD URL:`);
+    console.log(video.video_url || 'NO URL AVAILABLE');
+    console.log(`Video ${index + 1} THUMBNAIL URL:`);
+    console.log(video.thumbnail || 'NO THUMBNAIL AVAILABLE');
+    console.log('---');
+  });
+  console.log("=== END EXTRACTED VIDEOS ===");
+
+  console.log(`Final Stats: ${allExtractedVideos.length}/${videoCount} best performing videos selected from collection in ${collection.apiCallCount} API calls`);
+  if (collection.errors.length > 0) {
+    console.warn(`${collection.errors.length} selected videos left out without a playable URL:`, collection.errors);
+  }
+
+  // Log top 5 videos by view count for verification
+  if (allExtractedVideos.length > 0) {
+    console.log("=== TOP PERFORMING VIDEOS ===");
+    allExtractedVideos.slice(0, 5).forEach((video, index) => {
+      console.log(`#${index + 1}: ${video.viewCount?.toLocaleString() || 'N/A'} views, ${video.likeCount?.toLocaleString() || 'N/A'} likes`);
+    });
+  }
+
+  // --- PERSIST RUN ---
+  if (runId) {
+    await withJobStore('save extracted videos', async store => {
+      const creator = await store.upsertCreator(platform, cleanUsername, collection.creator.userId, runId);
+      await store.saveVideos(runId, allExtractedVideos, creator.id);
+      await store.updateRun(runId, {
+        status: 'completed',
+        output: {
+          pagination: collection.pagination,
+          apiCallCount: collection.apiCallCount,
+          errors: collection.errors,
+          googleDrive: googleDriveInfo
+        }
+      });
+    });
+  }
+
+  return {
+    runId,
+    platform,
+    username: cleanUsername,
+    pagination: collection.pagination,
+    extractedVideos: allExtractedVideos,
+    errors: collection.errors,
+    googleDrive: googleDriveInfo
+  };
+}
@@ -0,0 +1,78 @@
+import { TrainingDataExporter, ExportOptions } from '@/lib/transcription/training-data-exporter';
+import { withJobStore } from '@/lib/job-store';
+import { WorkflowError } from './errors';
+import { DatasetExportInput, DatasetExportResult } from './types';
+
+/**
+ * Build and validate a fine-tuning dataset from analyzed videos, templates
+ * and synthetic scripts, and record the export run with the dataset
+ */
+export async function exportTrainingDataset(input: DatasetExportInput): Promise<DatasetExportResult> {
+  const { transcriptionResults, templates, syntheticScripts = [], options = {}, parentRunId } = input;
+
+  if (!transcriptionResults || !Array.isArray(transcriptionResults)) {
+    throw new WorkflowError('Missing or invalid transcriptionResults array', 400);
+  }
+
+  if (!templates || !Array.isArray(templates)) {
+    throw new WorkflowError('Missing or invalid templates array', 400);
+  }
+
+  console.log(`[DatasetExport] Processing ${transcriptionResults.length} transcriptions, ${templates.length} templates, and ${syntheticScripts.length} synthetic scripts`);
+
+  const exportOptions: ExportOptions = {
+    includeMetadata: options.includeMetadata ?? true,
+    includeOriginalTranscriptions: options.includeOriginalTranscriptions ?? true,
+    includeSyntheticScripts: options.includeSyntheticScripts ?? true,
+    syntheticTopics: options.syntheticTopics,
+    maxExamplesPerVideo: options.maxExamplesPerVideo ?? 10,
+    minViewCount: options.minViewCount ?? 0,
+    minQualityScore: options.minQualityScore,
+    format: options.format ?? 'jsonl',
+    primarySpeakerOnly: options.primarySpeakerOnly ?? false,
+    languages: options.languages,
+    groupByLanguage: options.groupByLanguage ?? false
+  };
+
+  console.log('[DatasetExport] Generating training dataset with options:', exportOptions);
+
+  const dataset = await TrainingDataExporter.generateTrainingDataset(
+    transcriptionResults,
+    templates,
+    syntheticScripts,
+    exportOptions
+  );
+
+  // Validate dataset
+  const validation = TrainingDataExporter.validateDataset(dataset);
+
+  // Language groups need the example metadata they are grouped by
+  const datasetsByLanguage = exportOptions.groupByLanguage && exportOptions.includeMetadata
+    ? TrainingDataExporter.groupByLanguage(dataset)
+    : undefined;
+
+  const run = await withJobStore('save dataset export run', async store => {
+    const exportRun = await store.createRun({
+      type: 'dataset_export',
+      parentRunId,
+      input: {
+        transcriptionCount: transcriptionResults.length,
+        templateCount: templates.length,
+        syntheticScriptCount: syntheticScripts.length,
+        options: exportOptions
+      }
+    });
+    const datasetRecord = await store.saveDataset(dataset, exportRun.id, validation);
+    return store.updateRun(exportRun.id, {
+      status: 'completed',
+      output: { datasetId: datasetRecord.id, totalExamples: dataset.examples.length, validation }
+    });
+  });
+
+  return {
+    runId: run?.id,
+    dataset,
+    validation,
+    datasetsByLanguage
+  };
+}
@@ -0,0 +1,38 @@
+import { resolveSegmentFramework, SegmentFrameworkError } from '@/lib/transcription/segment-frameworks';
+import type { SegmentFramework } from '@/lib/transcription/types';
+
+export class WorkflowError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 500,
+    public details?: string[]
+  ) {
+    super(message);
+    this.name = 'WorkflowError';
+  }
+}
+
+/**
+ * Throw when the Gemini API key every analysis workflow needs is missing
+ */
+export function requireGeminiApiKey(): void {
+  if (!process.env.GEMINI_API_KEY) {
+    console.error('[Workflows] Missing GEMINI_API_KEY environment variable');
+    throw new WorkflowError('Server configuration error: Missing Gemini API key', 500);
+  }
+}
+
+/**
+ * Look up the segment framework a request refers to, turning an unknown id
+ * or invalid inline definition into a client error
+ */
+export async function requireSegmentFramework(ref?: string | SegmentFramework): Promise<SegmentFramework> {
+  try {
+    return await resolveSegmentFramework(ref);
+  } catch (error) {
+    if (error instanceof SegmentFrameworkError) {
+      throw new WorkflowError(error.message, error.statusCode === 404 ? 400 : error.statusCode, error.issues);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,25 @@
+// Errors
+export { WorkflowError, requireGeminiApiKey } from './errors';
+
+// Workflows
+export { extractCreatorVideos } from './creator-extraction';
+export { transcribeVideos } from './video-transcription';
+export { generateTemplate, generateTemplates, generateSyntheticScript } from './template-generation';
+export { exportTrainingDataset } from './dataset-export';
+
+// Types
+export type {
+  CreatorDriveFolder,
+  CreatorExtractionInput,
+  CreatorExtractionResult,
+  VideoTranscriptionInput,
+  VideoTranscriptionResult,
+  TemplateGenerationInput,
+  TemplateGenerationResult,
+  BatchTemplateGenerationOptions,
+  BatchTemplateGenerationResult,
+  ScriptGenerationInput,
+  ScriptGenerationResult,
+  DatasetExportInput,
+  DatasetExportResult
+} from './types';
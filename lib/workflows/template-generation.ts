@@ -0,0 +1,142 @@
+import { TemplateGenerator } from '@/lib/transcription/template-generator';
+import { summarizeUsage } from '@/lib/transcription/usage';
+import type { ScriptTemplate, TranscriptionResult } from '@/lib/transcription/types';
+import { withJobStore } from '@/lib/job-store';
+import { requireGeminiApiKey, requireSegmentFramework, WorkflowError } from './errors';
+import {
+  BatchTemplateGenerationOptions,
+  BatchTemplateGenerationResult,
+  ScriptGenerationInput,
+  ScriptGenerationResult,
+  TemplateGenerationInput,
+  TemplateGenerationResult
+} from './types';
+
+/**
+ * Turn one video's marketing segments into a reusable template and record
+ * the template generation run
+ */
+export async function generateTemplate(input: TemplateGenerationInput): Promise<TemplateGenerationResult> {
+  const { marketingSegments, sourceVideoId, parentRunId } = input;
+
+  if (!marketingSegments) {
+    throw new WorkflowError('Missing marketingSegments for template generation', 400);
+  }
+  const framework = await requireSegmentFramework(input.segmentFramework);
+  const missing = framework.categories.filter(category => typeof marketingSegments[category.name] !== 'string');
+  if (missing.length > 0) {
+    throw new WorkflowError(`marketingSegments is missing ${framework.name} categories: ${missing.map(category => category.name).join(', ')}`, 400);
+  }
+  requireGeminiApiKey();
+
+  console.log(`[TemplateGeneration] Generating templates from marketing segments${sourceVideoId ? ` of video ${sourceVideoId}` : ''}`);
+
+  const templateGenerator = new TemplateGenerator();
+  const templateResult = await templateGenerator.generateTemplatesFromSegments(marketingSegments, framework);
+
+  const run = await withJobStore('save template generation run', async store => {
+    const templateRun = await store.createRun({
+      type: 'template_generation',
+      parentRunId,
+      input: { marketingSegments, segmentFramework: framework.id, sourceVideoId }
+    });
+    if (templateResult.success && templateResult.template) {
+      await store.saveTemplate(templateResult.template, templateRun.id, sourceVideoId, templateResult.prompt);
+    }
+    return store.updateRun(templateRun.id, {
+      status: templateResult.success ? 'completed' : 'failed',
+      error: templateResult.error,
+      output: { processingTime: templateResult.processingTime, usage: templateResult.usage, prompt: templateResult.prompt }
+    });
+  });
+
+  return {
+    runId: run?.id,
+    ...templateResult
+  };
+}
+
+/**
+ * Generate one template per analyzed video, in order, until `maxTemplates`
+ * templates exist. Videos whose template fails are reported in `errors`.
+ */
+export async function generateTemplates(
+  results: TranscriptionResult[],
+  options: BatchTemplateGenerationOptions = {}
+): Promise<BatchTemplateGenerationResult> {
+  const { maxTemplates = 20, parentRunId } = options;
+  const templates: ScriptTemplate[] = [];
+  const errors: BatchTemplateGenerationResult['errors'] = [];
+  const usage: BatchTemplateGenerationResult['usage'][] = [];
+  let prompt: BatchTemplateGenerationResult['prompt'];
+
+  for (const result of results) {
+    if (templates.length >= maxTemplates) {
+      break;
+    }
+    if (!result.success || !result.marketingSegments) {
+      continue;
+    }
+
+    const templateResult = await generateTemplate({
+      marketingSegments: result.marketingSegments,
+      segmentFramework: result.segmentFramework,
+      sourceVideoId: result.videoId,
+      parentRunId
+    });
+    if (templateResult.usage) {
+      usage.push(templateResult.usage);
+    }
+
+    if (templateResult.success && templateResult.template) {
+      templates.push(templateResult.template);
+      prompt = prompt || templateResult.prompt;
+    } else {
+      errors.push({ videoId: result.videoId, error: templateResult.error || 'No template generated' });
+    }
+  }
+
+  return { templates, errors, usage: summarizeUsage(usage), prompt };
+}
+
+/**
+ * Write a new script on `topic` following a template and record the script
+ * generation run
+ */
+export async function generateSyntheticScript(input: ScriptGenerationInput): Promise<ScriptGenerationResult> {
+  const { topic, template, parentRunId } = input;
+
+  if (!topic || !template) {
+    throw new WorkflowError('Missing topic or template for script generation', 400);
+  }
+  // Templates record their framework unless it is the default
+  const framework = await requireSegmentFramework(template.framework);
+  requireGeminiApiKey();
+
+  console.log(`[TemplateGeneration] Generating synthetic script for topic: ${topic}`);
+
+  const templateGenerator = new TemplateGenerator();
+  const scriptResult = await templateGenerator.generateSyntheticScript(topic, template, framework);
+
+  const run = await withJobStore('save script generation run', async store => {
+    const scriptRun = await store.createRun({
+      type: 'script_generation',
+      parentRunId,
+      input: { topic, template }
+    });
+    if (scriptResult.success && scriptResult.script) {
+      await store.saveSyntheticScript(topic, scriptResult.script, scriptRun.id, template, scriptResult.prompt);
+    }
+    return store.updateRun(scriptRun.id, {
+      status: scriptResult.success ? 'completed' : 'failed',
+      error: scriptResult.error,
+      output: { processingTime: scriptResult.processingTime, usage: scriptResult.usage, prompt: scriptResult.prompt }
+    });
+  });
+
+  return {
+    runId: run?.id,
+    topic,
+    ...scriptResult
+  };
+}
@@ -0,0 +1,128 @@
+import type { ExtractedVideo } from '@/lib/creator-feed';
+import type {
+  DatasetValidation,
+  ExportOptions,
+  TrainingDataset
+} from '@/lib/transcription/training-data-exporter';
+import type {
+  GeminiUsage,
+  MarketingSegments,
+  PromptRef,
+  ScriptTemplate,
+  SegmentFramework,
+  SyntheticScript,
+  TranscriptionJobResult,
+  TranscriptionOptions,
+  TranscriptionResult,
+  UsageSummary,
+  VideoMetadata,
+  VideoProgressCallback
+} from '@/lib/transcription/types';
+
+/**
+ * Google Drive folder holding a creator's extraction metadata
+ */
+export interface CreatorDriveFolder {
+  folderId: string;
+  folderName: string;
+  metadataFileId?: string;
+  folderUrl: string;
+}
+
+export interface CreatorExtractionInput {
+  username: string;
+  platform: string;
+  videoCount?: number; // Number of videos to extract (10-100)
+  maxId?: string; // For pagination continuation
+  parentRunId?: string; // Set when run as part of a pipeline run
+}
+
+export interface CreatorExtractionResult {
+  runId?: string;
+  platform: string;
+  username: string;
+  pagination: {
+    hasMore: boolean;
+    maxId?: string;
+    totalRequested: number;
+    totalExtracted: number;
+  };
+  extractedVideos: ExtractedVideo[];
+  errors: Array<{ videoId: string; error: string }>; // Selected videos left out without a playable URL
+  googleDrive?: CreatorDriveFolder;
+}
+
+export interface VideoTranscriptionInput {
+  videos: VideoMetadata[];
+  options?: TranscriptionOptions;
+  parentRunId?: string;
+  onProgress?: VideoProgressCallback;
+}
+
+export interface VideoTranscriptionResult {
+  runId?: string;
+  mode: 'fast' | 'standard';
+  result: TranscriptionJobResult;
+  googleDrive: any;
+}
+
+export interface TemplateGenerationInput {
+  marketingSegments: MarketingSegments;
+  segmentFramework?: string | SegmentFramework; // The framework the segments follow; defaults to Hook/Bridge/Golden Nugget/WTA
+  sourceVideoId?: string;
+  parentRunId?: string;
+}
+
+export interface TemplateGenerationResult {
+  runId?: string;
+  success: boolean;
+  template?: ScriptTemplate;
+  error?: string;
+  processingTime: number;
+  usage?: UsageSummary;
+  prompt?: PromptRef;
+}
+
+export interface BatchTemplateGenerationOptions {
+  maxTemplates?: number;
+  parentRunId?: string;
+}
+
+export interface BatchTemplateGenerationResult {
+  templates: ScriptTemplate[];
+  errors: Array<{ videoId: string; error: string }>;
+  usage: UsageSummary;
+  prompt?: PromptRef; // Prompt version the templates were generated with
+}
+
+export interface ScriptGenerationInput {
+  topic: string;
+  template: ScriptTemplate;
+  parentRunId?: string;
+}
+
+export interface ScriptGenerationResult {
+  runId?: string;
+  success: boolean;
+  topic: string;
+  script?: MarketingSegments;
+  error?: string;
+  processingTime: number;
+  usage?: GeminiUsage;
+  prompt?: PromptRef;
+}
+
+export interface DatasetExportInput {
+  transcriptionResults: TranscriptionResult[];
+  templates: ScriptTemplate[];
+  syntheticScripts?: SyntheticScript[];
+  options?: ExportOptions;
+  parentRunId?: string;
+}
+
+export interface DatasetExportResult {
+  runId?: string;
+  dataset: TrainingDataset;
+  validation: DatasetValidation;
+  datasetsByLanguage?: Record<string, TrainingDataset>; // With options.groupByLanguage
+}
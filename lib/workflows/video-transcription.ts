@@ -0,0 +1,79 @@
+import { TranscriptionService } from '@/lib/transcription/transcription-service';
+import { saveTranscriptionResults } from '@/lib/transcription/result-storage';
+import { completeTranscriptionRun, withJobStore } from '@/lib/job-store';
+import { requireGeminiApiKey, requireSegmentFramework, WorkflowError } from './errors';
+import { VideoTranscriptionInput, VideoTranscriptionResult } from './types';
+
+/**
+ * Download and transcribe a batch of videos, save the results to Google Drive
+ * and record the transcription run. Fast mode skips marketing analysis.
+ */
+export async function transcribeVideos(input: VideoTranscriptionInput): Promise<VideoTranscriptionResult> {
+  const { videos, parentRunId, onProgress } = input;
+  let options = input.options || {};
+
+  const isFastMode = options.fastMode === true;
+  console.log(`[VideoTranscription] Processing mode: ${isFastMode ? 'FAST' : 'STANDARD'}`);
+
+  // Validate request
+  const validation = TranscriptionService.validateRequest({ videos, options });
+  if (!validation.valid) {
+    console.error('[VideoTranscription] Request validation failed:', validation.errors);
+    throw new WorkflowError('Invalid request', 400, validation.errors);
+  }
+
+  // Resolve saved framework ids once so every video is analyzed with the same definition
+  if (options.segmentFramework) {
+    options = { ...options, segmentFramework: await requireSegmentFramework(options.segmentFramework) };
+  }
+
+  requireGeminiApiKey();
+
+  const run = await withJobStore('create transcription run', store => store.createRun({
+    type: 'transcription',
+    parentRunId,
+    input: { source: 'videos', videos, options }
+  }));
+  const runId = run?.id;
+
+  try {
+    const transcriptionService = new TranscriptionService();
+
+    console.log(`[VideoTranscription] Starting ${isFastMode ? 'FAST' : 'standard'} transcription for ${videos.length} videos`);
+
+    const result = isFastMode
+      ? await transcriptionService.transcribeVideosFast(videos, options, onProgress)
+      : await transcriptionService.processTranscriptionRequest({ videos, options }, onProgress);
+
+    // Save results to Google Drive if any transcriptions were successful
+    let driveResults = null;
+    if (result.success && result.results.some(r => r.success)) {
+      try {
+        console.log('[VideoTranscription] Saving results to Google Drive');
+        driveResults = await saveTranscriptionResults(result, options);
+        console.log('[VideoTranscription] Successfully saved to Google Drive:', driveResults);
+      } catch (driveError) {
+        console.error('[VideoTranscription] Failed to save to Google Drive:', driveError);
+        // Don't fail the entire request if Google Drive upload fails
+      }
+    }
+
+    if (runId) {
+      await completeTranscriptionRun(runId, result, { googleDrive: driveResults });
+    }
+
+    return {
+      runId,
+      mode: isFastMode ? 'fast' : 'standard',
+      result,
+      googleDrive: driveResults
+    };
+  } catch (error) {
+    if (runId) {
+      await withJobStore('record failed transcription run', store =>
+        store.updateRun(runId, { status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' })
+      );
+    }
+    throw error;
+  }
+}